@@ -1,10 +1,28 @@
 import React, { useState, useRef, useMemo, useCallback, useEffect } from 'react';
 import ControlsPanel from './components/ControlsPanel';
 import PreviewDisplay from './components/PreviewDisplay';
-import { WandIcon, UndoIcon, RedoIcon, ResetIcon } from './components/icons';
+import BatchPanel from './components/BatchPanel';
+import ProjectLibraryPanel from './components/ProjectLibraryPanel';
+import PromptPanel from './components/PromptPanel';
+import PrintExportPanel from './components/PrintExportPanel';
+import EngravingExportPanel from './components/EngravingExportPanel';
+import WrapTemplatePanel from './components/WrapTemplatePanel';
+import SeparationExportPanel from './components/SeparationExportPanel';
+import EmbroideryExportPanel from './components/EmbroideryExportPanel';
+import { WandIcon, UndoIcon, RedoIcon, ResetIcon, BatchIcon, LibraryIcon, LinkIcon } from './components/icons';
 import type { DesignOptions, ImageMode, TshirtFont } from './types';
-import { generateMockup as generateMockupFromApi } from './services/geminiService';
-import { generateCombinedSvg, generateCombinedPng, generateEngravingSvg, generateTextOnlySvg, generateTextOnlyPng } from './services/svgService';
+import { generateMockup as generateMockupFromApi, hasSceneForDesign, MockupPrompts, SceneMode } from './services/geminiService';
+import { getActiveImageProviderId } from './services/imageProvider';
+import { addMockupsToProject, Project } from './services/projectLibrary';
+import { createDesignBundle, parseDesignBundle, getBundleFileName } from './services/designBundle';
+import { encodeDesignToHash, decodeDesignFromHash } from './services/shareLink';
+import { sanitizeDesignOptions } from './services/designSchema';
+import { generateCombinedSvg, generateDesignPng, generateEngravingSvg, generateTextOnlySvg, generateTextOnlyPng, generateWrapTemplateSvg, generateSeparationSvg, generateSeparationFilms, separateDesign, digitizeDesign } from './services/svgService';
+import { getLaserSettingsJson } from './services/printSpecs';
+import type { EngravingSettings, PrintSettings } from './services/printSpecs';
+import type { WrapSettings } from './services/wrapTemplates';
+import type { SeparationSettings } from './services/colorSeparation';
+import { encodeDst, encodeExp, EmbroiderySettings, StitchFileFormat } from './services/embroidery';
 import { LanguageContext, useTranslation, Language } from './hooks/useTranslation';
 import { en } from './i18n/en';
 // FIX: Statically import the 'ar' translations to resolve the "Cannot find name 'require'" error, which is not available in a browser environment.
@@ -58,6 +76,7 @@ const initialDesignState: DesignOptions = {
     artisticFilter: 'none',
     designPlacement: 'center',
     productTexture: 'none',
+    printMethod: 'dtg',
     bagMaterial: 'canvas',
     frameStyle: 'classic_ornate',
     frameModel: 'elegant_woman_street',
@@ -92,12 +111,21 @@ const initialDesignState: DesignOptions = {
     puzzleSetting: 'on_wooden_table',
     laptopSleeveStyle: 'neoprene',
     laptopSleeveSetting: 'on_desk_modern',
+    engravingMaterial: 'wood',
 };
 
+const readBlobAsDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
 const AppContent: React.FC = () => {
   const { t, language, setLanguage } = useTranslation();
   
-  const [history, setHistory] = useState<DesignOptions[]>([initialDesignState]);
+  // A shared link in the URL hash takes precedence over the default design.
+  const [history, setHistory] = useState<DesignOptions[]>(() => [decodeDesignFromHash(window.location.hash, initialDesignState) ?? initialDesignState]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
   const design = history[historyIndex];
@@ -116,6 +144,10 @@ const AppContent: React.FC = () => {
     setHistoryIndex(newHistory.length - 1);
   };
 
+  // For listeners registered once, which would otherwise keep the first render's history.
+  const setDesignRef = useRef(setDesign);
+  setDesignRef.current = setDesign;
+
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
 
@@ -137,12 +169,32 @@ const AppContent: React.FC = () => {
   }, []);
 
 
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState(0);
+  const [variantCount, setVariantCount] = useState(1);
+  const generatedImage = generatedImages[selectedVariantIndex] ?? null;
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [imageMode, setImageMode] = useState<ImageMode>('fit_blur');
   const [isPreviewExpanded, setIsPreviewExpanded] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [isPromptOpen, setIsPromptOpen] = useState(false);
+  const [isPrintExportOpen, setIsPrintExportOpen] = useState(false);
+  const [isEngravingExportOpen, setIsEngravingExportOpen] = useState(false);
+  const [isWrapExportOpen, setIsWrapExportOpen] = useState(false);
+  const [isSeparationExportOpen, setIsSeparationExportOpen] = useState(false);
+  const [isEmbroideryExportOpen, setIsEmbroideryExportOpen] = useState(false);
+  const [promptOverrides, setPromptOverrides] = useState<Partial<MockupPrompts>>({});
+  const [lastPrompts, setLastPrompts] = useState<MockupPrompts | null>(null);
+  // Bumped after every generation so `hasScene` picks up the updated scene cache.
+  const [sceneCacheVersion, setSceneCacheVersion] = useState(0);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const logoFileRef = useRef<File | null>(null);
+  // The user's own photo of the blank product, used instead of a generated scene.
+  const [baseImageFile, setBaseImageFile] = useState<File | null>(null);
+  const [baseImagePreview, setBaseImagePreview] = useState<string | null>(null);
 
   useEffect(() => {
     // When switching to Arabic, if the font is still the English default,
@@ -153,6 +205,25 @@ const AppContent: React.FC = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [language]);
 
+  useEffect(() => {
+    // Keep the URL hash in sync with the design so the address bar is always a shareable link.
+    const hash = encodeDesignToHash(design, initialDesignState);
+    const url = hash ? `#${hash}` : window.location.pathname + window.location.search;
+    window.history.replaceState(null, '', url);
+  }, [design]);
+
+  useEffect(() => {
+    // Load a link pasted into the address bar of an already open tab.
+    const handleHashChange = () => {
+      const linkedDesign = decodeDesignFromHash(window.location.hash, initialDesignState);
+      if (linkedDesign) {
+        setDesignRef.current(d => ({ ...linkedDesign, logo: d.logo }));
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
   useEffect(() => {
     // Initialize with sample logo
     const initializeSampleLogo = async () => {
@@ -196,23 +267,63 @@ const AppContent: React.FC = () => {
     }
   };
 
-  const handleGenerate = async () => {
+  const handleBaseImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setError(t('errorUnsupportedPhotoType'));
+      return;
+    }
+    if (file.size > 10 * 1024 * 1024) { // 10MB
+      setError(t('errorFileSizeExceeds'));
+      return;
+    }
+    try {
+      setBaseImagePreview(await readBlobAsDataUrl(file));
+      setBaseImageFile(file);
+      setError(null);
+    } catch {
+      setError(t('errorCouldNotReadFile'));
+    }
+  };
+
+  const removeBaseImage = () => {
+    setBaseImageFile(null);
+    setBaseImagePreview(null);
+  };
+
+  const hasScene = useMemo(
+    () => !baseImageFile && hasSceneForDesign(design, promptOverrides),
+    [design, promptOverrides, sceneCacheVersion, baseImageFile]
+  );
+
+  const handleGenerate = async (sceneMode: SceneMode = 'reuse') => {
     if (!logoFileRef.current) {
       setError(t('errorNoLogo'));
       return;
     }
     setIsLoading(true);
     setError(null);
-    setGeneratedImage(null);
+    setGeneratedImages([]);
+    setSelectedVariantIndex(0);
     try {
-      const imageB64 = await generateMockupFromApi(logoFileRef.current, design);
-      setGeneratedImage(imageB64);
+      const { images: variants, prompts } = await generateMockupFromApi(logoFileRef.current, design, { variantCount, promptOverrides, sceneMode, baseImage: baseImageFile });
+      setGeneratedImages(variants);
+      setLastPrompts(prompts);
+      if (currentProject) {
+        // Every mockup produced while a project is open is kept in the library.
+        addMockupsToProject(currentProject.id, variants, design, prompts)
+          .then(setCurrentProject)
+          .catch(e => console.error('Failed to save mockups to the project library:', e));
+      }
       // setIsPreviewExpanded(true); // Removed as per user request
     } catch (e: any) {
       console.error(e);
       setError(e.message || 'An unknown error occurred.');
     } finally {
       setIsLoading(false);
+      setSceneCacheVersion(v => v + 1);
     }
   };
 
@@ -224,6 +335,26 @@ const AppContent: React.FC = () => {
     link.click();
     document.body.removeChild(link);
   };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadFile(url, filename);
+    URL.revokeObjectURL(url);
+  };
+
+  // The print, engraving and other production exports lay out the design around
+  // the logo. Failures are shown as the app error.
+  const runDesignExport = async (createFile: () => Promise<Blob>, filename: string) => {
+    if (!design.logo) {
+      setError(t('errorNoLogo'));
+      return;
+    }
+    try {
+      downloadBlob(await createFile(), filename);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
   
   const onDownloadLogoPng = () => {
     if (!design.logo) {
@@ -244,10 +375,7 @@ const AppContent: React.FC = () => {
     }
     try {
       const svgString = await generateTextOnlySvg(design);
-      const svgBlob = new Blob([svgString], { type: 'image/svg+xml' });
-      const url = URL.createObjectURL(svgBlob);
-      downloadFile(url, 'text_design.svg');
-      URL.revokeObjectURL(url);
+      downloadBlob(new Blob([svgString], { type: 'image/svg+xml' }), 'text_design.svg');
     } catch(e: any) {
       setError(e.message);
     }
@@ -270,49 +398,36 @@ const AppContent: React.FC = () => {
     }
   };
   
-  const onDownloadCombinedSvg = async () => {
-     if (!design.logo) {
-      setError(t('errorNoLogo'));
-      return;
-    }
-    try {
-      const svgString = await generateCombinedSvg(design);
-      const svgBlob = new Blob([svgString], { type: 'image/svg+xml' });
-      const url = URL.createObjectURL(svgBlob);
-      downloadFile(url, 'combined_design.svg');
-      URL.revokeObjectURL(url);
-    } catch(e: any) {
-      setError(e.message);
-    }
-  };
+  const onDownloadCombinedSvg = (settings: PrintSettings) =>
+    runDesignExport(async () => new Blob([await generateCombinedSvg(design, settings)], { type: 'image/svg+xml' }), 'combined_design.svg');
 
-  const onDownloadCombinedPng = async () => {
-    if (!design.logo) {
-      setError(t('errorNoLogo'));
-      return;
-    }
-    try {
-      const pngDataUrl = await generateCombinedPng(design);
-      downloadFile(pngDataUrl, 'combined_design.png');
-    } catch(e: any) {
-      setError(e.message);
-    }
-  };
+  const onDownloadCombinedPng = (settings: PrintSettings) =>
+    runDesignExport(() => generateDesignPng(design, settings), `combined_design_${settings.dpi}dpi.png`);
 
-  const onDownloadEngravingSvg = async () => {
-    if (!design.logo) {
-      setError(t('errorNoLogo'));
-      return;
-    }
-    try {
-      const svgString = await generateEngravingSvg(design);
-      const svgBlob = new Blob([svgString], { type: 'image/svg+xml' });
-      const url = URL.createObjectURL(svgBlob);
-      downloadFile(url, 'engraving_design.svg');
-      URL.revokeObjectURL(url);
-    } catch(e: any) {
-      setError(e.message);
-    }
+  const onDownloadEngravingSvg = (settings: EngravingSettings) =>
+    runDesignExport(async () => new Blob([await generateEngravingSvg(design, settings)], { type: 'image/svg+xml' }), 'engraving_design.svg');
+
+  const onDownloadWrapTemplate = (settings: WrapSettings) =>
+    runDesignExport(async () => new Blob([await generateWrapTemplateSvg(design, settings)], { type: 'image/svg+xml' }), `wrap_template_${settings.templateId}.svg`);
+
+  const onDownloadSeparationSvg = (settings: SeparationSettings) =>
+    runDesignExport(async () => {
+      const separation = await separateDesign(design, settings);
+      return new Blob([generateSeparationSvg(design, separation, settings)], { type: 'image/svg+xml' });
+    }, 'separations.svg');
+
+  const onDownloadSeparationFilms = (settings: SeparationSettings) =>
+    runDesignExport(async () => generateSeparationFilms(design, await separateDesign(design, settings), settings), `separations_${settings.dpi}dpi.zip`);
+
+  const onDownloadEmbroidery = (settings: EmbroiderySettings, format: StitchFileFormat) =>
+    runDesignExport(async () => {
+      const pattern = await digitizeDesign(design, settings);
+      const bytes = format === 'dst' ? encodeDst(pattern, 'embroidery') : encodeExp(pattern);
+      return new Blob([bytes], { type: 'application/octet-stream' });
+    }, `embroidery.${format}`);
+
+  const onDownloadLaserSettings = (settings: EngravingSettings) => {
+    downloadBlob(new Blob([getLaserSettingsJson(design.engravingMaterial, settings)], { type: 'application/json' }), 'engraving_design.laser.json');
   };
   
   const onDownloadMockupPng = () => {
@@ -323,6 +438,15 @@ const AppContent: React.FC = () => {
     downloadFile(`data:image/png;base64,${generatedImage}`, 'mockup.png');
   };
 
+  const onDownloadVariantPng = (index: number) => {
+    const variant = generatedImages[index];
+    if (!variant) {
+      setError(t('errorNoMockupToDownload'));
+      return;
+    }
+    downloadFile(`data:image/png;base64,${variant}`, `mockup_variant_${index + 1}.png`);
+  };
+
   const onDownloadMockupJpg = () => {
     if (!generatedImage) {
       setError(t('errorNoMockupToDownload'));
@@ -346,6 +470,69 @@ const AppContent: React.FC = () => {
     };
   };
 
+  const onDownloadBatchZip = (zip: Blob) => {
+    downloadBlob(zip, 'mockups_batch.zip');
+  };
+
+  // Replaces the whole editor state with a design loaded from the library or a design file.
+  const loadDesign = (loadedDesign: DesignOptions, logoFile: File | null, mockups: string[], prompts: MockupPrompts | null = null) => {
+    logoFileRef.current = logoFile;
+    setHistory([loadedDesign]);
+    setHistoryIndex(0);
+    setGeneratedImages(mockups);
+    setLastPrompts(prompts);
+    setSelectedVariantIndex(0);
+    setError(null);
+  };
+
+  const handleOpenProject = async (project: Project) => {
+    try {
+      const logo = project.logo ? await readBlobAsDataUrl(project.logo) : null;
+      const logoFile = project.logo
+        ? new File([project.logo], project.logoName || 'logo', { type: project.logo.type })
+        : null;
+      // Projects saved by older builds lack the fields added since; they take the defaults.
+      const { design: savedDesign } = sanitizeDesignOptions(project.design, initialDesignState);
+      const latestMockup = project.mockups[project.mockups.length - 1];
+      loadDesign({ ...savedDesign, logo }, logoFile, latestMockup ? [latestMockup.image] : [], latestMockup?.prompts ?? null);
+      setCurrentProject(project);
+      setIsLibraryOpen(false);
+    } catch (e: any) {
+      console.error(e);
+      setError(t('errorCouldNotReadFile'));
+    }
+  };
+
+  const handleExportBundle = async (includeMockups: boolean) => {
+    const json = await createDesignBundle(design, logoFileRef.current, includeMockups ? generatedImages : []);
+    downloadBlob(new Blob([json], { type: 'application/json' }), getBundleFileName(design));
+  };
+
+  // Returns the import warnings so the library panel can show them; structural errors throw.
+  const handleImportBundle = async (file: File): Promise<string[]> => {
+    const { design: importedDesign, logoFile, mockups, warnings } = await parseDesignBundle(await file.text(), initialDesignState);
+    loadDesign(importedDesign, logoFile, mockups.map(mockup => mockup.image));
+    setCurrentProject(null);
+    return warnings;
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (currentProject?.id === id) {
+      setCurrentProject(null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (e) {
+      console.error('Failed to copy the link:', e);
+      setError(t('errorCopyLink'));
+    }
+  };
+
   const onExitPreview = () => setIsPreviewExpanded(false);
 
   return (
@@ -358,6 +545,16 @@ const AppContent: React.FC = () => {
               <h1 className="text-xl font-bold">{t('headerTitle')}</h1>
               <p className="text-xs text-gray-400">{t('headerSubtitle')}</p>
             </div>
+            {getActiveImageProviderId() === 'local' && (
+              <span className="text-xs font-medium text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-full px-2 py-0.5">
+                {t('offlineProviderBadge')}
+              </span>
+            )}
+            {currentProject && (
+              <span className="text-xs font-medium text-indigo-300 bg-indigo-500/10 border border-indigo-500/30 rounded-full px-2 py-0.5 truncate max-w-[12rem]" title={currentProject.name}>
+                {t('libraryCurrentProject').replace('{name}', currentProject.name)}
+              </span>
+            )}
           </div>
 
           <div className="flex items-center gap-4">
@@ -371,6 +568,15 @@ const AppContent: React.FC = () => {
               <button onClick={handleReset} title={t('reset')} aria-label={t('reset')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
                   <ResetIcon className="w-5 h-5" />
               </button>
+              <button onClick={() => setIsBatchOpen(true)} title={t('batchButton')} aria-label={t('batchButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+                  <BatchIcon className="w-5 h-5" />
+              </button>
+              <button onClick={handleCopyLink} title={isLinkCopied ? t('linkCopied') : t('copyLink')} aria-label={t('copyLink')} className={`p-2 rounded-md transition-colors ${isLinkCopied ? 'bg-green-600' : 'bg-gray-700/50 hover:bg-gray-700'}`}>
+                  <LinkIcon className="w-5 h-5" />
+              </button>
+              <button onClick={() => setIsLibraryOpen(true)} title={t('libraryButton')} aria-label={t('libraryButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+                  <LibraryIcon className="w-5 h-5" />
+              </button>
             </div>
 
             <button
@@ -394,18 +600,33 @@ const AppContent: React.FC = () => {
             handleLogoChange={handleLogoChange}
             imageMode={imageMode}
             setImageMode={setImageMode}
+            variantCount={variantCount}
+            setVariantCount={setVariantCount}
+            onShowPrompt={() => setIsPromptOpen(true)}
+            hasPromptOverride={Object.keys(promptOverrides).length > 0}
+            hasScene={hasScene}
+            baseImage={baseImagePreview}
+            defaultFont={initialDesignState.font}
+            onBaseImageChange={handleBaseImageChange}
+            onRemoveBaseImage={removeBaseImage}
           />
           <PreviewDisplay 
             generatedImage={generatedImage} 
             isLoading={isLoading} 
             error={error}
             productType={design.productType}
-            onDownloadCombinedSvg={onDownloadCombinedSvg}
-            onDownloadCombinedPng={onDownloadCombinedPng}
-            onDownloadEngravingSvg={onDownloadEngravingSvg}
+            onOpenPrintExport={() => setIsPrintExportOpen(true)}
+            onOpenEngravingExport={() => setIsEngravingExportOpen(true)}
+            onOpenWrapExport={() => setIsWrapExportOpen(true)}
+            onOpenSeparationExport={() => setIsSeparationExportOpen(true)}
+            onOpenEmbroideryExport={() => setIsEmbroideryExportOpen(true)}
             onDownloadMockupPng={onDownloadMockupPng}
             onDownloadMockupJpg={onDownloadMockupJpg}
             imageMode={imageMode}
+            variants={generatedImages}
+            selectedVariantIndex={selectedVariantIndex}
+            onSelectVariant={setSelectedVariantIndex}
+            onDownloadVariant={onDownloadVariantPng}
             isPreviewExpanded={false}
             onExitPreview={() => {}}
             onExpandPreview={() => setIsPreviewExpanded(true)}
@@ -422,17 +643,93 @@ const AppContent: React.FC = () => {
               isLoading={isLoading} 
               error={error}
               productType={design.productType}
-              onDownloadCombinedSvg={onDownloadCombinedSvg}
-              onDownloadCombinedPng={onDownloadCombinedPng}
-              onDownloadEngravingSvg={onDownloadEngravingSvg}
+              onOpenPrintExport={() => setIsPrintExportOpen(true)}
+              onOpenEngravingExport={() => setIsEngravingExportOpen(true)}
+              onOpenWrapExport={() => setIsWrapExportOpen(true)}
+              onOpenSeparationExport={() => setIsSeparationExportOpen(true)}
+              onOpenEmbroideryExport={() => setIsEmbroideryExportOpen(true)}
               onDownloadMockupPng={onDownloadMockupPng}
               onDownloadMockupJpg={onDownloadMockupJpg}
               imageMode={'fit'}
+              variants={generatedImages}
+              selectedVariantIndex={selectedVariantIndex}
+              onSelectVariant={setSelectedVariantIndex}
+              onDownloadVariant={onDownloadVariantPng}
               isPreviewExpanded={isPreviewExpanded}
               onExitPreview={onExitPreview}
             />
           </div>
         </div>
+
+      <BatchPanel
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        design={design}
+        logoFile={logoFileRef.current}
+        onDownloadZip={onDownloadBatchZip}
+      />
+
+      <PromptPanel
+        isOpen={isPromptOpen}
+        onClose={() => setIsPromptOpen(false)}
+        design={design}
+        overrides={promptOverrides}
+        setOverrides={setPromptOverrides}
+        lastPrompts={lastPrompts}
+        usesOwnPhoto={!!baseImageFile}
+      />
+
+      <PrintExportPanel
+        isOpen={isPrintExportOpen}
+        onClose={() => setIsPrintExportOpen(false)}
+        design={design}
+        onDownloadSvg={onDownloadCombinedSvg}
+        onDownloadPng={onDownloadCombinedPng}
+      />
+
+      <EngravingExportPanel
+        isOpen={isEngravingExportOpen}
+        onClose={() => setIsEngravingExportOpen(false)}
+        design={design}
+        onDownload={onDownloadEngravingSvg}
+        onDownloadLaserSettings={onDownloadLaserSettings}
+      />
+
+      <WrapTemplatePanel
+        isOpen={isWrapExportOpen}
+        onClose={() => setIsWrapExportOpen(false)}
+        design={design}
+        onDownload={onDownloadWrapTemplate}
+      />
+
+      <SeparationExportPanel
+        isOpen={isSeparationExportOpen}
+        onClose={() => setIsSeparationExportOpen(false)}
+        design={design}
+        onDownloadSvg={onDownloadSeparationSvg}
+        onDownloadFilms={onDownloadSeparationFilms}
+      />
+
+      <EmbroideryExportPanel
+        isOpen={isEmbroideryExportOpen}
+        onClose={() => setIsEmbroideryExportOpen(false)}
+        design={design}
+        onDownload={onDownloadEmbroidery}
+      />
+
+      <ProjectLibraryPanel
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        design={design}
+        logoFile={logoFileRef.current}
+        currentProject={currentProject}
+        onProjectSaved={setCurrentProject}
+        onOpenProject={handleOpenProject}
+        onProjectDeleted={handleProjectDeleted}
+        hasMockups={generatedImages.length > 0}
+        onExportBundle={handleExportBundle}
+        onImportBundle={handleImportBundle}
+      />
     </div>
   );
 };
@@ -0,0 +1,227 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import type { DesignOptions, ModelPose, ProductType } from '../types';
+import { PRODUCT_TYPES, PRODUCT_COLORS, MODEL_POSES } from '../constants';
+import { buildBatchJobs, runBatch, createBatchZip, POSED_PRODUCTS, BatchJob, BatchJobStatus } from '../services/batchService';
+import { CheckIcon, CloseIcon, DownloadIcon, WandIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  logoFile: File | null;
+  onDownloadZip: (zip: Blob) => void;
+}
+
+const STATUS_CLASSES: Record<BatchJobStatus, string> = {
+  pending: 'bg-gray-600 text-gray-200',
+  running: 'bg-indigo-600 text-white animate-pulse',
+  done: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white',
+  cancelled: 'bg-yellow-600 text-white',
+};
+
+// Helper to decide if the checkmark should be black or white
+const getContrastColor = (hex: string): 'white' | 'black' => {
+  let cleanHex = hex.startsWith('#') ? hex.slice(1) : hex;
+  if (cleanHex.length === 3) {
+    cleanHex = cleanHex.split('').map(char => char + char).join('');
+  }
+  if (cleanHex.length !== 6) return 'white';
+
+  const r = parseInt(cleanHex.substring(0, 2), 16);
+  const g = parseInt(cleanHex.substring(2, 4), 16);
+  const b = parseInt(cleanHex.substring(4, 6), 16);
+
+  const brightness = (r * 299 + g * 587 + b * 114) / 1000;
+  return brightness > 128 ? 'black' : 'white';
+};
+
+const toggle = <T,>(list: T[], value: T): T[] => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, onClose, design, logoFile, onDownloadZip }) => {
+  const { t } = useTranslation();
+  const [productTypes, setProductTypes] = useState<ProductType[]>([design.productType]);
+  const [colors, setColors] = useState<string[]>([design.productColor]);
+  const [poses, setPoses] = useState<ModelPose[]>([design.pose]);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Each time the panel opens, the batch starts from the design as it is now.
+  useEffect(() => {
+    if (isOpen) {
+      setProductTypes([design.productType]);
+      setColors([design.productColor]);
+      setPoses([design.pose]);
+    }
+  }, [isOpen]);
+
+  const plannedJobs = useMemo(() => buildBatchJobs(design, { productTypes, colors, poses }), [design, productTypes, colors, poses]);
+  const showPoses = productTypes.some(type => POSED_PRODUCTS.includes(type));
+  const finishedCount = jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled').length;
+  const succeededCount = jobs.filter(job => job.status === 'done').length;
+
+  const handleStart = async () => {
+    if (!logoFile || plannedJobs.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setJobs(plannedJobs);
+    try {
+      await runBatch(plannedJobs, logoFile, setJobs, controller.signal);
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleClose = () => {
+    if (isRunning) return;
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="batch-title">
+      <div className="w-full max-w-5xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="batch-title" className="text-2xl font-bold text-white">{t('batchTitle')}</h2>
+          <button onClick={handleClose} disabled={isRunning} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <fieldset disabled={isRunning} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Product Types */}
+          <div>
+            <h3 className="block text-sm font-medium text-gray-300 mb-2">{t('batchProductsLabel')}</h3>
+            <div className="max-h-64 overflow-y-auto space-y-1 pr-2">
+              {PRODUCT_TYPES.map(type => (
+                <label key={type.id} className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={productTypes.includes(type.id)}
+                    onChange={() => setProductTypes(list => toggle(list, type.id))}
+                    className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+                  />
+                  {t(type.nameKey as keyof typeof import('../i18n/en').en)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Colors */}
+          <div>
+            <h3 className="block text-sm font-medium text-gray-300 mb-2">{t('batchColorsLabel')}</h3>
+            <div role="group" aria-label={t('batchColorsLabel')} className="flex flex-wrap gap-2">
+              {PRODUCT_COLORS.map(color => {
+                const isSelected = colors.includes(color.value);
+                return (
+                  <button
+                    key={color.name}
+                    type="button"
+                    aria-pressed={isSelected}
+                    aria-label={color.name}
+                    title={color.name}
+                    onClick={() => setColors(list => toggle(list, color.value))}
+                    className={`w-7 h-7 rounded-full border-2 flex items-center justify-center transition-transform transform hover:scale-110 ${isSelected ? 'ring-2 ring-offset-2 ring-indigo-400 ring-offset-gray-800' : 'border-gray-600'}`}
+                    style={{ backgroundColor: color.value }}
+                  >
+                    {isSelected && <CheckIcon className="w-4 h-4" style={{ color: getContrastColor(color.value) }} />}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Poses */}
+          <div>
+            <h3 className="block text-sm font-medium text-gray-300 mb-2">{t('batchPosesLabel')}</h3>
+            {showPoses ? (
+              <div className="max-h-64 overflow-y-auto space-y-1 pr-2">
+                {MODEL_POSES.map(pose => (
+                  <label key={pose.id} className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={poses.includes(pose.id)}
+                      onChange={() => setPoses(list => toggle(list, pose.id))}
+                      className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+                    />
+                    {t(pose.nameKey as keyof typeof import('../i18n/en').en)}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">{t('batchPosesNotApplicable')}</p>
+            )}
+          </div>
+        </fieldset>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-300">{t('batchJobCount').replace('{count}', String(plannedJobs.length))}</span>
+          <div className="flex-grow" />
+          {isRunning ? (
+            <button onClick={handleCancel} className="flex items-center gap-2 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+              {t('batchCancelButton')}
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={!logoFile || plannedJobs.length === 0}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              <WandIcon className="w-5 h-5" />
+              {t('batchStartButton')}
+            </button>
+          )}
+          <button
+            onClick={() => onDownloadZip(createBatchZip(jobs))}
+            disabled={isRunning || succeededCount === 0}
+            className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            {t('batchDownloadZip')}
+          </button>
+        </div>
+        {!logoFile && <p className="text-xs text-yellow-400">{t('uploadLogoWarning')}</p>}
+
+        {/* Progress */}
+        {jobs.length > 0 && (
+          <div className="space-y-3">
+            <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={jobs.length} aria-valuenow={finishedCount}>
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(finishedCount / jobs.length) * 100}%` }} />
+            </div>
+            <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {jobs.map(job => (
+                <li key={job.id} className="bg-gray-900/50 rounded-md overflow-hidden">
+                  <div className="aspect-square bg-gray-900 flex items-center justify-center">
+                    {job.image ? (
+                      <img src={`data:image/png;base64,${job.image}`} alt={job.id} className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="text-xs text-gray-500 px-2 text-center">{job.error || t(`batchStatus_${job.status}` as keyof typeof import('../i18n/en').en)}</span>
+                    )}
+                  </div>
+                  <div className="p-2 flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-300 truncate" title={job.id}>{job.id}</span>
+                    <span className={`text-[10px] uppercase font-bold rounded px-1.5 py-0.5 ${STATUS_CLASSES[job.status]}`}>
+                      {t(`batchStatus_${job.status}` as keyof typeof import('../i18n/en').en)}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
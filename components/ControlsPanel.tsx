@@ -1,17 +1,34 @@
-import React, { useRef } from 'react';
-import type { DesignOptions, SetDesignOptions, TextStyle, ImageMode, DesignStyle, ModelPose, ModelAudience, TshirtFont, BagMaterial, WalletStyle, WalletModel, FrameStyle, FrameModel, FrameDimension, FrameTexture, MugStyle, MugModel, SipperGlassStyle, SipperGlassModel, TumblerStyle, TumblerModel, HalloweenTumblerStyle, HalloweenTumblerSetting, TumblerTrioStyle, TumblerTrioSetting, PhoneCaseStyle, PhoneCaseModel, StickerStyle, StickerSetting, PosterStyle, PosterSetting, CapStyle, CapModel, BeanieStyle, BeanieModel, PillowStyle, PillowSetting, FlatLayStyle, PuzzleStyle, PuzzleSetting, LaptopSleeveStyle, LaptopSleeveSetting, BackgroundStyle, ProductType, AspectRatio, ProfessionalBackground, ArtisticFilter, DesignPlacement, ProductTexture } from '../types';
-import { PRODUCT_COLORS, DESIGN_STYLES, MODEL_POSES, MODEL_AUDIENCES, TSHIRT_FONTS, PRODUCT_TYPES, BAG_MATERIALS, TEXT_STYLES, BACKGROUND_STYLES, PROFESSIONAL_BACKGROUNDS, FRAME_STYLES, FRAME_MODELS, FRAME_TEXTURES, FRAME_DIMENSIONS, MUG_STYLES, MUG_MODELS, SIPPER_GLASS_STYLES, SIPPER_GLASS_MODELS, TUMBLER_STYLES, TUMBLER_MODELS, HALLOWEEN_TUMBLER_STYLES, HALLOWEEN_TUMBLER_SETTINGS, TUMBLER_TRIO_STYLES, TUMBLER_TRIO_SETTINGS, PHONE_CASE_STYLES, PHONE_CASE_MODELS, STICKER_STYLES, STICKER_SETTINGS, POSTER_STYLES, POSTER_SETTINGS, WALLET_STYLES, WALLET_MODELS, CAP_STYLES, CAP_MODELS, BEANIE_STYLES, BEANIE_MODELS, PILLOW_STYLES, PILLOW_SETTINGS, FLAT_LAY_STYLES, PUZZLE_STYLES, PUZZLE_SETTINGS, LAPTOP_SLEEVE_STYLES, LAPTOP_SLEEVE_SETTINGS, WRITING_TEMPLATES, ARTISTIC_FILTERS, DESIGN_PLACEMENTS, PRODUCT_TEXTURES } from '../constants';
-import { UploadIcon, TrashIcon, WandIcon, FitIcon, FitBlurIcon, FitTransparentIcon, CropIcon, StretchIcon, AspectRatioSquareIcon, AspectRatioHorizontalIcon, AspectRatioVerticalIcon } from './icons';
+import React, { useRef, useState } from 'react';
+import type { DesignOptions, SetDesignOptions, TextStyle, ImageMode, PrintMethod, DesignStyle, ModelPose, ModelAudience, DesignFont, BackgroundStyle, ProductType, AspectRatio, ProfessionalBackground, ArtisticFilter, DesignPlacement, ProductTexture } from '../types';
+import { PRODUCT_COLORS, DESIGN_STYLES, MODEL_POSES, MODEL_AUDIENCES, TSHIRT_FONTS, PRODUCT_TYPES, TEXT_STYLES, BACKGROUND_STYLES, PROFESSIONAL_BACKGROUNDS, WRITING_TEMPLATES, ARTISTIC_FILTERS, DESIGN_PLACEMENTS, PRODUCT_TEXTURES, VARIANT_COUNTS } from '../constants';
+import { UploadIcon, TrashIcon, WandIcon, ResetIcon, FitIcon, FitBlurIcon, FitTransparentIcon, CropIcon, StretchIcon, AspectRatioSquareIcon, AspectRatioHorizontalIcon, AspectRatioVerticalIcon } from './icons';
 import { useTranslation } from '../hooks/useTranslation';
+import { PRODUCTS, getEffectivePrintMethod, getEffectiveTextStyle, hasSection } from '../services/productRegistry';
+import { getPrintMethod, isTextStyleAllowed } from '../services/printMethods';
+import { addCustomFont, CustomFontSummary, deleteCustomFont, ensureFontLoaded, isCustomFont, listCustomFonts, preloadCatalogFonts } from '../services/fontManager';
+import type { SceneMode } from '../services/geminiService';
 
 interface ControlsPanelProps {
   design: DesignOptions;
   setDesign: SetDesignOptions;
-  onGenerate: () => void;
+  // 'reuse' keeps the cached scene and only re-applies the design; 'new' shoots a new scene.
+  onGenerate: (sceneMode: SceneMode) => void;
   isLoading: boolean;
   handleLogoChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   imageMode: ImageMode;
   setImageMode: React.Dispatch<React.SetStateAction<ImageMode>>;
+  variantCount: number;
+  setVariantCount: (count: number) => void;
+  onShowPrompt: () => void;
+  hasPromptOverride: boolean;
+  // Whether a scene is cached for the current options, so the design can be re-applied to it.
+  hasScene: boolean;
+  // Data URL of the user's own product photo, when one replaces the generated scene.
+  baseImage: string | null;
+  onBaseImageChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onRemoveBaseImage: () => void;
+  // What the design falls back to when its uploaded font is removed.
+  defaultFont: DesignFont;
 }
 
 // Helper to decide if text should be black or white on a colored background
@@ -65,14 +82,70 @@ const getTextStylePreview = (styleId: TextStyle): React.CSSProperties => {
     }
 };
 
-const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGenerate, isLoading, handleLogoChange, imageMode, setImageMode }) => {
+const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGenerate, isLoading, handleLogoChange, imageMode, setImageMode, variantCount, setVariantCount, onShowPrompt, hasPromptOverride, hasScene, baseImage, onBaseImageChange, onRemoveBaseImage, defaultFont }) => {
   const { t } = useTranslation();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const baseImageInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  const [customFonts, setCustomFonts] = useState<CustomFontSummary[]>([]);
+  const [fontError, setFontError] = useState<string | null>(null);
+
+  const product = PRODUCTS[design.productType];
+  const printMethod = getEffectivePrintMethod(design);
+
+  React.useEffect(() => {
+    // Shows every option of the font and text style pickers in its own typeface.
+    preloadCatalogFonts();
+    listCustomFonts().then(setCustomFonts).catch(e => console.warn('Could not list the uploaded fonts.', e));
+  }, []);
+
+  React.useEffect(() => {
+    // Fonts can also be added by importing a design file.
+    if (!isCustomFont(design.font) || customFonts.some(font => font.id === design.font)) return;
+    listCustomFonts().then(setCustomFonts).catch(e => console.warn('Could not list the uploaded fonts.', e));
+  }, [design.font]);
+
+  React.useEffect(() => {
+    let isCurrent = true;
+    setFontError(null);
+    ensureFontLoaded(design.font).catch(e => {
+      console.error(e);
+      if (isCurrent) setFontError(t(isCustomFont(design.font) ? 'customFontMissingError' : 'fontUnavailableError'));
+    });
+    return () => { isCurrent = false; };
+  }, [design.font, t]);
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const font = await addCustomFont(file);
+      setCustomFonts(fonts => [...fonts, font]);
+      setDesign(d => ({ ...d, font: font.id }));
+    } catch (err: any) {
+      setFontError(err.message);
+    }
+  };
+
+  const removeCustomFont = async () => {
+    if (!isCustomFont(design.font)) return;
+    const id = design.font;
+    try {
+      await deleteCustomFont(id);
+      setCustomFonts(fonts => fonts.filter(font => font.id !== id));
+      setDesign(d => ({ ...d, font: defaultFont }));
+    } catch (err: any) {
+      setFontError(err.message);
+    }
+  };
 
   React.useEffect(() => {
-    // If we switch to a combo scene and the current pose is flat_lay, change it to 'standing'.
-    if ((design.productType === 'tshirt_teacup_scene' || design.productType === 'sweatshirt_mug_scene' || design.productType === 'hoodie_teacup_scene' || design.productType === 'sweatshirt_teacup_scene') && design.pose === 'flat_lay_simple') {
-      setDesign(d => ({ ...d, pose: 'standing' }));
+    // Scenes that always need a model can't use the flat-lay pose; switch to their fallback.
+    const { poseFallback } = PRODUCTS[design.productType];
+    if (poseFallback && design.pose === 'flat_lay_simple') {
+      setDesign(d => ({ ...d, pose: poseFallback }));
     }
   }, [design.productType, design.pose, setDesign]);
 
@@ -115,30 +188,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
     { id: '9:16', nameKey: 'aspectRatio_9_16', icon: AspectRatioVerticalIcon },
   ];
   
-  const getProductColorLabel = () => {
-    if (design.productType === 'tshirt_teacup_scene') {
-        return t('productColorLabel_tshirt_teacup_scene');
-    }
-    if (design.productType === 'sweatshirt_mug_scene') {
-        return t('productColorLabel_sweatshirt_mug_scene');
-    }
-    if (design.productType === 'hoodie_teacup_scene') {
-        return t('productColorLabel_hoodie_teacup_scene');
-    }
-    if (design.productType === 'sweatshirt_teacup_scene') {
-        return t('productColorLabel_sweatshirt_teacup_scene');
-    }
-    // FIX: Removed a stray backslash before the template literal backtick, which was causing a major parsing error.
-    const key = `productColorLabel_${design.productType}` as keyof typeof import('../i18n/en').en;
-    return t(key);
-  }
-
-  const productColorLabel = getProductColorLabel();
-  
-  const backgroundlessProducts: ProductType[] = ['flat_lay', 'jigsaw_puzzle', 'sticker', 'laser_engraving', 'halloween_tumbler', 'tumbler_trio', 'phone_case', 'poster', 'laptop_sleeve', 'wallet', 'cap', 'beanie'];
-  const proBackgroundProducts: ProductType[] = ['flat_lay', 'wallet', 'phone_case', 'sticker', 'jigsaw_puzzle', 'laptop_sleeve', 'cap', 'beanie', 'laser_engraving'];
-  const isTextProduct = design.productType !== 'frame' && design.productType !== 'mug' && design.productType !== 'sipper_glass' && design.productType !== 'jigsaw_puzzle';
-  const texturableProducts: ProductType[] = ['tshirt', 'sweatshirt', 'hoodie', 'bag', 'wallet', 'cap', 'beanie', 'pillow', 'phone_case', 'laptop_sleeve', 'flat_lay', 'tshirt_teacup_scene', 'sweatshirt_mug_scene', 'hoodie_teacup_scene', 'sweatshirt_teacup_scene'];
+  const productColorLabel = t(`productColorLabel_${design.productType}` as keyof typeof import('../i18n/en').en);
 
 
   return (
@@ -163,7 +213,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
       </div>
 
       {/* Background Style */}
-      {!backgroundlessProducts.includes(design.productType) && (
+      {hasSection(design.productType, 'backgroundStyle') && (
         <div>
             <label htmlFor="background-style" className="block text-sm font-medium text-gray-300">{t('backgroundStyleLabel')}</label>
             <select
@@ -182,7 +232,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
       )}
 
       {/* Professional Background */}
-      {proBackgroundProducts.includes(design.productType) && (
+      {hasSection(design.productType, 'professionalBackground') && (
         <div>
             <label htmlFor="professional-background" className="block text-sm font-medium text-gray-300">{t('professionalBackgroundLabel')}</label>
             <select
@@ -201,7 +251,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
       )}
 
       {/* Artistic Filter */}
-      {design.productType !== 'laser_engraving' && (
+      {hasSection(design.productType, 'artisticFilter') && (
         <div>
           <label htmlFor="artistic-filter" className="block text-sm font-medium text-gray-300">{t('artisticFilterLabel')}</label>
           <select
@@ -250,8 +300,34 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
         <input ref={fileInputRef} type="file" className="hidden" accept="image/png, image/jpeg" onChange={handleLogoChange} />
       </div>
 
+      {/* Own Product Photo */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">{t('productPhotoLabel')}</label>
+        <div className="mt-1 flex items-center justify-between p-3 border-2 border-dashed border-gray-600 rounded-md">
+            {baseImage ? (
+                <div className="flex items-center gap-4">
+                    <img src={baseImage} alt={t('productPhotoLabel')} className="h-12 w-12 object-cover rounded-md" />
+                    <span className="text-sm text-gray-400">{t('productPhotoInUse')}</span>
+                    <button onClick={onRemoveBaseImage} className="text-red-400 hover:text-red-300" aria-label={t('removeProductPhoto')} title={t('removeProductPhoto')}>
+                        <TrashIcon className="w-5 h-5" />
+                    </button>
+                </div>
+            ) : (
+                <button
+                    type="button"
+                    onClick={() => baseImageInputRef.current?.click()}
+                    className="flex flex-col items-center justify-center w-full text-gray-400 hover:text-indigo-400 transition-colors"
+                >
+                    <span className="font-medium">{t('uploadProductPhoto')}</span>
+                    <span className="text-xs">{t('productPhotoHint')}</span>
+                </button>
+            )}
+        </div>
+        <input ref={baseImageInputRef} type="file" className="hidden" accept="image/png, image/jpeg" onChange={onBaseImageChange} />
+      </div>
+
       {/* Text controls */}
-      {isTextProduct && (
+      {hasSection(design.productType, 'text') && (
         <>
             {/* Custom Text */}
             <div>
@@ -300,7 +376,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
               <select
                 id="font-family"
                 value={design.font}
-                onChange={(e) => setDesign(d => ({ ...d, font: e.target.value as TshirtFont }))}
+                onChange={(e) => setDesign(d => ({ ...d, font: e.target.value as DesignFont }))}
                 className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
               >
                 {TSHIRT_FONTS.map(font => (
@@ -308,7 +384,38 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
                     {font.name}
                   </option>
                 ))}
+                {customFonts.length > 0 && (
+                  <optgroup label={t('customFontsGroupLabel')}>
+                    {customFonts.map(font => (
+                      <option key={font.id} value={font.id} style={{ fontFamily: `'${font.name}', sans-serif`, fontSize: '1.2rem', backgroundColor: '#374151' }}>
+                        {font.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                {isCustomFont(design.font) && !customFonts.some(font => font.id === design.font) && (
+                  <option value={design.font} disabled>{t('customFontMissingOption')}</option>
+                )}
               </select>
+              <div className="mt-2 flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => fontInputRef.current?.click()}
+                  className="flex items-center gap-1 text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+                >
+                  <UploadIcon className="w-4 h-4" />
+                  {t('uploadFontButton')}
+                </button>
+                {isCustomFont(design.font) && (
+                  <button type="button" onClick={removeCustomFont} className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors">
+                    <TrashIcon className="w-4 h-4" />
+                    {t('removeCustomFontButton')}
+                  </button>
+                )}
+              </div>
+              <input ref={fontInputRef} type="file" className="hidden" accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2" onChange={handleFontUpload} />
+              <p className="mt-1 text-xs text-gray-400">{t('uploadFontHint')}</p>
+              {fontError && <p className="mt-1 text-xs text-red-400">{fontError}</p>}
             </div>
 
             {/* Text Style */}
@@ -340,12 +447,16 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
                         key={style.id}
                         value={style.id}
                         style={optionStyle}
+                        disabled={!!printMethod && !isTextStyleAllowed(printMethod, style.id)}
                     >
                         {t(style.nameKey as keyof typeof import('../i18n/en').en)}
                     </option>
                     );
                 })}
               </select>
+              {printMethod && !isTextStyleAllowed(printMethod, design.textStyle) && (
+                <p className="mt-1 text-xs text-yellow-400">{t('textStyleUnavailableHint')}</p>
+              )}
             </div>
             
             {/* Text Color Dropdown */}
@@ -376,7 +487,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
               </select>
             </div>
 
-            {design.textStyle === 'gradient' && (
+            {getEffectiveTextStyle(design) === 'gradient' && (
               <>
                 <div>
                   <label htmlFor="gradient-start-color" className="block text-sm font-medium text-gray-300">{t('gradientStartLabel')}</label>
@@ -414,7 +525,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
       )}
 
       {/* Product Color */}
-      {design.productType !== 'jigsaw_puzzle' && design.productType !== 'poster' && design.productType !== 'sticker' && design.productType !== 'laser_engraving' && (
+      {hasSection(design.productType, 'productColor') && (
          <div>
             <label htmlFor="product-color" className="block text-sm font-medium text-gray-300">{productColorLabel}</label>
             <select
@@ -444,7 +555,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
       )}
 
       {/* Product Texture */}
-      {texturableProducts.includes(design.productType) && (
+      {hasSection(design.productType, 'productTexture') && (
         <div>
           <label htmlFor="product-texture" className="block text-sm font-medium text-gray-300">{t('productTextureLabel')}</label>
           <select
@@ -481,8 +592,8 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
         </div>
       </div>
      
-      {/* T-shirt/Sweatshirt/Hoodie Specific */}
-      {(design.productType === 'tshirt' || design.productType === 'sweatshirt' || design.productType === 'hoodie' || design.productType === 'tshirt_teacup_scene' || design.productType === 'sweatshirt_mug_scene' || design.productType === 'hoodie_teacup_scene' || design.productType === 'sweatshirt_teacup_scene') && (
+      {/* Model: design style, pose and audience */}
+      {hasSection(design.productType, 'model') && (
         <>
             <div>
                 <label htmlFor="design-style" className="block text-sm font-medium text-gray-300">{t('designStyleLabel')}</label>
@@ -542,7 +653,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
       )}
 
       {/* Design Placement */}
-      {design.productType !== 'laser_engraving' && design.productType !== 'frame' && (
+      {hasSection(design.productType, 'designPlacement') && (
         <div>
           <label htmlFor="design-placement" className="block text-sm font-medium text-gray-300">{t('designPlacementLabel')}</label>
           <select
@@ -560,603 +671,68 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
         </div>
       )}
 
-      {/* Bag Specific */}
-      {design.productType === 'bag' && (
+      {/* Print Method */}
+      {printMethod && (
         <div>
-            <label htmlFor="bag-material" className="block text-sm font-medium text-gray-300">{t('bagMaterialLabel')}</label>
-            <select
-            id="bag-material"
-            value={design.bagMaterial}
-            onChange={(e) => setDesign(d => ({ ...d, bagMaterial: e.target.value as BagMaterial }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {BAG_MATERIALS.map(mat => (
-                <option key={mat.id} value={mat.id}>
-                {t(mat.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-      )}
-
-      {/* Frame Specific */}
-      {design.productType === 'frame' && (
-        <>
-        <div>
-            <label htmlFor="frame-style" className="block text-sm font-medium text-gray-300">{t('frameStyleLabel')}</label>
-            <select
-            id="frame-style"
-            value={design.frameStyle}
-            onChange={(e) => setDesign(d => ({ ...d, frameStyle: e.target.value as FrameStyle }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {FRAME_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="frame-texture" className="block text-sm font-medium text-gray-300">{t('frameTextureLabel' as keyof typeof import('../i18n/en').en)}</label>
-            <select
-            id="frame-texture"
-            value={design.frameTexture}
-            onChange={(e) => setDesign(d => ({ ...d, frameTexture: e.target.value as FrameTexture }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {FRAME_TEXTURES.map(texture => (
-                <option key={texture.id} value={texture.id}>
-                {t(texture.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="frame-model" className="block text-sm font-medium text-gray-300">{t('frameModelLabel')}</label>
-            <select
-            id="frame-model"
-            value={design.frameModel}
-            onChange={(e) => setDesign(d => ({ ...d, frameModel: e.target.value as FrameModel }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {FRAME_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                {t(model.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="frame-dimension" className="block text-sm font-medium text-gray-300">{t('photoFormatLabel')}</label>
-            <select
-            id="frame-dimension"
-            value={design.frameDimension}
-            onChange={(e) => setDesign(d => ({ ...d, frameDimension: e.target.value as FrameDimension }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {FRAME_DIMENSIONS.map(dim => (
-                <option key={dim.id} value={dim.id}>
-                {t(dim.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        </>
-      )}
-
-      {/* Mug Specific */}
-      {(design.productType === 'mug' || design.productType === 'tshirt_teacup_scene' || design.productType === 'sweatshirt_mug_scene' || design.productType === 'hoodie_teacup_scene' || design.productType === 'sweatshirt_teacup_scene') && (
-        <>
-        <div>
-            <label htmlFor="mug-style" className="block text-sm font-medium text-gray-300">{t('mugStyleLabel')}</label>
-            <select
-            id="mug-style"
-            value={design.mugStyle}
-            onChange={(e) => setDesign(d => ({ ...d, mugStyle: e.target.value as MugStyle }))}
+          <label htmlFor="print-method" className="block text-sm font-medium text-gray-300">{t('printMethodLabel')}</label>
+          <select
+            id="print-method"
+            value={printMethod}
+            onChange={(e) => setDesign(d => ({ ...d, printMethod: e.target.value as PrintMethod }))}
             className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {MUG_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
+          >
+            {product.printMethods.map(id => (
+              <option key={id} value={id}>{t(getPrintMethod(id).nameKey)}</option>
             ))}
-            </select>
+          </select>
+          <p className="mt-1 text-xs text-gray-400">{t(getPrintMethod(printMethod).hintKey)}</p>
         </div>
-        </>
       )}
 
-      {/* Wallet Specific */}
-      {design.productType === 'wallet' && (
-        <>
-          <div>
-            <label htmlFor="wallet-style" className="block text-sm font-medium text-gray-300">{t('walletStyleLabel')}</label>
-            <select
-              id="wallet-style"
-              value={design.walletStyle}
-              onChange={(e) => setDesign(d => ({ ...d, walletStyle: e.target.value as WalletStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {WALLET_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="wallet-model" className="block text-sm font-medium text-gray-300">{t('walletModelLabel')}</label>
+      {/* Product-specific options */}
+      {product.optionFields.map(({ field, labelKey, choices }) => {
+        const inputId = field.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+        return (
+          <div key={field}>
+            <label htmlFor={inputId} className="block text-sm font-medium text-gray-300">{t(labelKey)}</label>
             <select
-              id="wallet-model"
-              value={design.walletModel}
-              onChange={(e) => setDesign(d => ({ ...d, walletModel: e.target.value as WalletModel }))}
+              id={inputId}
+              value={design[field] as string}
+              onChange={(e) => setDesign(d => ({ ...d, [field]: e.target.value }))}
               className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
             >
-              {WALLET_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                  {t(model.nameKey as keyof typeof import('../i18n/en').en)}
+              {choices.map(choice => (
+                <option key={choice.id} value={choice.id}>
+                  {t(choice.nameKey as keyof typeof import('../i18n/en').en)}
                 </option>
               ))}
             </select>
           </div>
-        </>
-      )}
+        );
+      })}
 
-       {/* Cap Specific */}
-      {design.productType === 'cap' && (
-        <>
-          <div>
-            <label htmlFor="cap-style" className="block text-sm font-medium text-gray-300">{t('capStyleLabel')}</label>
-            <select
-              id="cap-style"
-              value={design.capStyle}
-              onChange={(e) => setDesign(d => ({ ...d, capStyle: e.target.value as CapStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {CAP_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="cap-model" className="block text-sm font-medium text-gray-300">{t('capModelLabel')}</label>
-            <select
-              id="cap-model"
-              value={design.capModel}
-              onChange={(e) => setDesign(d => ({ ...d, capModel: e.target.value as CapModel }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {CAP_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                  {t(model.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-      {/* Beanie Specific */}
-      {design.productType === 'beanie' && (
-        <>
-          <div>
-            <label htmlFor="beanie-style" className="block text-sm font-medium text-gray-300">{t('beanieStyleLabel')}</label>
-            <select
-              id="beanie-style"
-              value={design.beanieStyle}
-              onChange={(e) => setDesign(d => ({ ...d, beanieStyle: e.target.value as BeanieStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {BEANIE_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="beanie-model" className="block text-sm font-medium text-gray-300">{t('beanieModelLabel')}</label>
-            <select
-              id="beanie-model"
-              value={design.beanieModel}
-              onChange={(e) => setDesign(d => ({ ...d, beanieModel: e.target.value as BeanieModel }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {BEANIE_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                  {t(model.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-       {/* Pillow Specific */}
-      {design.productType === 'pillow' && (
-        <>
-          <div>
-            <label htmlFor="pillow-style" className="block text-sm font-medium text-gray-300">{t('pillowStyleLabel')}</label>
-            <select
-              id="pillow-style"
-              value={design.pillowStyle}
-              onChange={(e) => setDesign(d => ({ ...d, pillowStyle: e.target.value as PillowStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {PILLOW_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="pillow-setting" className="block text-sm font-medium text-gray-300">{t('pillowSettingLabel')}</label>
-            <select
-              id="pillow-setting"
-              value={design.pillowSetting}
-              onChange={(e) => setDesign(d => ({ ...d, pillowSetting: e.target.value as PillowSetting }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {PILLOW_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                  {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-      {/* Flat Lay Specific */}
-      {design.productType === 'flat_lay' && (
-        <>
-          <div>
-            <label htmlFor="flat-lay-style" className="block text-sm font-medium text-gray-300">{t('flatLayStyleLabel')}</label>
-            <select
-              id="flat-lay-style"
-              value={design.flatLayStyle}
-              onChange={(e) => setDesign(d => ({ ...d, flatLayStyle: e.target.value as FlatLayStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {FLAT_LAY_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-      
-      {/* Phone Case Specific */}
-      {design.productType === 'phone_case' && (
-        <>
-          <div>
-            <label htmlFor="phone-case-style" className="block text-sm font-medium text-gray-300">{t('phoneCaseStyleLabel')}</label>
-            <select
-              id="phone-case-style"
-              value={design.phoneCaseStyle}
-              onChange={(e) => setDesign(d => ({ ...d, phoneCaseStyle: e.target.value as PhoneCaseStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {PHONE_CASE_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="phone-case-model" className="block text-sm font-medium text-gray-300">{t('phoneCaseModelLabel')}</label>
-            <select
-              id="phone-case-model"
-              value={design.phoneCaseModel}
-              onChange={(e) => setDesign(d => ({ ...d, phoneCaseModel: e.target.value as PhoneCaseModel }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {PHONE_CASE_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                  {t(model.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-      {/* Sticker Specific */}
-      {design.productType === 'sticker' && (
-        <>
-          <div>
-            <label htmlFor="sticker-style" className="block text-sm font-medium text-gray-300">{t('stickerStyleLabel')}</label>
-            <select
-              id="sticker-style"
-              value={design.stickerStyle}
-              onChange={(e) => setDesign(d => ({ ...d, stickerStyle: e.target.value as StickerStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {STICKER_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="sticker-setting" className="block text-sm font-medium text-gray-300">{t('stickerSettingLabel')}</label>
-            <select
-              id="sticker-setting"
-              value={design.stickerSetting}
-              onChange={(e) => setDesign(d => ({ ...d, stickerSetting: e.target.value as StickerSetting }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {STICKER_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                  {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-      {/* Poster Specific */}
-      {design.productType === 'poster' && (
-        <>
-          <div>
-            <label htmlFor="poster-style" className="block text-sm font-medium text-gray-300">{t('posterStyleLabel')}</label>
-            <select
-              id="poster-style"
-              value={design.posterStyle}
-              onChange={(e) => setDesign(d => ({ ...d, posterStyle: e.target.value as PosterStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {POSTER_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="poster-setting" className="block text-sm font-medium text-gray-300">{t('posterSettingLabel')}</label>
-            <select
-              id="poster-setting"
-              value={design.posterSetting}
-              onChange={(e) => setDesign(d => ({ ...d, posterSetting: e.target.value as PosterSetting }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {POSTER_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                  {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-      {/* Puzzle Specific */}
-      {design.productType === 'jigsaw_puzzle' && (
-        <>
-          <div>
-            <label htmlFor="puzzle-style" className="block text-sm font-medium text-gray-300">{t('puzzleStyleLabel')}</label>
-            <select
-              id="puzzle-style"
-              value={design.puzzleStyle}
-              onChange={(e) => setDesign(d => ({ ...d, puzzleStyle: e.target.value as PuzzleStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {PUZZLE_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="puzzle-setting" className="block text-sm font-medium text-gray-300">{t('puzzleSettingLabel')}</label>
-            <select
-              id="puzzle-setting"
-              value={design.puzzleSetting}
-              onChange={(e) => setDesign(d => ({ ...d, puzzleSetting: e.target.value as PuzzleSetting }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {PUZZLE_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                  {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-       {/* Laptop Sleeve Specific */}
-      {design.productType === 'laptop_sleeve' && (
-        <>
-          <div>
-            <label htmlFor="laptop-sleeve-style" className="block text-sm font-medium text-gray-300">{t('laptopSleeveStyleLabel')}</label>
-            <select
-              id="laptop-sleeve-style"
-              value={design.laptopSleeveStyle}
-              onChange={(e) => setDesign(d => ({ ...d, laptopSleeveStyle: e.target.value as LaptopSleeveStyle }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {LAPTOP_SLEEVE_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                  {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-          <div>
-            <label htmlFor="laptop-sleeve-setting" className="block text-sm font-medium text-gray-300">{t('laptopSleeveSettingLabel')}</label>
-            <select
-              id="laptop-sleeve-setting"
-              value={design.laptopSleeveSetting}
-              onChange={(e) => setDesign(d => ({ ...d, laptopSleeveSetting: e.target.value as LaptopSleeveSetting }))}
-              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-              {LAPTOP_SLEEVE_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                  {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-              ))}
-            </select>
-          </div>
-        </>
-      )}
-
-       {/* Sipper Glass Specific */}
-      {design.productType === 'sipper_glass' && (
-        <>
-        <div>
-            <label htmlFor="sipper-glass-style" className="block text-sm font-medium text-gray-300">{t('sipperStyleLabel')}</label>
-            <select
-            id="sipper-glass-style"
-            value={design.sipperGlassStyle}
-            onChange={(e) => setDesign(d => ({ ...d, sipperGlassStyle: e.target.value as SipperGlassStyle }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {SIPPER_GLASS_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="sipper-glass-model" className="block text-sm font-medium text-gray-300">{t('sipperModelLabel')}</label>
-            <select
-            id="sipper-glass-model"
-            value={design.sipperGlassModel}
-            onChange={(e) => setDesign(d => ({ ...d, sipperGlassModel: e.target.value as SipperGlassModel }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {SIPPER_GLASS_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                {t(model.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        </>
-      )}
-
-      {/* Tumbler Wrap Specific */}
-      {design.productType === 'tumbler_wrap' && (
-        <>
-        <div>
-            <label htmlFor="tumbler-style" className="block text-sm font-medium text-gray-300">{t('tumblerStyleLabel')}</label>
-            <select
-            id="tumbler-style"
-            value={design.tumblerStyle}
-            onChange={(e) => setDesign(d => ({ ...d, tumblerStyle: e.target.value as TumblerStyle }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {TUMBLER_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="tumbler-model" className="block text-sm font-medium text-gray-300">{t('tumblerModelLabel')}</label>
-            <select
-            id="tumbler-model"
-            value={design.tumblerModel}
-            onChange={(e) => setDesign(d => ({ ...d, tumblerModel: e.target.value as TumblerModel }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {TUMBLER_MODELS.map(model => (
-                <option key={model.id} value={model.id}>
-                {t(model.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        </>
-      )}
-
-      {/* Halloween Tumbler Specific */}
-      {design.productType === 'halloween_tumbler' && (
-        <>
-        <div>
-            <label htmlFor="halloween-tumbler-style" className="block text-sm font-medium text-gray-300">{t('halloweenTumblerStyleLabel')}</label>
-            <select
-            id="halloween-tumbler-style"
-            value={design.halloweenTumblerStyle}
-            onChange={(e) => setDesign(d => ({ ...d, halloweenTumblerStyle: e.target.value as HalloweenTumblerStyle }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {HALLOWEEN_TUMBLER_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="halloween-tumbler-setting" className="block text-sm font-medium text-gray-300">{t('halloweenTumblerSettingLabel')}</label>
-            <select
-            id="halloween-tumbler-setting"
-            value={design.halloweenTumblerSetting}
-            onChange={(e) => setDesign(d => ({ ...d, halloweenTumblerSetting: e.target.value as HalloweenTumblerSetting }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {HALLOWEEN_TUMBLER_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        </>
-      )}
-       {/* Tumbler Trio Specific */}
-      {design.productType === 'tumbler_trio' && (
-        <>
-        <div>
-            <label htmlFor="tumbler-trio-style" className="block text-sm font-medium text-gray-300">{t('tumblerTrioStyleLabel')}</label>
-            <select
-            id="tumbler-trio-style"
-            value={design.tumblerTrioStyle}
-            onChange={(e) => setDesign(d => ({ ...d, tumblerTrioStyle: e.target.value as TumblerTrioStyle }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {TUMBLER_TRIO_STYLES.map(style => (
-                <option key={style.id} value={style.id}>
-                {t(style.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
-            ))}
-            </select>
-        </div>
-        <div>
-            <label htmlFor="tumbler-trio-setting" className="block text-sm font-medium text-gray-300">{t('tumblerTrioSettingLabel')}</label>
-            <select
-            id="tumbler-trio-setting"
-            value={design.tumblerTrioSetting}
-            onChange={(e) => setDesign(d => ({ ...d, tumblerTrioSetting: e.target.value as TumblerTrioSetting }))}
-            className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
-            >
-            {TUMBLER_TRIO_SETTINGS.map(setting => (
-                <option key={setting.id} value={setting.id}>
-                {t(setting.nameKey as keyof typeof import('../i18n/en').en)}
-                </option>
+      {/* Variant Count */}
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">{t('variantCountLabel')}</label>
+        <div role="radiogroup" aria-label={t('variantCountLabel')} className="flex items-center gap-2">
+            {VARIANT_COUNTS.map(count => (
+                <button
+                    key={count}
+                    type="button"
+                    role="radio"
+                    aria-checked={variantCount === count}
+                    onClick={() => setVariantCount(count)}
+                    className={`flex-1 p-2 rounded-md transition-colors text-sm font-mono ${variantCount === count ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                    {count}
+                </button>
             ))}
-            </select>
         </div>
-        </>
-      )}
+      </div>
 
       {/* Generate Button */}
       <button
-        onClick={onGenerate}
+        onClick={() => onGenerate('reuse')}
         disabled={isLoading || !design.logo}
         className="w-full flex items-center justify-center gap-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg shadow-lg transition-all transform hover:scale-105 disabled:bg-gray-600 disabled:cursor-not-allowed"
       >
@@ -1171,11 +747,31 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({ design, setDesign, onGene
         ) : (
           <>
             <WandIcon className="w-6 h-6" />
-            {design.productType === 'laser_engraving' ? t('generateEngravingButton') : t('generateButton')}
+            {hasScene ? t('reapplyDesignButton') : product.designExport === 'engraving' ? t('generateEngravingButton') : t('generateButton')}
           </>
         )}
       </button>
+      {hasScene && (
+        <button
+          type="button"
+          onClick={() => onGenerate('new')}
+          disabled={isLoading || !design.logo}
+          className="w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ResetIcon className="w-5 h-5" />
+          {t('newSceneButton')}
+        </button>
+      )}
+      {hasScene && <p className="text-xs text-gray-400 text-center">{t('sceneKeptHint')}</p>}
       {!design.logo && <p className="text-xs text-yellow-400 text-center">{t('uploadLogoWarning')}</p>}
+      <button
+        type="button"
+        onClick={onShowPrompt}
+        className="w-full flex items-center justify-center gap-2 text-sm font-medium text-indigo-400 hover:text-indigo-300 transition-colors"
+      >
+        {t('showPromptButton')}
+        {hasPromptOverride && <span className="text-[10px] uppercase font-bold rounded px-1.5 py-0.5 bg-amber-500/20 text-amber-300">{t('promptEditedBadge')}</span>}
+      </button>
 
     </div>
   );
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import type { DesignOptions } from '../types';
+import { getPrintArea } from '../services/productRegistry';
+import { EMBROIDERY_COLOR_RANGE, EMBROIDERY_DENSITY_RANGE, EMBROIDERY_WIDTH_RANGE, EmbroideryPattern, EmbroiderySettings, estimateSewingMinutes, getDefaultEmbroiderySettings, StitchFileFormat } from '../services/embroidery';
+import { digitizeDesign, generateEmbroideryPreviewSvg } from '../services/svgService';
+import { CloseIcon, DownloadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface EmbroideryExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  onDownload: (settings: EmbroiderySettings, format: StitchFileFormat) => Promise<void>;
+}
+
+// Digitizing renders and stitches the whole design, so the preview waits for the controls to settle.
+const PREVIEW_DELAY_MS = 400;
+
+const STITCH_FILE_FORMATS: StitchFileFormat[] = ['dst', 'exp'];
+
+const EmbroideryExportPanel: React.FC<EmbroideryExportPanelProps> = ({ isOpen, onClose, design, onDownload }) => {
+  const { t } = useTranslation();
+  const printArea = getPrintArea(design);
+  const maxWidth = Math.min(printArea.width, EMBROIDERY_WIDTH_RANGE.max);
+  const [settings, setSettings] = useState<EmbroiderySettings>(() => getDefaultEmbroiderySettings(maxWidth));
+  const [isBusy, setIsBusy] = useState(false);
+  const [pattern, setPattern] = useState<EmbroideryPattern | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState(false);
+
+  // A smaller print area (a cap front after a chest) caps the width.
+  useEffect(() => {
+    setSettings(s => ({ ...s, width: Math.min(s.width, maxWidth) }));
+  }, [maxWidth]);
+
+  // The preview is the stitches as they'd sew out, over the product color.
+  useEffect(() => {
+    if (!isOpen || !design.logo) {
+      setPreviewUrl(null);
+      setPattern(null);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await digitizeDesign(design, settings);
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([generateEmbroideryPreviewSvg(result)], { type: 'image/svg+xml;charset=utf-8' }));
+        setPattern(result);
+        setPreviewUrl(url);
+        setPreviewError(false);
+      } catch (e) {
+        console.error('Embroidery preview failed:', e);
+        if (!isCancelled) setPreviewError(true);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, design, settings]);
+
+  const runDownload = async (format: StitchFileFormat) => {
+    setIsBusy(true);
+    try {
+      await onDownload(settings, format);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isTooTall = !!pattern && pattern.heightMm / 25.4 > printArea.height;
+  const canDownload = !isBusy && !!design.logo;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="embroidery-export-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="embroidery-export-title" className="text-2xl font-bold text-white">{t('embroideryExportTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="embroidery-colors" className="flex justify-between text-sm font-medium text-gray-300">
+              <span>{t('embroideryColorsLabel')}</span>
+              <span dir="ltr" className="text-gray-400">{settings.colors}</span>
+            </label>
+            <input
+              id="embroidery-colors"
+              type="range"
+              min={EMBROIDERY_COLOR_RANGE.min}
+              max={EMBROIDERY_COLOR_RANGE.max}
+              step={1}
+              value={settings.colors}
+              onChange={(e) => setSettings(s => ({ ...s, colors: Number(e.target.value) }))}
+              className="mt-1 w-full accent-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="embroidery-width" className="flex justify-between text-sm font-medium text-gray-300">
+              <span>{t('embroideryWidthLabel')}</span>
+              <span dir="ltr" className="text-gray-400">{settings.width} in</span>
+            </label>
+            <input
+              id="embroidery-width"
+              type="range"
+              min={EMBROIDERY_WIDTH_RANGE.min}
+              max={maxWidth}
+              step={0.25}
+              value={settings.width}
+              onChange={(e) => setSettings(s => ({ ...s, width: Number(e.target.value) }))}
+              className="mt-1 w-full accent-indigo-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="embroidery-density" className="flex justify-between text-sm font-medium text-gray-300">
+              <span>{t('embroideryDensityLabel')}</span>
+              <span dir="ltr" className="text-gray-400">{settings.density} mm</span>
+            </label>
+            <input
+              id="embroidery-density"
+              type="range"
+              min={EMBROIDERY_DENSITY_RANGE.min}
+              max={EMBROIDERY_DENSITY_RANGE.max}
+              step={0.05}
+              value={settings.density}
+              onChange={(e) => setSettings(s => ({ ...s, density: Number(e.target.value) }))}
+              className="mt-1 w-full accent-indigo-500"
+            />
+            <p className="mt-1 text-xs text-gray-400">{t('embroideryDensityHint')}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-1">{t('embroideryPreviewLabel')}</p>
+            <div className="aspect-square rounded-md overflow-hidden flex items-center justify-center p-2" style={{ backgroundColor: design.productColor }}>
+              {previewUrl && <img src={previewUrl} alt={t('embroideryPreviewLabel')} className="w-full h-full object-contain" />}
+            </div>
+            {previewError && <p className="mt-1 text-xs text-red-400">{t('embroideryFailedError')}</p>}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-1">{t('embroideryThreadsLabel')}</p>
+            {pattern && (
+              <>
+                <p className="text-sm text-white font-bold">{t('embroideryStitchCount').replace('{count}', pattern.stitchCount.toLocaleString())}</p>
+                <p className="text-xs text-gray-400">
+                  {t('embroideryStats')
+                    .replace('{width}', (pattern.widthMm / 25.4).toFixed(2))
+                    .replace('{height}', (pattern.heightMm / 25.4).toFixed(2))
+                    .replace('{changes}', String(pattern.colorChanges))
+                    .replace('{minutes}', String(Math.max(1, Math.round(estimateSewingMinutes(pattern)))))}
+                </p>
+                <ol className="mt-2 space-y-1">
+                  {pattern.threads.map((block, i) => (
+                    <li key={`${i}-${block.thread.name}`} className="flex items-center gap-2 text-sm text-gray-300">
+                      <span dir="ltr" className="w-5 text-gray-500">{i + 1}</span>
+                      <span className="w-4 h-4 rounded-sm border border-gray-600" style={{ backgroundColor: block.thread.color }} />
+                      <span className="flex-1">{block.thread.name}</span>
+                      <span dir="ltr" className="text-gray-400">{block.stitches.toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </div>
+        </div>
+        {isTooTall && <p className="text-xs text-yellow-400">{t('embroideryTooTallWarning')}</p>}
+        <p className="text-xs text-gray-400">{t('embroideryExportHint')}</p>
+
+        <div className="flex flex-wrap gap-3">
+          {STITCH_FILE_FORMATS.map(format => (
+            <button key={format} onClick={() => runDownload(format)} disabled={!canDownload} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+              <DownloadIcon className="w-5 h-5" />
+              {t(format === 'dst' ? 'downloadEmbroideryDst' : 'downloadEmbroideryExp')}
+            </button>
+          ))}
+        </div>
+        {!design.logo && <p className="text-xs text-yellow-400">{t('uploadLogoWarning')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default EmbroideryExportPanel;
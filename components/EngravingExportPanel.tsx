@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import type { DesignOptions } from '../types';
+import { ENGRAVING_DPI_OPTIONS, ENGRAVING_OUTPUTS, EngravingDpi, EngravingOutput, EngravingSettings, getEngravingDefaults, getEngravingLayers, getEngravingPreset, LASER_LAYER_COLORS, LASER_LAYERS } from '../services/printSpecs';
+import { DITHER_ALGORITHMS, DitherAlgorithm } from '../services/dithering';
+import { generateEngravingSvg } from '../services/svgService';
+import { ENGRAVING_MATERIALS } from '../constants';
+import { CloseIcon, DownloadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface EngravingExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  onDownload: (settings: EngravingSettings) => Promise<void>;
+  onDownloadLaserSettings: (settings: EngravingSettings) => void;
+}
+
+// Waits for the threshold slider to settle before re-rendering the preview.
+const PREVIEW_DELAY_MS = 300;
+
+const EngravingExportPanel: React.FC<EngravingExportPanelProps> = ({ isOpen, onClose, design, onDownload, onDownloadLaserSettings }) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<EngravingSettings>(() => getEngravingDefaults(design.engravingMaterial));
+  const [isBusy, setIsBusy] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState(false);
+
+  const preset = getEngravingPreset(design.engravingMaterial);
+  const material = ENGRAVING_MATERIALS.find(m => m.id === design.engravingMaterial) || ENGRAVING_MATERIALS[0];
+
+  // Switching material starts over from its preset; the layout choices are kept.
+  useEffect(() => {
+    setSettings(s => ({ ...s, ...getEngravingPreset(design.engravingMaterial).defaults }));
+  }, [design.engravingMaterial]);
+
+  // The preview is the exported SVG itself, so it shows exactly what the laser gets.
+  useEffect(() => {
+    if (!isOpen || !design.logo) {
+      setPreviewUrl(null);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const svg = await generateEngravingSvg(design, settings);
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+        setPreviewUrl(url);
+        setPreviewError(false);
+      } catch (e) {
+        console.error('Engraving preview failed:', e);
+        if (!isCancelled) setPreviewError(true);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, design, settings]);
+
+  const runDownload = async () => {
+    setIsBusy(true);
+    try {
+      await onDownload(settings);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selectClassName = "mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="engraving-export-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="engraving-export-title" className="text-2xl font-bold text-white">{t('engravingExportTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-300">
+          {t('engravingMaterialLabel')}: <span className="font-semibold text-white">{t(material.nameKey as keyof typeof import('../i18n/en').en)}</span>
+          <span className="block text-xs text-gray-400">{t('engravingMaterialPresetHint')}</span>
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="engraving-algorithm" className="block text-sm font-medium text-gray-300">{t('engravingAlgorithmLabel')}</label>
+              <select
+                id="engraving-algorithm"
+                value={settings.algorithm}
+                onChange={(e) => setSettings(s => ({ ...s, algorithm: e.target.value as DitherAlgorithm }))}
+                className={selectClassName}
+              >
+                {DITHER_ALGORITHMS.map(algorithm => <option key={algorithm.id} value={algorithm.id}>{t(algorithm.nameKey)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="engraving-threshold" className="flex justify-between text-sm font-medium text-gray-300">
+                <span>{t('engravingThresholdLabel')}</span>
+                <span dir="ltr" className="text-gray-400">{settings.threshold}</span>
+              </label>
+              <input
+                id="engraving-threshold"
+                type="range"
+                min={0}
+                max={255}
+                value={settings.threshold}
+                onChange={(e) => setSettings(s => ({ ...s, threshold: Number(e.target.value) }))}
+                className="mt-2 w-full accent-indigo-500"
+              />
+              {settings.algorithm !== 'threshold' && <p className="text-xs text-gray-400">{t('engravingThresholdHint')}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="engraving-dpi" className="block text-sm font-medium text-gray-300">{t('engravingDpiLabel')}</label>
+                <select
+                  id="engraving-dpi"
+                  value={settings.dpi}
+                  onChange={(e) => setSettings(s => ({ ...s, dpi: Number(e.target.value) as EngravingDpi }))}
+                  className={selectClassName}
+                >
+                  {ENGRAVING_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="engraving-output" className="block text-sm font-medium text-gray-300">{t('engravingOutputLabel')}</label>
+                <select
+                  id="engraving-output"
+                  value={settings.output}
+                  onChange={(e) => setSettings(s => ({ ...s, output: e.target.value as EngravingOutput }))}
+                  className={selectClassName}
+                >
+                  {ENGRAVING_OUTPUTS.map(output => <option key={output.id} value={output.id}>{t(output.nameKey)}</option>)}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.invert}
+                onChange={(e) => setSettings(s => ({ ...s, invert: e.target.checked }))}
+                className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+              />
+              <span>
+                {t('engravingInvertLabel')}
+                <span className="block text-xs text-gray-400">{t('engravingInvertHint')}</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.outlineText}
+                onChange={(e) => setSettings(s => ({ ...s, outlineText: e.target.checked }))}
+                className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+              />
+              <span>
+                {t('printOutlineTextLabel')}
+                <span className="block text-xs text-gray-400">{t('printOutlineTextHint')}</span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.scoreBorder}
+                onChange={(e) => setSettings(s => ({ ...s, scoreBorder: e.target.checked }))}
+                className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+              />
+              <span>
+                {t('engravingScoreBorderLabel')}
+                <span className="block text-xs text-gray-400">{t('engravingScoreBorderHint')}</span>
+              </span>
+            </label>
+            <label className={`flex items-start gap-2 text-sm text-gray-200 ${preset.layers.cut ? 'cursor-pointer' : 'opacity-60 cursor-not-allowed'}`}>
+              <input
+                type="checkbox"
+                checked={settings.cutOutline && preset.layers.cut !== null}
+                disabled={!preset.layers.cut}
+                onChange={(e) => setSettings(s => ({ ...s, cutOutline: e.target.checked }))}
+                className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+              />
+              <span>
+                {t('engravingCutOutlineLabel')}
+                <span className="block text-xs text-gray-400">{t(preset.layers.cut ? 'engravingCutOutlineHint' : 'engravingCutUnavailable')}</span>
+              </span>
+            </label>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-1">{t('engravingPreviewLabel')}</p>
+            <div className="aspect-square bg-white rounded-md overflow-hidden flex items-center justify-center">
+              {previewUrl && <img src={previewUrl} alt={t('engravingPreviewLabel')} className="w-full h-full object-contain" />}
+            </div>
+            {previewError && <p className="mt-1 text-xs text-red-400">{t('engravingPreviewError')}</p>}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-300 mb-2">{t('laserLayersLabel')}</p>
+          <ul className="space-y-1 text-sm text-gray-200">
+            {getEngravingLayers(design.engravingMaterial, settings).map(id => {
+              const layer = preset.layers[id];
+              const nameKey = LASER_LAYERS.find(l => l.id === id)?.nameKey;
+              return layer && nameKey && (
+                <li key={id} className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-sm border border-gray-500" style={{ backgroundColor: LASER_LAYER_COLORS[id] }} />
+                  <span className="w-20">{t(nameKey)}</span>
+                  <span dir="ltr" className="text-gray-400">{layer.power}% · {layer.speed} mm/s · ×{layer.passes}</span>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="mt-1 text-xs text-gray-400">{t('laserLayersHint')}</p>
+        </div>
+
+        <p className="text-xs text-gray-400">{t('engravingExportHint')}</p>
+
+        <div className="flex flex-wrap gap-3">
+          <button onClick={runDownload} disabled={isBusy || !design.logo} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadEngravingFile')}
+          </button>
+          <button onClick={() => onDownloadLaserSettings(settings)} className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadLaserSettings')}
+          </button>
+        </div>
+        {!design.logo && <p className="text-xs text-yellow-400">{t('uploadLogoWarning')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default EngravingExportPanel;
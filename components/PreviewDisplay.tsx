@@ -2,15 +2,18 @@ import React, { useState, useEffect, useRef } from 'react';
 import { WandIcon, DownloadIcon, BackArrowIcon, ZoomInIcon, ZoomOutIcon, ExpandIcon, UndoIcon } from './icons';
 import type { ProductType, ImageMode } from '../types';
 import { useTranslation } from '../hooks/useTranslation';
+import { PRODUCTS } from '../services/productRegistry';
 
 interface PreviewDisplayProps {
   generatedImage: string | null;
   isLoading: boolean;
   error: string | null;
   productType: ProductType;
-  onDownloadCombinedSvg: () => void;
-  onDownloadCombinedPng: () => void;
-  onDownloadEngravingSvg: () => void;
+  onOpenPrintExport: () => void;
+  onOpenEngravingExport: () => void;
+  onOpenWrapExport: () => void;
+  onOpenSeparationExport: () => void;
+  onOpenEmbroideryExport: () => void;
   onDownloadMockupPng: () => void;
   onDownloadMockupJpg: () => void;
   imageMode: ImageMode;
@@ -19,9 +22,13 @@ interface PreviewDisplayProps {
   onExpandPreview?: () => void;
   onUndo?: () => void;
   canUndo?: boolean;
+  variants?: string[];
+  selectedVariantIndex?: number;
+  onSelectVariant?: (index: number) => void;
+  onDownloadVariant?: (index: number) => void;
 }
 
-const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoading, error, productType, onDownloadCombinedSvg, onDownloadCombinedPng, onDownloadEngravingSvg, onDownloadMockupPng, onDownloadMockupJpg, imageMode, isPreviewExpanded, onExitPreview, onExpandPreview, onUndo, canUndo }) => {
+const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoading, error, productType, onOpenPrintExport, onOpenEngravingExport, onOpenWrapExport, onOpenSeparationExport, onOpenEmbroideryExport, onDownloadMockupPng, onDownloadMockupJpg, imageMode, isPreviewExpanded, onExitPreview, onExpandPreview, onUndo, canUndo, variants = [], selectedVariantIndex = 0, onSelectVariant, onDownloadVariant }) => {
     const { t } = useTranslation();
     const [isHovered, setIsHovered] = useState(false);
     const [isDownloadMenuOpen, setIsDownloadMenuOpen] = useState(false);
@@ -39,7 +46,10 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoadi
 
     const [loadingMessage, setLoadingMessage] = React.useState(loadingMessages[0]);
     
-    const textBasedProducts: ProductType[] = ['tshirt', 'sweatshirt', 'hoodie', 'bag', 'phone_case', 'sticker', 'poster', 'wallet', 'cap', 'pillow', 'flat_lay', 'tumbler_wrap', 'halloween_tumbler', 'tumbler_trio', 'tshirt_teacup_scene', 'sweatshirt_mug_scene', 'hoodie_teacup_scene', 'sweatshirt_teacup_scene'];
+    const isEngraving = PRODUCTS[productType].designExport === 'engraving';
+    const hasWrapTemplate = !!PRODUCTS[productType].wrapTemplates;
+    const hasSeparations = PRODUCTS[productType].printMethods.includes('screen_print');
+    const hasEmbroidery = PRODUCTS[productType].printMethods.includes('embroidery');
     const imageUrl = generatedImage ? `data:image/png;base64,${generatedImage}` : '';
 
     React.useEffect(() => {
@@ -179,8 +189,8 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoadi
                   </button>
                   {isDownloadMenuOpen && (
                     <div className="absolute bottom-full mb-2 w-56 bg-gray-700 rounded-lg shadow-2xl overflow-hidden z-20 border border-gray-600 left-1/2 -translate-x-1/2">
-                      {productType === 'laser_engraving' ? (
-                        <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadEngravingSvg); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadEngravingSvg')}</a>
+                      {isEngraving ? (
+                        <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenEngravingExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadEngravingSvg')}</a>
                       ) : (
                         <>
                           <div className="px-4 py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">{t('downloadMockupLabel')}</div>
@@ -188,8 +198,10 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoadi
                           <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadMockupJpg); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadMockupJpg')}</a>
                           <div className="border-t border-gray-600 my-1"></div>
                           <div className="px-4 py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">{t('downloadDesignLabel')}</div>
-                          <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadCombinedSvg); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadDesignSvg')}</a>
-                          <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadCombinedPng); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadDesignPng')}</a>
+                          <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenPrintExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadPrintFile')}</a>
+                          {hasWrapTemplate && <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenWrapExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadWrapTemplate')}</a>}
+                          {hasSeparations && <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenSeparationExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadSeparations')}</a>}
+                          {hasEmbroidery && <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenEmbroideryExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadEmbroidery')}</a>}
                         </>
                       )}
                     </div>
@@ -201,6 +213,41 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoadi
         )}
       </div>
 
+      {/* Variant Grid */}
+      {variants.length > 1 && !isLoading && (
+        <div className="w-full">
+          <h3 className="text-sm font-medium text-gray-300 mb-2">{t('variantsTitle')}</h3>
+          <div role="radiogroup" aria-label={t('variantsTitle')} className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {variants.map((variant, index) => (
+              <div key={index} className="relative group">
+                <button
+                  type="button"
+                  role="radio"
+                  aria-checked={index === selectedVariantIndex}
+                  aria-label={`${t('variantLabel')} ${index + 1}`}
+                  onClick={() => onSelectVariant?.(index)}
+                  className={`block w-full aspect-square rounded-md overflow-hidden border-2 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${index === selectedVariantIndex ? 'border-indigo-400' : 'border-gray-700 hover:border-gray-500'}`}
+                >
+                  <img src={`data:image/png;base64,${variant}`} alt={`${t('variantLabel')} ${index + 1}`} className="w-full h-full object-cover" />
+                </button>
+                <span className="absolute top-1 left-1 text-xs font-mono bg-black/60 text-white rounded px-1.5 py-0.5 pointer-events-none">{index + 1}</span>
+                {onDownloadVariant && (
+                  <button
+                    type="button"
+                    onClick={() => onDownloadVariant(index)}
+                    className="absolute bottom-1 right-1 p-1.5 bg-black/60 text-white rounded-full hover:bg-black/80 focus:outline-none focus:ring-2 focus:ring-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    aria-label={`${t('downloadVariant')} ${index + 1}`}
+                    title={`${t('downloadVariant')} ${index + 1}`}
+                  >
+                    <DownloadIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {isPreviewExpanded && generatedImage && !isLoading && (
         <div className="flex items-center gap-3 w-full justify-center">
             <button
@@ -223,10 +270,10 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoadi
               
               {isDownloadMenuOpen && (
                 <div className="absolute bottom-full mb-2 w-56 bg-gray-700 rounded-lg shadow-2xl overflow-hidden z-20 border border-gray-600">
-                  {productType === 'laser_engraving' ? (
+                  {isEngraving ? (
                      <a
                       href="#"
-                      onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadEngravingSvg); }}
+                      onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenEngravingExport); }}
                       className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors"
                     >
                       {t('downloadEngravingSvg')}
@@ -238,8 +285,10 @@ const PreviewDisplay: React.FC<PreviewDisplayProps> = ({ generatedImage, isLoadi
                       <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadMockupJpg); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadMockupJpg')}</a>
                       <div className="border-t border-gray-600 my-1"></div>
                       <div className="px-4 py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">{t('downloadDesignLabel')}</div>
-                      <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadCombinedSvg); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadDesignSvg')}</a>
-                      <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onDownloadCombinedPng); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadDesignPng')}</a>
+                      <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenPrintExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadPrintFile')}</a>
+                      {hasWrapTemplate && <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenWrapExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadWrapTemplate')}</a>}
+                      {hasSeparations && <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenSeparationExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadSeparations')}</a>}
+                      {hasEmbroidery && <a href="#" onClick={(e) => { e.preventDefault(); handleDownloadClick(onOpenEmbroideryExport); }} className="block px-4 py-3 text-sm text-gray-200 hover:bg-indigo-500 hover:text-white transition-colors">{t('downloadEmbroidery')}</a>}
                     </>
                   )}
                 </div>
@@ -0,0 +1,414 @@
+import React, { useEffect, useState } from 'react';
+import type { DesignOptions } from '../types';
+import { getEffectivePrintMethod, getPrintArea, getPrintGuides, PRODUCTS } from '../services/productRegistry';
+import { getPrintMethod, getPrintSettingsForMethod } from '../services/printMethods';
+import { PRINT_DPI_OPTIONS, PRINT_UNITS, PrintDpi, PrintSettings, PrintUnit, formatLength, getPixelSize } from '../services/printSpecs';
+import { TRACE_COLOR_RANGE, TRACE_SMOOTHING_RANGE, TRACE_SPECKLE_RANGE, TraceOptions, getTracedLogoMarkup, traceLogo } from '../services/logoTracer';
+import { CONTOUR_BRIDGE_RANGE, CONTOUR_OFFSET_RANGE, CONTOUR_SMOOTHING_RANGE, ContourOptions } from '../services/cutContour';
+import { BLEED_RANGE, getGuideMargin, PrintGuideOptions, SAFE_MARGIN_RANGE } from '../services/printGuides';
+import { findSafeZoneViolations, generateCombinedSvg, SafeZoneElement } from '../services/svgService';
+import { CloseIcon, DownloadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Waits for the trace sliders to settle before tracing again.
+const TRACE_PREVIEW_DELAY_MS = 400;
+
+const TRACE_SLIDERS: { option: keyof TraceOptions; labelKey: 'traceColorsLabel' | 'traceSmoothingLabel' | 'traceSpeckleLabel'; range: { min: number; max: number }; step: number }[] = [
+  { option: 'colors', labelKey: 'traceColorsLabel', range: TRACE_COLOR_RANGE, step: 1 },
+  { option: 'smoothing', labelKey: 'traceSmoothingLabel', range: TRACE_SMOOTHING_RANGE, step: 0.1 },
+  { option: 'speckle', labelKey: 'traceSpeckleLabel', range: TRACE_SPECKLE_RANGE, step: 1 },
+];
+
+// Offset and bridge are lengths in inches, shown in the chosen unit.
+const CONTOUR_SLIDERS: { option: keyof ContourOptions; labelKey: 'contourOffsetLabel' | 'contourSmoothingLabel' | 'contourBridgeLabel'; range: { min: number; max: number }; step: number; isLength: boolean }[] = [
+  { option: 'offset', labelKey: 'contourOffsetLabel', range: CONTOUR_OFFSET_RANGE, step: 0.01, isLength: true },
+  { option: 'smoothing', labelKey: 'contourSmoothingLabel', range: CONTOUR_SMOOTHING_RANGE, step: 0.1, isLength: false },
+  { option: 'bridge', labelKey: 'contourBridgeLabel', range: CONTOUR_BRIDGE_RANGE, step: 0.01, isLength: true },
+];
+
+const GUIDE_SLIDERS: { option: 'bleed' | 'safeMargin'; labelKey: 'printBleedLabel' | 'printSafeMarginLabel'; range: { min: number; max: number } }[] = [
+  { option: 'bleed', labelKey: 'printBleedLabel', range: BLEED_RANGE },
+  { option: 'safeMargin', labelKey: 'printSafeMarginLabel', range: SAFE_MARGIN_RANGE },
+];
+
+const GUIDE_MARKS: { option: 'cropMarks' | 'registrationMarks'; labelKey: 'printCropMarksLabel' | 'printRegistrationMarksLabel' }[] = [
+  { option: 'cropMarks', labelKey: 'printCropMarksLabel' },
+  { option: 'registrationMarks', labelKey: 'printRegistrationMarksLabel' },
+];
+
+const SAFE_ZONE_WARNINGS: Record<SafeZoneElement, 'safeZoneWarning_logo' | 'safeZoneWarning_text'> = {
+  logo: 'safeZoneWarning_logo',
+  text: 'safeZoneWarning_text',
+};
+
+// The file the print method calls for is the primary button.
+const getButtonColors = (isRecommended: boolean): string =>
+  isRecommended ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-gray-700 hover:bg-gray-600';
+
+interface PrintExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  onDownloadSvg: (settings: PrintSettings) => Promise<void>;
+  onDownloadPng: (settings: PrintSettings) => Promise<void>;
+}
+
+const PrintExportPanel: React.FC<PrintExportPanelProps> = ({ isOpen, onClose, design, onDownloadSvg, onDownloadPng }) => {
+  const { t } = useTranslation();
+  const printMethod = getEffectivePrintMethod(design);
+  const [settings, setSettings] = useState<PrintSettings>(() => ({ ...getPrintSettingsForMethod(printMethod), guides: getPrintGuides(design) }));
+  const [isBusy, setIsBusy] = useState(false);
+  const [tracePreviewUrl, setTracePreviewUrl] = useState<string | null>(null);
+  const [traceError, setTraceError] = useState(false);
+  const [contourPreviewUrl, setContourPreviewUrl] = useState<string | null>(null);
+  const [contourError, setContourError] = useState(false);
+  const [guidesPreviewUrl, setGuidesPreviewUrl] = useState<string | null>(null);
+  const [guidesError, setGuidesError] = useState(false);
+  const [safeZoneViolations, setSafeZoneViolations] = useState<SafeZoneElement[]>([]);
+  const isDieCut = !!PRODUCTS[design.productType].dieCut;
+  const hasGuides = !!PRODUCTS[design.productType].printGuides;
+  const method = printMethod ? getPrintMethod(printMethod) : null;
+  const isVectorMethod = method?.exportFormat === 'vector';
+
+  // A vector method needs the logo traced to no more colors than it can print.
+  useEffect(() => {
+    setSettings(s => getPrintSettingsForMethod(printMethod, s));
+  }, [printMethod]);
+
+  // Each product starts with its own bleed and safe zone.
+  useEffect(() => {
+    setSettings(s => ({ ...s, guides: getPrintGuides(design) }));
+  }, [design.productType]);
+
+  // Traces the logo again once the sliders settle; the export reuses the last trace.
+  useEffect(() => {
+    if (!isOpen || !settings.traceLogo || !design.logo) {
+      setTracePreviewUrl(null);
+      return;
+    }
+    const logo = design.logo;
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const traced = await traceLogo(logo, settings.trace);
+        if (isCancelled) return;
+        const box = { x: 0, y: 0, width: traced.width, height: traced.height };
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${traced.width} ${traced.height}">${getTracedLogoMarkup(traced, box)}</svg>`;
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+        setTracePreviewUrl(url);
+        setTraceError(false);
+      } catch (e) {
+        console.error('Logo tracing failed:', e);
+        if (!isCancelled) setTraceError(true);
+      }
+    }, TRACE_PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, design.logo, settings.traceLogo, settings.trace]);
+
+  // The contour preview is the exported SVG itself, cut line included.
+  useEffect(() => {
+    if (!isOpen || !isDieCut || !settings.cutContour || !design.logo) {
+      setContourPreviewUrl(null);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const svg = await generateCombinedSvg(design, settings);
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+        setContourPreviewUrl(url);
+        setContourError(false);
+      } catch (e) {
+        console.error('Cut contour failed:', e);
+        if (!isCancelled) setContourError(true);
+      }
+    }, TRACE_PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, isDieCut, design, settings]);
+
+  // The guides preview is the exported SVG with the trim, bleed and safe zone shown.
+  useEffect(() => {
+    if (!isOpen || !hasGuides || !design.logo) {
+      setGuidesPreviewUrl(null);
+      setSafeZoneViolations([]);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const [svg, violations] = await Promise.all([generateCombinedSvg(design, settings, true), findSafeZoneViolations(design, settings.guides)]);
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+        setGuidesPreviewUrl(url);
+        setSafeZoneViolations(violations);
+        setGuidesError(false);
+      } catch (e) {
+        console.error('Print guides preview failed:', e);
+        if (!isCancelled) setGuidesError(true);
+      }
+    }, TRACE_PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, hasGuides, design, settings]);
+
+  const setTraceOption = (option: keyof TraceOptions, value: number) =>
+    setSettings(s => ({ ...s, trace: { ...s.trace, [option]: value } }));
+
+  const setContourOption = (option: keyof ContourOptions, value: number) =>
+    setSettings(s => ({ ...s, contour: { ...s.contour, [option]: value } }));
+
+  const setGuideOption = <K extends keyof PrintGuideOptions>(option: K, value: PrintGuideOptions[K]) =>
+    setSettings(s => ({ ...s, guides: { ...s.guides, [option]: value } }));
+
+  const printArea = getPrintArea(design);
+  const maxTraceColors = Math.min(TRACE_COLOR_RANGE.max, method?.maxColors ?? TRACE_COLOR_RANGE.max);
+  const pixels = getPixelSize(printArea, settings.dpi);
+  const guideMargin = getGuideMargin(settings.guides);
+
+  const runDownload = async (download: (settings: PrintSettings) => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await download(settings);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="print-export-title">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="print-export-title" className="text-2xl font-bold text-white">{t('printExportTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="bg-gray-900/50 rounded-md p-3">
+          <p className="text-sm font-medium text-gray-200">{t(printArea.nameKey)}</p>
+          <p dir="ltr" className="text-sm text-gray-400">
+            {formatLength(printArea.width, settings.unit)} × {formatLength(printArea.height, settings.unit)} {settings.unit} · {pixels.width} × {pixels.height} px
+          </p>
+          {method && (
+            <p className="mt-2 text-xs text-gray-400">
+              <span className="font-medium text-gray-200">{t(method.nameKey)}</span> · {isVectorMethod
+                ? t('printMethodExportVector').replace('{count}', String(maxTraceColors))
+                : t('printMethodExportPng')}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="print-dpi" className="block text-sm font-medium text-gray-300">{t('printDpiLabel')}</label>
+            <select
+              id="print-dpi"
+              value={settings.dpi}
+              onChange={(e) => setSettings(s => ({ ...s, dpi: Number(e.target.value) as PrintDpi }))}
+              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
+            >
+              {PRINT_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="print-unit" className="block text-sm font-medium text-gray-300">{t('printUnitLabel')}</label>
+            <select
+              id="print-unit"
+              value={settings.unit}
+              onChange={(e) => setSettings(s => ({ ...s, unit: e.target.value as PrintUnit }))}
+              className="mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition"
+            >
+              {PRINT_UNITS.map(unit => <option key={unit.id} value={unit.id}>{t(unit.nameKey)}</option>)}
+            </select>
+          </div>
+        </div>
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.outlineText}
+            onChange={(e) => setSettings(s => ({ ...s, outlineText: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('printOutlineTextLabel')}
+            <span className="block text-xs text-gray-400">{t('printOutlineTextHint')}</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.traceLogo}
+            disabled={isVectorMethod}
+            onChange={(e) => setSettings(s => ({ ...s, traceLogo: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('printTraceLogoLabel')}
+            <span className="block text-xs text-gray-400">{t('printTraceLogoHint')}</span>
+          </span>
+        </label>
+        {settings.traceLogo && (
+          <div className="grid grid-cols-2 gap-4 bg-gray-900/50 rounded-md p-3">
+            <div className="space-y-3">
+              {TRACE_SLIDERS.map(({ option, labelKey, range, step }) => (
+                <div key={option}>
+                  <label htmlFor={`trace-${option}`} className="flex justify-between text-sm font-medium text-gray-300">
+                    <span>{t(labelKey)}</span>
+                    <span dir="ltr" className="text-gray-400">{settings.trace[option]}</span>
+                  </label>
+                  <input
+                    id={`trace-${option}`}
+                    type="range"
+                    min={range.min}
+                    max={option === 'colors' ? maxTraceColors : range.max}
+                    step={step}
+                    value={settings.trace[option]}
+                    onChange={(e) => setTraceOption(option, Number(e.target.value))}
+                    className="mt-1 w-full accent-indigo-500"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-300 mb-1">{t('tracePreviewLabel')}</p>
+              <div className="aspect-square bg-gray-300 rounded-md overflow-hidden flex items-center justify-center">
+                {tracePreviewUrl && <img src={tracePreviewUrl} alt={t('tracePreviewLabel')} className="w-full h-full object-contain" />}
+              </div>
+              {traceError && <p className="mt-1 text-xs text-red-400">{t('traceFailedError')}</p>}
+            </div>
+          </div>
+        )}
+        {isDieCut && (
+          <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.cutContour}
+              onChange={(e) => setSettings(s => ({ ...s, cutContour: e.target.checked }))}
+              className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+            />
+            <span>
+              {t('printCutContourLabel')}
+              <span className="block text-xs text-gray-400">{t('printCutContourHint')}</span>
+            </span>
+          </label>
+        )}
+        {isDieCut && settings.cutContour && (
+          <div className="grid grid-cols-2 gap-4 bg-gray-900/50 rounded-md p-3">
+            <div className="space-y-3">
+              {CONTOUR_SLIDERS.map(({ option, labelKey, range, step, isLength }) => (
+                <div key={option}>
+                  <label htmlFor={`contour-${option}`} className="flex justify-between text-sm font-medium text-gray-300">
+                    <span>{t(labelKey)}</span>
+                    <span dir="ltr" className="text-gray-400">
+                      {isLength ? `${formatLength(settings.contour[option], settings.unit)} ${settings.unit}` : settings.contour[option]}
+                    </span>
+                  </label>
+                  <input
+                    id={`contour-${option}`}
+                    type="range"
+                    min={range.min}
+                    max={range.max}
+                    step={step}
+                    value={settings.contour[option]}
+                    onChange={(e) => setContourOption(option, Number(e.target.value))}
+                    className="mt-1 w-full accent-indigo-500"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-300 mb-1">{t('contourPreviewLabel')}</p>
+              <div className="aspect-square bg-gray-300 rounded-md overflow-hidden flex items-center justify-center">
+                {contourPreviewUrl && <img src={contourPreviewUrl} alt={t('contourPreviewLabel')} className="w-full h-full object-contain" />}
+              </div>
+              {contourError && <p className="mt-1 text-xs text-red-400">{t('contourFailedError')}</p>}
+            </div>
+          </div>
+        )}
+        {hasGuides && (
+          <div className="grid grid-cols-2 gap-4 bg-gray-900/50 rounded-md p-3">
+            <div className="space-y-3">
+              {GUIDE_SLIDERS.map(({ option, labelKey, range }) => (
+                <div key={option}>
+                  <label htmlFor={`guide-${option}`} className="flex justify-between text-sm font-medium text-gray-300">
+                    <span>{t(labelKey)}</span>
+                    <span dir="ltr" className="text-gray-400">{formatLength(settings.guides[option], settings.unit)} {settings.unit}</span>
+                  </label>
+                  <input
+                    id={`guide-${option}`}
+                    type="range"
+                    min={range.min}
+                    max={range.max}
+                    step={0.0625}
+                    value={settings.guides[option]}
+                    onChange={(e) => setGuideOption(option, Number(e.target.value))}
+                    className="mt-1 w-full accent-indigo-500"
+                  />
+                </div>
+              ))}
+              {GUIDE_MARKS.map(({ option, labelKey }) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.guides[option]}
+                    onChange={(e) => setGuideOption(option, e.target.checked)}
+                    className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+                  />
+                  {t(labelKey)}
+                </label>
+              ))}
+              {guideMargin > 0 && (
+                <p dir="ltr" className="text-xs text-gray-400">
+                  {t('printDocumentSizeLabel')}: {formatLength(printArea.width + guideMargin * 2, settings.unit)} × {formatLength(printArea.height + guideMargin * 2, settings.unit)} {settings.unit}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-300 mb-1">{t('printGuidesPreviewLabel')}</p>
+              <div className="aspect-square bg-gray-300 rounded-md overflow-hidden flex items-center justify-center">
+                {guidesPreviewUrl && <img src={guidesPreviewUrl} alt={t('printGuidesPreviewLabel')} className="w-full h-full object-contain" />}
+              </div>
+              {guidesError && <p className="mt-1 text-xs text-red-400">{t('printGuidesFailedError')}</p>}
+              <p className="mt-1 text-xs text-gray-400">{t('printGuidesLegend')}</p>
+            </div>
+          </div>
+        )}
+        {safeZoneViolations.map(element => (
+          <p key={element} className="text-xs text-yellow-400">{t(SAFE_ZONE_WARNINGS[element])}</p>
+        ))}
+        <p className="text-xs text-gray-400">{t('printExportHint')}</p>
+
+        <div className="flex flex-wrap gap-3">
+          <button onClick={() => runDownload(onDownloadSvg)} disabled={isBusy} className={`flex items-center gap-2 ${getButtonColors(method?.exportFormat !== 'png')} text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed`}>
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadDesignSvg')}
+          </button>
+          <button onClick={() => runDownload(onDownloadPng)} disabled={isBusy} className={`flex items-center gap-2 ${getButtonColors(method?.exportFormat !== 'vector')} text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed`}>
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadDesignPng')}
+          </button>
+        </div>
+        {!design.logo && <p className="text-xs text-yellow-400">{t('uploadLogoWarning')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PrintExportPanel;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import type { DesignOptions } from '../types';
+import { listProjects, createProject, saveProjectDesign, updateProject, duplicateProject, deleteProject, parseTags, Project } from '../services/projectLibrary';
+import { BUNDLE_EXTENSION } from '../services/designBundle';
+import { CloseIcon, DownloadIcon, DuplicateIcon, TrashIcon, UploadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ProjectLibraryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  logoFile: File | null;
+  currentProject: Project | null;
+  onProjectSaved: (project: Project) => void;
+  onOpenProject: (project: Project) => void;
+  onProjectDeleted: (id: string) => void;
+  hasMockups: boolean;
+  onExportBundle: (includeMockups: boolean) => Promise<void>;
+  // Resolves with any warnings produced while importing.
+  onImportBundle: (file: File) => Promise<string[]>;
+}
+
+/**
+ * Shows the latest mockup of a project, falling back to its logo.
+ * Object URLs for logo blobs are revoked when the card unmounts.
+ */
+const ProjectThumbnail: React.FC<{ project: Project }> = ({ project }) => {
+  const latestMockup = project.mockups[project.mockups.length - 1];
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (latestMockup || !project.logo) {
+      setLogoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(project.logo);
+    setLogoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [latestMockup, project.logo]);
+
+  const src = latestMockup ? `data:image/png;base64,${latestMockup.image}` : logoUrl;
+  return (
+    <div className="aspect-square bg-gray-900 flex items-center justify-center">
+      {src && <img src={src} alt={project.name} className={`w-full h-full ${latestMockup ? 'object-cover' : 'object-contain p-4'}`} />}
+    </div>
+  );
+};
+
+const ProjectLibraryPanel: React.FC<ProjectLibraryPanelProps> = ({ isOpen, onClose, design, logoFile, currentProject, onProjectSaved, onOpenProject, onProjectDeleted, hasMockups, onExportBundle, onImportBundle }) => {
+  const { t } = useTranslation();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [newName, setNewName] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [includeMockups, setIncludeMockups] = useState(true);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e: any) {
+      console.error('Failed to load the project library:', e);
+      setError(e.message || t('libraryLoadError'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      setImportWarnings([]);
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const allTags = useMemo(() => Array.from(new Set(projects.flatMap(project => project.tags))).sort(), [projects]);
+  const visibleProjects = tagFilter ? projects.filter(project => project.tags.includes(tagFilter)) : projects;
+
+  // Wraps a library operation so errors are shown in the panel and the list is reloaded afterwards.
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'An unknown error occurred.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveNew = () => run(async () => {
+    const name = newName.trim() || t('libraryUntitled');
+    onProjectSaved(await createProject(name, design, logoFile));
+    setNewName('');
+  });
+
+  const handleUpdateCurrent = () => run(async () => {
+    if (!currentProject) return;
+    onProjectSaved(await saveProjectDesign(currentProject.id, design, logoFile));
+  });
+
+  const handleRename = (project: Project, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === project.name) return;
+    run(async () => {
+      const updated = await updateProject(project.id, { name: trimmed });
+      if (currentProject?.id === project.id) onProjectSaved(updated);
+    });
+  };
+
+  const handleTags = (project: Project, value: string) => {
+    const tags = parseTags(value);
+    if (tags.join(',') === project.tags.join(',')) return;
+    run(async () => {
+      const updated = await updateProject(project.id, { tags });
+      if (currentProject?.id === project.id) onProjectSaved(updated);
+    });
+  };
+
+  const handleExport = () => run(async () => {
+    await onExportBundle(includeMockups && hasMockups);
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportWarnings([]);
+    run(async () => {
+      const warnings = await onImportBundle(file);
+      if (warnings.length > 0) {
+        setImportWarnings(warnings);
+      } else {
+        onClose();
+      }
+    });
+  };
+
+  const handleDuplicate = (project: Project) => run(async () => {
+    await duplicateProject(project.id, `${project.name} ${t('libraryCopySuffix')}`);
+  });
+
+  const handleDelete = (project: Project) => {
+    if (!window.confirm(t('libraryDeleteConfirm').replace('{name}', project.name))) return;
+    run(async () => {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="library-title">
+      <div className="w-full max-w-5xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="library-title" className="text-2xl font-bold text-white">{t('libraryTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Save */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-grow min-w-[12rem]">
+            <label htmlFor="project-name" className="block text-sm font-medium text-gray-300 mb-2">{t('libraryProjectName')}</label>
+            <input
+              id="project-name"
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder={t('libraryUntitled')}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <button onClick={handleSaveNew} disabled={isBusy} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            {t('librarySaveNew')}
+          </button>
+          {currentProject && (
+            <button onClick={handleUpdateCurrent} disabled={isBusy} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('libraryUpdateCurrent').replace('{name}', currentProject.name)}
+            </button>
+          )}
+        </div>
+
+        {/* Design file */}
+        <div className="flex flex-wrap items-center gap-3 border-t border-gray-700 pt-4">
+          <h3 className="text-sm font-medium text-gray-300">{t('bundleTitle')}</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeMockups && hasMockups}
+              disabled={!hasMockups}
+              onChange={(e) => setIncludeMockups(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+            />
+            {t('bundleIncludeMockups')}
+          </label>
+          <div className="flex-grow" />
+          <button onClick={handleExport} disabled={isBusy} className="flex items-center gap-2 bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50">
+            <DownloadIcon className="w-4 h-4" />
+            {t('bundleExport')}
+          </button>
+          <button onClick={() => importInputRef.current?.click()} disabled={isBusy} className="flex items-center gap-2 bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50">
+            <UploadIcon className="w-4 h-4" />
+            {t('bundleImport')}
+          </button>
+          <input ref={importInputRef} type="file" accept={`${BUNDLE_EXTENSION},.json,application/json`} onChange={handleImport} className="hidden" />
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {importWarnings.length > 0 && (
+          <div className="text-sm text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 rounded-md p-3">
+            <p className="font-medium mb-1">{t('bundleImportedWithWarnings')}</p>
+            <ul className="list-disc ps-5 space-y-1">
+              {importWarnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2" role="group" aria-label={t('libraryFilterByTag')}>
+            <span className="text-sm text-gray-400">{t('libraryFilterByTag')}</span>
+            {['', ...allTags].map(tag => (
+              <button
+                key={tag || 'all'}
+                onClick={() => setTagFilter(tag)}
+                aria-pressed={tagFilter === tag}
+                className={`text-xs rounded-full px-3 py-1 transition-colors ${tagFilter === tag ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {tag || t('libraryAllTags')}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Projects */}
+        {visibleProjects.length === 0 ? (
+          <p className="text-sm text-gray-400">{t('libraryEmpty')}</p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visibleProjects.map(project => (
+              <li key={project.id} className={`bg-gray-900/50 rounded-md overflow-hidden border ${currentProject?.id === project.id ? 'border-indigo-500' : 'border-transparent'}`}>
+                <ProjectThumbnail project={project} />
+                <div className="p-3 space-y-2">
+                  <input
+                    type="text"
+                    defaultValue={project.name}
+                    aria-label={t('libraryProjectName')}
+                    onBlur={(e) => handleRename(project, e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                    className="w-full bg-transparent border-b border-gray-700 focus:border-indigo-500 text-white font-semibold focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    defaultValue={project.tags.join(', ')}
+                    aria-label={t('libraryTags')}
+                    placeholder={t('libraryTagsPlaceholder')}
+                    onBlur={(e) => handleTags(project, e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                    className="w-full bg-transparent border-b border-gray-700 focus:border-indigo-500 text-xs text-gray-300 focus:outline-none"
+                  />
+                  <p className="text-xs text-gray-500">
+                    {t('libraryMockupCount').replace('{count}', String(project.mockups.length))} · {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => onOpenProject(project)} disabled={isBusy} className="flex-grow flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold py-1.5 px-3 rounded-md transition-colors disabled:bg-gray-600">
+                      <UploadIcon className="w-4 h-4" />
+                      {t('libraryOpen')}
+                    </button>
+                    <button onClick={() => handleDuplicate(project)} disabled={isBusy} title={t('libraryDuplicate')} aria-label={t('libraryDuplicate')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 disabled:opacity-50 transition-colors">
+                      <DuplicateIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(project)} disabled={isBusy} title={t('libraryDelete')} aria-label={t('libraryDelete')} className="p-2 rounded-md bg-gray-700/50 hover:bg-red-600 disabled:opacity-50 transition-colors">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibraryPanel;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import type { DesignOptions } from '../types';
+import { buildMockupPrompts, MockupPrompts } from '../services/geminiService';
+import { CloseIcon, ResetIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface PromptPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  overrides: Partial<MockupPrompts>;
+  setOverrides: (overrides: Partial<MockupPrompts>) => void;
+  // The prompts sent for the mockup currently on screen, if any.
+  lastPrompts: MockupPrompts | null;
+  // An uploaded product photo replaces the generated scene, so the base prompt goes unused.
+  usesOwnPhoto: boolean;
+}
+
+const PROMPT_FIELDS: { id: keyof MockupPrompts; labelKey: 'promptBaseLabel' | 'promptEditLabel' }[] = [
+  { id: 'basePrompt', labelKey: 'promptBaseLabel' },
+  { id: 'editPrompt', labelKey: 'promptEditLabel' },
+];
+
+const PromptPanel: React.FC<PromptPanelProps> = ({ isOpen, onClose, design, overrides, setOverrides, lastPrompts, usesOwnPhoto }) => {
+  const { t } = useTranslation();
+  const generated = useMemo(() => buildMockupPrompts(design), [design]);
+
+  const setOverride = (field: keyof MockupPrompts, value: string) => {
+    setOverrides({ ...overrides, [field]: value });
+  };
+
+  const resetOverride = (field: keyof MockupPrompts) => {
+    const { [field]: _removed, ...rest } = overrides;
+    setOverrides(rest);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="prompt-title">
+      <div className="w-full max-w-4xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="prompt-title" className="text-2xl font-bold text-white">{t('promptTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400">{t('promptDescription')}</p>
+
+        {PROMPT_FIELDS.map(field => {
+          const isOverridden = overrides[field.id] !== undefined;
+          return (
+            <div key={field.id}>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor={`prompt-${field.id}`} className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                  {t(field.labelKey)}
+                  {isOverridden && <span className="text-[10px] uppercase font-bold rounded px-1.5 py-0.5 bg-amber-500/20 text-amber-300">{t('promptEditedBadge')}</span>}
+                </label>
+                <button
+                  onClick={() => resetOverride(field.id)}
+                  disabled={!isOverridden}
+                  className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                >
+                  <ResetIcon className="w-4 h-4" />
+                  {t('promptResetButton')}
+                </button>
+              </div>
+              <textarea
+                id={`prompt-${field.id}`}
+                value={overrides[field.id] ?? generated[field.id]}
+                onChange={(e) => setOverride(field.id, e.target.value)}
+                rows={field.id === 'editPrompt' ? 14 : 6}
+                dir="ltr"
+                className="w-full bg-gray-900 border border-gray-700 rounded-md p-3 text-xs font-mono text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              {field.id === 'basePrompt' && usesOwnPhoto && <p className="mt-1 text-xs text-amber-300">{t('promptBaseUnusedHint')}</p>}
+            </div>
+          );
+        })}
+
+        {lastPrompts && (
+          <details className="bg-gray-900/50 rounded-md p-3">
+            <summary className="cursor-pointer text-sm font-medium text-gray-300">{t('promptLastUsedTitle')}</summary>
+            <div className="mt-3 space-y-3">
+              {PROMPT_FIELDS.map(field => (
+                <div key={field.id}>
+                  <p className="text-xs font-medium text-gray-400 mb-1">{t(field.labelKey)}</p>
+                  <pre dir="ltr" className="whitespace-pre-wrap text-xs font-mono text-gray-300 bg-gray-900 rounded p-2">{lastPrompts[field.id]}</pre>
+                </div>
+              ))}
+            </div>
+          </details>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptPanel;
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import type { DesignOptions } from '../types';
+import { PRODUCT_COLORS } from '../constants';
+import { PRINT_DPI_OPTIONS, PRINT_UNITS, PrintDpi, PrintUnit } from '../services/printSpecs';
+import { ColorSeparation, getDefaultSeparationSettings, isDarkColor, SEPARATION_COLOR_MODES, SEPARATION_COLOR_RANGE, SeparationColorMode, SeparationSettings } from '../services/colorSeparation';
+import { generateSeparationSvg, separateDesign } from '../services/svgService';
+import { CloseIcon, DownloadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SeparationExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  onDownloadSvg: (settings: SeparationSettings) => Promise<void>;
+  onDownloadFilms: (settings: SeparationSettings) => Promise<void>;
+}
+
+// Separating renders and traces the whole design, so the preview waits for the controls to settle.
+const PREVIEW_DELAY_MS = 400;
+
+const SeparationExportPanel: React.FC<SeparationExportPanelProps> = ({ isOpen, onClose, design, onDownloadSvg, onDownloadFilms }) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<SeparationSettings>(() => getDefaultSeparationSettings(design.productColor));
+  const [isBusy, setIsBusy] = useState(false);
+  const [separation, setSeparation] = useState<ColorSeparation | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState(false);
+
+  // Dark garments need the underbase; light ones don't.
+  useEffect(() => {
+    setSettings(s => ({ ...s, underbase: isDarkColor(design.productColor) }));
+  }, [design.productColor]);
+
+  // The preview is the layered file in its inks, over the garment color.
+  useEffect(() => {
+    if (!isOpen || !design.logo) {
+      setPreviewUrl(null);
+      setSeparation(null);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await separateDesign(design, settings);
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([generateSeparationSvg(design, result, settings)], { type: 'image/svg+xml;charset=utf-8' }));
+        setSeparation(result);
+        setPreviewUrl(url);
+        setPreviewError(false);
+      } catch (e) {
+        console.error('Color separation preview failed:', e);
+        if (!isCancelled) setPreviewError(true);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, design, settings]);
+
+  const togglePaletteColor = (color: string) =>
+    setSettings(s => ({
+      ...s,
+      palette: s.palette.includes(color) ? s.palette.filter(c => c !== color) : [...s.palette, color],
+    }));
+
+  const runDownload = async (download: (settings: SeparationSettings) => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await download(settings);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selectClassName = "mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition";
+  const isPaletteEmpty = settings.colorMode === 'palette' && settings.palette.length === 0;
+  const isPaletteFull = settings.palette.length >= SEPARATION_COLOR_RANGE.max;
+  const inkCount = separation ? separation.screens.filter(screen => !screen.isUnderbase).length : 0;
+  const canDownload = !isBusy && !!design.logo && !isPaletteEmpty;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="separation-export-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="separation-export-title" className="text-2xl font-bold text-white">{t('separationExportTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="separation-color-mode" className="block text-sm font-medium text-gray-300">{t('separationColorModeLabel')}</label>
+            <select
+              id="separation-color-mode"
+              value={settings.colorMode}
+              onChange={(e) => setSettings(s => ({ ...s, colorMode: e.target.value as SeparationColorMode }))}
+              className={selectClassName}
+            >
+              {SEPARATION_COLOR_MODES.map(mode => <option key={mode.id} value={mode.id}>{t(mode.nameKey)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="separation-dpi" className="block text-sm font-medium text-gray-300">{t('printDpiLabel')}</label>
+            <select
+              id="separation-dpi"
+              value={settings.dpi}
+              onChange={(e) => setSettings(s => ({ ...s, dpi: Number(e.target.value) as PrintDpi }))}
+              className={selectClassName}
+            >
+              {PRINT_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="separation-unit" className="block text-sm font-medium text-gray-300">{t('printUnitLabel')}</label>
+            <select
+              id="separation-unit"
+              value={settings.unit}
+              onChange={(e) => setSettings(s => ({ ...s, unit: e.target.value as PrintUnit }))}
+              className={selectClassName}
+            >
+              {PRINT_UNITS.map(unit => <option key={unit.id} value={unit.id}>{t(unit.nameKey)}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {settings.colorMode === 'auto' ? (
+          <div>
+            <label htmlFor="separation-colors" className="flex justify-between text-sm font-medium text-gray-300">
+              <span>{t('separationColorsLabel')}</span>
+              <span dir="ltr" className="text-gray-400">{settings.colors}</span>
+            </label>
+            <input
+              id="separation-colors"
+              type="range"
+              min={SEPARATION_COLOR_RANGE.min}
+              max={SEPARATION_COLOR_RANGE.max}
+              step={1}
+              value={settings.colors}
+              onChange={(e) => setSettings(s => ({ ...s, colors: Number(e.target.value) }))}
+              className="mt-1 w-full accent-indigo-500"
+            />
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm font-medium text-gray-300">{t('separationPaletteLabel')}</p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {PRODUCT_COLORS.map(color => {
+                const isSelected = settings.palette.includes(color.value);
+                return (
+                  <button
+                    key={color.value}
+                    type="button"
+                    aria-pressed={isSelected}
+                    aria-label={color.name}
+                    title={color.name}
+                    disabled={!isSelected && isPaletteFull}
+                    onClick={() => togglePaletteColor(color.value)}
+                    className={`w-7 h-7 rounded-full border-2 transition-transform disabled:opacity-30 disabled:cursor-not-allowed ${isSelected ? 'border-indigo-400 scale-110' : 'border-gray-600'}`}
+                    style={{ backgroundColor: color.value }}
+                  />
+                );
+              })}
+            </div>
+            <p className="mt-1 text-xs text-gray-400">{t('separationPaletteHint').replace('{count}', String(SEPARATION_COLOR_RANGE.max))}</p>
+          </div>
+        )}
+
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.underbase}
+            onChange={(e) => setSettings(s => ({ ...s, underbase: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('separationUnderbaseLabel')}
+            <span className="block text-xs text-gray-400">{t('separationUnderbaseHint')}</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.registrationMarks}
+            onChange={(e) => setSettings(s => ({ ...s, registrationMarks: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('separationRegistrationLabel')}
+            <span className="block text-xs text-gray-400">{t('separationRegistrationHint')}</span>
+          </span>
+        </label>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-1">{t('separationPreviewLabel')}</p>
+            <div className="aspect-square rounded-md overflow-hidden flex items-center justify-center p-2" style={{ backgroundColor: design.productColor }}>
+              {previewUrl && <img src={previewUrl} alt={t('separationPreviewLabel')} className="w-full h-full object-contain" />}
+            </div>
+            {previewError && <p className="mt-1 text-xs text-red-400">{t('separationFailedError')}</p>}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-1">{t('separationScreensLabel')}</p>
+            {separation && (
+              <>
+                <p className="text-sm text-white font-bold">
+                  {t('separationSummary').replace('{colors}', String(inkCount)).replace('{screens}', String(separation.screens.length))}
+                </p>
+                <ol className="mt-2 space-y-1">
+                  {separation.screens.map((screen, i) => (
+                    <li key={`${i}-${screen.color}`} className="flex items-center gap-2 text-sm text-gray-300">
+                      <span dir="ltr" className="w-5 text-gray-500">{i + 1}</span>
+                      <span className="w-4 h-4 rounded-sm border border-gray-600" style={{ backgroundColor: screen.color }} />
+                      <span dir="ltr" className="flex-1">{screen.isUnderbase ? t('separationUnderbase') : screen.color}</span>
+                      <span dir="ltr" className="text-gray-400">{Math.round(screen.coverage * 1000) / 10}%</span>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-gray-400">{t('separationExportHint')}</p>
+
+        <div className="flex flex-wrap gap-3">
+          <button onClick={() => runDownload(onDownloadSvg)} disabled={!canDownload} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadSeparationSvg')}
+          </button>
+          <button onClick={() => runDownload(onDownloadFilms)} disabled={!canDownload} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadSeparationFilms')}
+          </button>
+        </div>
+        {!design.logo && <p className="text-xs text-yellow-400">{t('uploadLogoWarning')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SeparationExportPanel;
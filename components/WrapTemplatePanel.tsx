@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import type { DesignOptions } from '../types';
+import { PRODUCTS } from '../services/productRegistry';
+import { getDefaultWrapSettings, getWrapTemplate, WRAP_BLEED_OPTIONS, WrapBleed, WrapSettings, WrapTemplateId } from '../services/wrapTemplates';
+import { generateWrapTemplateSvg } from '../services/svgService';
+import { TRACE_COLOR_RANGE, TRACE_SMOOTHING_RANGE, TRACE_SPECKLE_RANGE, TraceOptions } from '../services/logoTracer';
+import { CloseIcon, DownloadIcon } from './icons';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface WrapTemplatePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  design: DesignOptions;
+  onDownload: (settings: WrapSettings) => Promise<void>;
+}
+
+// Tapered templates are re-rendered at full resolution, so the preview waits for the controls to settle.
+const PREVIEW_DELAY_MS = 400;
+
+const TRACE_SLIDERS: { option: keyof TraceOptions; labelKey: 'traceColorsLabel' | 'traceSmoothingLabel' | 'traceSpeckleLabel'; range: { min: number; max: number }; step: number }[] = [
+  { option: 'colors', labelKey: 'traceColorsLabel', range: TRACE_COLOR_RANGE, step: 1 },
+  { option: 'smoothing', labelKey: 'traceSmoothingLabel', range: TRACE_SMOOTHING_RANGE, step: 0.1 },
+  { option: 'speckle', labelKey: 'traceSpeckleLabel', range: TRACE_SPECKLE_RANGE, step: 1 },
+];
+
+const WrapTemplatePanel: React.FC<WrapTemplatePanelProps> = ({ isOpen, onClose, design, onDownload }) => {
+  const { t } = useTranslation();
+  const templateIds = PRODUCTS[design.productType].wrapTemplates || [];
+  const [settings, setSettings] = useState<WrapSettings>(() => getDefaultWrapSettings(templateIds[0] || 'skinny_20oz'));
+  const [isBusy, setIsBusy] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState(false);
+
+  // Switching product falls back to its default blank.
+  useEffect(() => {
+    if (templateIds.length > 0 && !templateIds.includes(settings.templateId)) {
+      setSettings(s => ({ ...s, templateId: templateIds[0] }));
+    }
+  }, [templateIds, settings.templateId]);
+
+  // The preview is the exported template with the trim and safe zone drawn over it.
+  useEffect(() => {
+    if (!isOpen || !design.logo) {
+      setPreviewUrl(null);
+      return;
+    }
+    let url: string | null = null;
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const svg = await generateWrapTemplateSvg(design, settings, true);
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+        setPreviewUrl(url);
+        setPreviewError(false);
+      } catch (e) {
+        console.error('Wrap template preview failed:', e);
+        if (!isCancelled) setPreviewError(true);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, design, settings]);
+
+  const runDownload = async () => {
+    setIsBusy(true);
+    try {
+      await onDownload(settings);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setTraceOption = (option: keyof TraceOptions, value: number) =>
+    setSettings(s => ({ ...s, trace: { ...s.trace, [option]: value } }));
+
+  if (!isOpen) return null;
+
+  const template = getWrapTemplate(settings.templateId);
+  const selectClassName = "mt-1 block w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 transition";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="wrap-template-title">
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-2xl p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 id="wrap-template-title" className="text-2xl font-bold text-white">{t('wrapExportTitle')}</h2>
+          <button onClick={onClose} aria-label={t('closeButton')} title={t('closeButton')} className="p-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="wrap-template" className="block text-sm font-medium text-gray-300">{t('wrapTemplateLabel')}</label>
+            <select
+              id="wrap-template"
+              value={settings.templateId}
+              onChange={(e) => setSettings(s => ({ ...s, templateId: e.target.value as WrapTemplateId }))}
+              className={selectClassName}
+            >
+              {templateIds.map(id => <option key={id} value={id}>{t(getWrapTemplate(id).nameKey)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="wrap-bleed" className="block text-sm font-medium text-gray-300">{t('wrapBleedLabel')}</label>
+            <select
+              id="wrap-bleed"
+              value={settings.bleed}
+              onChange={(e) => setSettings(s => ({ ...s, bleed: Number(e.target.value) as WrapBleed }))}
+              className={selectClassName}
+            >
+              {WRAP_BLEED_OPTIONS.map(bleed => <option key={bleed} value={bleed}>{bleed} in</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="bg-gray-900/50 rounded-md p-3">
+          <p dir="ltr" className="text-sm text-gray-400">
+            {template.width}{template.bottomWidth !== undefined && ` → ${template.bottomWidth}`} × {template.height} in
+          </p>
+          {template.bottomWidth !== undefined && <p className="text-xs text-gray-400">{t('wrapTaperedHint')}</p>}
+          {template.handleGap !== undefined && <p className="text-xs text-gray-400">{t('wrapHandleGapHint')}</p>}
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.repeat}
+            onChange={(e) => setSettings(s => ({ ...s, repeat: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('wrapRepeatLabel')}
+            <span className="block text-xs text-gray-400">{t('wrapRepeatHint')}</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.mirror}
+            onChange={(e) => setSettings(s => ({ ...s, mirror: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('wrapMirrorLabel')}
+            <span className="block text-xs text-gray-400">{t('wrapMirrorHint')}</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.outlineText}
+            onChange={(e) => setSettings(s => ({ ...s, outlineText: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('printOutlineTextLabel')}
+            <span className="block text-xs text-gray-400">{t('printOutlineTextHint')}</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.traceLogo}
+            onChange={(e) => setSettings(s => ({ ...s, traceLogo: e.target.checked }))}
+            className="mt-0.5 rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500"
+          />
+          <span>
+            {t('printTraceLogoLabel')}
+            <span className="block text-xs text-gray-400">{t('printTraceLogoHint')}</span>
+          </span>
+        </label>
+        {settings.traceLogo && (
+          <div className="space-y-3 bg-gray-900/50 rounded-md p-3">
+            {TRACE_SLIDERS.map(({ option, labelKey, range, step }) => (
+              <div key={option}>
+                <label htmlFor={`wrap-trace-${option}`} className="flex justify-between text-sm font-medium text-gray-300">
+                  <span>{t(labelKey)}</span>
+                  <span dir="ltr" className="text-gray-400">{settings.trace[option]}</span>
+                </label>
+                <input
+                  id={`wrap-trace-${option}`}
+                  type="range"
+                  min={range.min}
+                  max={range.max}
+                  step={step}
+                  value={settings.trace[option]}
+                  onChange={(e) => setTraceOption(option, Number(e.target.value))}
+                  className="mt-1 w-full accent-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <p className="text-sm font-medium text-gray-300 mb-1">{t('wrapPreviewLabel')}</p>
+          <div className="bg-white rounded-md overflow-hidden flex items-center justify-center p-2">
+            {previewUrl && <img src={previewUrl} alt={t('wrapPreviewLabel')} className="max-w-full max-h-80 object-contain" />}
+          </div>
+          {previewError && <p className="mt-1 text-xs text-red-400">{t('wrapPreviewError')}</p>}
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <button onClick={runDownload} disabled={isBusy || !design.logo} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            <DownloadIcon className="w-5 h-5" />
+            {t('downloadWrapFile')}
+          </button>
+        </div>
+        {!design.logo && <p className="text-xs text-yellow-400">{t('uploadLogoWarning')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default WrapTemplatePanel;
@@ -1,5 +1,5 @@
 import React from 'react';
-import type { DesignStyle, ModelPose, ModelAudience, TshirtFont, ProductType, BagMaterial, TextStyle, FrameStyle, FrameModel, FrameDimension, FrameTexture, MugStyle, MugModel, SipperGlassStyle, SipperGlassModel, TumblerStyle, TumblerModel, HalloweenTumblerStyle, HalloweenTumblerSetting, TumblerTrioStyle, TumblerTrioSetting, PhoneCaseStyle, PhoneCaseModel, StickerStyle, StickerSetting, PosterStyle, PosterSetting, WalletStyle, WalletModel, CapStyle, CapModel, BeanieStyle, BeanieModel, PillowStyle, PillowSetting, FlatLayStyle, PuzzleStyle, PuzzleSetting, LaptopSleeveStyle, LaptopSleeveSetting, BackgroundStyle, ProfessionalBackground, WritingTemplateCategory, ArtisticFilter, DesignPlacement, ProductTexture } from './types';
+import type { DesignStyle, ModelPose, ModelAudience, TshirtFont, ProductType, BagMaterial, TextStyle, FrameStyle, FrameModel, FrameDimension, FrameTexture, MugStyle, MugModel, SipperGlassStyle, SipperGlassModel, TumblerStyle, TumblerModel, HalloweenTumblerStyle, HalloweenTumblerSetting, TumblerTrioStyle, TumblerTrioSetting, PhoneCaseStyle, PhoneCaseModel, StickerStyle, StickerSetting, PosterStyle, PosterSetting, WalletStyle, WalletModel, CapStyle, CapModel, BeanieStyle, BeanieModel, PillowStyle, PillowSetting, FlatLayStyle, PuzzleStyle, PuzzleSetting, LaptopSleeveStyle, LaptopSleeveSetting, EngravingMaterial, AspectRatio, BackgroundStyle, ProfessionalBackground, WritingTemplateCategory, ArtisticFilter, DesignPlacement, ProductTexture } from './types';
 // FIX: Added missing icon imports (TumblerIcon, etc.) to resolve module export errors.
 import { TshirtIcon, SweatshirtIcon, HoodieIcon, BagIcon, FrameIcon, MugIcon, SipperGlassIcon, TumblerIcon, HalloweenTumblerIcon, TumblerTrioIcon, LaserIcon, PhoneCaseIcon, StickerIcon, PosterIcon, WalletIcon, CapIcon, BeanieIcon, PillowIcon, FlatLayIcon, PuzzleIcon, LaptopSleeveIcon, TshirtAndMugIcon, SweatshirtAndMugIcon } from './components/productIcons';
 
@@ -116,15 +116,16 @@ export const PRODUCT_TEXTURES: {id: ProductTexture, nameKey: string}[] = [
     { id: 'watercolor_splash_artistic', nameKey: 'productTexture_watercolor_splash_artistic' },
 ];
 
-export const FRAME_DIMENSIONS: {id: FrameDimension, nameKey: string, description: string}[] = [
-    { id: '8.5x11', nameKey: 'frameDimension_8_5x11', description: 'an 8.5 by 11 inch portrait frame' },
-    { id: '14x11', nameKey: 'frameDimension_14x11', description: 'a 14 by 11 inch landscape frame' },
-    { id: '20x16', nameKey: 'frameDimension_20x16', description: 'a 20 by 16 inch landscape frame' },
-    { id: '36x24', nameKey: 'frameDimension_36x24', description: 'a 36 by 24 inch landscape frame' },
-    { id: 'A1', nameKey: 'frameDimension_A1', description: 'an A1 size portrait frame' },
-    { id: 'A2', nameKey: 'frameDimension_A2', description: 'an A2 size portrait frame' },
-    { id: 'A3', nameKey: 'frameDimension_A3', description: 'an A3 size landscape frame' },
-    { id: 'A4', nameKey: 'frameDimension_A4', description: 'an A4 size portrait frame' },
+// `width` and `height` are the print size in inches (ISO sizes converted from millimetres).
+export const FRAME_DIMENSIONS: {id: FrameDimension, nameKey: string, description: string, width: number, height: number}[] = [
+    { id: '8.5x11', nameKey: 'frameDimension_8_5x11', description: 'an 8.5 by 11 inch portrait frame', width: 8.5, height: 11 },
+    { id: '14x11', nameKey: 'frameDimension_14x11', description: 'a 14 by 11 inch landscape frame', width: 14, height: 11 },
+    { id: '20x16', nameKey: 'frameDimension_20x16', description: 'a 20 by 16 inch landscape frame', width: 20, height: 16 },
+    { id: '36x24', nameKey: 'frameDimension_36x24', description: 'a 36 by 24 inch landscape frame', width: 36, height: 24 },
+    { id: 'A1', nameKey: 'frameDimension_A1', description: 'an A1 size portrait frame', width: 594 / 25.4, height: 841 / 25.4 },
+    { id: 'A2', nameKey: 'frameDimension_A2', description: 'an A2 size portrait frame', width: 420 / 25.4, height: 594 / 25.4 },
+    { id: 'A3', nameKey: 'frameDimension_A3', description: 'an A3 size landscape frame', width: 420 / 25.4, height: 297 / 25.4 },
+    { id: 'A4', nameKey: 'frameDimension_A4', description: 'an A4 size portrait frame', width: 210 / 25.4, height: 297 / 25.4 },
 ];
 
 export const FRAME_MODELS: {id: FrameModel, nameKey: string, description: string}[] = [
@@ -457,6 +458,16 @@ export const LAPTOP_SLEEVE_SETTINGS: {id: LaptopSleeveSetting, nameKey: string,
     { id: 'flat_lay_minimalist', nameKey: 'laptopSleeveSetting_flat_lay_minimalist', description: 'a flat lay of the laptop sleeve on a clean, minimalist background with a few tech accessories like earbuds and a mouse' },
 ];
 
+// `description` is the blank for the mockup scene; `markDescription` is how the laser mark looks on it.
+export const ENGRAVING_MATERIALS: {id: EngravingMaterial, nameKey: string, description: string, markDescription: string}[] = [
+    { id: 'wood', nameKey: 'engravingMaterial_wood', description: 'a smooth, light birch wood plaque with a fine, visible grain', markDescription: 'a slightly recessed, dark brown burnt-in engraving with soft charred edges that follows the wood grain' },
+    { id: 'slate', nameKey: 'engravingMaterial_slate', description: 'a natural dark grey slate coaster with a rough, chipped edge and a layered stone texture', markDescription: 'a crisp, pale grey-white etched mark where the laser has lightened the stone surface' },
+    { id: 'anodized_aluminum', nameKey: 'engravingMaterial_anodized_aluminum', description: 'a black anodized aluminium business card with a satin metallic finish', markDescription: 'a sharp, bright silver-white mark where the laser has removed the anodized coating, with no depth' },
+    { id: 'acrylic', nameKey: 'engravingMaterial_acrylic', description: 'a clear cast acrylic sign panel with polished, glossy edges', markDescription: 'a frosted, white satin engraving inside the clear acrylic that catches the light' },
+    { id: 'leather', nameKey: 'engravingMaterial_leather', description: 'a tan vegetable-tanned leather patch with a natural, slightly textured surface and stitched border', markDescription: 'a debossed, dark brown burnt-in engraving with a slightly darkened halo in the leather' },
+    { id: 'glass', nameKey: 'engravingMaterial_glass', description: 'a thick clear glass panel with smooth, softly reflective surfaces', markDescription: 'a fine, frosted white etched mark on the glass surface, like sandblasting' },
+];
+
 
 export const DESIGN_STYLES: {id: DesignStyle, nameKey: string}[] = [
     { id: 'classic', nameKey: 'designStyle_classic' },
@@ -548,6 +559,12 @@ export const ARTISTIC_FILTERS: {id: ArtisticFilter, nameKey: string}[] = [
     { id: 'noir', nameKey: 'artisticFilter_noir' },
 ];
 
+export const ASPECT_RATIOS: {id: AspectRatio, nameKey: string}[] = [
+    { id: '1:1', nameKey: 'aspectRatio_1_1' },
+    { id: '16:9', nameKey: 'aspectRatio_16_9' },
+    { id: '9:16', nameKey: 'aspectRatio_9_16' },
+];
+
 export const BACKGROUND_STYLES: {id: BackgroundStyle, nameKey: string}[] = [
     { id: 'studio', nameKey: 'backgroundStyle_studio' },
     { id: 'urban_street', nameKey: 'backgroundStyle_urban_street' },
@@ -719,11 +736,9 @@ export const TSHIRT_FONTS: {id: TshirtFont, name: string}[] = [
     { id: 'zilla_slab', name: 'Zilla Slab' },
 ];
 
-
-// This is a placeholder for a base image of a model wearing a t-shirt.
-// In a real application, you would use a high-quality image.
-// For this example, we will ask the AI to generate the model too.
-export const BASE_MODEL_IMAGE_B64 = ''; // We will generate the model instead of editing a base image.
+// Imagen returns at most 4 images per request, so variants are capped there.
+export const MAX_VARIANTS = 4;
+export const VARIANT_COUNTS: number[] = Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1);
 
 export const WRITING_TEMPLATES: WritingTemplateCategory[] = [
   {
@@ -2,6 +2,7 @@ export const ar = {
   headerTitle: "مولّد النماذج بالذكاء الاصطناعي",
   headerSubtitle: "أضف الحياة إلى تصميماتك بقوة Gemini",
   languageToggleButton: "English",
+  offlineProviderBadge: "معاينة دون اتصال",
   controlsTitle: "تخصيص تصميمك",
   undo: "تراجع",
   redo: "إعادة",
@@ -13,6 +14,13 @@ export const ar = {
   textLabel: "النص",
   textPlaceholder: "نصك الرائع",
   fontLabel: "الخط",
+  fontUnavailableError: "تعذّر تحميل هذا الخط. يُنزَّل الخط مرة واحدة ثم يُحفظ للاستخدام دون اتصال، لذا اتصل بالإنترنت وحاول مرة أخرى.",
+  customFontMissingError: "الخط المرفوع المستخدم في هذا التصميم غير محفوظ في هذا المتصفح. ارفع ملف الخط مرة أخرى أو اختر خطاً آخر.",
+  customFontsGroupLabel: "الخطوط المرفوعة",
+  customFontMissingOption: "خط مرفوع مفقود",
+  uploadFontButton: "رفع خط",
+  removeCustomFontButton: "إزالة الخط",
+  uploadFontHint: "TTF أو OTF أو WOFF أو WOFF2. تُحفظ الخطوط المرفوعة في هذا المتصفح فقط. لا يمكن تحويل خطوط WOFF2 إلى مسارات في ملفات الطباعة.",
   textStyleLabel: "نمط النص",
   textColorLabel: "لون النص",
   gradientStartLabel: "بداية التدرج",
@@ -63,6 +71,22 @@ export const ar = {
   logoPlacementLabel: "موضع الشعار",
   productColorLabel: "لون المنتج",
   productTextureLabel: "نسيج المنتج",
+  printMethodLabel: "طريقة الطباعة",
+  printMethod_dtg: "الطباعة المباشرة على الملابس (DTG)",
+  printMethod_screen_print: "طباعة الشاشة الحريرية",
+  printMethod_embroidery: "تطريز",
+  printMethod_sublimation: "الطباعة بالتسامي",
+  printMethod_dtf: "الطباعة على الفيلم (DTF)",
+  printMethodHint_dtg: "ألوان كاملة بملمس ناعم، والأفضل على القطن. بلا حد لعدد الألوان.",
+  printMethodHint_screen_print: "ألوان موحّدة سميكة ومسطحة، حتى 6 ألوان. يحوّل ملف الطباعة الشعار إلى ألوان مسطحة.",
+  printMethodHint_embroidery: "يُطرّز بما يصل إلى 12 لون خيط. لا يمكن تطريز التدرجات والتوهج والمؤثرات الأخرى، لذا تُعطّل أنماط النص هذه.",
+  printMethodHint_sublimation: "صبغة تندمج في البوليستر الأبيض أو المنتجات المطلية، بألوان كاملة من الحافة إلى الحافة.",
+  printMethodHint_dtf: "فيلم مطبوع يُكبس على المنتج، بألوان كاملة على أي خامة تقريبًا.",
+  textStyleUnavailableHint: "لا يمكن تنفيذ نمط النص هذا بطريقة الطباعة المختارة، لذا يُستخدم نص عادي.",
+  variantCountLabel: "عدد النسخ لكل تشغيل",
+  variantLabel: "نسخة",
+  downloadVariant: "تنزيل النسخة",
+  variantsTitle: "النسخ",
   generateButton: "إنشاء نموذج",
   generateEngravingButton: "إنشاء معاينة",
   generatingButton: "جارٍ الإنشاء...",
@@ -98,6 +122,210 @@ export const ar = {
   zoomIn: "تكبير",
   zoomOut: "تصغير",
 
+  batchButton: "دفعة",
+  batchTitle: "إنشاء دفعة",
+  closeButton: "إغلاق",
+  batchProductsLabel: "المنتجات",
+  batchColorsLabel: "الألوان",
+  batchPosesLabel: "الوضعيات",
+  batchPosesNotApplicable: "لا يستخدم أي من المنتجات المحددة وضعية عارض.",
+  batchJobCount: "سيتم إنشاء {count} نموذج",
+  batchStartButton: "بدء الدفعة",
+  batchCancelButton: "إلغاء",
+  batchDownloadZip: "تنزيل ZIP",
+  batchStatus_pending: "قيد الانتظار",
+  batchStatus_running: "قيد التشغيل",
+  batchStatus_done: "تم",
+  batchStatus_failed: "فشل",
+  batchStatus_cancelled: "أُلغي",
+
+  libraryButton: "مكتبة المشاريع",
+  libraryTitle: "مكتبة المشاريع",
+  libraryProjectName: "اسم المشروع",
+  libraryUntitled: "مشروع بدون عنوان",
+  librarySaveNew: "حفظ كمشروع جديد",
+  libraryUpdateCurrent: "تحديث \"{name}\"",
+  libraryFilterByTag: "تصفية حسب الوسم:",
+  libraryAllTags: "الكل",
+  libraryEmpty: "لا توجد مشاريع محفوظة بعد. احفظ تصميمك الحالي لبدء مكتبتك.",
+  libraryTags: "الوسوم",
+  libraryTagsPlaceholder: "أضف وسوماً مفصولة بفواصل",
+  libraryMockupCount: "{count} نموذج",
+  libraryOpen: "فتح",
+  libraryDuplicate: "تكرار",
+  libraryDelete: "حذف",
+  libraryDeleteConfirm: "حذف \"{name}\" وجميع نماذجه؟ لا يمكن التراجع عن ذلك.",
+  libraryCopySuffix: "(نسخة)",
+  libraryLoadError: "تعذر تحميل مكتبة المشاريع.",
+  libraryCurrentProject: "المشروع: {name}",
+
+  bundleTitle: "ملف التصميم",
+  bundleIncludeMockups: "تضمين النماذج",
+  bundleExport: "تصدير ‎.mockup.json",
+  bundleImport: "استيراد ملف تصميم",
+  bundleImportedWithWarnings: "تم استيراد التصميم مع بعض التغييرات:",
+
+  copyLink: "نسخ رابط المشاركة",
+  linkCopied: "تم نسخ الرابط!",
+  errorCopyLink: "تعذر نسخ الرابط. انسخه من شريط العنوان بدلاً من ذلك.",
+
+  showPromptButton: "عرض الموجّه",
+  promptTitle: "الموجّهات",
+  promptDescription: "هذه هي الموجّهات التي سيتم إرسالها للتصميم الحالي. عدّلها لاستبدال ما يُرسل في عملية الإنشاء التالية.",
+  promptBaseLabel: "الخطوة 1: موجّه الصورة الأساسية",
+  promptEditLabel: "الخطوة 2: موجّه تطبيق التصميم",
+  promptEditedBadge: "معدّل",
+  promptResetButton: "إعادة إلى الموجّه المُنشأ",
+  promptLastUsedTitle: "الموجّهات المستخدمة للنتيجة الحالية",
+  reapplyDesignButton: "إعادة تطبيق التصميم (الإبقاء على المشهد)",
+  newSceneButton: "مشهد جديد",
+  sceneKeptHint: "يتم الإبقاء على العارض والمشهد، ويُعاد تطبيق التصميم فقط.",
+  productPhotoLabel: "صورة منتجك الخاصة (اختياري)",
+  uploadProductPhoto: "ارفع صورة لمنتج فارغ",
+  productPhotoHint: "يُطبَّق التصميم على صورتك بدلاً من مشهد مُولَّد. PNG أو JPG، حتى 10 ميجابايت.",
+  productPhotoInUse: "تُستخدم صورتك كمشهد",
+  removeProductPhoto: "إزالة صورة المنتج",
+  errorUnsupportedPhotoType: "نوع الصورة غير مدعوم. يرجى رفع صورة PNG أو JPG.",
+  promptBaseUnusedHint: "تُستخدم صورة منتجك الخاصة كمشهد، لذلك لا يُرسل هذا الموجّه.",
+  downloadPrintFile: "ملف جاهز للطباعة…",
+  downloadWrapTemplate: "قالب التغليف (SVG)",
+  downloadSeparations: "فصل الألوان للطباعة الحريرية",
+  downloadEmbroidery: "ملف غرز التطريز",
+  printExportTitle: "تصدير جاهز للطباعة",
+  printDpiLabel: "الدقة",
+  printUnitLabel: "الوحدات",
+  printUnit_in: "بوصة",
+  printUnit_cm: "سنتيمتر",
+  printExportHint: "تُضبط الملفات على مساحة الطباعة الخاصة بالمنتج بخلفية شفافة، مع هامش النزف والعلامات للمنتجات التي تُقص بعد الطباعة. يحمل ملف SVG مقاسه الفعلي، ويُنشأ ملف PNG بالدقة المختارة.",
+  printMethodExportVector: "أرسل ملف SVG: يُحوَّل الشعار إلى {count} ألوان مسطحة على الأكثر وتُحوَّل النصوص إلى مسارات.",
+  printMethodExportPng: "أرسل ملف PNG: صورة نقطية شفافة بألوان كاملة بالدقة المختارة.",
+  printOutlineTextLabel: "تحويل النص إلى مسارات",
+  printOutlineTextHint: "يستبدل النص بأشكال حروف الخط، ليظهر ملف SVG بالشكل نفسه في Illustrator وInkscape وCricut Design Space وبرامج الليزر دون تثبيت الخط.",
+  printTraceLogoLabel: "تتبع الشعار إلى مسارات متجهية",
+  printTraceLogoHint: "يعيد رسم شعار JPEG أو PNG كأشكال بألوان مسطحة، ليتدرج الملف بوضوح وتستخدمه آلات القص وبرامج RIP.",
+  traceColorsLabel: "الألوان",
+  traceSmoothingLabel: "التنعيم",
+  traceSpeckleLabel: "إزالة النقاط",
+  tracePreviewLabel: "الشعار المتتبع",
+  traceFailedError: "تعذر تتبع الشعار.",
+  printCutContourLabel: "إضافة خط قص محيطي",
+  printCutContourHint: "يضيف خطًا بلون خاص باسم \"CutContour\" حول الشعار والنص للطباعة والقص. تتسع الصفحة لاحتوائه، ويُصدَّر ملف PNG بدونه.",
+  contourOffsetLabel: "المسافة",
+  contourSmoothingLabel: "التنعيم",
+  contourBridgeLabel: "أدنى عرض للجسر",
+  contourPreviewLabel: "معاينة خط القص",
+  contourFailedError: "تعذر حساب خط القص.",
+  printBleedLabel: "هامش النزف",
+  printSafeMarginLabel: "الهامش الآمن",
+  printCropMarksLabel: "علامات القص",
+  printRegistrationMarksLabel: "علامات المحاذاة",
+  printDocumentSizeLabel: "المستند مع النزف والعلامات",
+  printGuidesPreviewLabel: "معاينة القص",
+  printGuidesFailedError: "تعذر رسم معاينة القص.",
+  printGuidesLegend: "الخط الأزرق المتقطع: حافة القص. الأحمر: النزف، يُقص ويُزال. النقاط الوردية: المنطقة الآمنة للنصوص والشعارات. يحتفظ ملف SVG بهذه الأدلة كطبقة مخفية.",
+  safeZoneWarning_logo: "يتجاوز الشعار المنطقة الآمنة وقد يُقص عند الحافة.",
+  safeZoneWarning_text: "يتجاوز النص المنطقة الآمنة وقد يُقص عند الحافة.",
+  engravingExportTitle: "تصدير النقش بالليزر",
+  engravingAlgorithmLabel: "طريقة التحويل",
+  ditherAlgorithm_threshold: "عتبة (أبيض وأسود صريح)",
+  ditherAlgorithm_floyd_steinberg: "تنقيط فلويد-ستاينبرغ",
+  ditherAlgorithm_jarvis: "تنقيط جارفيس",
+  ditherAlgorithm_stucki: "تنقيط ستوكي",
+  ditherAlgorithm_ordered: "تنقيط منتظم (نصف تدرج)",
+  engravingThresholdLabel: "العتبة",
+  engravingThresholdHint: "مع التنقيط، يجعل هذا الشعار كله أفتح أو أغمق.",
+  engravingDpiLabel: "كثافة الخطوط",
+  engravingOutputLabel: "مخرجات الشعار",
+  engravingOutput_bitmap: "صورة PNG أحادية البت (مضمنة)",
+  engravingOutput_vector: "مسارات متجهية متتبعة",
+  engravingInvertLabel: "عكس الألوان للمواد الداكنة",
+  engravingInvertHint: "ينقش الأجزاء الفاتحة من الشعار، للأردواز والألمنيوم المؤكسد والأسطح الأخرى التي يجعلها الليزر أفتح.",
+  engravingPreviewLabel: "معاينة (الأسود هو المنقوش)",
+  engravingPreviewError: "تعذر عرض المعاينة.",
+  engravingExportHint: "كل بكسل في الشعار إما أن يُنقش أو لا. تبدو الصور والتدرجات أفضل مع التنقيط، والرسوم الخطية والشعارات النصية أفضل مع العتبة، وتُتتبع إلى مسارات أنظف.",
+  downloadEngravingFile: "تنزيل SVG",
+  engravingMaterialPresetHint: "تبدأ طريقة التحويل وكثافة الخطوط والعكس من الإعدادات المسبقة لهذه المادة. غيّر المادة من خيارات المنتج.",
+  engravingScoreBorderLabel: "حز إطار",
+  engravingScoreBorderHint: "يضيف إطارًا أزرق رفيعًا جدًا على بعد ربع بوصة داخل الحافة.",
+  engravingCutOutlineLabel: "قص القطعة",
+  engravingCutOutlineHint: "يضيف خطًا أحمر رفيعًا جدًا حول منطقة النقش ليقص الليزر على امتداده.",
+  engravingCutUnavailable: "لا يمكن قص هذه المادة بليزر CO2، لذا تُصدَّر خطوط النقش والحز فقط.",
+  laserLayersLabel: "إعدادات الليزر المقترحة",
+  laserLayersHint: "نقاط بداية لليزر CO2 بقدرة 40–60 واط. جرّب شبكة اختبار على قطعة من المادة نفسها أولًا. يسرد ملف JSON الإعدادات حسب لون كل طبقة.",
+  laserLayer_engrave: "نقش",
+  laserLayer_score: "حز",
+  laserLayer_cut: "قص",
+  downloadLaserSettings: "تنزيل الإعدادات (JSON)",
+  wrapExportTitle: "قالب التغليف للطباعة بالتسامي",
+  wrapTemplateLabel: "المنتج الخام",
+  wrapTemplate_skinny_20oz: "تمبلر نحيف 20 أونصة (مستقيم)",
+  wrapTemplate_skinny_30oz: "تمبلر نحيف 30 أونصة (مستقيم)",
+  wrapTemplate_tapered_20oz: "تمبلر مخروطي 20 أونصة",
+  wrapTemplate_tapered_30oz: "تمبلر مخروطي 30 أونصة",
+  wrapTemplate_mug_11oz: "كوب 11 أونصة",
+  wrapTemplate_mug_15oz: "كوب 15 أونصة",
+  wrapTemplate_glass_can_16oz: "علبة زجاجية 16 أونصة",
+  wrapBleedLabel: "هامش النزف",
+  wrapTaperedHint: "تنبسط المنتجات المخروطية على شكل قوس. يُثنى التصميم ليلائمه ويُضمَّن كصورة بدقة 300 نقطة في البوصة.",
+  wrapHandleGapHint: "يلتقي طرفا التغليف عند المقبض؛ وتبقى المناطق المظللة هناك فارغة.",
+  wrapRepeatLabel: "تكرار على الجانبين",
+  wrapRepeatHint: "يضع التصميم على كل نصف من التغليف ليظهر من أي جانب.",
+  wrapMirrorLabel: "عكس للطباعة بالتسامي",
+  wrapMirrorHint: "يُضغط ورق النقل ووجهه إلى الأسفل على المنتج، لذا تُعكس الطباعة.",
+  wrapPreviewLabel: "معاينة (الأزرق: حد القص، الوردي: المنطقة الآمنة)",
+  wrapPreviewError: "تعذر عرض معاينة القالب.",
+  separationExportTitle: "فصل الألوان للطباعة الحريرية",
+  separationColorModeLabel: "الألوان الموحّدة",
+  separationColorMode_auto: "تلقائي (من التصميم)",
+  separationColorMode_palette: "اختيار من اللوحة",
+  separationColorsLabel: "عدد الألوان",
+  separationPaletteLabel: "الأحبار",
+  separationPaletteHint: "اختر حتى {count} أحبار؛ يُطبع كل جزء من التصميم بأقربها.",
+  separationUnderbaseLabel: "طبقة أساس بيضاء",
+  separationUnderbaseHint: "شاشة بيضاء تُطبع أولًا تحت جميع الألوان لتبقى زاهية على الملابس الداكنة. أصغر قليلًا من الألوان حتى لا تظهر عند الحواف.",
+  separationRegistrationLabel: "علامات التسجيل",
+  separationRegistrationHint: "أهداف خارج منطقة الطباعة، على كل شاشة، لمحاذاة الشاشات على المطبعة.",
+  separationPreviewLabel: "معاينة",
+  separationScreensLabel: "الشاشات (بترتيب الطباعة)",
+  separationSummary: "{colors} ألوان · {screens} شاشات",
+  separationUnderbase: "طبقة الأساس",
+  separationFailedError: "تعذّر فصل ألوان التصميم.",
+  separationExportHint: "كل لون طبقة مستقلة في ملف SVG، ممتدة قليلًا تحت الألوان المجاورة لتعويض انحراف المحاذاة. الأفلام موجبة سوداء، ملف PNG لكل شاشة، مع تقرير JSON بالألوان ونسبة تغطيتها لتسعير دقيق. تتحول التدرجات إلى ألوان مصمتة وليس إلى نقاط نصفية.",
+  embroideryExportTitle: "التطريز",
+  embroideryColorsLabel: "ألوان الخيوط",
+  embroideryWidthLabel: "عرض التطريز",
+  embroideryDensityLabel: "المسافة بين الصفوف",
+  embroideryDensityHint: "المسافة بين صفوف الغرز. الصفوف المتقاربة تغطي أفضل لكنها تستغرق وقتًا أطول وتجعل الأقمشة الرقيقة أكثر صلابة.",
+  embroideryPreviewLabel: "معاينة الغرز",
+  embroideryThreadsLabel: "الخيوط (بترتيب الخياطة)",
+  embroideryStitchCount: "{count} غرزة",
+  embroideryStats: "{width} × {height} بوصة · {changes} تغييرات لون · نحو {minutes} دقيقة للخياطة",
+  embroideryTooTallWarning: "بهذا العرض يصبح التصميم أطول من مساحة التطريز في المنتج. قلّل العرض.",
+  embroideryFailedError: "تعذّر تحويل التصميم إلى غرز.",
+  embroideryExportHint: "تُخاط الأشكال الضيقة مثل الحروف بغرز الساتان والأعرض بغرز التعبئة، ويُطابَق كل لون مع أقرب خيط في جدول ألوان قياسي. ملفات DST وEXP نقطة بداية لمصمم التطريز. راجع الطبقة السفلية وتعويض الشد والحروف الصغيرة قبل الإنتاج.",
+  downloadEmbroideryDst: "تنزيل DST",
+  downloadEmbroideryExp: "تنزيل EXP",
+  downloadSeparationSvg: "تنزيل SVG متعدد الطبقات",
+  downloadSeparationFilms: "تنزيل الأفلام (ZIP)",
+  downloadWrapFile: "تنزيل SVG",
+  printArea_dtgChest: "طباعة DTG على الصدر",
+  printArea_hoodieChest: "طباعة صدر الهودي (فوق الجيب)",
+  printArea_toteBag: "طباعة الحقيبة القماشية",
+  printArea_wallet: "واجهة المحفظة",
+  printArea_capFront: "اللوحة الأمامية للقبعة",
+  printArea_beanieCuff: "طيّة القبعة الصوفية",
+  printArea_pillow: "واجهة الوسادة (18 بوصة)",
+  printArea_frame: "طباعة الإطار",
+  printArea_mug15ozWrap: "غلاف كوب 15 أونصة",
+  printArea_glassCan16ozWrap: "غلاف كوب زجاجي 16 أونصة",
+  printArea_tumbler20ozWrap: "غلاف كوب حراري نحيف 20 أونصة",
+  printArea_engravingPlate: "لوح النقش",
+  printArea_phoneCase: "ظهر جراب الهاتف",
+  printArea_sticker: "ملصق 3 بوصات",
+  printArea_poster: "ملصق 18×24 بوصة",
+  printArea_puzzle: "أحجية (252 قطعة)",
+  printArea_laptopSleeve: "حافظة حاسوب محمول (15 بوصة)",
+
   productType_tshirt: "تيشيرت",
   productType_tshirt_teacup_scene: "مشهد تيشيرت وكوب شاي",
   productType_sweatshirt: "سويت شيرت",
@@ -455,9 +683,12 @@ export const ar = {
   tumblerTrioSetting_light_wood: "خشب فاتح",
   tumblerTrioSetting_minimalist_shelf: "رف بسيط",
 
-  engravingMaterial_wood_plaque: "لوح خشبي",
-  engravingMaterial_slate_coaster: "قاعدة كوب من الأردواز",
-  engravingMaterial_metal_card: "بطاقة معدنية",
+  engravingMaterial_wood: "خشب",
+  engravingMaterial_slate: "أردواز",
+  engravingMaterial_anodized_aluminum: "ألومنيوم مؤكسد",
+  engravingMaterial_acrylic: "أكريليك",
+  engravingMaterial_leather: "جلد",
+  engravingMaterial_glass: "زجاج",
   
   phoneCaseStyle_glossy: "لامع",
   phoneCaseStyle_matte: "مطفي",
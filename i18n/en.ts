@@ -2,6 +2,7 @@ export const en = {
   headerTitle: "AI Mockup Generator",
   headerSubtitle: "Bring your designs to life with the power of Gemini",
   languageToggleButton: "عربي",
+  offlineProviderBadge: "Offline preview",
   controlsTitle: "Customize Your Design",
   undo: "Undo",
   redo: "Redo",
@@ -13,6 +14,13 @@ export const en = {
   textLabel: "Text",
   textPlaceholder: "Your awesome text",
   fontLabel: "Font",
+  fontUnavailableError: "This font couldn't be loaded. It's downloaded once and then stored for offline use, so connect to the internet and try again.",
+  customFontMissingError: "The uploaded font used by this design isn't stored in this browser. Upload the font file again or choose another font.",
+  customFontsGroupLabel: "Uploaded fonts",
+  customFontMissingOption: "Missing uploaded font",
+  uploadFontButton: "Upload font",
+  removeCustomFontButton: "Remove font",
+  uploadFontHint: "TTF, OTF, WOFF or WOFF2. Uploaded fonts are stored in this browser only. WOFF2 fonts can't be outlined in print files.",
   textStyleLabel: "Text Style",
   textColorLabel: "Text Color",
   gradientStartLabel: "Gradient Start",
@@ -63,6 +71,22 @@ export const en = {
   logoPlacementLabel: "Logo Placement",
   productColorLabel: "Product Color",
   productTextureLabel: "Product Texture",
+  printMethodLabel: "Print Method",
+  printMethod_dtg: "Direct-to-Garment (DTG)",
+  printMethod_screen_print: "Screen Print",
+  printMethod_embroidery: "Embroidery",
+  printMethod_sublimation: "Sublimation",
+  printMethod_dtf: "Direct-to-Film (DTF)",
+  printMethodHint_dtg: "Full color with a soft feel, best on cotton. No color limit.",
+  printMethodHint_screen_print: "Thick, flat spot colors, up to 6. The print file traces the logo to flat colors.",
+  printMethodHint_embroidery: "Stitched in up to 12 thread colors. Gradients, glows and other effects can't be stitched, so those text styles are turned off.",
+  printMethodHint_sublimation: "Dye fused into white polyester or coated blanks, full color and edge to edge.",
+  printMethodHint_dtf: "A printed film pressed onto the product, full color on almost any material.",
+  textStyleUnavailableHint: "This text style can't be reproduced with the chosen print method, so plain text is used.",
+  variantCountLabel: "Variants per Run",
+  variantLabel: "Variant",
+  downloadVariant: "Download Variant",
+  variantsTitle: "Variants",
   generateButton: "Generate Mockup",
   generateEngravingButton: "Generate Preview",
   generatingButton: "Generating...",
@@ -98,6 +122,210 @@ export const en = {
   zoomIn: "Zoom In",
   zoomOut: "Zoom Out",
 
+  batchButton: "Batch",
+  batchTitle: "Batch Generation",
+  closeButton: "Close",
+  batchProductsLabel: "Products",
+  batchColorsLabel: "Colors",
+  batchPosesLabel: "Poses",
+  batchPosesNotApplicable: "None of the selected products use a model pose.",
+  batchJobCount: "{count} mockups will be generated",
+  batchStartButton: "Start Batch",
+  batchCancelButton: "Cancel",
+  batchDownloadZip: "Download ZIP",
+  batchStatus_pending: "Pending",
+  batchStatus_running: "Running",
+  batchStatus_done: "Done",
+  batchStatus_failed: "Failed",
+  batchStatus_cancelled: "Cancelled",
+
+  libraryButton: "Project Library",
+  libraryTitle: "Project Library",
+  libraryProjectName: "Project Name",
+  libraryUntitled: "Untitled Project",
+  librarySaveNew: "Save as New Project",
+  libraryUpdateCurrent: "Update \"{name}\"",
+  libraryFilterByTag: "Filter by tag:",
+  libraryAllTags: "All",
+  libraryEmpty: "No saved projects yet. Save your current design to start your library.",
+  libraryTags: "Tags",
+  libraryTagsPlaceholder: "Add tags, separated by commas",
+  libraryMockupCount: "{count} mockups",
+  libraryOpen: "Open",
+  libraryDuplicate: "Duplicate",
+  libraryDelete: "Delete",
+  libraryDeleteConfirm: "Delete \"{name}\" and all of its mockups? This cannot be undone.",
+  libraryCopySuffix: "(copy)",
+  libraryLoadError: "Could not load the project library.",
+  libraryCurrentProject: "Project: {name}",
+
+  bundleTitle: "Design File",
+  bundleIncludeMockups: "Include mockups",
+  bundleExport: "Export .mockup.json",
+  bundleImport: "Import Design File",
+  bundleImportedWithWarnings: "The design was imported with some changes:",
+
+  copyLink: "Copy Shareable Link",
+  linkCopied: "Link copied!",
+  errorCopyLink: "Could not copy the link. Copy it from the address bar instead.",
+
+  showPromptButton: "Show Prompt",
+  promptTitle: "Prompts",
+  promptDescription: "These are the prompts that will be sent for the current design. Edit them to override what is sent on the next generation.",
+  promptBaseLabel: "Step 1: Base Image Prompt",
+  promptEditLabel: "Step 2: Design Edit Prompt",
+  promptEditedBadge: "Edited",
+  promptResetButton: "Reset to Generated",
+  promptLastUsedTitle: "Prompts Used for the Current Result",
+  reapplyDesignButton: "Re-apply Design (Keep Scene)",
+  newSceneButton: "New Scene",
+  sceneKeptHint: "The model and setting are kept; only the design is applied again.",
+  productPhotoLabel: "Own Product Photo (Optional)",
+  uploadProductPhoto: "Upload a blank product photo",
+  productPhotoHint: "The design is applied to your photo instead of a generated scene. PNG or JPG, up to 10MB.",
+  productPhotoInUse: "Your photo is used as the scene",
+  removeProductPhoto: "Remove product photo",
+  errorUnsupportedPhotoType: "Unsupported photo type. Please upload a PNG or JPG image.",
+  promptBaseUnusedHint: "Your own product photo is used as the scene, so this prompt is not sent.",
+  downloadPrintFile: "Print-ready file…",
+  downloadWrapTemplate: "Wrap template (SVG)",
+  downloadSeparations: "Screen-print separations",
+  downloadEmbroidery: "Embroidery stitch file",
+  printExportTitle: "Print-Ready Export",
+  printDpiLabel: "Resolution",
+  printUnitLabel: "Units",
+  printUnit_in: "Inches",
+  printUnit_cm: "Centimetres",
+  printExportHint: "Files are sized to the product's print area with a transparent background, plus the bleed and marks for products trimmed after printing. The SVG carries its physical size; the PNG is rendered at the chosen DPI.",
+  printMethodExportVector: "Send the SVG: the logo is traced to at most {count} flat colors and the text is outlined.",
+  printMethodExportPng: "Send the PNG: a full-color transparent raster at the chosen DPI.",
+  printOutlineTextLabel: "Convert text to outlines",
+  printOutlineTextHint: "Replaces the text with the letter shapes of the font, so the SVG looks the same in Illustrator, Inkscape, Cricut Design Space and laser software without the font installed.",
+  printTraceLogoLabel: "Trace the logo to vector paths",
+  printTraceLogoHint: "Redraws a JPEG or PNG logo as flat-colored shapes, so the file scales cleanly and cutters and RIP software can use it.",
+  traceColorsLabel: "Colors",
+  traceSmoothingLabel: "Smoothing",
+  traceSpeckleLabel: "Speckle removal",
+  tracePreviewLabel: "Traced logo",
+  traceFailedError: "The logo could not be traced.",
+  printCutContourLabel: "Add a die-cut contour",
+  printCutContourHint: "Adds a \"CutContour\" spot-color line around the logo and text for print-and-cut. The page grows to fit it; the PNG is exported without it.",
+  contourOffsetLabel: "Offset",
+  contourSmoothingLabel: "Smoothing",
+  contourBridgeLabel: "Minimum bridge",
+  contourPreviewLabel: "Cut line preview",
+  contourFailedError: "The cut contour could not be computed.",
+  printBleedLabel: "Bleed",
+  printSafeMarginLabel: "Safe margin",
+  printCropMarksLabel: "Crop marks",
+  printRegistrationMarksLabel: "Registration marks",
+  printDocumentSizeLabel: "Document with bleed and marks",
+  printGuidesPreviewLabel: "Trim preview",
+  printGuidesFailedError: "The trim preview could not be drawn.",
+  printGuidesLegend: "Blue dashes: trim edge. Red: bleed, cut away. Pink dots: safe zone for text and logos. The SVG keeps these guides as a hidden layer.",
+  safeZoneWarning_logo: "The logo reaches outside the safe zone and may be cut off at the trim.",
+  safeZoneWarning_text: "The text reaches outside the safe zone and may be cut off at the trim.",
+  engravingExportTitle: "Laser Engraving Export",
+  engravingAlgorithmLabel: "Conversion",
+  ditherAlgorithm_threshold: "Threshold (solid black & white)",
+  ditherAlgorithm_floyd_steinberg: "Floyd–Steinberg dithering",
+  ditherAlgorithm_jarvis: "Jarvis dithering",
+  ditherAlgorithm_stucki: "Stucki dithering",
+  ditherAlgorithm_ordered: "Ordered (halftone) dithering",
+  engravingThresholdLabel: "Threshold",
+  engravingThresholdHint: "With dithering, this makes the whole logo lighter or darker.",
+  engravingDpiLabel: "Line density",
+  engravingOutputLabel: "Logo output",
+  engravingOutput_bitmap: "1-bit PNG (embedded)",
+  engravingOutput_vector: "Traced vector paths",
+  engravingInvertLabel: "Invert for dark materials",
+  engravingInvertHint: "Engraves the light parts of the logo, for slate, anodized aluminium and other surfaces the laser marks lighter.",
+  engravingPreviewLabel: "Preview (black is engraved)",
+  engravingPreviewError: "The preview could not be rendered.",
+  engravingExportHint: "Every pixel of the logo is either engraved or not. Photos and gradients look best dithered; line art and text-only logos look best with a threshold, and trace to cleaner vectors.",
+  downloadEngravingFile: "Download SVG",
+  engravingMaterialPresetHint: "Conversion, line density and invert start from this material's preset. Change the material in the product options.",
+  engravingScoreBorderLabel: "Score a border",
+  engravingScoreBorderHint: "Adds a blue hairline frame 1/4 in inside the edge.",
+  engravingCutOutlineLabel: "Cut out the blank",
+  engravingCutOutlineHint: "Adds a red hairline around the engraving area for the laser to cut along.",
+  engravingCutUnavailable: "This material can't be cut with a CO2 laser, so only engrave and score lines are exported.",
+  laserLayersLabel: "Suggested laser settings",
+  laserLayersHint: "Starting points for a 40–60 W CO2 laser. Run a test grid on a scrap of the same material first. The JSON file lists them per layer color.",
+  laserLayer_engrave: "Engrave",
+  laserLayer_score: "Score",
+  laserLayer_cut: "Cut",
+  downloadLaserSettings: "Download settings (JSON)",
+  wrapExportTitle: "Sublimation Wrap Template",
+  wrapTemplateLabel: "Blank",
+  wrapTemplate_skinny_20oz: "20 oz skinny (straight)",
+  wrapTemplate_skinny_30oz: "30 oz skinny (straight)",
+  wrapTemplate_tapered_20oz: "20 oz tapered",
+  wrapTemplate_tapered_30oz: "30 oz tapered",
+  wrapTemplate_mug_11oz: "11 oz mug",
+  wrapTemplate_mug_15oz: "15 oz mug",
+  wrapTemplate_glass_can_16oz: "16 oz glass can",
+  wrapBleedLabel: "Bleed",
+  wrapTaperedHint: "Tapered blanks unroll into an arc. The design is bent to fit and embedded as a 300 DPI image.",
+  wrapHandleGapHint: "The ends of the wrap meet at the handle; the shaded zones there are kept clear.",
+  wrapRepeatLabel: "Repeat on both sides",
+  wrapRepeatHint: "Places the design on each half of the wrap, so it shows from either side.",
+  wrapMirrorLabel: "Mirror for sublimation",
+  wrapMirrorHint: "Transfer paper is pressed face down onto the blank, so the print is mirrored.",
+  wrapPreviewLabel: "Preview (blue: trim, pink: safe zone)",
+  wrapPreviewError: "The template preview could not be rendered.",
+  separationExportTitle: "Screen-Print Separations",
+  separationColorModeLabel: "Spot Colors",
+  separationColorMode_auto: "Auto (from the design)",
+  separationColorMode_palette: "Pick from palette",
+  separationColorsLabel: "Number of colors",
+  separationPaletteLabel: "Inks",
+  separationPaletteHint: "Pick up to {count} inks; every part of the design is printed in the nearest one.",
+  separationUnderbaseLabel: "White underbase",
+  separationUnderbaseHint: "A white screen printed first, under all colors, so they stay bright on dark garments. Slightly smaller than the colors so it never shows at the edges.",
+  separationRegistrationLabel: "Registration marks",
+  separationRegistrationHint: "Targets outside the print area, on every screen, for lining the screens up on press.",
+  separationPreviewLabel: "Preview",
+  separationScreensLabel: "Screens (press order)",
+  separationSummary: "{colors} colors · {screens} screens",
+  separationUnderbase: "Underbase",
+  separationFailedError: "The design could not be separated.",
+  separationExportHint: "Each color is a separate layer in the SVG, spread slightly under its neighbours to allow for registration. The films are black positives, one PNG per screen, with a JSON report of the colors and their coverage for quoting. Gradients are reduced to solid colors, not halftones.",
+  embroideryExportTitle: "Embroidery",
+  embroideryColorsLabel: "Thread colors",
+  embroideryWidthLabel: "Stitched width",
+  embroideryDensityLabel: "Row spacing",
+  embroideryDensityHint: "The gap between stitch rows. Tighter rows cover better but take longer and stiffen thin fabrics.",
+  embroideryPreviewLabel: "Stitch preview",
+  embroideryThreadsLabel: "Threads (sewing order)",
+  embroideryStitchCount: "{count} stitches",
+  embroideryStats: "{width} × {height} in · {changes} color changes · about {minutes} min to sew",
+  embroideryTooTallWarning: "At this width the design is taller than the product's embroidery area. Reduce the width.",
+  embroideryFailedError: "The design could not be digitized.",
+  embroideryExportHint: "Narrow shapes such as lettering are sewn in satin and wider ones in tatami fill, each color matched to the nearest thread of a standard chart. The DST and EXP files are a starting point for the digitizer. Check underlay, pull compensation and small lettering before production.",
+  downloadEmbroideryDst: "Download DST",
+  downloadEmbroideryExp: "Download EXP",
+  downloadSeparationSvg: "Download layered SVG",
+  downloadSeparationFilms: "Download films (ZIP)",
+  downloadWrapFile: "Download SVG",
+  printArea_dtgChest: "DTG chest print",
+  printArea_hoodieChest: "Hoodie chest print (above the pocket)",
+  printArea_toteBag: "Tote bag print",
+  printArea_wallet: "Wallet front",
+  printArea_capFront: "Cap front panel",
+  printArea_beanieCuff: "Beanie cuff",
+  printArea_pillow: "Pillow front (18 in)",
+  printArea_frame: "Frame print",
+  printArea_mug15ozWrap: "15oz mug wrap",
+  printArea_glassCan16ozWrap: "16oz glass can wrap",
+  printArea_tumbler20ozWrap: "20oz skinny tumbler wrap",
+  printArea_engravingPlate: "Engraving plate",
+  printArea_phoneCase: "Phone case back",
+  printArea_sticker: "3 in sticker",
+  printArea_poster: "18×24 in poster",
+  printArea_puzzle: "Jigsaw puzzle (252 pieces)",
+  printArea_laptopSleeve: "Laptop sleeve (15 in)",
+
   productType_tshirt: "T-Shirt",
   productType_tshirt_teacup_scene: "T-Shirt & Teacup Scene",
   productType_sweatshirt: "Sweatshirt",
@@ -455,9 +683,12 @@ export const en = {
   tumblerTrioSetting_light_wood: "Light Wood Table",
   tumblerTrioSetting_minimalist_shelf: "Minimalist Shelf",
 
-  engravingMaterial_wood_plaque: "Wood Plaque",
-  engravingMaterial_slate_coaster: "Slate Coaster",
-  engravingMaterial_metal_card: "Metal Card",
+  engravingMaterial_wood: "Wood",
+  engravingMaterial_slate: "Slate",
+  engravingMaterial_anodized_aluminum: "Anodized Aluminum",
+  engravingMaterial_acrylic: "Acrylic",
+  engravingMaterial_leather: "Leather",
+  engravingMaterial_glass: "Glass",
   
   phoneCaseStyle_glossy: "Glossy",
   phoneCaseStyle_matte: "Matte",
@@ -0,0 +1,130 @@
+import type { DesignOptions, ModelPose, ProductType } from '../types';
+import { PRODUCT_COLORS } from '../constants';
+import { generateMockup, MockupPrompts } from './geminiService';
+import { createZip, base64ToBytes, ZipEntry } from './zipService';
+import { PRODUCTS, hasSection } from './productRegistry';
+
+// Products whose base image is a model shot, so the pose axis of the matrix applies to them.
+export const POSED_PRODUCTS = (Object.keys(PRODUCTS) as ProductType[]).filter(productType => hasSection(productType, 'model'));
+
+export interface BatchMatrix {
+  productTypes: ProductType[];
+  colors: string[];
+  poses: ModelPose[];
+}
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  design: DesignOptions;
+  status: BatchJobStatus;
+  image?: string;
+  prompts?: MockupPrompts;
+  error?: string;
+}
+
+const getColorName = (hex: string): string => {
+  const color = PRODUCT_COLORS.find(c => c.value.toLowerCase() === hex.toLowerCase());
+  return color ? color.name : hex;
+};
+
+const slugify = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Expands the matrix into one job per combination, starting from the current design.
+ * Poses only multiply jobs for products that show a model; other products get a single
+ * job per color using the design's own scene settings.
+ * @param baseDesign The design to copy all other options from.
+ * @param matrix The selected product types, colors and poses.
+ * @returns The list of pending jobs, in generation order.
+ */
+export const buildBatchJobs = (baseDesign: DesignOptions, matrix: BatchMatrix): BatchJob[] => {
+  const jobs: BatchJob[] = [];
+  const colors = matrix.colors.length > 0 ? matrix.colors : [baseDesign.productColor];
+
+  for (const productType of matrix.productTypes) {
+    const poses: (ModelPose | null)[] = POSED_PRODUCTS.includes(productType) && matrix.poses.length > 0 ? matrix.poses : [null];
+    for (const productColor of colors) {
+      for (const pose of poses) {
+        const design: DesignOptions = { ...baseDesign, productType, productColor, pose: pose ?? baseDesign.pose };
+        const id = [productType, slugify(getColorName(productColor)), pose].filter(Boolean).join('_');
+        jobs.push({ id, design, status: 'pending' });
+      }
+    }
+  }
+  return jobs;
+};
+
+/**
+ * Runs the jobs one after another. Running sequentially keeps us well inside the
+ * provider's rate limits; any 429s that still happen are absorbed by withRetry.
+ * @param jobs The jobs to run. They are not mutated.
+ * @param logoFile The logo to apply to every mockup.
+ * @param onUpdate Called with a fresh copy of the job list whenever a job changes state.
+ * @param signal Aborting stops the queue after the job in flight; remaining jobs are marked cancelled.
+ * @returns The final state of all jobs.
+ */
+export const runBatch = async (
+  jobs: BatchJob[],
+  logoFile: File,
+  onUpdate: (jobs: BatchJob[]) => void,
+  signal?: AbortSignal,
+): Promise<BatchJob[]> => {
+  let current = jobs.map(job => ({ ...job }));
+  const update = (index: number, patch: Partial<BatchJob>) => {
+    current = current.map((job, i) => (i === index ? { ...job, ...patch } : job));
+    onUpdate(current);
+  };
+
+  for (let i = 0; i < current.length; i++) {
+    if (current[i].status === 'done') continue;
+    if (signal?.aborted) {
+      update(i, { status: 'cancelled' });
+      continue;
+    }
+    update(i, { status: 'running', error: undefined });
+    try {
+      const { images: [image], prompts } = await generateMockup(logoFile, current[i].design);
+      update(i, { status: 'done', image, prompts });
+    } catch (e: any) {
+      console.error(`Batch job ${current[i].id} failed:`, e);
+      update(i, { status: 'failed', error: e.message || 'An unknown error occurred.' });
+    }
+  }
+  return current;
+};
+
+/**
+ * Packs every finished mockup into a ZIP together with a manifest.json describing
+ * each job (including the failed and cancelled ones, so nothing goes missing silently).
+ */
+export const createBatchZip = (jobs: BatchJob[]): Blob => {
+  const entries: ZipEntry[] = [];
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    total: jobs.length,
+    succeeded: jobs.filter(job => job.status === 'done').length,
+    jobs: jobs.map(job => {
+      const file = job.status === 'done' && job.image ? `mockups/${job.id}.png` : null;
+      if (file && job.image) {
+        entries.push({ name: file, data: base64ToBytes(job.image) });
+      }
+      return {
+        id: job.id,
+        file,
+        status: job.status,
+        error: job.error ?? null,
+        productType: job.design.productType,
+        productColor: { name: getColorName(job.design.productColor), value: job.design.productColor },
+        pose: POSED_PRODUCTS.includes(job.design.productType) ? job.design.pose : null,
+        text: job.design.text,
+        font: job.design.font,
+        style: job.design.style,
+        prompts: job.prompts ?? null,
+      };
+    }),
+  };
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
@@ -0,0 +1,221 @@
+import type { Bitmap } from './dithering';
+
+/**
+ * Traces the outlines of a 1-bit bitmap into vector paths, for cutters, lasers and
+ * logo vectorizing. Every boundary between a filled and an empty pixel becomes an
+ * edge, directed so the filled side is on its right; chaining the edges gives
+ * closed loops that wind clockwise around shapes and counter-clockwise around
+ * holes, so the path fills correctly with the default nonzero rule.
+ *
+ * The pixel outlines can then be smoothed the way potrace does it: the staircase
+ * is simplified to a polygon, and each polygon corner either stays sharp or is
+ * rounded into a Bézier curve, depending on how sharp it is.
+ */
+
+type Vertex = [number, number];
+
+// Each lattice corner has at most two outgoing edges (two at a corner where pixels meet diagonally).
+const NO_EDGE = -1;
+
+// How far (in pixels) the simplified polygon may stray from the pixel outline.
+const POLYGON_TOLERANCE = 1;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Follows the pixel boundaries into closed loops of their corner points.
+ */
+const traceOutlines = (bitmap: Bitmap): Vertex[][] => {
+  const { width, height, data } = bitmap;
+  const stride = width + 1;
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && data[y * width + x] === 1;
+  const vertex = (x: number, y: number) => y * stride + x;
+
+  const firstOut = new Int32Array(stride * (height + 1)).fill(NO_EDGE);
+  const secondOut = new Int32Array(stride * (height + 1)).fill(NO_EDGE);
+  const addEdge = (from: number, to: number) => {
+    if (firstOut[from] === NO_EDGE) firstOut[from] = to;
+    else secondOut[from] = to;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(vertex(x, y), vertex(x + 1, y));
+      if (!filled(x + 1, y)) addEdge(vertex(x + 1, y), vertex(x + 1, y + 1));
+      if (!filled(x, y + 1)) addEdge(vertex(x + 1, y + 1), vertex(x, y + 1));
+      if (!filled(x - 1, y)) addEdge(vertex(x, y + 1), vertex(x, y));
+    }
+  }
+
+  // Takes an unused edge out of `from`. Where there are two, it turns right, which keeps
+  // diagonally touching pixels as separate shapes.
+  const takeEdge = (from: number, dx: number, dy: number): number => {
+    const first = firstOut[from];
+    const second = secondOut[from];
+    secondOut[from] = NO_EDGE;
+    if (second !== NO_EDGE) {
+      const turnsRight = (second % stride) - (from % stride) === -dy && Math.floor(second / stride) - Math.floor(from / stride) === dx;
+      if (turnsRight) return second;
+    }
+    firstOut[from] = second;
+    return first;
+  };
+
+  const loops: Vertex[][] = [];
+  for (let start = 0; start < firstOut.length; start++) {
+    while (firstOut[start] !== NO_EDGE) {
+      let x = start % stride;
+      let y = Math.floor(start / stride);
+      let dx = 0;
+      let dy = 0;
+      let current = start;
+      const loop: Vertex[] = [[x, y]];
+      do {
+        const next = takeEdge(current, dx, dy);
+        const nx = next % stride;
+        const ny = Math.floor(next / stride);
+        // Only corners are kept; straight runs of edges merge into one segment.
+        if ((nx - x !== dx || ny - y !== dy) && current !== start) loop.push([x, y]);
+        dx = nx - x;
+        dy = ny - y;
+        x = nx;
+        y = ny;
+        current = next;
+      } while (current !== start);
+      loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+/**
+ * Simplifies a closed loop with Douglas–Peucker, keeping only the points that the
+ * outline can't do without.
+ */
+const simplifyLoop = (loop: Vertex[]): Vertex[] => {
+  if (loop.length <= 4) return loop;
+  const keep = new Uint8Array(loop.length);
+
+  const distanceToLine = ([px, py]: Vertex, [ax, ay]: Vertex, [bx, by]: Vertex): number => {
+    const length = Math.hypot(bx - ax, by - ay);
+    if (length === 0) return Math.hypot(px - ax, py - ay);
+    return Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+  };
+
+  const simplify = (from: number, to: number) => {
+    let farthest = -1;
+    let maxDistance = POLYGON_TOLERANCE;
+    for (let i = from + 1; i < to; i++) {
+      const distance = distanceToLine(loop[i % loop.length], loop[from], loop[to % loop.length]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+    if (farthest < 0) return;
+    keep[farthest % loop.length] = 1;
+    simplify(from, farthest);
+    simplify(farthest, to);
+  };
+
+  // A closed loop is split at its first point and the point farthest from it.
+  let opposite = 0;
+  loop.forEach(([x, y], i) => {
+    if (Math.hypot(x - loop[0][0], y - loop[0][1]) > Math.hypot(loop[opposite][0] - loop[0][0], loop[opposite][1] - loop[0][1])) opposite = i;
+  });
+  keep[0] = 1;
+  keep[opposite] = 1;
+  simplify(0, opposite);
+  simplify(opposite, loop.length);
+  return loop.filter((_, i) => keep[i]);
+};
+
+/**
+ * Potrace's curve fitting: every polygon edge is split at its midpoint, and each
+ * vertex joins the two half-edges either with a sharp corner or with a Bézier curve
+ * whose control points lie on the edges. How far along depends on how sharp the
+ * corner is; corners sharper than `alphaMax` stay sharp.
+ */
+const smoothLoop = (polygon: Vertex[], alphaMax: number): string => {
+  const n = polygon.length;
+  const at = (i: number) => polygon[(i + n) % n];
+  const midpoint = (i: number): Vertex => [(at(i)[0] + at(i + 1)[0]) / 2, (at(i)[1] + at(i + 1)[1]) / 2];
+  const lerp = (t: number, [ax, ay]: Vertex, [bx, by]: Vertex): Vertex => [ax + t * (bx - ax), ay + t * (by - ay)];
+  const point = ([x, y]: Vertex) => `${round(x)} ${round(y)}`;
+
+  const start = midpoint(n - 1);
+  let d = `M${point(start)}`;
+  for (let j = 0; j < n; j++) {
+    const [px, py] = at(j - 1);
+    const [vx, vy] = at(j);
+    const [nx, ny] = at(j + 1);
+    // The vertex's distance from the line through its neighbours, relative to the
+    // neighbours' spread along the nearest diagonal (potrace's dpara / ddenom).
+    const denominator = Math.sign(nx - px) * (nx - px) + Math.sign(ny - py) * (ny - py);
+    const offset = Math.abs((vx - px) * (ny - py) - (vy - py) * (nx - px));
+    const ratio = denominator === 0 ? Infinity : offset / denominator;
+    const alpha = (ratio > 1 ? 1 - 1 / ratio : 0) / 0.75;
+    const end = midpoint(j);
+    if (alpha >= alphaMax) {
+      d += `L${point(at(j))}L${point(end)}`;
+    } else {
+      const t = 0.5 + 0.5 * Math.min(Math.max(alpha, 0.55), 1);
+      d += `C${point(lerp(t, at(j - 1), at(j)))} ${point(lerp(t, at(j + 1), at(j)))} ${point(end)}`;
+    }
+  }
+  return `${d}Z`;
+};
+
+/**
+ * Removes specks: filled areas smaller than `minArea` pixels are cleared, then
+ * holes smaller than that are filled.
+ */
+export const despeckle = (bitmap: Bitmap, minArea: number): Bitmap => {
+  const { width, height } = bitmap;
+  const data = bitmap.data.slice();
+  if (minArea <= 1) return { width, height, data };
+
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const component: number[] = [];
+  for (const value of [1, 0]) {
+    visited.fill(0);
+    for (let seed = 0; seed < data.length; seed++) {
+      if (visited[seed] || data[seed] !== value) continue;
+      // Collects the 4-connected area around the seed.
+      component.length = 0;
+      let top = 0;
+      stack[top++] = seed;
+      visited[seed] = 1;
+      while (top > 0) {
+        const i = stack[--top];
+        component.push(i);
+        const x = i % width;
+        const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+        for (const j of neighbours) {
+          if (j >= 0 && j < data.length && !visited[j] && data[j] === value) {
+            visited[j] = 1;
+            stack[top++] = j;
+          }
+        }
+      }
+      if (component.length < minArea) component.forEach(i => { data[i] = 1 - value; });
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Traces the filled pixels of a bitmap.
+ * @param smoothing Potrace's `alphamax`: 0 keeps the exact pixel outline, around 1
+ * rounds off the staircase while keeping real corners, 1.34 and above curves every corner.
+ * @returns An SVG path `d` attribute in pixel units, or '' when nothing is filled.
+ */
+export const traceBitmap = (bitmap: Bitmap, smoothing: number = 0): string =>
+  traceOutlines(bitmap).map(loop => {
+    if (smoothing <= 0) {
+      return `M${loop[0][0]} ${loop[0][1]}${loop.slice(1).map(([x, y], i) => (loop[i][1] === y ? `H${x}` : `V${y}`)).join('')}Z`;
+    }
+    return smoothLoop(simplifyLoop(loop), smoothing);
+  }).join('');
@@ -0,0 +1,187 @@
+import type { en } from '../i18n/en';
+import type { Bitmap } from './dithering';
+import { despeckle, traceBitmap } from './bitmapTrace';
+import { quantize, toHex } from './logoTracer';
+import { dilate, erode } from './cutContour';
+import { getPrintMethod } from './printMethods';
+import type { PrintDpi, PrintUnit } from './printSpecs';
+
+/**
+ * Splits a rendered design into screen-print separations, one screen per spot
+ * ink. Every opaque pixel goes to exactly one ink, either the nearest of a few
+ * colors found in the design (k-means, as for logo tracing) or the nearest of the
+ * inks the user picked. Inks knock out of each other and are spread by a hair
+ * (the trap) so that registration drift on press doesn't open gaps between them.
+ *
+ * On dark garments an optional white underbase goes down first, under every ink.
+ * It is choked, shrunk a hair, so it never peeks out past the colors.
+ */
+
+type TranslationKey = keyof typeof en;
+
+export type SeparationColorMode = 'auto' | 'palette';
+
+export const SEPARATION_COLOR_MODES: { id: SeparationColorMode; nameKey: TranslationKey }[] = [
+  { id: 'auto', nameKey: 'separationColorMode_auto' },
+  { id: 'palette', nameKey: 'separationColorMode_palette' },
+];
+
+export interface SeparationSettings {
+  colorMode: SeparationColorMode;
+  // Auto: how many spot inks to reduce the design to.
+  colors: number;
+  // Palette: the inks (hex colors) to map the design to.
+  palette: string[];
+  underbase: boolean;
+  registrationMarks: boolean;
+  unit: PrintUnit;
+  dpi: PrintDpi;
+}
+
+// A press has a screen per color; as many as the screen print method allows.
+export const SEPARATION_COLOR_RANGE = { min: 1, max: getPrintMethod('screen_print').maxColors ?? 6 };
+
+export const UNDERBASE_COLOR = '#FFFFFF';
+
+// Inks are spread over their neighbours by this much, in inches.
+const TRAP = 0.01;
+// The underbase is shrunk by this much, in inches.
+const UNDERBASE_CHOKE = 0.01;
+// Areas smaller than this (square inches) are too fine to hold ink on the screen.
+const MIN_AREA = 0.001;
+const SMOOTHING = 1;
+
+const toRgb = (hex: string): number[] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Relative luminance, 0 (black) to 1 (white).
+const getLuminance = (hex: string): number => {
+  const [r, g, b] = toRgb(hex);
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+};
+
+/**
+ * Whether a garment color is dark enough that inks need a white underbase to show true.
+ */
+export const isDarkColor = (hex: string): boolean => getLuminance(hex) < 0.4;
+
+export const getDefaultSeparationSettings = (productColor: string): SeparationSettings => ({
+  colorMode: 'auto',
+  colors: 4,
+  palette: [],
+  underbase: isDarkColor(productColor),
+  registrationMarks: true,
+  unit: 'in',
+  dpi: 300,
+});
+
+// Pixels less opaque than this are left unprinted, as in logo tracing.
+const ALPHA_CUTOFF = 128;
+
+/**
+ * Gives every opaque pixel the nearest of the picked inks.
+ */
+const mapToPalette = (rgba: Uint8ClampedArray, palette: string[]): { labels: Int8Array; centers: number[][] } => {
+  const centers = palette.map(toRgb);
+  const labels = new Int8Array(rgba.length / 4).fill(-1);
+  for (let i = 0; i < labels.length; i++) {
+    if (rgba[i * 4 + 3] < ALPHA_CUTOFF) continue;
+    let best = 0;
+    let bestDistance = Infinity;
+    centers.forEach((center, c) => {
+      const distance = (rgba[i * 4] - center[0]) ** 2 + (rgba[i * 4 + 1] - center[1]) ** 2 + (rgba[i * 4 + 2] - center[2]) ** 2;
+      if (distance < bestDistance) {
+        best = c;
+        bestDistance = distance;
+      }
+    });
+    labels[i] = best;
+  }
+  return { labels, centers };
+};
+
+export interface SeparationScreen {
+  // The ink, or UNDERBASE_COLOR for the underbase.
+  color: string;
+  isUnderbase: boolean;
+  // The share of the print area the ink covers, 0–1.
+  coverage: number;
+  // The traced area, as an SVG path `d` attribute in pixel units.
+  d: string;
+}
+
+export interface ColorSeparation {
+  // The separation resolution; paths are in these pixel units.
+  width: number;
+  height: number;
+  // In press order: the underbase, then the inks from lightest to darkest.
+  screens: SeparationScreen[];
+}
+
+const countFilled = (bitmap: Bitmap): number => bitmap.data.reduce((sum, value) => sum + value, 0);
+
+/**
+ * Separates the pixels of a rendered design.
+ * @param rgba The design rendered over the print area, transparent where nothing prints.
+ * @param pixelsPerInch The resolution it was rendered at.
+ */
+export const separateColors = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  pixelsPerInch: number,
+  settings: SeparationSettings,
+): ColorSeparation => {
+  const { labels, centers } = settings.colorMode === 'palette' && settings.palette.length > 0
+    ? mapToPalette(rgba, settings.palette)
+    : quantize(rgba, Math.round(settings.colors));
+  const minArea = MIN_AREA * pixelsPerInch * pixelsPerInch;
+  const total = width * height;
+
+  const inks = centers.map((center, c) => {
+    const data = new Uint8Array(total);
+    labels.forEach((label, i) => { data[i] = label === c ? 1 : 0; });
+    return { color: toHex(center), bitmap: despeckle({ width, height, data }, minArea) };
+  }).filter(ink => countFilled(ink.bitmap) > 0);
+  // Light inks print first, so darker ones cover their trapped edges.
+  inks.sort((a, b) => getLuminance(b.color) - getLuminance(a.color));
+
+  const screens: SeparationScreen[] = inks.map(ink => ({
+    color: ink.color,
+    isUnderbase: false,
+    coverage: countFilled(ink.bitmap) / total,
+    d: traceBitmap(dilate(ink.bitmap, TRAP * pixelsPerInch), SMOOTHING),
+  }));
+
+  if (settings.underbase && inks.length > 0) {
+    const union = new Uint8Array(total);
+    inks.forEach(ink => ink.bitmap.data.forEach((value, i) => { if (value) union[i] = 1; }));
+    const underbase = erode({ width, height, data: union }, UNDERBASE_CHOKE * pixelsPerInch);
+    screens.unshift({
+      color: UNDERBASE_COLOR,
+      isUnderbase: true,
+      coverage: countFilled(underbase) / total,
+      d: traceBitmap(underbase, SMOOTHING),
+    });
+  }
+  return { width, height, screens: screens.filter(screen => screen.d) };
+};
+
+/**
+ * The screens as a JSON report for quoting: the number of screens and each ink's coverage.
+ */
+export const getSeparationReportJson = (separation: ColorSeparation): string => {
+  const inkCount = separation.screens.filter(screen => !screen.isUnderbase).length;
+  return JSON.stringify({
+    colors: inkCount,
+    underbase: separation.screens.some(screen => screen.isUnderbase),
+    screens: separation.screens.length,
+    order: separation.screens.map((screen, i) => ({
+      screen: i + 1,
+      ink: screen.isUnderbase ? 'underbase' : screen.color,
+      coveragePercent: Math.round(screen.coverage * 1000) / 10,
+    })),
+  }, null, 2);
+};
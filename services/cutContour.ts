@@ -0,0 +1,152 @@
+import type { Bitmap } from './dithering';
+import { traceBitmap } from './bitmapTrace';
+
+/**
+ * Computes die-cut lines for stickers: the silhouette of the artwork (every pixel
+ * that isn't transparent) is grown by the offset, narrow gaps are closed so the
+ * sticker holds together, holes are filled, and the outline is traced and smoothed.
+ *
+ * Growing and shrinking use an exact Euclidean distance transform, so the offset
+ * is the same in every direction and corners come out round, as a cutter would
+ * offset them.
+ */
+
+export interface ContourOptions {
+  // Distance from the artwork to the cut line, in inches.
+  offset: number;
+  // Potrace's `alphamax`, as for logo tracing.
+  smoothing: number;
+  // Gaps and necks narrower than this (inches) are filled, so the sticker doesn't tear there.
+  bridge: number;
+}
+
+export const DEFAULT_CONTOUR_OPTIONS: ContourOptions = { offset: 0.125, smoothing: 1, bridge: 0.125 };
+
+export const CONTOUR_OFFSET_RANGE = { min: 0, max: 0.5 };
+export const CONTOUR_SMOOTHING_RANGE = { min: 0, max: 1.3 };
+export const CONTOUR_BRIDGE_RANGE = { min: 0, max: 0.5 };
+
+// The spot color name print-and-cut RIPs look for, and the 100% magenta it is shown in.
+export const CUT_CONTOUR_SPOT_COLOR = 'CutContour';
+export const CUT_CONTOUR_COLOR = '#FF00FF';
+
+// Pixels more opaque than this belong to the artwork; soft shadows and glows count.
+const ALPHA_CUTOFF = 32;
+
+/**
+ * The space the contour needs around the artwork, in inches.
+ */
+export const getContourMargin = (options: ContourOptions): number => options.offset + options.bridge / 2 + 0.05;
+
+/**
+ * Squared distance from every pixel to the nearest filled one (Felzenszwalb and
+ * Huttenlocher's two-pass lower envelope of parabolas).
+ */
+export const squaredDistanceToFilled = (bitmap: Bitmap): Float64Array => {
+  const { width, height, data } = bitmap;
+  // Finite, so the parabola intersections stay defined.
+  const FAR = 1e20;
+  const distances = Float64Array.from(data, value => (value ? 0 : FAR));
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  const intersection = (q: number, p: number) => ((f[q] + q * q) - (f[p] + p * p)) / (2 * q - 2 * p);
+  const transform1d = (n: number) => {
+    let k = 0;
+    v[0] = 0;
+    z[0] = -Infinity;
+    z[1] = Infinity;
+    for (let q = 1; q < n; q++) {
+      let s = intersection(q, v[k]);
+      while (s <= z[k]) {
+        k--;
+        s = intersection(q, v[k]);
+      }
+      k++;
+      v[k] = q;
+      z[k] = s;
+      z[k + 1] = Infinity;
+    }
+    k = 0;
+    for (let q = 0; q < n; q++) {
+      while (z[k + 1] < q) k++;
+      d[q] = (q - v[k]) ** 2 + f[v[k]];
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = distances[y * width + x];
+    transform1d(height);
+    for (let y = 0; y < height; y++) distances[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = distances[y * width + x];
+    transform1d(width);
+    for (let x = 0; x < width; x++) distances[y * width + x] = d[x];
+  }
+  return distances;
+};
+
+/**
+ * Grows the filled area by `radius` pixels in every direction.
+ */
+export const dilate = (bitmap: Bitmap, radius: number): Bitmap => {
+  if (radius <= 0) return bitmap;
+  const distances = squaredDistanceToFilled(bitmap);
+  return { ...bitmap, data: Uint8Array.from(distances, distance => (distance <= radius * radius ? 1 : 0)) };
+};
+
+/**
+ * Shrinks the filled area by `radius` pixels in every direction.
+ */
+export const erode = (bitmap: Bitmap, radius: number): Bitmap => {
+  if (radius <= 0) return bitmap;
+  const inverted = { ...bitmap, data: bitmap.data.map(value => 1 - value) };
+  const grown = dilate(inverted, radius);
+  return { ...bitmap, data: grown.data.map(value => 1 - value) };
+};
+
+/**
+ * Fills every empty area that doesn't reach the edge of the bitmap.
+ */
+const fillHoles = (bitmap: Bitmap): Bitmap => {
+  const { width, height, data } = bitmap;
+  const outside = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const visit = (i: number) => {
+    if (!outside[i] && !data[i]) {
+      outside[i] = 1;
+      stack.push(i);
+    }
+  };
+  for (let x = 0; x < width; x++) { visit(x); visit((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { visit(y * width); visit(y * width + width - 1); }
+  while (stack.length > 0) {
+    const i = stack.pop() as number;
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  }
+  return { width, height, data: outside.map(value => 1 - value) };
+};
+
+/**
+ * Traces the cut line around rendered artwork.
+ * @param rgba The artwork's pixels, with enough transparent margin around it for the offset (see `getContourMargin`).
+ * @param pixelsPerInch The resolution the artwork was rendered at.
+ * @returns An SVG path `d` attribute in pixel units, or '' when the artwork is empty.
+ */
+export const traceCutContour = (rgba: Uint8ClampedArray, width: number, height: number, pixelsPerInch: number, options: ContourOptions): string => {
+  const silhouette: Bitmap = { width, height, data: new Uint8Array(width * height) };
+  for (let i = 0; i < silhouette.data.length; i++) silhouette.data[i] = rgba[i * 4 + 3] > ALPHA_CUTOFF ? 1 : 0;
+
+  // Closing (growing further, then shrinking back by the same amount) fills gaps narrower than the bridge.
+  const closing = (options.bridge / 2) * pixelsPerInch;
+  const grown = dilate(silhouette, options.offset * pixelsPerInch + closing);
+  return traceBitmap(fillHoles(erode(grown, closing)), options.smoothing);
+};
@@ -0,0 +1,217 @@
+import type { CustomFontId, DesignOptions } from '../types';
+import { sanitizeDesignOptions } from './designSchema';
+import { addCustomFont, FontFormat, getCustomFont, isCustomFont, listCustomFonts } from './fontManager';
+import { base64ToBytes, bytesToBase64 } from './zipService';
+
+/**
+ * The `.mockup.json` design file: everything needed to hand a design to someone else.
+ * `version` goes up whenever the layout changes in a way older readers can't follow,
+ * with an entry in MIGRATIONS that upgrades files from the previous version.
+ */
+export const BUNDLE_FORMAT = 'mockup-studio-design';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.mockup.json';
+
+export interface BundleLogo {
+  name: string;
+  mimeType: string;
+  data: string; // base64, without data URL prefix
+}
+
+// An uploaded font the design uses, so it opens with the same typeface elsewhere.
+export interface BundleFont {
+  name: string;
+  format: FontFormat;
+  data: string; // base64
+}
+
+export interface BundleMockup {
+  image: string; // base64 PNG, without data URL prefix
+  createdAt: string | null;
+}
+
+export interface DesignBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  design: Omit<DesignOptions, 'logo'>;
+  logo: BundleLogo | null;
+  font?: BundleFont | null;
+  mockups: BundleMockup[];
+}
+
+export interface ImportedBundle {
+  design: DesignOptions;
+  logoFile: File | null;
+  mockups: BundleMockup[];
+  // Human-readable notes about anything that had to be migrated or dropped.
+  warnings: string[];
+}
+
+const ALLOWED_LOGO_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+
+const FONT_EXTENSIONS: Record<FontFormat, string> = {
+  truetype: 'ttf',
+  opentype: 'otf',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+const splitDataUrl = (dataUrl: string): { mimeType: string; data: string } | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+const readFileAsDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Packs the current design into a design file.
+ * @param design The design to export.
+ * @param logoFile The original logo file. When missing, the logo data URL on the design is used.
+ * @param mockups Optional base64 PNG mockups to include.
+ * @returns The pretty-printed JSON text of the bundle.
+ */
+export const createDesignBundle = async (design: DesignOptions, logoFile: File | null, mockups: string[] = []): Promise<string> => {
+  let logo: BundleLogo | null = null;
+  const logoDataUrl = logoFile ? await readFileAsDataUrl(logoFile) : design.logo;
+  const parts = logoDataUrl ? splitDataUrl(logoDataUrl) : null;
+  if (parts) {
+    logo = { name: logoFile?.name || 'logo', mimeType: parts.mimeType, data: parts.data };
+  }
+
+  let font: BundleFont | null = null;
+  if (isCustomFont(design.font)) {
+    try {
+      const stored = await getCustomFont(design.font);
+      font = { name: stored.name, format: stored.format, data: bytesToBase64(new Uint8Array(stored.data)) };
+    } catch (e) {
+      // The design still exports; it opens with the default font.
+      console.warn('Could not include the uploaded font in the design file.', e);
+    }
+  }
+
+  const { logo: _omitted, ...designWithoutLogo } = design;
+  const bundle: DesignBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    design: designWithoutLogo,
+    logo,
+    font,
+    mockups: mockups.map(image => ({ image, createdAt: null })),
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+// Each entry upgrades a file from the version in its key to the next version.
+// Empty until the layout first changes.
+const MIGRATIONS: Record<number, (raw: Record<string, any>, warnings: string[]) => Record<string, any>> = {};
+
+const detectVersion = (raw: Record<string, any>): number => {
+  if (raw.format === BUNDLE_FORMAT) {
+    return raw.version;
+  }
+  throw new Error('This file is not a mockup design file.');
+};
+
+/**
+ * Makes the uploaded font a design file carries available in this browser.
+ * A font that is already stored here, e.g. when the file was exported from this
+ * browser, is used as is.
+ * @returns The id to use for the design's font.
+ * @throws If the embedded font is missing or can't be read.
+ */
+const restoreBundleFont = async (fontId: CustomFontId, font: BundleFont | null | undefined): Promise<CustomFontId> => {
+  if ((await listCustomFonts()).some(stored => stored.id === fontId)) {
+    return fontId;
+  }
+  if (!font || typeof font.data !== 'string' || typeof font.name !== 'string' || !Object.keys(FONT_EXTENSIONS).includes(font.format)) {
+    throw new Error('The design file does not include its uploaded font.');
+  }
+  const file = new File([base64ToBytes(font.data)], `${font.name}.${FONT_EXTENSIONS[font.format]}`);
+  return (await addCustomFont(file)).id;
+};
+
+/**
+ * Reads a design file, migrating older versions and validating every field.
+ * An uploaded font embedded in the file is added to this browser's fonts.
+ * Structural problems (not JSON, unknown format, a version from the future) throw;
+ * individual bad values are replaced with defaults and reported in `warnings`.
+ * @param text The file contents.
+ * @param defaults The design used for missing or invalid fields.
+ */
+export const parseDesignBundle = async (text: string, defaults: DesignOptions): Promise<ImportedBundle> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The design file is not valid JSON.');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('This file is not a mockup design file.');
+  }
+
+  const warnings: string[] = [];
+  let version = detectVersion(raw);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('The design file has an invalid version.');
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`This design file was made with a newer version of the app (file version ${version}, supported up to ${BUNDLE_VERSION}).`);
+  }
+  while (version < BUNDLE_VERSION) {
+    raw = MIGRATIONS[version](raw, warnings);
+    version = raw.version;
+  }
+
+  const { design, rejectedFields } = sanitizeDesignOptions({ ...raw.design, logo: null }, { ...defaults, logo: null });
+  if (rejectedFields.length > 0) {
+    warnings.push(`Some settings were not recognised and were reset to their defaults: ${rejectedFields.join(', ')}.`);
+  }
+
+  if (isCustomFont(design.font)) {
+    try {
+      design.font = await restoreBundleFont(design.font, raw.font);
+    } catch (e) {
+      console.warn(e);
+      design.font = defaults.font;
+      warnings.push('The uploaded font used by the design could not be added and the default font is used instead.');
+    }
+  }
+
+  let logoFile: File | null = null;
+  const logo = raw.logo as BundleLogo | null;
+  if (logo) {
+    if (typeof logo.data === 'string' && ALLOWED_LOGO_TYPES.includes(logo.mimeType)) {
+      try {
+        logoFile = new File([base64ToBytes(logo.data)], typeof logo.name === 'string' ? logo.name : 'logo', { type: logo.mimeType });
+        design.logo = `data:${logo.mimeType};base64,${logo.data}`;
+      } catch {
+        warnings.push('The embedded logo could not be read and was skipped.');
+      }
+    } else {
+      warnings.push('The embedded logo has an unsupported format and was skipped.');
+    }
+  }
+
+  const mockups: BundleMockup[] = Array.isArray(raw.mockups)
+    ? raw.mockups
+        .filter((mockup: any) => mockup && typeof mockup.image === 'string')
+        .map((mockup: any) => ({ image: mockup.image, createdAt: typeof mockup.createdAt === 'string' ? mockup.createdAt : null }))
+    : [];
+
+  return { design, logoFile, mockups, warnings };
+};
+
+/**
+ * Builds a file name for the bundle from the design text, e.g. `boo.mockup.json`.
+ */
+export const getBundleFileName = (design: DesignOptions): string => {
+  const slug = design.text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'design'}${BUNDLE_EXTENSION}`;
+};
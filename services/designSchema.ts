@@ -0,0 +1,132 @@
+import type { DesignOptions } from '../types';
+import {
+  PRODUCT_TYPES, BAG_MATERIALS, FRAME_STYLES, FRAME_TEXTURES, PRODUCT_TEXTURES, FRAME_DIMENSIONS, FRAME_MODELS,
+  MUG_STYLES, MUG_MODELS, SIPPER_GLASS_STYLES, SIPPER_GLASS_MODELS, TUMBLER_STYLES, TUMBLER_MODELS,
+  HALLOWEEN_TUMBLER_STYLES, HALLOWEEN_TUMBLER_SETTINGS, TUMBLER_TRIO_STYLES, TUMBLER_TRIO_SETTINGS,
+  PHONE_CASE_STYLES, PHONE_CASE_MODELS, STICKER_STYLES, STICKER_SETTINGS, POSTER_STYLES, POSTER_SETTINGS,
+  WALLET_STYLES, WALLET_MODELS, CAP_STYLES, CAP_MODELS, BEANIE_STYLES, BEANIE_MODELS, PILLOW_STYLES, PILLOW_SETTINGS,
+  FLAT_LAY_STYLES, PUZZLE_STYLES, PUZZLE_SETTINGS, LAPTOP_SLEEVE_STYLES, LAPTOP_SLEEVE_SETTINGS, ENGRAVING_MATERIALS, DESIGN_STYLES,
+  DESIGN_PLACEMENTS, TEXT_STYLES, ARTISTIC_FILTERS, BACKGROUND_STYLES, PROFESSIONAL_BACKGROUNDS, MODEL_POSES,
+  MODEL_AUDIENCES, TSHIRT_FONTS, ASPECT_RATIOS,
+} from '../constants';
+import { PRINT_METHODS } from './printMethods';
+
+/**
+ * Describes how every DesignOptions field is validated when a design comes from
+ * outside the app (a design file, a shared link). Enum fields are checked against
+ * the same constants lists the controls are built from, so a value the UI cannot
+ * show is never let through.
+ */
+type FieldRule =
+  | { kind: 'enum'; values: readonly { id: string }[] }
+  | { kind: 'color' }
+  | { kind: 'text' }
+  | { kind: 'logo' }
+  // A catalog font, or an uploaded one referenced by its `custom:` id.
+  | { kind: 'font'; values: readonly { id: string }[] };
+
+export const DESIGN_FIELD_RULES: Record<keyof DesignOptions, FieldRule> = {
+  productType: { kind: 'enum', values: PRODUCT_TYPES },
+  logo: { kind: 'logo' },
+  text: { kind: 'text' },
+  productColor: { kind: 'color' },
+  textColor: { kind: 'color' },
+  font: { kind: 'font', values: TSHIRT_FONTS },
+  textStyle: { kind: 'enum', values: TEXT_STYLES },
+  gradientStartColor: { kind: 'color' },
+  gradientEndColor: { kind: 'color' },
+  aspectRatio: { kind: 'enum', values: ASPECT_RATIOS },
+  backgroundStyle: { kind: 'enum', values: BACKGROUND_STYLES },
+  professionalBackground: { kind: 'enum', values: PROFESSIONAL_BACKGROUNDS },
+  artisticFilter: { kind: 'enum', values: ARTISTIC_FILTERS },
+  designPlacement: { kind: 'enum', values: DESIGN_PLACEMENTS },
+  productTexture: { kind: 'enum', values: PRODUCT_TEXTURES },
+  printMethod: { kind: 'enum', values: PRINT_METHODS },
+  style: { kind: 'enum', values: DESIGN_STYLES },
+  pose: { kind: 'enum', values: MODEL_POSES },
+  audience: { kind: 'enum', values: MODEL_AUDIENCES },
+  bagMaterial: { kind: 'enum', values: BAG_MATERIALS },
+  frameStyle: { kind: 'enum', values: FRAME_STYLES },
+  frameModel: { kind: 'enum', values: FRAME_MODELS },
+  frameDimension: { kind: 'enum', values: FRAME_DIMENSIONS },
+  frameTexture: { kind: 'enum', values: FRAME_TEXTURES },
+  mugStyle: { kind: 'enum', values: MUG_STYLES },
+  mugModel: { kind: 'enum', values: MUG_MODELS },
+  sipperGlassStyle: { kind: 'enum', values: SIPPER_GLASS_STYLES },
+  sipperGlassModel: { kind: 'enum', values: SIPPER_GLASS_MODELS },
+  tumblerStyle: { kind: 'enum', values: TUMBLER_STYLES },
+  tumblerModel: { kind: 'enum', values: TUMBLER_MODELS },
+  halloweenTumblerStyle: { kind: 'enum', values: HALLOWEEN_TUMBLER_STYLES },
+  halloweenTumblerSetting: { kind: 'enum', values: HALLOWEEN_TUMBLER_SETTINGS },
+  tumblerTrioStyle: { kind: 'enum', values: TUMBLER_TRIO_STYLES },
+  tumblerTrioSetting: { kind: 'enum', values: TUMBLER_TRIO_SETTINGS },
+  phoneCaseStyle: { kind: 'enum', values: PHONE_CASE_STYLES },
+  phoneCaseModel: { kind: 'enum', values: PHONE_CASE_MODELS },
+  stickerStyle: { kind: 'enum', values: STICKER_STYLES },
+  stickerSetting: { kind: 'enum', values: STICKER_SETTINGS },
+  posterStyle: { kind: 'enum', values: POSTER_STYLES },
+  posterSetting: { kind: 'enum', values: POSTER_SETTINGS },
+  walletStyle: { kind: 'enum', values: WALLET_STYLES },
+  walletModel: { kind: 'enum', values: WALLET_MODELS },
+  capStyle: { kind: 'enum', values: CAP_STYLES },
+  capModel: { kind: 'enum', values: CAP_MODELS },
+  beanieStyle: { kind: 'enum', values: BEANIE_STYLES },
+  beanieModel: { kind: 'enum', values: BEANIE_MODELS },
+  pillowStyle: { kind: 'enum', values: PILLOW_STYLES },
+  pillowSetting: { kind: 'enum', values: PILLOW_SETTINGS },
+  flatLayStyle: { kind: 'enum', values: FLAT_LAY_STYLES },
+  puzzleStyle: { kind: 'enum', values: PUZZLE_STYLES },
+  puzzleSetting: { kind: 'enum', values: PUZZLE_SETTINGS },
+  laptopSleeveStyle: { kind: 'enum', values: LAPTOP_SLEEVE_STYLES },
+  laptopSleeveSetting: { kind: 'enum', values: LAPTOP_SLEEVE_SETTINGS },
+  engravingMaterial: { kind: 'enum', values: ENGRAVING_MATERIALS },
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const CUSTOM_FONT_ID = /^custom:[0-9a-f-]{36}$/i;
+const MAX_TEXT_LENGTH = 500;
+
+const isValidValue = (rule: FieldRule, value: unknown): boolean => {
+  switch (rule.kind) {
+    case 'enum':
+      return typeof value === 'string' && rule.values.some(option => option.id === value);
+    case 'color':
+      return typeof value === 'string' && HEX_COLOR.test(value);
+    case 'text':
+      return typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+    case 'logo':
+      return value === null || (typeof value === 'string' && value.startsWith('data:image/'));
+    case 'font':
+      return typeof value === 'string' && (rule.values.some(option => option.id === value) || CUSTOM_FONT_ID.test(value));
+  }
+};
+
+export interface SanitizedDesign {
+  design: DesignOptions;
+  // Fields that were present but invalid and have been replaced with the default.
+  rejectedFields: (keyof DesignOptions)[];
+}
+
+/**
+ * Builds a complete, valid DesignOptions from untrusted input.
+ * Missing fields silently take their default; present-but-invalid fields also take
+ * their default and are reported in `rejectedFields`. Unknown keys are dropped.
+ * @param raw The untrusted object, e.g. parsed JSON.
+ * @param defaults The design to take missing or invalid values from.
+ */
+export const sanitizeDesignOptions = (raw: unknown, defaults: DesignOptions): SanitizedDesign => {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const design = { ...defaults };
+  const rejectedFields: (keyof DesignOptions)[] = [];
+
+  (Object.keys(DESIGN_FIELD_RULES) as (keyof DesignOptions)[]).forEach(field => {
+    if (!(field in source) || source[field] === undefined) return;
+    if (isValidValue(DESIGN_FIELD_RULES[field], source[field])) {
+      (design as Record<string, unknown>)[field] = source[field];
+    } else {
+      rejectedFields.push(field);
+    }
+  });
+
+  return { design, rejectedFields };
+};
@@ -0,0 +1,187 @@
+import type { en } from '../i18n/en';
+import { crc32 } from './zipService';
+
+/**
+ * Converts images to 1-bit bitmaps for laser engraving. A laser either fires or
+ * doesn't, so grey levels have to be expressed as a pattern of dots: error
+ * diffusion spreads each pixel's rounding error to its neighbours, ordered
+ * dithering compares against a repeating threshold matrix.
+ */
+
+type TranslationKey = keyof typeof en;
+
+export type DitherAlgorithm = 'threshold' | 'floyd_steinberg' | 'jarvis' | 'stucki' | 'ordered';
+
+export const DITHER_ALGORITHMS: { id: DitherAlgorithm; nameKey: TranslationKey }[] = [
+  { id: 'threshold', nameKey: 'ditherAlgorithm_threshold' },
+  { id: 'floyd_steinberg', nameKey: 'ditherAlgorithm_floyd_steinberg' },
+  { id: 'jarvis', nameKey: 'ditherAlgorithm_jarvis' },
+  { id: 'stucki', nameKey: 'ditherAlgorithm_stucki' },
+  { id: 'ordered', nameKey: 'ditherAlgorithm_ordered' },
+];
+
+/**
+ * A 1-bit image, one byte per pixel: 1 where the laser fires, 0 elsewhere.
+ */
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// [dx, dy, weight] of the error passed on to each neighbour, and the weights' sum.
+type DiffusionKernel = { taps: [number, number, number][]; divisor: number };
+
+const DIFFUSION_KERNELS: Record<'floyd_steinberg' | 'jarvis' | 'stucki', DiffusionKernel> = {
+  floyd_steinberg: {
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+    divisor: 16,
+  },
+  jarvis: {
+    taps: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+    divisor: 48,
+  },
+  stucki: {
+    taps: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+    divisor: 42,
+  },
+};
+
+// The 8×8 Bayer matrix, built by repeatedly expanding each cell m into [4m, 4m+2; 4m+3, 4m+1].
+const BAYER_8 = (() => {
+  let matrix = [[0]];
+  while (matrix.length < 8) {
+    const size = matrix.length;
+    const next = Array.from({ length: size * 2 }, () => new Array<number>(size * 2));
+    matrix.forEach((row, y) => row.forEach((m, x) => {
+      next[y][x] = 4 * m;
+      next[y][x + size] = 4 * m + 2;
+      next[y + size][x] = 4 * m + 3;
+      next[y + size][x + size] = 4 * m + 1;
+    }));
+    matrix = next;
+  }
+  return Float32Array.from(matrix.flat());
+})();
+
+/**
+ * Converts RGBA pixels to grey levels (0 black to 255 white). Transparent areas
+ * count as white, so they are never engraved, even when inverted.
+ * @param invert Swaps light and dark, for materials where the laser mark is lighter than the surface.
+ */
+export const toGrayscale = (rgba: Uint8ClampedArray, width: number, height: number, invert: boolean): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const luminance = 0.2126 * rgba[i * 4] + 0.7152 * rgba[i * 4 + 1] + 0.0722 * rgba[i * 4 + 2];
+    const alpha = rgba[i * 4 + 3] / 255;
+    gray[i] = alpha * (invert ? 255 - luminance : luminance) + (1 - alpha) * 255;
+  }
+  return gray;
+};
+
+/**
+ * Reduces grey levels to a 1-bit bitmap where dark pixels are engraved.
+ * @param threshold The grey level (0–255) below which a pixel is engraved; for the
+ * dithering algorithms it shifts the overall darkness instead.
+ */
+export const ditherBitmap = (gray: Float32Array, width: number, height: number, algorithm: DitherAlgorithm, threshold: number = 128): Bitmap => {
+  const data = new Uint8Array(width * height);
+
+  if (algorithm === 'threshold') {
+    gray.forEach((value, i) => { data[i] = value < threshold ? 1 : 0; });
+    return { width, height, data };
+  }
+
+  // The threshold slider brightens or darkens the image around the middle grey.
+  const bias = 128 - threshold;
+
+  if (algorithm === 'ordered') {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const level = ((BAYER_8[(y % 8) * 8 + (x % 8)] + 0.5) / 64) * 255;
+        data[y * width + x] = gray[y * width + x] + bias < level ? 1 : 0;
+      }
+    }
+    return { width, height, data };
+  }
+
+  const { taps, divisor } = DIFFUSION_KERNELS[algorithm];
+  const levels = Float32Array.from(gray, value => value + bias);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const value = levels[i];
+      const isDark = value < 128;
+      data[i] = isDark ? 1 : 0;
+      const error = value - (isDark ? 0 : 255);
+      for (const [dx, dy, weight] of taps) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) {
+          levels[ny * width + nx] += (error * weight) / divisor;
+        }
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+const pngChunk = (type: string, body: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+  return chunk;
+};
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encodes a bitmap as a 1-bit greyscale PNG: engraved pixels black, the rest
+ * transparent white.
+ */
+export const encodeBitmapPng = async (bitmap: Bitmap): Promise<Uint8Array> => {
+  const { width, height, data } = bitmap;
+  const rowBytes = Math.ceil(width / 8);
+  // Each row starts with its filter type byte (0, none); bits are packed most significant first.
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      if (!data[y * width + x]) raw[row + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 1; // bit depth
+  header[9] = 0; // colour type: greyscale
+  const signature = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+  const parts = [
+    signature,
+    pngChunk('IHDR', header),
+    pngChunk('tRNS', new Uint8Array([0, 1])), // grey level 1 (white) is transparent
+    pngChunk('IDAT', await deflate(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => { png.set(part, offset); offset += part.length; });
+  return png;
+};
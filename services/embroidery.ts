@@ -0,0 +1,491 @@
+import type { Bitmap } from './dithering';
+import { despeckle } from './bitmapTrace';
+import { quantize } from './logoTracer';
+import { squaredDistanceToFilled } from './cutContour';
+import { getPrintMethod } from './printMethods';
+
+/**
+ * A basic embroidery digitizer. The rendered artwork is reduced to a few colors,
+ * each matched to the nearest thread of a standard chart, and every area of a
+ * thread becomes either a satin column (narrow areas, like lettering and outlines)
+ * or a tatami fill (everything wider). Stitches run along parallel rows; areas are
+ * split into columns a row can cross in one go, so the needle doesn't jump back
+ * and forth between the arms of a letter on every row.
+ *
+ * Coordinates of the stitch records are in 0.1 mm from the center of the design,
+ * y down, the unit of the DST and EXP machine formats.
+ */
+
+export interface Thread {
+  name: string;
+  color: string;
+}
+
+// A common polyester thread chart.
+export const THREAD_COLORS: Thread[] = [
+  { name: 'White', color: '#FFFFFF' },
+  { name: 'Snow', color: '#F2F0EA' },
+  { name: 'Cream', color: '#F3E5C0' },
+  { name: 'Lemon', color: '#F7E35A' },
+  { name: 'Sunflower', color: '#F5B700' },
+  { name: 'Gold', color: '#C99A2E' },
+  { name: 'Orange', color: '#F26B1D' },
+  { name: 'Coral', color: '#F0735E' },
+  { name: 'Red', color: '#D0202E' },
+  { name: 'Cardinal', color: '#A01C2C' },
+  { name: 'Maroon', color: '#6B1E2A' },
+  { name: 'Light Pink', color: '#F6B9CB' },
+  { name: 'Hot Pink', color: '#E2377F' },
+  { name: 'Fuchsia', color: '#B4278A' },
+  { name: 'Lavender', color: '#B9A6D8' },
+  { name: 'Purple', color: '#5B2C86' },
+  { name: 'Baby Blue', color: '#A9CBEA' },
+  { name: 'Sky Blue', color: '#4FA3DB' },
+  { name: 'Royal Blue', color: '#1F4AA8' },
+  { name: 'Navy', color: '#1B2641' },
+  { name: 'Turquoise', color: '#19A7A8' },
+  { name: 'Mint', color: '#9ED9B8' },
+  { name: 'Kelly Green', color: '#1E8C3A' },
+  { name: 'Forest Green', color: '#1F4D2F' },
+  { name: 'Lime', color: '#9BC53D' },
+  { name: 'Tan', color: '#C9A97E' },
+  { name: 'Brown', color: '#5C3A21' },
+  { name: 'Silver', color: '#B8BCC0' },
+  { name: 'Grey', color: '#7D8084' },
+  { name: 'Charcoal', color: '#3E4044' },
+  { name: 'Black', color: '#101010' },
+];
+
+export type StitchFileFormat = 'dst' | 'exp';
+
+export interface EmbroiderySettings {
+  // How many thread colors to reduce the artwork to.
+  colors: number;
+  // The stitched width of the design, in inches; the height follows the artwork.
+  width: number;
+  // The distance between stitch rows, in mm. Smaller is denser.
+  density: number;
+}
+
+export const EMBROIDERY_COLOR_RANGE = { min: 1, max: getPrintMethod('embroidery').maxColors ?? 12 };
+// The width is also capped by the product's print area; 12 in is a large hoop.
+export const EMBROIDERY_WIDTH_RANGE = { min: 1, max: 12 };
+export const EMBROIDERY_DENSITY_RANGE = { min: 0.3, max: 0.6 };
+
+// A left-chest or cap-front logo; smaller print areas cap it.
+const DEFAULT_WIDTH = 4;
+
+export const getDefaultEmbroiderySettings = (maxWidth: number): EmbroiderySettings => ({
+  colors: 6,
+  width: Math.min(maxWidth, DEFAULT_WIDTH),
+  density: 0.4,
+});
+
+// The artwork is digitized on a grid of this pitch, in mm.
+export const EMBROIDERY_PIXEL_MM = 0.25;
+
+// Areas up to this wide (mm) are satin; wider ones are filled.
+const SATIN_MAX_WIDTH = 7;
+// Satin stitches longer than this (mm) would snag, so they are broken up like fill.
+const MAX_SATIN_STITCH = 9;
+const FILL_STITCH_LENGTH = 3.5;
+// Moves up to this long (mm) are sewn; longer ones jump, tied off and in.
+const MAX_TRAVEL_STITCH = 2;
+const TIE_LENGTH = 0.5;
+// Areas smaller than this (square mm) are too small to stitch.
+const MIN_AREA = 1;
+// The largest move a single DST or EXP record can hold, in 0.1 mm.
+const MAX_RECORD_STEP = 121;
+
+// For the sewing time estimate.
+const STITCHES_PER_MINUTE = 700;
+const COLOR_CHANGE_SECONDS = 15;
+const JUMP_SECONDS = 2;
+
+export type StitchType = 'stitch' | 'jump' | 'color';
+
+export interface StitchRecord {
+  x: number;
+  y: number;
+  type: StitchType;
+}
+
+export interface ThreadBlock {
+  thread: Thread;
+  satinAreas: number;
+  fillAreas: number;
+  stitches: number;
+}
+
+export interface EmbroideryPattern {
+  // The stitched size.
+  widthMm: number;
+  heightMm: number;
+  // In sewing order.
+  threads: ThreadBlock[];
+  records: StitchRecord[];
+  stitchCount: number;
+  jumpCount: number;
+  colorChanges: number;
+}
+
+const toRgb = (hex: string): number[] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const THREAD_RGB = THREAD_COLORS.map(thread => toRgb(thread.color));
+
+const getNearestThread = (rgb: number[]): number => {
+  let best = 0;
+  THREAD_RGB.forEach((color, i) => {
+    const distance = (color[0] - rgb[0]) ** 2 + (color[1] - rgb[1]) ** 2 + (color[2] - rgb[2]) ** 2;
+    const bestDistance = (THREAD_RGB[best][0] - rgb[0]) ** 2 + (THREAD_RGB[best][1] - rgb[1]) ** 2 + (THREAD_RGB[best][2] - rgb[2]) ** 2;
+    if (distance < bestDistance) best = i;
+  });
+  return best;
+};
+
+/**
+ * Labels the 4-connected areas of a bitmap.
+ * @returns The area index of each pixel (-1 where empty) and the number of areas.
+ */
+const labelAreas = (bitmap: Bitmap): { labels: Int32Array; count: number } => {
+  const { width, height, data } = bitmap;
+  const labels = new Int32Array(width * height).fill(-1);
+  const stack = new Int32Array(width * height);
+  let count = 0;
+  for (let seed = 0; seed < data.length; seed++) {
+    if (!data[seed] || labels[seed] >= 0) continue;
+    let top = 0;
+    stack[top++] = seed;
+    labels[seed] = count;
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const j of neighbours) {
+        if (j >= 0 && j < data.length && data[j] && labels[j] < 0) {
+          labels[j] = count;
+          stack[top++] = j;
+        }
+      }
+    }
+    count++;
+  }
+  return { labels, count };
+};
+
+interface Run {
+  // The row's position across the rows, and the run's pixel span along it.
+  row: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Cuts an area into rows `rowStep` pixels apart and splits it into columns: stacks
+ * of runs, one per row, that continue each other without branching.
+ * @param isInside Whether the pixel `along` the row, on row `across`, belongs to the area.
+ */
+const getColumns = (length: number, rows: number, rowStep: number, isInside: (along: number, across: number) => boolean): Run[][] => {
+  const columns: Run[][] = [];
+  let previous: { run: Run; column: Run[] }[] = [];
+  for (let row = rowStep / 2; row < rows; row += rowStep) {
+    const across = Math.floor(row);
+    const runs: Run[] = [];
+    for (let along = 0; along < length; along++) {
+      if (!isInside(along, across)) continue;
+      const start = along;
+      while (along + 1 < length && isInside(along + 1, across)) along++;
+      runs.push({ row, start, end: along + 1 });
+    }
+    const current = runs.map(run => {
+      const overlapping = previous.filter(p => p.run.start < run.end && run.start < p.run.end);
+      // A run continues a column only where neither of them branches.
+      const continues = overlapping.length === 1
+        && runs.filter(other => other.start < overlapping[0].run.end && overlapping[0].run.start < other.end).length === 1;
+      const column = continues ? overlapping[0].column : [];
+      if (!continues) columns.push(column);
+      column.push(run);
+      return { run, column };
+    });
+    previous = current;
+  }
+  return columns;
+};
+
+/**
+ * The stops along a row: every `stitchLength` pixels on a grid shifted by a third
+ * of a stitch from row to row, so the needle holes of neighbouring rows don't line
+ * up (the brick pattern of tatami fill).
+ */
+const getFillStops = (run: Run, rowIndex: number, stitchLength: number): number[] => {
+  const phase = ((rowIndex % 3) / 3) * stitchLength;
+  const stops = [run.start];
+  for (let at = Math.floor((run.start - phase) / stitchLength + 1) * stitchLength + phase; at < run.end; at += stitchLength) {
+    if (at - stops[stops.length - 1] > stitchLength / 3 && run.end - at > stitchLength / 3) stops.push(at);
+  }
+  stops.push(run.end);
+  return stops;
+};
+
+/**
+ * Counts the runs of an area along rows and along columns, to stitch it in the
+ * direction that crosses it.
+ */
+const countRuns = (bitmap: Bitmap, labels: Int32Array, area: number, box: { x0: number; y0: number; x1: number; y1: number }, vertical: boolean): number => {
+  let runs = 0;
+  const { width } = bitmap;
+  const [outerFrom, outerTo, innerFrom, innerTo] = vertical ? [box.x0, box.x1, box.y0, box.y1] : [box.y0, box.y1, box.x0, box.x1];
+  for (let outer = outerFrom; outer <= outerTo; outer++) {
+    let inside = false;
+    for (let inner = innerFrom; inner <= innerTo; inner++) {
+      const i = vertical ? inner * width + outer : outer * width + inner;
+      const isInside = labels[i] === area;
+      if (isInside && !inside) runs++;
+      inside = isInside;
+    }
+  }
+  return runs;
+};
+
+/**
+ * Digitizes rendered artwork into a stitch pattern.
+ * @param rgba The artwork, rendered at `EMBROIDERY_PIXEL_MM` per pixel, transparent where nothing is sewn.
+ */
+export const digitize = (rgba: Uint8ClampedArray, width: number, height: number, settings: EmbroiderySettings): EmbroideryPattern => {
+  const { labels: colorLabels, centers } = quantize(rgba, Math.round(settings.colors));
+  // Colors that match the same thread are sewn together.
+  const threadOf = centers.map(getNearestThread);
+  const threadIds = [...new Set(threadOf)];
+  const minArea = MIN_AREA / (EMBROIDERY_PIXEL_MM * EMBROIDERY_PIXEL_MM);
+  const layers = threadIds.map(threadId => {
+    const data = new Uint8Array(width * height);
+    colorLabels.forEach((label, i) => { data[i] = label >= 0 && threadOf[label] === threadId ? 1 : 0; });
+    const bitmap = despeckle({ width, height, data }, minArea);
+    return { thread: THREAD_COLORS[threadId], bitmap, area: bitmap.data.reduce((sum, value) => sum + value, 0) };
+  }).filter(layer => layer.area > 0);
+  // The largest areas go down first; details are sewn on top.
+  layers.sort((a, b) => b.area - a.area);
+
+  const toUnits = (px: number, size: number) => Math.round((px - size / 2) * EMBROIDERY_PIXEL_MM * 10);
+  const records: StitchRecord[] = [];
+  let current: { x: number; y: number } | null = null;
+  let needsTieIn = true;
+  const stitch = (x: number, y: number) => {
+    if (current && current.x === x && current.y === y) return;
+    records.push({ x, y, type: 'stitch' });
+    current = { x, y };
+  };
+  const tie = () => {
+    if (!current) return;
+    const { x, y } = current;
+    stitch(x + TIE_LENGTH * 10, y);
+    stitch(x, y);
+  };
+  // Stitches to a point in pixels. Travel to the start of a row is sewn when it's
+  // short and jumped otherwise.
+  const sewTo = (px: number, py: number, isTravel: boolean) => {
+    const x = toUnits(px, width);
+    const y = toUnits(py, height);
+    const distance = current ? Math.hypot(x - current.x, y - current.y) / 10 : Infinity;
+    if (needsTieIn || (isTravel && distance > MAX_TRAVEL_STITCH)) {
+      if (!needsTieIn) tie();
+      records.push({ x, y, type: 'jump' });
+      current = { x, y };
+      tie();
+      needsTieIn = false;
+      return;
+    }
+    stitch(x, y);
+  };
+
+  const rowStep = settings.density / EMBROIDERY_PIXEL_MM;
+  const fillLength = FILL_STITCH_LENGTH / EMBROIDERY_PIXEL_MM;
+  const threads: ThreadBlock[] = [];
+
+  layers.forEach((layer, layerIndex) => {
+    if (layerIndex > 0) {
+      tie();
+      records.push({ ...(current as { x: number; y: number }), type: 'color' });
+      needsTieIn = true;
+    }
+    const block: ThreadBlock = { thread: layer.thread, satinAreas: 0, fillAreas: 0, stitches: 0 };
+    const firstRecord = records.length;
+    const { labels, count } = labelAreas(layer.bitmap);
+    // Distance from every pixel of the thread to the nearest pixel it doesn't cover.
+    const inverted = { width, height, data: layer.bitmap.data.map(value => 1 - value) };
+    const distances = squaredDistanceToFilled(inverted);
+
+    const boxes = Array.from({ length: count }, () => ({ x0: width, y0: height, x1: -1, y1: -1, thickness: 0 }));
+    labels.forEach((area, i) => {
+      if (area < 0) return;
+      const box = boxes[area];
+      const x = i % width;
+      const y = (i - x) / width;
+      box.x0 = Math.min(box.x0, x);
+      box.x1 = Math.max(box.x1, x);
+      box.y0 = Math.min(box.y0, y);
+      box.y1 = Math.max(box.y1, y);
+      box.thickness = Math.max(box.thickness, distances[i]);
+    });
+
+    boxes.forEach((box, area) => {
+      const isSatin = 2 * Math.sqrt(box.thickness) * EMBROIDERY_PIXEL_MM <= SATIN_MAX_WIDTH;
+      if (isSatin) block.satinAreas++;
+      else block.fillAreas++;
+      // Satin crosses the area the short way; fill runs along rows.
+      const vertical = isSatin && countRuns(layer.bitmap, labels, area, box, true) > countRuns(layer.bitmap, labels, area, box, false);
+      const boxWidth = box.x1 - box.x0 + 1;
+      const boxHeight = box.y1 - box.y0 + 1;
+      const columns = vertical
+        ? getColumns(boxHeight, boxWidth, rowStep, (along, across) => labels[(box.y0 + along) * width + box.x0 + across] === area)
+        : getColumns(boxWidth, boxHeight, rowStep, (along, across) => labels[(box.y0 + across) * width + box.x0 + along] === area);
+      const toPixel = (along: number, row: number): [number, number] =>
+        vertical ? [box.x0 + row, box.y0 + along] : [box.x0 + along, box.y0 + row];
+
+      const distanceTo = (column: Run[]): number => {
+        if (!current) return 0;
+        const [px, py] = toPixel(column[0].start, column[0].row);
+        return Math.hypot(toUnits(px, width) - current.x, toUnits(py, height) - current.y);
+      };
+      // Each column starts where the needle is nearest, to keep the jumps few and short.
+      const remaining = [...columns];
+      while (remaining.length > 0) {
+        const column = remaining.reduce((best, candidate) => (distanceTo(candidate) < distanceTo(best) ? candidate : best));
+        remaining.splice(remaining.indexOf(column), 1);
+        column.forEach((run, i) => {
+          const rowIndex = Math.round(run.row / rowStep);
+          const isSatinRun = isSatin && (run.end - run.start) * EMBROIDERY_PIXEL_MM <= MAX_SATIN_STITCH;
+          // Satin crosses in one stitch; fill is broken into tatami stitches.
+          let stops = isSatinRun ? [run.start, run.end] : getFillStops(run, rowIndex, fillLength);
+          if (i % 2 === 1) stops = stops.reverse();
+          stops.forEach((along, stop) => sewTo(...toPixel(along, run.row), stop === 0));
+        });
+      }
+    });
+    block.stitches = records.slice(firstRecord).filter(record => record.type === 'stitch').length;
+    threads.push(block);
+  });
+  tie();
+
+  const xs = records.map(record => record.x);
+  const ys = records.map(record => record.y);
+  return {
+    widthMm: records.length > 0 ? (Math.max(...xs) - Math.min(...xs)) / 10 : 0,
+    heightMm: records.length > 0 ? (Math.max(...ys) - Math.min(...ys)) / 10 : 0,
+    threads,
+    records,
+    stitchCount: records.filter(record => record.type === 'stitch').length,
+    jumpCount: records.filter(record => record.type === 'jump').length,
+    colorChanges: records.filter(record => record.type === 'color').length,
+  };
+};
+
+/**
+ * The time the pattern takes on a single-head machine, in minutes.
+ */
+export const estimateSewingMinutes = (pattern: EmbroideryPattern): number =>
+  pattern.stitchCount / STITCHES_PER_MINUTE
+  + (pattern.colorChanges * COLOR_CHANGE_SECONDS + pattern.jumpCount * JUMP_SECONDS) / 60;
+
+/**
+ * The records as moves, with moves too long for one record split into equal steps.
+ */
+const toSteps = (records: StitchRecord[]): { dx: number; dy: number; type: StitchType }[] => {
+  const steps: { dx: number; dy: number; type: StitchType }[] = [];
+  let x = 0;
+  let y = 0;
+  records.forEach(record => {
+    const dx = record.x - x;
+    const dy = record.y - y;
+    const parts = Math.max(1, Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)) / MAX_RECORD_STEP));
+    let doneX = 0;
+    let doneY = 0;
+    for (let part = 1; part <= parts; part++) {
+      const stepX = Math.round((dx * part) / parts) - doneX;
+      const stepY = Math.round((dy * part) / parts) - doneY;
+      steps.push({ dx: stepX, dy: stepY, type: record.type === 'color' ? 'color' : (part < parts ? 'jump' : record.type) });
+      doneX += stepX;
+      doneY += stepY;
+    }
+    x = record.x;
+    y = record.y;
+  });
+  return steps;
+};
+
+/**
+ * Encodes one Tajima record: each move is a sum of ±1, ±3, ±9, ±27 and ±81 units
+ * spread over three bytes, with y pointing up.
+ */
+const encodeDstRecord = (dx: number, dy: number, type: StitchType): number[] => {
+  let x = dx;
+  let y = -dy;
+  const bytes = [0, 0, 0x03];
+  // [unit, byte, bit for +x, bit for -x, bit for +y, bit for -y]
+  const digits: [number, number, number, number, number, number][] = [
+    [81, 2, 0x04, 0x08, 0x20, 0x10],
+    [27, 1, 0x04, 0x08, 0x20, 0x10],
+    [9, 0, 0x04, 0x08, 0x20, 0x10],
+    [3, 1, 0x01, 0x02, 0x80, 0x40],
+    [1, 0, 0x01, 0x02, 0x80, 0x40],
+  ];
+  digits.forEach(([unit, byte, plusX, minusX, plusY, minusY]) => {
+    const half = (unit - 1) / 2;
+    if (x > half) { bytes[byte] |= plusX; x -= unit; }
+    if (x < -half) { bytes[byte] |= minusX; x += unit; }
+    if (y > half) { bytes[byte] |= plusY; y -= unit; }
+    if (y < -half) { bytes[byte] |= minusY; y += unit; }
+  });
+  if (type === 'jump') bytes[2] |= 0x80;
+  if (type === 'color') bytes[2] |= 0xC0;
+  return bytes;
+};
+
+/**
+ * Encodes the pattern as a Tajima DST file.
+ * @param label The design name stored in the header, up to 16 characters.
+ */
+export const encodeDst = (pattern: EmbroideryPattern, label: string): Uint8Array => {
+  const steps = toSteps(pattern.records);
+  const body = steps.flatMap(step => encodeDstRecord(step.dx, step.dy, step.type));
+  body.push(0x00, 0x00, 0xF3); // end
+
+  const xs = pattern.records.map(record => record.x);
+  const ys = pattern.records.map(record => -record.y);
+  const pad = (value: number, size: number) => String(value).padStart(size, ' ');
+  const header = [
+    `LA:${label.slice(0, 16).padEnd(16, ' ')}`,
+    `ST:${pad(steps.length, 7)}`,
+    `CO:${pad(pattern.colorChanges, 3)}`,
+    `+X:${pad(Math.max(0, ...xs), 5)}`,
+    `-X:${pad(Math.abs(Math.min(0, ...xs)), 5)}`,
+    `+Y:${pad(Math.max(0, ...ys), 5)}`,
+    `-Y:${pad(Math.abs(Math.min(0, ...ys)), 5)}`,
+    `AX:+${pad(0, 5)}`,
+    `AY:+${pad(0, 5)}`,
+    `MX:+${pad(0, 5)}`,
+    `MY:+${pad(0, 5)}`,
+    'PD:******',
+  ].join('\r') + '\r\x1A';
+  const bytes = new Uint8Array(512 + body.length).fill(0x20, 0, 512);
+  for (let i = 0; i < header.length; i++) bytes[i] = header.charCodeAt(i) & 0xFF;
+  bytes.set(body, 512);
+  return bytes;
+};
+
+/**
+ * Encodes the pattern as a Melco EXP file: a signed byte each for x and y, y
+ * pointing up, with jumps and color changes flagged by a 0x80 escape.
+ */
+export const encodeExp = (pattern: EmbroideryPattern): Uint8Array => {
+  const signed = (value: number) => (value + 256) & 0xFF;
+  const body = toSteps(pattern.records).flatMap(({ dx, dy, type }) => {
+    if (type === 'color') return [0x80, 0x01, 0x00, 0x00];
+    const move = [signed(dx), signed(-dy)];
+    return type === 'jump' ? [0x80, 0x04, ...move] : move;
+  });
+  return Uint8Array.from(body);
+};
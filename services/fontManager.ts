@@ -0,0 +1,350 @@
+import type { CustomFontId, DesignFont, TshirtFont } from '../types';
+import { TSHIRT_FONTS } from '../constants';
+import { decodeFontFile, parseFont, ParsedFont } from './fontParser';
+import { bytesToBase64 } from './zipService';
+
+/**
+ * The single place design fonts come from. Every catalog font is downloaded once
+ * as TrueType files from the Fontsource CDN and kept in IndexedDB, so after the
+ * first use it works offline. The same files feed the in-page preview (through
+ * the FontFace API), the fonts embedded in SVG/PNG exports, and text outlining.
+ * Fonts uploaded by the user are stored in the same database and go through the
+ * same paths, under `custom:` ids.
+ *
+ * When a font can't be loaded, the functions here throw an error naming the font
+ * instead of quietly falling back to another typeface.
+ */
+
+const DB_NAME = 'mockup-studio-fonts';
+const DB_VERSION = 2;
+const FILE_STORE = 'files';
+const CUSTOM_FONT_STORE = 'customFonts';
+const MAX_CUSTOM_FONT_BYTES = 10 * 1024 * 1024;
+
+export type FontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2';
+
+const FONT_MIME_TYPES: Record<FontFormat, string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+/**
+ * An uploaded font as stored in IndexedDB. The original file is kept, so the
+ * browser and exports use exactly what was uploaded.
+ */
+export interface CustomFont {
+  id: CustomFontId;
+  // Shown in the font list and used as the CSS family name.
+  name: string;
+  format: FontFormat;
+  data: ArrayBuffer;
+  createdAt: number;
+}
+
+export type CustomFontSummary = Pick<CustomFont, 'id' | 'name'>;
+
+interface FontSubset {
+  id: string;
+  unicodeRange: string;
+}
+
+const LATIN: FontSubset = { id: 'latin', unicodeRange: 'U+0000-00FF, U+0131, U+0152-0153, U+02BB-02BC, U+02C6, U+02DA, U+02DC, U+2000-206F, U+20AC, U+2122, U+2212' };
+const ARABIC: FontSubset = { id: 'arabic', unicodeRange: 'U+0600-06FF, U+0750-077F, U+08A0-08FF, U+200C-200E, U+FB50-FDFF, U+FE70-FEFF' };
+
+// Fonts whose characters are split over more files than the Latin one.
+const FONT_SUBSETS: Partial<Record<TshirtFont, FontSubset[]>> = {
+  cairo: [LATIN, ARABIC],
+};
+
+// Licensed system fonts that can't be redistributed. They render where installed
+// but can't be embedded or outlined.
+const SYSTEM_FONTS: TshirtFont[] = ['impact'];
+
+interface FontFile {
+  data: ArrayBuffer;
+  format: FontFormat;
+  unicodeRange?: string;
+}
+
+const loadedFonts = new Map<DesignFont, Promise<FontFile[]>>();
+const registeredFonts = new Map<DesignFont, Promise<FontFace[]>>();
+const parsedFonts = new Map<DesignFont, ParsedFont[]>();
+// Names of the uploaded fonts seen so far, so family names can be looked up synchronously.
+const customFontNames = new Map<CustomFontId, string>();
+
+export const isCustomFont = (font: DesignFont): font is CustomFontId => font.startsWith('custom:');
+
+/**
+ * The CSS family name a font is registered, embedded and described under.
+ */
+export const getFontFamily = (font: DesignFont): string => {
+  if (isCustomFont(font)) return customFontNames.get(font) || 'Custom font';
+  return TSHIRT_FONTS.find(f => f.id === font)?.name || 'Impact';
+};
+
+export const isSystemFont = (font: DesignFont): boolean => SYSTEM_FONTS.includes(font as TshirtFont);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(FILE_STORE)) {
+          request.result.createObjectStore(FILE_STORE);
+        }
+        if (!request.result.objectStoreNames.contains(CUSTOM_FONT_STORE)) {
+          request.result.createObjectStore(CUSTOM_FONT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one of the object stores and resolves with its result.
+ */
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const readCachedFile = async (key: string): Promise<ArrayBuffer | null> => {
+  try {
+    return (await withStore<ArrayBuffer | undefined>(FILE_STORE, 'readonly', store => store.get(key))) ?? null;
+  } catch (e) {
+    // Without the cache the font is simply downloaded again.
+    console.warn('Could not read the font cache.', e);
+    return null;
+  }
+};
+
+const writeCachedFile = async (key: string, data: ArrayBuffer): Promise<void> => {
+  try {
+    await withStore(FILE_STORE, 'readwrite', store => store.put(data, key));
+  } catch (e) {
+    console.warn('Could not store the font in the cache.', e);
+  }
+};
+
+const downloadFile = async (font: TshirtFont, subset: FontSubset): Promise<ArrayBuffer> => {
+  const slug = getFontFamily(font).toLowerCase().replace(/ /g, '-');
+  const response = await fetch(`https://cdn.jsdelivr.net/fontsource/fonts/${slug}@latest/${subset.id}-400-normal.ttf`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.arrayBuffer();
+};
+
+const loadCatalogFont = async (font: TshirtFont): Promise<FontFile[]> => {
+  const family = getFontFamily(font);
+  if (isSystemFont(font)) {
+    throw new Error(`"${family}" is a system font and isn't bundled with the app, so it can't be embedded or converted to outlines. Choose another font for print files.`);
+  }
+  return Promise.all((FONT_SUBSETS[font] || [LATIN]).map(async subset => {
+    const key = `${font}/${subset.id}`;
+    const stored = await readCachedFile(key);
+    if (stored) return { data: stored, format: 'truetype', unicodeRange: subset.unicodeRange };
+    try {
+      const data = await downloadFile(font, subset);
+      await writeCachedFile(key, data);
+      return { data, format: 'truetype', unicodeRange: subset.unicodeRange };
+    } catch (e: any) {
+      throw new Error(`The "${family}" font is not available offline yet and could not be downloaded (${e.message || e}). Connect to the internet once to store it.`);
+    }
+  }));
+};
+
+/**
+ * Returns an uploaded font as stored, e.g. to put it in a design file.
+ * @throws If the font is no longer stored in this browser.
+ */
+export const getCustomFont = async (font: CustomFontId): Promise<CustomFont> => {
+  const stored = await withStore<CustomFont | undefined>(CUSTOM_FONT_STORE, 'readonly', store => store.get(font));
+  if (!stored) {
+    throw new Error('The uploaded font used by this design is not stored in this browser. Upload the font file again or choose another font.');
+  }
+  customFontNames.set(stored.id, stored.name);
+  return stored;
+};
+
+const loadCustomFont = async (font: CustomFontId): Promise<FontFile[]> => {
+  const stored = await getCustomFont(font);
+  return [{ data: stored.data, format: stored.format }];
+};
+
+/**
+ * Returns the font files: catalog fonts from memory, the IndexedDB cache or the
+ * CDN, in that order; uploaded fonts from IndexedDB.
+ * @throws If the font is a system font, is no longer stored, or could not be downloaded.
+ */
+const loadFont = (font: DesignFont): Promise<FontFile[]> => {
+  const cached = loadedFonts.get(font);
+  if (cached) return cached;
+
+  const request = isCustomFont(font) ? loadCustomFont(font) : loadCatalogFont(font);
+  loadedFonts.set(font, request);
+  // Allow a later call to retry, e.g. once the connection is back.
+  request.catch(() => loadedFonts.delete(font));
+  return request;
+};
+
+/**
+ * Makes the font usable in the page and on canvases by registering its files
+ * with `document.fonts`. System fonts are left to the operating system.
+ * @throws If the font files could not be loaded.
+ */
+export const ensureFontLoaded = async (font: DesignFont): Promise<void> => {
+  if (isSystemFont(font)) return;
+  let request = registeredFonts.get(font);
+  if (!request) {
+    request = loadFont(font).then(async files => {
+      const faces = files.map(file => new FontFace(getFontFamily(font), file.data, file.unicodeRange ? { unicodeRange: file.unicodeRange } : {}));
+      await Promise.all(faces.map(face => face.load()));
+      faces.forEach(face => document.fonts.add(face));
+      return faces;
+    });
+    registeredFonts.set(font, request);
+    request.catch(() => registeredFonts.delete(font));
+  }
+  await request;
+};
+
+/**
+ * Loads every catalog font in the background, so the font and text style pickers
+ * can show each option in its own typeface. Failures are only logged here; they
+ * surface when the font is actually selected or exported.
+ */
+export const preloadCatalogFonts = (): void => {
+  TSHIRT_FONTS.forEach(({ id }) => {
+    ensureFontLoaded(id).catch(e => console.warn(e.message));
+  });
+};
+
+/**
+ * Builds `@font-face` rules that embed the font files as data URIs, for SVGs
+ * that must render without network access (downloads and canvas rendering).
+ * System fonts are referenced by name only.
+ * @throws If the font files could not be loaded.
+ */
+export const getEmbeddedFontCss = async (font: DesignFont): Promise<string> => {
+  if (isSystemFont(font)) return '';
+  const files = await loadFont(font);
+  return files.map(file => `
+    @font-face {
+        font-family: '${getFontFamily(font)}';
+        src: url(data:${FONT_MIME_TYPES[file.format]};base64,${bytesToBase64(new Uint8Array(file.data))}) format('${file.format}');${file.unicodeRange ? `
+        unicode-range: ${file.unicodeRange};` : ''}
+    }`).join('');
+};
+
+/**
+ * Returns the parsed outlines of the font files, in fallback order.
+ * @throws If the font files could not be loaded or parsed.
+ */
+export const getFontOutlines = async (font: DesignFont): Promise<ParsedFont[]> => {
+  const cached = parsedFonts.get(font);
+  if (cached) return cached;
+  const files = await loadFont(font);
+  const parsed = await Promise.all(files.map(async file => parseFont(await decodeFontFile(file.data))));
+  parsedFonts.set(font, parsed);
+  return parsed;
+};
+
+// --- Uploaded fonts ----------------------------------------------------------
+
+const detectFontFormat = (data: ArrayBuffer): FontFormat | null => {
+  if (data.byteLength < 4) return null;
+  const signature = new DataView(data).getUint32(0);
+  switch (signature) {
+    case 0x00010000:
+    case 0x74727565: // 'true'
+      return 'truetype';
+    case 0x4F54544F: // 'OTTO'
+      return 'opentype';
+    case 0x774F4646: // 'wOFF'
+      return 'woff';
+    case 0x774F4632: // 'wOF2'
+      return 'woff2';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Lists the uploaded fonts, oldest first.
+ */
+export const listCustomFonts = async (): Promise<CustomFontSummary[]> => {
+  const fonts = await withStore<CustomFont[]>(CUSTOM_FONT_STORE, 'readonly', store => store.getAll());
+  fonts.forEach(font => customFontNames.set(font.id, font.name));
+  return fonts
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(({ id, name }) => ({ id, name }));
+};
+
+/**
+ * Stores an uploaded TTF, OTF, WOFF or WOFF2 file and makes it available to the
+ * preview right away. The family is named after the file, with a number added
+ * when that name is already taken by a catalog or uploaded font.
+ * @throws If the file is not a font the browser can read, or can't be stored.
+ */
+export const addCustomFont = async (file: File): Promise<CustomFontSummary> => {
+  if (file.size > MAX_CUSTOM_FONT_BYTES) {
+    throw new Error(`"${file.name}" is larger than 10 MB, which is too large for a font file.`);
+  }
+  const data = await file.arrayBuffer();
+  const format = detectFontFormat(data);
+  if (!format) {
+    throw new Error(`"${file.name}" is not a TTF, OTF, WOFF or WOFF2 font file.`);
+  }
+
+  // Quotes and other markup characters would break the CSS and SVG the name ends up in.
+  const baseName = file.name.replace(/\.[^.]+$/, '').replace(/[^\p{L}\p{N} _-]+/gu, ' ').replace(/\s+/g, ' ').trim() || 'Custom font';
+  const takenNames = new Set([...TSHIRT_FONTS.map(f => f.name), ...(await listCustomFonts()).map(f => f.name)]);
+  let name = baseName;
+  for (let i = 2; takenNames.has(name); i++) name = `${baseName} ${i}`;
+
+  const face = new FontFace(name, data);
+  try {
+    await face.load();
+  } catch {
+    throw new Error(`The browser could not read "${file.name}" as a font. The file may be damaged.`);
+  }
+
+  const font: CustomFont = { id: `custom:${crypto.randomUUID()}`, name, format, data, createdAt: Date.now() };
+  await withStore(CUSTOM_FONT_STORE, 'readwrite', store => store.put(font));
+  customFontNames.set(font.id, name);
+  document.fonts.add(face);
+  registeredFonts.set(font.id, Promise.resolve([face]));
+  return { id: font.id, name };
+};
+
+/**
+ * Removes an uploaded font from the browser.
+ */
+export const deleteCustomFont = async (id: CustomFontId): Promise<void> => {
+  await withStore(CUSTOM_FONT_STORE, 'readwrite', store => store.delete(id));
+  const faces = registeredFonts.get(id);
+  registeredFonts.delete(id);
+  loadedFonts.delete(id);
+  parsedFonts.delete(id);
+  customFontNames.delete(id);
+  faces?.then(list => list.forEach(face => document.fonts.delete(face)), () => {});
+};
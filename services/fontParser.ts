@@ -0,0 +1,896 @@
+/**
+ * A minimal OpenType reader for turning text into outlines. It covers what
+ * outlining needs and no more: the character map, advance widths, TrueType
+ * (`glyf`) and CFF outlines, kerning from GPOS/`kern`, and the GSUB single and
+ * ligature substitutions used for standard ligatures and Arabic letter forms.
+ */
+
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface ShapedGlyph {
+  glyph: number;
+  // Font units.
+  advance: number;
+}
+
+export interface ParsedFont {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  xHeight: number;
+  // 0 when the font has no glyph for the character.
+  glyphIndex: (codePoint: number) => number;
+  // Outline in font units, y pointing up.
+  glyphPath: (glyph: number) => PathCommand[];
+  // Glyphs and advances for a run of text, in visual (left to right) order.
+  shape: (text: string) => ShapedGlyph[];
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+type ArabicForm = 'isol' | 'init' | 'medi' | 'fina';
+
+const tagAt = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readTables = (view: DataView): Map<string, TableRecord> => {
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    tables.set(tagAt(view, record), { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  return tables;
+};
+
+// --- Character map -----------------------------------------------------------
+
+const readCmap = (view: DataView, table: TableRecord): ((codePoint: number) => number) => {
+  const numSubtables = view.getUint16(table.offset + 2);
+  let format4 = -1;
+  let format12 = -1;
+  for (let i = 0; i < numSubtables; i++) {
+    const record = table.offset + 4 + i * 8;
+    const platformId = view.getUint16(record);
+    const encodingId = view.getUint16(record + 2);
+    const subtable = table.offset + view.getUint32(record + 4);
+    const format = view.getUint16(subtable);
+    const isUnicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (!isUnicode) continue;
+    if (format === 12) format12 = subtable;
+    if (format === 4) format4 = subtable;
+  }
+
+  if (format12 >= 0) {
+    const numGroups = view.getUint32(format12 + 12);
+    return codePoint => {
+      for (let i = 0; i < numGroups; i++) {
+        const group = format12 + 16 + i * 12;
+        const start = view.getUint32(group);
+        if (codePoint >= start && codePoint <= view.getUint32(group + 4)) {
+          return view.getUint32(group + 8) + codePoint - start;
+        }
+      }
+      return 0;
+    };
+  }
+
+  if (format4 >= 0) {
+    const segCount = view.getUint16(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return codePoint => {
+      if (codePoint > 0xFFFF) return 0;
+      for (let i = 0; i < segCount; i++) {
+        if (codePoint > view.getUint16(endCodes + i * 2)) continue;
+        const start = view.getUint16(startCodes + i * 2);
+        if (codePoint < start) return 0;
+        const delta = view.getUint16(idDeltas + i * 2);
+        const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+        if (rangeOffset === 0) return (codePoint + delta) & 0xFFFF;
+        const glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xFFFF;
+      }
+      return 0;
+    };
+  }
+
+  throw new Error('The font has no Unicode character map.');
+};
+
+// --- TrueType outlines -------------------------------------------------------
+
+const readGlyphContours = (
+  view: DataView,
+  glyf: TableRecord,
+  glyphOffset: (glyph: number) => [number, number],
+  glyph: number,
+  depth = 0,
+): Point[][] => {
+  const [start, end] = glyphOffset(glyph);
+  if (end <= start || depth > 8) return [];
+  const offset = glyf.offset + start;
+  const numberOfContours = view.getInt16(offset);
+
+  if (numberOfContours >= 0) {
+    const endPoints: number[] = [];
+    for (let i = 0; i < numberOfContours; i++) endPoints.push(view.getUint16(offset + 10 + i * 2));
+    const pointCount = numberOfContours ? endPoints[numberOfContours - 1] + 1 : 0;
+    let p = offset + 10 + numberOfContours * 2;
+    p += 2 + view.getUint16(p); // skip instructions
+
+    const flags: number[] = [];
+    while (flags.length < pointCount) {
+      const flag = view.getUint8(p++);
+      flags.push(flag);
+      if (flag & 8) {
+        for (let repeat = view.getUint8(p++); repeat > 0; repeat--) flags.push(flag);
+      }
+    }
+
+    const readCoordinates = (shortBit: number, sameBit: number): number[] => {
+      const values: number[] = [];
+      let value = 0;
+      for (const flag of flags) {
+        if (flag & shortBit) {
+          const delta = view.getUint8(p++);
+          value += flag & sameBit ? delta : -delta;
+        } else if (!(flag & sameBit)) {
+          value += view.getInt16(p);
+          p += 2;
+        }
+        values.push(value);
+      }
+      return values;
+    };
+    const xs = readCoordinates(2, 16);
+    const ys = readCoordinates(4, 32);
+
+    const contours: Point[][] = [];
+    let first = 0;
+    for (const last of endPoints) {
+      const contour: Point[] = [];
+      for (let i = first; i <= last; i++) contour.push({ x: xs[i], y: ys[i], onCurve: (flags[i] & 1) === 1 });
+      contours.push(contour);
+      first = last + 1;
+    }
+    return contours;
+  }
+
+  // Composite glyph: transformed copies of other glyphs.
+  const contours: Point[][] = [];
+  let p = offset + 10;
+  let flags: number;
+  do {
+    flags = view.getUint16(p);
+    const component = view.getUint16(p + 2);
+    p += 4;
+    let dx: number;
+    let dy: number;
+    if (flags & 1) {
+      dx = view.getInt16(p);
+      dy = view.getInt16(p + 2);
+      p += 4;
+    } else {
+      dx = view.getInt8(p);
+      dy = view.getInt8(p + 1);
+      p += 2;
+    }
+    // Anchoring by point numbers is rare and only used for fine adjustments.
+    if (!(flags & 2)) {
+      dx = 0;
+      dy = 0;
+    }
+    let [a, b, c, d] = [1, 0, 0, 1];
+    if (flags & 8) {
+      a = d = view.getInt16(p) / 16384;
+      p += 2;
+    } else if (flags & 0x40) {
+      a = view.getInt16(p) / 16384;
+      d = view.getInt16(p + 2) / 16384;
+      p += 4;
+    } else if (flags & 0x80) {
+      a = view.getInt16(p) / 16384;
+      b = view.getInt16(p + 2) / 16384;
+      c = view.getInt16(p + 4) / 16384;
+      d = view.getInt16(p + 6) / 16384;
+      p += 8;
+    }
+    readGlyphContours(view, glyf, glyphOffset, component, depth + 1).forEach(contour => {
+      contours.push(contour.map(point => ({
+        x: a * point.x + c * point.y + dx,
+        y: b * point.x + d * point.y + dy,
+        onCurve: point.onCurve,
+      })));
+    });
+  } while (flags & 0x20);
+  return contours;
+};
+
+/**
+ * Converts quadratic TrueType contours to path commands. Two off-curve points in
+ * a row imply an on-curve point halfway between them.
+ */
+const contoursToPath = (contours: Point[][]): PathCommand[] => {
+  const commands: PathCommand[] = [];
+  contours.forEach(contour => {
+    if (contour.length === 0) return;
+    const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, onCurve: true });
+    const firstOn = contour.findIndex(point => point.onCurve);
+    const start = firstOn >= 0 ? contour[firstOn] : midpoint(contour[0], contour[contour.length - 1]);
+    const ordered = firstOn >= 0
+      ? [...contour.slice(firstOn + 1), ...contour.slice(0, firstOn + 1)]
+      : [...contour, start];
+
+    commands.push({ type: 'M', x: start.x, y: start.y });
+    let control: Point | null = null;
+    for (const point of ordered) {
+      if (point.onCurve) {
+        commands.push(control ? { type: 'Q', x1: control.x, y1: control.y, x: point.x, y: point.y } : { type: 'L', x: point.x, y: point.y });
+        control = null;
+      } else {
+        if (control) {
+          const implied = midpoint(control, point);
+          commands.push({ type: 'Q', x1: control.x, y1: control.y, x: implied.x, y: implied.y });
+        }
+        control = point;
+      }
+    }
+    if (control) {
+      commands.push({ type: 'Q', x1: control.x, y1: control.y, x: start.x, y: start.y });
+    }
+    commands.push({ type: 'Z' });
+  });
+  return commands;
+};
+
+const readTrueTypeOutlines = (view: DataView, glyf: TableRecord, loca: TableRecord, longOffsets: boolean, numGlyphs: number): ((glyph: number) => PathCommand[]) => {
+  const glyphOffset = (glyph: number): [number, number] => {
+    if (glyph >= numGlyphs) return [0, 0];
+    return longOffsets
+      ? [view.getUint32(loca.offset + glyph * 4), view.getUint32(loca.offset + glyph * 4 + 4)]
+      : [view.getUint16(loca.offset + glyph * 2) * 2, view.getUint16(loca.offset + glyph * 2 + 2) * 2];
+  };
+  return glyph => contoursToPath(readGlyphContours(view, glyf, glyphOffset, glyph));
+};
+
+// --- CFF outlines (.otf) -----------------------------------------------------
+
+interface CffIndex {
+  // Absolute [start, end) byte ranges of the entries.
+  entries: [number, number][];
+  end: number;
+}
+
+const readCffIndex = (view: DataView, offset: number): CffIndex => {
+  const count = view.getUint16(offset);
+  if (count === 0) return { entries: [], end: offset + 2 };
+  const offSize = view.getUint8(offset + 2);
+  const readOffset = (i: number): number => {
+    let value = 0;
+    for (let b = 0; b < offSize; b++) value = value * 256 + view.getUint8(offset + 3 + i * offSize + b);
+    return value;
+  };
+  // Offsets are 1-based from the byte before the data.
+  const dataStart = offset + 3 + (count + 1) * offSize - 1;
+  const entries: [number, number][] = [];
+  for (let i = 0; i < count; i++) entries.push([dataStart + readOffset(i), dataStart + readOffset(i + 1)]);
+  return { entries, end: dataStart + readOffset(count) };
+};
+
+/**
+ * Reads a Top or Private DICT into operator → operands. Two-byte operators are
+ * stored as 1200 + the second byte.
+ */
+const readCffDict = (view: DataView, [start, end]: [number, number]): Map<number, number[]> => {
+  const dict = new Map<number, number[]>();
+  let operands: number[] = [];
+  let p = start;
+  while (p < end) {
+    const b0 = view.getUint8(p++);
+    if (b0 <= 21) {
+      dict.set(b0 === 12 ? 1200 + view.getUint8(p++) : b0, operands);
+      operands = [];
+    } else if (b0 === 28) {
+      operands.push(view.getInt16(p));
+      p += 2;
+    } else if (b0 === 29) {
+      operands.push(view.getInt32(p));
+      p += 4;
+    } else if (b0 === 30) {
+      // Real numbers are only used for values outlining doesn't need; skip the nibbles.
+      while (p < end && (view.getUint8(p++) & 0x0F) !== 0x0F);
+      operands.push(0);
+    } else if (b0 >= 32 && b0 <= 246) {
+      operands.push(b0 - 139);
+    } else if (b0 >= 247 && b0 <= 250) {
+      operands.push((b0 - 247) * 256 + view.getUint8(p++) + 108);
+    } else if (b0 >= 251 && b0 <= 254) {
+      operands.push(-(b0 - 251) * 256 - view.getUint8(p++) - 108);
+    }
+  }
+  return dict;
+};
+
+const subrBias = (subrs: CffIndex): number =>
+  subrs.entries.length < 1240 ? 107 : subrs.entries.length < 33900 ? 1131 : 32768;
+
+/**
+ * Returns the local subroutines of a Private DICT, given as [size, offset] relative to the CFF table.
+ */
+const readPrivateSubrs = (view: DataView, cffOffset: number, privateEntry: number[] | undefined): CffIndex => {
+  if (!privateEntry || privateEntry.length < 2) return { entries: [], end: 0 };
+  const [size, offset] = privateEntry;
+  const privateStart = cffOffset + offset;
+  const subrs = readCffDict(view, [privateStart, privateStart + size]).get(19);
+  return subrs ? readCffIndex(view, privateStart + subrs[0]) : { entries: [], end: 0 };
+};
+
+/**
+ * Reads the 'CFF ' table and returns a function that draws a glyph by running its
+ * Type 2 charstring. Hints are skipped; CID-keyed fonts pick their local
+ * subroutines through FDSelect.
+ */
+const readCffOutlines = (view: DataView, cff: TableRecord): ((glyph: number) => PathCommand[]) => {
+  const nameIndex = readCffIndex(view, cff.offset + view.getUint8(cff.offset + 2));
+  const topDictIndex = readCffIndex(view, nameIndex.end);
+  const stringIndex = readCffIndex(view, topDictIndex.end);
+  const globalSubrs = readCffIndex(view, stringIndex.end);
+  const topDict = readCffDict(view, topDictIndex.entries[0]);
+
+  const charStringsOffset = topDict.get(17)?.[0];
+  if (charStringsOffset === undefined) throw new Error('The font has no CFF charstrings.');
+  const charStrings = readCffIndex(view, cff.offset + charStringsOffset);
+
+  let localSubrsFor: (glyph: number) => CffIndex;
+  const fdArrayOffset = topDict.get(1236)?.[0];
+  const fdSelectOffset = topDict.get(1237)?.[0];
+  if (fdArrayOffset !== undefined && fdSelectOffset !== undefined) {
+    const fontDicts = readCffIndex(view, cff.offset + fdArrayOffset).entries
+      .map(entry => readPrivateSubrs(view, cff.offset, readCffDict(view, entry).get(18)));
+    const fdSelect = cff.offset + fdSelectOffset;
+    const format = view.getUint8(fdSelect);
+    localSubrsFor = glyph => {
+      if (format === 0) return fontDicts[view.getUint8(fdSelect + 1 + glyph)] || fontDicts[0];
+      const numRanges = view.getUint16(fdSelect + 1);
+      for (let i = 0; i < numRanges; i++) {
+        const range = fdSelect + 3 + i * 3;
+        if (glyph >= view.getUint16(range) && glyph < view.getUint16(range + 3)) return fontDicts[view.getUint8(range + 2)] || fontDicts[0];
+      }
+      return fontDicts[0];
+    };
+  } else {
+    const localSubrs = readPrivateSubrs(view, cff.offset, topDict.get(18));
+    localSubrsFor = () => localSubrs;
+  }
+
+  return glyph => {
+    const commands: PathCommand[] = [];
+    if (glyph >= charStrings.entries.length) return commands;
+    const localSubrs = localSubrsFor(glyph);
+    const stack: number[] = [];
+    let x = 0;
+    let y = 0;
+    let stems = 0;
+    let haveWidth = false;
+    let isOpen = false;
+    let ended = false;
+
+    const moveTo = (dx: number, dy: number) => {
+      if (isOpen) commands.push({ type: 'Z' });
+      x += dx;
+      y += dy;
+      commands.push({ type: 'M', x, y });
+      isOpen = true;
+    };
+    const lineTo = (dx: number, dy: number) => {
+      x += dx;
+      y += dy;
+      commands.push({ type: 'L', x, y });
+    };
+    const curveTo = (dx1: number, dy1: number, dx2: number, dy2: number, dx3: number, dy3: number) => {
+      const x1 = x + dx1;
+      const y1 = y + dy1;
+      const x2 = x1 + dx2;
+      const y2 = y1 + dy2;
+      x = x2 + dx3;
+      y = y2 + dy3;
+      commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+    };
+    // The first stack-clearing operator may carry the advance width as an extra leading operand.
+    const dropWidth = (expected: number) => {
+      if (!haveWidth && stack.length > expected) stack.shift();
+      haveWidth = true;
+    };
+    const countStems = () => {
+      dropWidth(stack.length - (stack.length % 2));
+      stems += stack.length >> 1;
+    };
+    // Alternating curves of hvcurveto/vhcurveto; the last one may carry an extra final delta.
+    const alternatingCurves = (horizontal: boolean) => {
+      for (let i = 0; i + 4 <= stack.length; horizontal = !horizontal) {
+        const last = stack.length - i === 5 ? stack[i + 4] : 0;
+        if (horizontal) curveTo(stack[i], 0, stack[i + 1], stack[i + 2], last, stack[i + 3]);
+        else curveTo(0, stack[i], stack[i + 1], stack[i + 2], stack[i + 3], last);
+        i += stack.length - i === 5 ? 5 : 4;
+      }
+    };
+
+    const run = ([start, end]: [number, number], depth: number) => {
+      let p = start;
+      while (p < end && !ended) {
+        const b0 = view.getUint8(p++);
+        if (b0 === 28) {
+          stack.push(view.getInt16(p));
+          p += 2;
+          continue;
+        }
+        if (b0 >= 32) {
+          if (b0 <= 246) stack.push(b0 - 139);
+          else if (b0 <= 250) stack.push((b0 - 247) * 256 + view.getUint8(p++) + 108);
+          else if (b0 <= 254) stack.push(-(b0 - 251) * 256 - view.getUint8(p++) - 108);
+          else {
+            stack.push(view.getInt32(p) / 65536);
+            p += 4;
+          }
+          continue;
+        }
+
+        switch (b0) {
+          case 1: case 3: case 18: case 23: // hstem, vstem, hstemhm, vstemhm
+            countStems();
+            break;
+          case 19: case 20: // hintmask, cntrmask: may be preceded by implicit vstem operands
+            countStems();
+            p += (stems + 7) >> 3;
+            break;
+          case 21: // rmoveto
+            dropWidth(2);
+            moveTo(stack[0], stack[1]);
+            break;
+          case 22: // hmoveto
+            dropWidth(1);
+            moveTo(stack[0], 0);
+            break;
+          case 4: // vmoveto
+            dropWidth(1);
+            moveTo(0, stack[0]);
+            break;
+          case 5: // rlineto
+            for (let i = 0; i + 2 <= stack.length; i += 2) lineTo(stack[i], stack[i + 1]);
+            break;
+          case 6: case 7: // hlineto, vlineto
+            stack.forEach((delta, i) => ((i % 2 === 0) === (b0 === 6) ? lineTo(delta, 0) : lineTo(0, delta)));
+            break;
+          case 8: // rrcurveto
+            for (let i = 0; i + 6 <= stack.length; i += 6) curveTo(stack[i], stack[i + 1], stack[i + 2], stack[i + 3], stack[i + 4], stack[i + 5]);
+            break;
+          case 24: { // rcurveline
+            let i = 0;
+            for (; i + 6 <= stack.length - 2; i += 6) curveTo(stack[i], stack[i + 1], stack[i + 2], stack[i + 3], stack[i + 4], stack[i + 5]);
+            lineTo(stack[i], stack[i + 1]);
+            break;
+          }
+          case 25: { // rlinecurve
+            let i = 0;
+            for (; i + 2 <= stack.length - 6; i += 2) lineTo(stack[i], stack[i + 1]);
+            curveTo(stack[i], stack[i + 1], stack[i + 2], stack[i + 3], stack[i + 4], stack[i + 5]);
+            break;
+          }
+          case 26: { // vvcurveto
+            let i = stack.length % 2;
+            let dx1 = i ? stack[0] : 0;
+            for (; i + 4 <= stack.length; i += 4, dx1 = 0) curveTo(dx1, stack[i], stack[i + 1], stack[i + 2], 0, stack[i + 3]);
+            break;
+          }
+          case 27: { // hhcurveto
+            let i = stack.length % 2;
+            let dy1 = i ? stack[0] : 0;
+            for (; i + 4 <= stack.length; i += 4, dy1 = 0) curveTo(stack[i], dy1, stack[i + 1], stack[i + 2], stack[i + 3], 0);
+            break;
+          }
+          case 30: case 31: // vhcurveto, hvcurveto
+            alternatingCurves(b0 === 31);
+            break;
+          case 10: case 29: { // callsubr, callgsubr
+            const subrs = b0 === 10 ? localSubrs : globalSubrs;
+            const entry = subrs.entries[(stack.pop() as number) + subrBias(subrs)];
+            if (entry && depth < 10) run(entry, depth + 1);
+            continue; // the subroutine consumes the rest of the stack itself
+          }
+          case 11: // return
+            return;
+          case 14: // endchar
+            dropWidth(0);
+            if (isOpen) commands.push({ type: 'Z' });
+            isOpen = false;
+            ended = true;
+            return;
+          case 12: {
+            const b1 = view.getUint8(p++);
+            const s = stack;
+            if (b1 === 35) { // flex
+              curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+              curveTo(s[6], s[7], s[8], s[9], s[10], s[11]);
+            } else if (b1 === 34) { // hflex
+              curveTo(s[0], 0, s[1], s[2], s[3], 0);
+              curveTo(s[4], 0, s[5], -s[2], s[6], 0);
+            } else if (b1 === 36) { // hflex1
+              curveTo(s[0], s[1], s[2], s[3], s[4], 0);
+              curveTo(s[5], 0, s[6], s[7], s[8], -(s[1] + s[3] + s[7]));
+            } else if (b1 === 37) { // flex1
+              const dx = s[0] + s[2] + s[4] + s[6] + s[8];
+              const dy = s[1] + s[3] + s[5] + s[7] + s[9];
+              curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+              if (Math.abs(dx) > Math.abs(dy)) curveTo(s[6], s[7], s[8], s[9], s[10], -dy);
+              else curveTo(s[6], s[7], s[8], s[9], -dx, s[10]);
+            }
+            break;
+          }
+        }
+        stack.length = 0;
+      }
+    };
+
+    run(charStrings.entries[glyph], 0);
+    if (isOpen) commands.push({ type: 'Z' });
+    return commands;
+  };
+};
+
+// --- OpenType layout (GSUB/GPOS) ---------------------------------------------
+
+const coverageIndex = (view: DataView, offset: number, glyph: number): number => {
+  const format = view.getUint16(offset);
+  const count = view.getUint16(offset + 2);
+  for (let i = 0; i < count; i++) {
+    if (format === 1) {
+      if (view.getUint16(offset + 4 + i * 2) === glyph) return i;
+    } else {
+      const range = offset + 4 + i * 6;
+      if (glyph >= view.getUint16(range) && glyph <= view.getUint16(range + 2)) {
+        return view.getUint16(range + 4) + glyph - view.getUint16(range);
+      }
+    }
+  }
+  return -1;
+};
+
+const glyphClass = (view: DataView, offset: number, glyph: number): number => {
+  const format = view.getUint16(offset);
+  if (format === 1) {
+    const startGlyph = view.getUint16(offset + 2);
+    const count = view.getUint16(offset + 4);
+    return glyph >= startGlyph && glyph < startGlyph + count ? view.getUint16(offset + 6 + (glyph - startGlyph) * 2) : 0;
+  }
+  const count = view.getUint16(offset + 2);
+  for (let i = 0; i < count; i++) {
+    const range = offset + 4 + i * 6;
+    if (glyph >= view.getUint16(range) && glyph <= view.getUint16(range + 2)) return view.getUint16(range + 4);
+  }
+  return 0;
+};
+
+/**
+ * Collects the subtables of every lookup referenced by the given features, in
+ * lookup order, unwrapping extension subtables.
+ * @returns Each lookup with the feature tag that referenced it, its type and its subtables.
+ */
+const readLookups = (view: DataView, table: TableRecord | undefined, featureTags: string[], extensionType: number): { tag: string; type: number; subtables: number[] }[] => {
+  if (!table) return [];
+  const featureList = table.offset + view.getUint16(table.offset + 6);
+  const lookupList = table.offset + view.getUint16(table.offset + 8);
+
+  const tagByLookup = new Map<number, string>();
+  const featureCount = view.getUint16(featureList);
+  for (let i = 0; i < featureCount; i++) {
+    const record = featureList + 2 + i * 6;
+    const tag = tagAt(view, record);
+    if (!featureTags.includes(tag)) continue;
+    const feature = featureList + view.getUint16(record + 4);
+    const lookupCount = view.getUint16(feature + 2);
+    for (let j = 0; j < lookupCount; j++) {
+      const index = view.getUint16(feature + 4 + j * 2);
+      if (!tagByLookup.has(index)) tagByLookup.set(index, tag);
+    }
+  }
+
+  return Array.from(tagByLookup.keys()).sort((a, b) => a - b).map(index => {
+    const lookup = lookupList + view.getUint16(lookupList + 2 + index * 2);
+    let type = view.getUint16(lookup);
+    const subtableCount = view.getUint16(lookup + 4);
+    const subtables: number[] = [];
+    for (let i = 0; i < subtableCount; i++) {
+      let subtable = lookup + view.getUint16(lookup + 6 + i * 2);
+      if (type === extensionType) {
+        type = view.getUint16(subtable + 2);
+        subtable += view.getUint32(subtable + 4);
+      }
+      subtables.push(subtable);
+    }
+    return { tag: tagByLookup.get(index) as string, type, subtables };
+  });
+};
+
+const singleSubstitute = (view: DataView, subtable: number, glyph: number): number => {
+  const index = coverageIndex(view, subtable + view.getUint16(subtable + 2), glyph);
+  if (index < 0) return glyph;
+  return view.getUint16(subtable) === 1
+    ? (glyph + view.getInt16(subtable + 4)) & 0xFFFF
+    : view.getUint16(subtable + 6 + index * 2);
+};
+
+/**
+ * Tries the ligatures starting at `glyphs[at]`.
+ * @returns The ligature glyph and how many glyphs it replaces, or null.
+ */
+const matchLigature = (view: DataView, subtable: number, glyphs: number[], at: number): { glyph: number; length: number } | null => {
+  const index = coverageIndex(view, subtable + view.getUint16(subtable + 2), glyphs[at]);
+  if (index < 0) return null;
+  const ligatureSet = subtable + view.getUint16(subtable + 6 + index * 2);
+  const ligatureCount = view.getUint16(ligatureSet);
+  for (let i = 0; i < ligatureCount; i++) {
+    const ligature = ligatureSet + view.getUint16(ligatureSet + 2 + i * 2);
+    const componentCount = view.getUint16(ligature + 2);
+    let matches = at + componentCount <= glyphs.length;
+    for (let c = 1; matches && c < componentCount; c++) {
+      matches = glyphs[at + c] === view.getUint16(ligature + 2 + c * 2);
+    }
+    if (matches) return { glyph: view.getUint16(ligature), length: componentCount };
+  }
+  return null;
+};
+
+const valueRecordSize = (format: number): number => {
+  let size = 0;
+  for (let bit = format; bit; bit >>= 1) size += (bit & 1) * 2;
+  return size;
+};
+
+// The x-advance adjustment of a value record, which is what pair kerning uses.
+const xAdvanceOf = (view: DataView, offset: number, format: number): number => {
+  if (!(format & 4)) return 0;
+  return view.getInt16(offset + valueRecordSize(format & 3));
+};
+
+const pairAdjustment = (view: DataView, subtable: number, left: number, right: number): number | null => {
+  if (coverageIndex(view, subtable + view.getUint16(subtable + 2), left) < 0) return null;
+  const format = view.getUint16(subtable);
+  const valueFormat1 = view.getUint16(subtable + 4);
+  const valueFormat2 = view.getUint16(subtable + 6);
+  const recordSize = valueRecordSize(valueFormat1) + valueRecordSize(valueFormat2);
+
+  if (format === 1) {
+    const index = coverageIndex(view, subtable + view.getUint16(subtable + 2), left);
+    const pairSet = subtable + view.getUint16(subtable + 10 + index * 2);
+    const count = view.getUint16(pairSet);
+    for (let i = 0; i < count; i++) {
+      const record = pairSet + 2 + i * (2 + recordSize);
+      if (view.getUint16(record) === right) return xAdvanceOf(view, record + 2, valueFormat1);
+    }
+    return null;
+  }
+
+  const class1 = glyphClass(view, subtable + view.getUint16(subtable + 8), left);
+  const class2 = glyphClass(view, subtable + view.getUint16(subtable + 10), right);
+  const class2Count = view.getUint16(subtable + 14);
+  return xAdvanceOf(view, subtable + 16 + (class1 * class2Count + class2) * recordSize, valueFormat1);
+};
+
+const readLegacyKerning = (view: DataView, table: TableRecord | undefined): Map<number, number> => {
+  const pairs = new Map<number, number>();
+  if (!table || view.getUint16(table.offset) !== 0) return pairs;
+  let subtable = table.offset + 4;
+  const count = view.getUint16(table.offset + 2);
+  for (let i = 0; i < count; i++) {
+    const length = view.getUint16(subtable + 2);
+    const coverage = view.getUint16(subtable + 4);
+    if (coverage >> 8 === 0 && coverage & 1) {
+      const pairCount = view.getUint16(subtable + 6);
+      for (let j = 0; j < pairCount; j++) {
+        const pair = subtable + 14 + j * 6;
+        pairs.set(view.getUint16(pair) * 65536 + view.getUint16(pair + 2), view.getInt16(pair + 4));
+      }
+    }
+    subtable += length;
+  }
+  return pairs;
+};
+
+// --- Arabic joining ----------------------------------------------------------
+
+const RIGHT_JOINING = /[\u0622-\u0625\u0627\u0629\u062F-\u0632\u0648\u0671-\u0673\u0675-\u0677\u0688-\u0699\u06C0\u06C3-\u06CB\u06CD\u06CF\u06D2\u06D3\u06D5]/;
+// Tatweel (U+0640) is included as it connects on both sides.
+const DUAL_JOINING = /[\u0620\u0626\u0628\u062A-\u062E\u0633-\u063F\u0640-\u0647\u0649\u064A\u066E\u066F\u0678-\u0687\u069A-\u06BF\u06C1\u06C2\u06CC\u06CE\u06D0\u06D1\u06FA-\u06FC\u06FF]/;
+const TRANSPARENT = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7\u06E8\u06EA-\u06ED]/;
+export const RTL_TEXT = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+/**
+ * Picks the contextual form of each character from its neighbours, skipping
+ * over diacritics, which don't break a connection.
+ */
+const arabicForms = (chars: string[]): (ArabicForm | null)[] => {
+  const joinType = (char: string) => (DUAL_JOINING.test(char) ? 'D' : RIGHT_JOINING.test(char) ? 'R' : TRANSPARENT.test(char) ? 'T' : 'U');
+  const types = chars.map(joinType);
+  const neighbour = (from: number, step: number): string => {
+    for (let i = from + step; i >= 0 && i < types.length; i += step) {
+      if (types[i] !== 'T') return types[i];
+    }
+    return 'U';
+  };
+  return types.map((type, i) => {
+    if (type !== 'D' && type !== 'R') return null;
+    const joinsPrevious = neighbour(i, -1) === 'D';
+    const joinsNext = type === 'D' && neighbour(i, 1) !== 'U';
+    if (joinsPrevious && joinsNext) return 'medi';
+    if (joinsPrevious) return 'fina';
+    if (joinsNext) return 'init';
+    return 'isol';
+  });
+};
+
+// --- Font --------------------------------------------------------------------
+
+/**
+ * Parses an OpenType font with TrueType (.ttf) or CFF (.otf) outlines. WOFF files
+ * must be unwrapped with `decodeFontFile` first.
+ * @throws If the data is not a font this reader supports.
+ */
+export const parseFont = (buffer: ArrayBuffer): ParsedFont => {
+  const view = new DataView(buffer);
+  const signature = view.getUint32(0);
+  const isCff = signature === 0x4F54544F; // 'OTTO'
+  if (!isCff && signature !== 0x00010000 && signature !== 0x74727565 /* 'true' */) {
+    throw new Error('Only TrueType and OpenType (.ttf, .otf) fonts can be converted to outlines.');
+  }
+
+  const tables = readTables(view);
+  const table = (tag: string): TableRecord => {
+    const record = tables.get(tag);
+    if (!record) throw new Error(`The font is missing its '${tag}' table.`);
+    return record;
+  };
+
+  const head = table('head');
+  const hhea = table('hhea');
+  const hmtx = table('hmtx');
+  const unitsPerEm = view.getUint16(head.offset + 18);
+  const longOffsets = view.getInt16(head.offset + 50) === 1;
+  const numGlyphs = view.getUint16(table('maxp').offset + 4);
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+  const ascender = view.getInt16(hhea.offset + 4);
+  const descender = view.getInt16(hhea.offset + 6);
+
+  const os2 = tables.get('OS/2');
+  const xHeight = os2 && view.getUint16(os2.offset) >= 2 ? view.getInt16(os2.offset + 86) : Math.round(ascender * 0.5);
+
+  const glyphIndex = readCmap(view, table('cmap'));
+  const advanceWidth = (glyph: number): number =>
+    view.getUint16(hmtx.offset + Math.min(glyph, numberOfHMetrics - 1) * 4);
+  const readOutline = isCff ? readCffOutlines(view, table('CFF ')) : readTrueTypeOutlines(view, table('glyf'), table('loca'), longOffsets, numGlyphs);
+
+  const pathCache = new Map<number, PathCommand[]>();
+  const glyphPath = (glyph: number): PathCommand[] => {
+    let path = pathCache.get(glyph);
+    if (!path) {
+      path = readOutline(glyph);
+      pathCache.set(glyph, path);
+    }
+    return path;
+  };
+
+  const substitutions = readLookups(view, tables.get('GSUB'), ['isol', 'init', 'medi', 'fina', 'rlig', 'liga'], 7);
+  const kerningLookups = readLookups(view, tables.get('GPOS'), ['kern'], 9).filter(lookup => lookup.type === 2);
+  const legacyKerning = kerningLookups.length ? new Map<number, number>() : readLegacyKerning(view, tables.get('kern'));
+
+  const kerning = (left: number, right: number): number => {
+    for (const lookup of kerningLookups) {
+      for (const subtable of lookup.subtables) {
+        const value = pairAdjustment(view, subtable, left, right);
+        if (value !== null) return value;
+      }
+    }
+    return legacyKerning.get(left * 65536 + right) || 0;
+  };
+
+  const shape = (text: string): ShapedGlyph[] => {
+    const chars = Array.from(text);
+    const forms = arabicForms(chars);
+    let glyphs = chars.map(char => glyphIndex(char.codePointAt(0) as number));
+
+    substitutions.forEach(lookup => {
+      if (lookup.type === 1) {
+        glyphs = glyphs.map((glyph, i) => {
+          // Positional forms only apply to the characters in that position.
+          if (['isol', 'init', 'medi', 'fina'].includes(lookup.tag) && forms[i] !== lookup.tag) return glyph;
+          return lookup.subtables.reduce((current, subtable) => (current !== glyph ? current : singleSubstitute(view, subtable, glyph)), glyph);
+        });
+      } else if (lookup.type === 4) {
+        const next: number[] = [];
+        const nextForms: (ArabicForm | null)[] = [];
+        for (let i = 0; i < glyphs.length;) {
+          const ligature = lookup.subtables.reduce<{ glyph: number; length: number } | null>((found, subtable) => found || matchLigature(view, subtable, glyphs, i), null);
+          next.push(ligature ? ligature.glyph : glyphs[i]);
+          nextForms.push(forms[i]);
+          i += ligature ? ligature.length : 1;
+        }
+        glyphs = next;
+        forms.splice(0, forms.length, ...nextForms);
+      }
+    });
+
+    const shaped = glyphs.map((glyph, i) => ({
+      glyph,
+      advance: advanceWidth(glyph) + (i + 1 < glyphs.length ? kerning(glyph, glyphs[i + 1]) : 0),
+    }));
+    return RTL_TEXT.test(text) ? shaped.reverse() : shaped;
+  };
+
+  return { unitsPerEm, ascender, descender, xHeight, glyphIndex, glyphPath, shape };
+};
+
+/**
+ * Unwraps a WOFF file into the plain OpenType font it compresses, so it can be
+ * parsed. TrueType and OpenType files are returned unchanged.
+ * @throws For WOFF2, whose Brotli compression and transformed tables browsers
+ * can decode for display but don't expose to scripts.
+ */
+export const decodeFontFile = async (buffer: ArrayBuffer): Promise<ArrayBuffer> => {
+  const view = new DataView(buffer);
+  const signature = tagAt(view, 0);
+  if (signature === 'wOF2') {
+    throw new Error('WOFF2 fonts can be used in designs and embedded in exports, but not converted to outlines. Upload the TTF or OTF version of the font to outline its text.');
+  }
+  if (signature !== 'wOFF') return buffer;
+
+  const numTables = view.getUint16(12);
+  const tables = await Promise.all(Array.from({ length: numTables }, async (_, i) => {
+    const entry = 44 + i * 20;
+    const offset = view.getUint32(entry + 4);
+    const compLength = view.getUint32(entry + 8);
+    const origLength = view.getUint32(entry + 12);
+    const stored = new Uint8Array(buffer, offset, compLength);
+    // Tables are zlib-compressed only when that made them smaller.
+    const data = compLength < origLength
+      ? new Uint8Array(await new Response(new Blob([stored]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer())
+      : stored;
+    return { tag: view.getUint32(entry), checksum: view.getUint32(entry + 16), data };
+  }));
+
+  const headerLength = 12 + numTables * 16;
+  const padded = (length: number) => (length + 3) & ~3;
+  const sfnt = new Uint8Array(headerLength + tables.reduce((sum, table) => sum + padded(table.data.length), 0));
+  const out = new DataView(sfnt.buffer);
+  const searchRange = 2 ** Math.floor(Math.log2(numTables)) * 16;
+  out.setUint32(0, view.getUint32(4)); // flavor
+  out.setUint16(4, numTables);
+  out.setUint16(6, searchRange);
+  out.setUint16(8, Math.log2(searchRange / 16));
+  out.setUint16(10, numTables * 16 - searchRange);
+  let offset = headerLength;
+  tables.forEach((table, i) => {
+    const record = 12 + i * 16;
+    out.setUint32(record, table.tag);
+    out.setUint32(record + 4, table.checksum);
+    out.setUint32(record + 8, offset);
+    out.setUint32(record + 12, table.data.length);
+    sfnt.set(table.data, offset);
+    offset += padded(table.data.length);
+  });
+  return sfnt.buffer;
+};
@@ -0,0 +1,140 @@
+// FIX: Removed HarmCategory and HarmBlockThreshold as safetySettings are not supported on these API calls.
+import { GoogleGenAI, GenerateContentResponse, GenerateImagesResponse, Part, Modality } from "@google/genai";
+import type { ImageProvider, ImagePayload } from './imageProvider';
+
+const BASE_IMAGE_MODEL = 'imagen-4.0-generate-001';
+const EDIT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+/**
+ * A wrapper for API calls that implements retry logic with exponential backoff
+ * for rate limit errors (429).
+ * @param apiCall The function that makes the API call.
+ * @param maxRetries The maximum number of retries.
+ * @returns The result of the API call.
+ */
+export const withRetry = async <T>(apiCall: () => Promise<T>, maxRetries = 5): Promise<T> => {
+  let attempt = 0;
+  let delay = 10000; // Increased initial delay to 10 seconds to handle stricter rate limits
+
+  while (attempt < maxRetries) {
+    try {
+      return await apiCall();
+    } catch (error: any) {
+      // More robustly check for rate limit error indicators
+      const isRateLimitError = (err: any): boolean => {
+        if (!err) return false;
+        const message = (err.message || err.toString()).toLowerCase();
+        // Check for common rate limit indicators from Google AI platform
+        return message.includes('429') ||
+               message.includes('resource_exhausted') ||
+               message.includes('rate limit') ||
+               message.includes('quota');
+      };
+
+      if (isRateLimitError(error)) {
+        attempt++;
+        if (attempt >= maxRetries) {
+          console.error(`API call failed after ${maxRetries} retries due to rate limiting.`, error);
+          throw new Error('The service is currently busy. Please wait a moment and try again.');
+        }
+
+        const jitter = Math.random() * 1000; // Add up to 1 second of jitter
+        const waitTime = delay + jitter;
+
+        console.warn(`Rate limit hit. Retrying attempt ${attempt}/${maxRetries} in ${waitTime.toFixed(0)}ms...`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+        delay *= 2; // Exponential backoff: 10s, 20s, 40s, ...
+      } else {
+        // Not a retryable error, rethrow it immediately
+        throw error;
+      }
+    }
+  }
+  // This line is for TypeScript's benefit and should not be reached.
+  throw new Error('Exited retry loop unexpectedly.');
+};
+
+const toPart = (image: ImagePayload): Part => ({
+  inlineData: {
+    data: image.data,
+    mimeType: image.mimeType,
+  },
+});
+
+/**
+ * Creates the Gemini-backed provider (Imagen for base images, Gemini for editing).
+ * The client is created here rather than at module load so a missing key doesn't crash the app.
+ * @param apiKey The Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): ImageProvider => {
+  let ai: GoogleGenAI | null = null;
+  const getClient = (): GoogleGenAI => {
+    // IMPORTANT: The key is read from environment variables and should not be hardcoded.
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable not set");
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  return {
+    id: 'gemini',
+
+    generateBaseImages: async ({ prompt, options, numberOfImages }) => {
+      const client = getClient();
+      // FIX: The `safetySettings` parameter is not supported by the `generateImages` API call and has been removed.
+      const apiCall = () => client.models.generateImages({
+        model: BASE_IMAGE_MODEL,
+        prompt,
+        config: {
+          numberOfImages,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: options.aspectRatio,
+        },
+      });
+
+      // The API call is wrapped in a retry mechanism
+      const response: GenerateImagesResponse = await withRetry(apiCall);
+
+      const images = (response.generatedImages || [])
+        .map(generated => generated.image?.imageBytes)
+        .filter((bytes): bytes is string => !!bytes)
+        .map(data => ({ data, mimeType: 'image/jpeg' }));
+      if (images.length === 0) {
+        throw new Error('Image generation failed, received no image data.');
+      }
+      return images;
+    },
+
+    editImage: async ({ prompt, baseImage, logo, fontReference }) => {
+      const client = getClient();
+      const contents: Part[] = [toPart(baseImage), toPart(logo), ...(fontReference ? [toPart(fontReference)] : []), { text: prompt }];
+
+      // FIX: The `safetySettings` parameter is not supported by the `generateContent` API call and has been removed.
+      const apiCall = () => client.models.generateContent({
+        model: EDIT_IMAGE_MODEL,
+        contents: { parts: contents },
+        config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+      });
+
+      const response: GenerateContentResponse = await withRetry(apiCall);
+
+      // Extract the generated image from the response.
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+      const resultBase64 = imagePart?.inlineData?.data;
+
+      if (!resultBase64) {
+        const blockReason = response.candidates?.[0]?.finishReason;
+        const safetyRatings = response.candidates?.[0]?.safetyRatings;
+        console.error("Image generation failed. Block Reason:", blockReason, "Safety Ratings:", safetyRatings);
+        throw new Error('Failed to generate the final mockup. The model did not return an image. This could be due to a safety filter or an internal error.');
+      }
+
+      return { data: resultBase64, mimeType: imagePart?.inlineData?.mimeType || 'image/png' };
+    },
+  };
+};
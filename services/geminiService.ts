@@ -1,24 +1,21 @@
-// FIX: Import `GenerateImagesResponse` to correctly type the response from the image generation API.
-// FIX: Removed HarmCategory and HarmBlockThreshold as safetySettings are not supported on these API calls.
-import { GoogleGenAI, GenerateContentResponse, GenerateImagesResponse, Part, Modality } from "@google/genai";
-import type { DesignOptions, DesignStyle, ModelPose, ModelAudience, TshirtFont, BagMaterial, TextStyle, FrameStyle, FrameModel, FrameDimension, FrameTexture, MugStyle, MugModel, SipperGlassStyle, SipperGlassModel, TumblerStyle, TumblerModel, HalloweenTumblerStyle, HalloweenTumblerSetting, TumblerTrioStyle, TumblerTrioSetting, PhoneCaseStyle, PhoneCaseModel, StickerStyle, StickerSetting, PosterStyle, PosterSetting, WalletStyle, WalletModel, CapStyle, CapModel, BeanieStyle, BeanieModel, PillowStyle, PillowSetting, FlatLayStyle, PuzzleStyle, PuzzleSetting, LaptopSleeveStyle, LaptopSleeveSetting, BackgroundStyle, AspectRatio, ProductType, ProfessionalBackground, ArtisticFilter, DesignPlacement, ProductTexture } from "../types";
-import { MODEL_AUDIENCES, FRAME_MODELS, FRAME_DIMENSIONS, MUG_MODELS, SIPPER_GLASS_MODELS, TUMBLER_MODELS, HALLOWEEN_TUMBLER_SETTINGS, TUMBLER_TRIO_SETTINGS, PHONE_CASE_MODELS, STICKER_SETTINGS, POSTER_SETTINGS, WALLET_MODELS, CAP_MODELS, BEANIE_MODELS, PILLOW_SETTINGS, FLAT_LAY_STYLES, PUZZLE_SETTINGS, LAPTOP_SLEEVE_SETTINGS, PRODUCT_COLORS, TSHIRT_FONTS, PROFESSIONAL_BACKGROUNDS } from "../constants";
-
-// IMPORTANT: This key is read from environment variables and should not be hardcoded.
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+import type { DesignOptions, DesignStyle, ModelPose, ModelAudience, DesignFont, BagMaterial, TextStyle, FrameStyle, FrameModel, FrameDimension, FrameTexture, MugStyle, MugModel, SipperGlassStyle, SipperGlassModel, TumblerStyle, TumblerModel, HalloweenTumblerStyle, HalloweenTumblerSetting, TumblerTrioStyle, TumblerTrioSetting, PhoneCaseStyle, PhoneCaseModel, StickerStyle, StickerSetting, PosterStyle, PosterSetting, WalletStyle, WalletModel, CapStyle, CapModel, BeanieStyle, BeanieModel, PillowStyle, PillowSetting, FlatLayStyle, PuzzleStyle, PuzzleSetting, LaptopSleeveStyle, LaptopSleeveSetting, EngravingMaterial, BackgroundStyle, AspectRatio, ProfessionalBackground, ArtisticFilter, DesignPlacement, ProductTexture } from "../types";
+import { MODEL_AUDIENCES, FRAME_MODELS, FRAME_DIMENSIONS, MUG_MODELS, SIPPER_GLASS_MODELS, TUMBLER_MODELS, HALLOWEEN_TUMBLER_SETTINGS, TUMBLER_TRIO_SETTINGS, PHONE_CASE_MODELS, STICKER_SETTINGS, POSTER_SETTINGS, WALLET_MODELS, CAP_MODELS, BEANIE_MODELS, PILLOW_SETTINGS, FLAT_LAY_STYLES, PUZZLE_SETTINGS, LAPTOP_SLEEVE_SETTINGS, ENGRAVING_MATERIALS, PRODUCT_COLORS, PROFESSIONAL_BACKGROUNDS, MAX_VARIANTS } from "../constants";
+import { getImageProvider, getActiveImageProviderId, ImagePayload } from './imageProvider';
+import { PRODUCTS, getEffectiveDesignStyle, getEffectivePose, getEffectivePrintMethod, getEffectiveTextStyle } from './productRegistry';
+import { getPrintMethod, getPrintMethodConstraints } from './printMethods';
+import { getSceneKey, getCachedScene, hasCachedScene, cacheScene } from './sceneCache';
+import { ensureFontLoaded, getFontFamily, isCustomFont } from './fontManager';
 
 const qualityPrompt = "8K, ultra-high resolution, photorealistic, DSLR photo with a 50mm f/1.8 lens, sharp focus, professional commercial photography, cinematic lighting, soft shadows, beautiful bokeh, high dynamic range.";
 
-const criticalRealismInstructions = `
+/**
+ * The realism rules every edit prompt ends with.
+ * @param finish How the applied design looks, e.g. "high-end embroidery, with raised satin stitches".
+ */
+const getCriticalRealismInstructions = (finish: string): string => `
 - **CRITICAL REALISM INSTRUCTIONS:**
 - **CRITICAL CONSTRAINT: Do NOT generate a new logo or interpret the logo. You MUST use the exact logo image provided as an input. The final output must contain a pixel-perfect, high-fidelity application of the *attached* logo image. Any deviation from the provided logo image is a failure.**
-- The design must be perfectly integrated onto the product's surface, looking like a high-end, realistic print or embroidery, not a flat sticker.
+- The design must be perfectly integrated onto the product's surface, looking like ${finish}, not a flat sticker.
 - **Logo Fidelity & Resolution (ABSOLUTE PRIORITY):** The provided logo image is a source of truth and must be rendered with the highest possible fidelity, as if it were a flawless print from a vector source at 300 DPI or higher. Every detail, line, and curve must be reproduced with extreme precision and maximum sharpness. There must be **ZERO** pixelation, compression artifacts, blurriness, or loss of detail. The final applied design must look like a professional, ultra-high-resolution print on the product, not a low-quality digital overlay.
 - **Color Accuracy (CRITICAL):** The colors of the logo must be reproduced with perfect accuracy and vibrancy, exactly as they appear in the source image. Do **NOT** alter the hue, saturation, or brightness of the source colors. The final colors should only be subtly and realistically affected by the scene's ambient lighting and shadows, but the core colors must remain true, rich, and vivid. Avoid any color banding or posterization.
 - **Texture Mapping:** The underlying fabric or material texture (e.g., cotton weave, fleece, leather grain) must be subtly visible through the design, especially in lighter areas of the print.
@@ -27,56 +24,6 @@ const criticalRealismInstructions = `
 `;
 
 
-/**
- * A wrapper for API calls that implements retry logic with exponential backoff
- * for rate limit errors (429).
- * @param apiCall The function that makes the API call.
- * @param maxRetries The maximum number of retries.
- * @returns The result of the API call.
- */
-const withRetry = async <T>(apiCall: () => Promise<T>, maxRetries = 5): Promise<T> => {
-  let attempt = 0;
-  let delay = 10000; // Increased initial delay to 10 seconds to handle stricter rate limits
-
-  while (attempt < maxRetries) {
-    try {
-      return await apiCall();
-    } catch (error: any) {
-      // More robustly check for rate limit error indicators
-      const isRateLimitError = (err: any): boolean => {
-        if (!err) return false;
-        const message = (err.message || err.toString()).toLowerCase();
-        // Check for common rate limit indicators from Google AI platform
-        return message.includes('429') || 
-               message.includes('resource_exhausted') || 
-               message.includes('rate limit') ||
-               message.includes('quota');
-      };
-
-      if (isRateLimitError(error)) {
-        attempt++;
-        if (attempt >= maxRetries) {
-          console.error(`API call failed after ${maxRetries} retries due to rate limiting.`, error);
-          throw new Error('The service is currently busy. Please wait a moment and try again.');
-        }
-        
-        const jitter = Math.random() * 1000; // Add up to 1 second of jitter
-        const waitTime = delay + jitter;
-
-        console.warn(`Rate limit hit. Retrying attempt ${attempt}/${maxRetries} in ${waitTime.toFixed(0)}ms...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        delay *= 2; // Exponential backoff: 10s, 20s, 40s, ...
-      } else {
-        // Not a retryable error, rethrow it immediately
-        throw error;
-      }
-    }
-  }
-  // This line is for TypeScript's benefit and should not be reached.
-  throw new Error('Exited retry loop unexpectedly.');
-};
-
-
 /**
  * Gets the color name from a hex value for more descriptive AI prompts.
  * @param hex The hex color string.
@@ -120,11 +67,11 @@ const getContrastColor = (hex: string): 'white' | 'black' => {
 
 
 /**
- * Converts a File object to a Generative AI Part, handling errors.
+ * Converts a File object to an image payload for the provider, handling errors.
  * @param file The file to convert.
- * @returns A promise that resolves with the Part object.
+ * @returns A promise that resolves with the base64 data and MIME type.
  */
-const fileToGenerativePart = (file: File): Promise<Part> => {
+const fileToImagePayload = (file: File): Promise<ImagePayload> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -141,11 +88,9 @@ const fileToGenerativePart = (file: File): Promise<Part> => {
       }
 
       resolve({
-        inlineData: {
-          data: base64Data,
-          // Provide a fallback MIME type just in case file.type is empty
-          mimeType: file.type || 'application/octet-stream',
-        },
+        data: base64Data,
+        // Provide a fallback MIME type just in case file.type is empty
+        mimeType: file.type || 'application/octet-stream',
       });
     };
 
@@ -157,6 +102,43 @@ const fileToGenerativePart = (file: File): Promise<Part> => {
   });
 };
 
+/**
+ * Renders a font specimen for the editing model: the design text large, followed
+ * by the alphabet and digits, black on white.
+ * @param font The font to render, loaded first so the canvas doesn't fall back to another typeface.
+ * @param text The design text.
+ */
+const renderFontReference = async (font: DesignFont, text: string): Promise<ImagePayload> => {
+    await ensureFontLoaded(font);
+    const canvas = document.createElement('canvas');
+    canvas.width = 1024;
+    canvas.height = 512;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context to render the font reference.');
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = [
+        { text, size: 96, y: 120 },
+        { text: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', size: 48, y: 270 },
+        { text: 'abcdefghijklmnopqrstuvwxyz', size: 48, y: 350 },
+        { text: '0123456789 &!?', size: 48, y: 430 },
+    ];
+    const maxWidth = canvas.width - 64;
+    lines.forEach(line => {
+        ctx.font = `${line.size}px '${getFontFamily(font)}', sans-serif`;
+        const width = ctx.measureText(line.text).width;
+        const size = width > maxWidth ? line.size * maxWidth / width : line.size;
+        ctx.font = `${size}px '${getFontFamily(font)}', sans-serif`;
+        ctx.fillText(line.text, canvas.width / 2, line.y);
+    });
+
+    return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
 const getPoseDescription = (pose: ModelPose): string => {
     switch (pose) {
         case 'standing': return 'standing pose,';
@@ -593,6 +575,56 @@ const getLaptopSleeveSettingDescription = (setting: LaptopSleeveSetting): string
     return settingData ? settingData.description : 'a product setting';
 }
 
+const getEngravingMaterialDescription = (material: EngravingMaterial): string => {
+    const materialData = ENGRAVING_MATERIALS.find(m => m.id === material);
+    return materialData ? materialData.description : 'a flat engraving blank';
+}
+
+
+// Prompt wording for each product-specific option, used by the product registry's templates.
+const OPTION_DESCRIPTIONS: { [K in keyof DesignOptions]?: (value: DesignOptions[K]) => string } = {
+    bagMaterial: getBagMaterialDescription,
+    frameStyle: getFrameStyleDescription,
+    frameTexture: getFrameTextureDescription,
+    frameDimension: getFrameDimensionDescription,
+    frameModel: getFrameModelDescription,
+    mugStyle: getMugStyleDescription,
+    mugModel: getMugModelDescription,
+    sipperGlassStyle: getSipperGlassStyleDescription,
+    sipperGlassModel: getSipperGlassModelDescription,
+    tumblerStyle: getTumblerStyleDescription,
+    tumblerModel: getTumblerModelDescription,
+    halloweenTumblerStyle: getHalloweenTumblerStyleDescription,
+    halloweenTumblerSetting: getHalloweenTumblerSettingDescription,
+    tumblerTrioStyle: getTumblerTrioStyleDescription,
+    tumblerTrioSetting: getTumblerTrioSettingDescription,
+    phoneCaseStyle: getPhoneCaseStyleDescription,
+    phoneCaseModel: getPhoneCaseModelDescription,
+    stickerStyle: getStickerStyleDescription,
+    stickerSetting: getStickerSettingDescription,
+    posterStyle: getPosterStyleDescription,
+    posterSetting: getPosterSettingDescription,
+    walletStyle: getWalletStyleDescription,
+    walletModel: getWalletModelDescription,
+    capStyle: getCapStyleDescription,
+    capModel: getCapModelDescription,
+    beanieStyle: getBeanieStyleDescription,
+    beanieModel: getBeanieModelDescription,
+    pillowStyle: getPillowStyleDescription,
+    pillowSetting: getPillowSettingDescription,
+    flatLayStyle: getFlatLayStyleDescription,
+    puzzleStyle: getPuzzleStyleDescription,
+    puzzleSetting: getPuzzleSettingDescription,
+    laptopSleeveStyle: getLaptopSleeveStyleDescription,
+    laptopSleeveSetting: getLaptopSleeveSettingDescription,
+    engravingMaterial: getEngravingMaterialDescription,
+};
+
+const describeOption = (options: DesignOptions, field: keyof DesignOptions): string => {
+    const describe = OPTION_DESCRIPTIONS[field] as ((value: unknown) => string) | undefined;
+    return describe ? describe(options[field]) : String(options[field]);
+};
+
 
 const getTextStyleDescription = (style: TextStyle, contrastColor: 'white' | 'black', gradientStart?: string, gradientEnd?: string): string => {
     switch (style) {
@@ -689,285 +721,66 @@ const getDesignPlacementDescription = (placement: DesignPlacement): string => {
     }
 }
 
-/**
- * Step 1: Generate a base image of a model with a blank product.
- * This uses a text-to-image model to create a safe "canvas" for editing.
- */
-const generateBaseImage = async (options: DesignOptions): Promise<string> => {
-    const { productType, productColor, pose, audience, backgroundStyle, professionalBackground, bagMaterial, frameStyle, frameModel, frameDimension, mugStyle, mugModel, sipperGlassStyle, sipperGlassModel, tumblerStyle, tumblerModel, halloweenTumblerStyle, halloweenTumblerSetting, tumblerTrioStyle, tumblerTrioSetting, phoneCaseStyle, phoneCaseModel, stickerStyle, stickerSetting, posterStyle, posterSetting, walletStyle, walletModel, capStyle, capModel, beanieStyle, beanieModel, pillowStyle, pillowSetting, flatLayStyle, puzzleStyle, puzzleSetting, laptopSleeveStyle, laptopSleeveSetting, aspectRatio } = options;
-    let prompt;
-    const backgroundDescription = getBackgroundDescription(backgroundStyle);
-    const proBackgroundDescription = getProfessionalBackgroundDescription(professionalBackground);
-
-    switch (productType) {
-        case 'tshirt':
-        case 'sweatshirt':
-        case 'hoodie': {
-            let productGarment;
-            if (productType === 'tshirt') {
-                productGarment = 't-shirt';
-            } else if (productType === 'sweatshirt') {
-                productGarment = 'sweatshirt';
-            } else {
-                productGarment = 'hoodie';
-            }
-
-            const garmentDescription = `a plain, unbranded, high-quality ${getColorName(productColor)} ${productGarment}`;
-
-            if (pose === 'flat_lay_simple') {
-                prompt = `Top-down commercial product photo. ${garmentDescription} is laid perfectly flat on ${proBackgroundDescription}. The ${productGarment} has a few subtle, natural-looking wrinkles to show fabric texture. The lighting is soft and even, creating gentle, realistic shadows. The background is simple and out of focus. ${qualityPrompt}`;
-            } else {
-                const audienceDescription = getAudienceDescription(audience);
-                const poseDescription = getPoseDescription(pose);
-                prompt = `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The garment is shown clearly for a mockup and takes up a large portion of the frame. ${backgroundDescription} ${qualityPrompt}`;
-            }
-            break;
-        }
-        case 'tshirt_teacup_scene': {
-            const audienceDescription = getAudienceDescription(audience);
-            const effectivePose = pose === 'flat_lay_simple' ? 'standing' : pose;
-            const poseDescription = getPoseDescription(effectivePose);
-            const mugStyleDescription = getMugStyleDescription(mugStyle);
-
-            const garmentDescription = `a plain, unbranded, high-quality ${getColorName(productColor)} t-shirt`;
-
-            prompt = `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression, holding a teacup. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The model is holding a plain, unbranded ${mugStyleDescription} in the same ${getColorName(productColor)} color. Both the garment and the mug are shown clearly for a mockup and take up a large portion of the frame. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'sweatshirt_mug_scene': {
-            const audienceDescription = getAudienceDescription(audience);
-            const effectivePose = pose === 'flat_lay_simple' ? 'sitting' : pose;
-            const poseDescription = getPoseDescription(effectivePose);
-            const mugStyleDescription = getMugStyleDescription(mugStyle);
-
-            const garmentDescription = `a plain, unbranded, high-quality ${getColorName(productColor)} sweatshirt`;
-
-            prompt = `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression, holding a mug. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The model is holding a plain, unbranded ${mugStyleDescription} in the same ${getColorName(productColor)} color. Both the garment and the mug are shown clearly for a mockup and take up a large portion of the frame. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'sweatshirt_teacup_scene': {
-            const audienceDescription = getAudienceDescription(audience);
-            const effectivePose = pose === 'flat_lay_simple' ? 'sitting' : pose;
-            const poseDescription = getPoseDescription(effectivePose);
-            const mugStyleDescription = getMugStyleDescription(mugStyle); // reusing mug style for teacup
-
-             const garmentDescription = `a plain, unbranded, high-quality ${getColorName(productColor)} sweatshirt`;
-
-            prompt = `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression, holding a teacup. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The model is holding a plain, unbranded ${mugStyleDescription} in the same ${getColorName(productColor)} color. Both the garment and the teacup are shown clearly for a mockup and take up a large portion of the frame. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'hoodie_teacup_scene': {
-            const audienceDescription = getAudienceDescription(audience);
-            const effectivePose = pose === 'flat_lay_simple' ? 'sitting' : pose;
-            const poseDescription = getPoseDescription(effectivePose);
-            const mugStyleDescription = getMugStyleDescription(mugStyle); // reusing mug style for teacup
+export interface MockupPrompts {
+    // Step 1: the text-to-image prompt for the blank product scene.
+    basePrompt: string;
+    // Step 2: the editing prompt that applies the logo and text.
+    editPrompt: string;
+}
 
-             const garmentDescription = `a plain, unbranded, high-quality ${getColorName(productColor)} hoodie`;
+// Whether to keep the cached scene for the design or shoot a new one.
+export type SceneMode = 'reuse' | 'new';
 
-            prompt = `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression, holding a teacup. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The model is holding a plain, unbranded ${mugStyleDescription} in the same ${getColorName(productColor)} color. Both the garment and the teacup are shown clearly for a mockup and take up a large portion of the frame. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'bag': {
-             const bagMaterialDescription = getBagMaterialDescription(bagMaterial);
-             const productDescription = `a plain, unbranded bag made of ${bagMaterialDescription} in ${getColorName(productColor)}`;
-             prompt = `Close-up commercial product lifestyle photo. A person's hand and arm with natural skin texture, holding ${productDescription}. The focus is on the bag, which takes up a large area of the image, highlighting its detailed material texture. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'wallet': {
-            const walletStyleDescription = getWalletStyleDescription(walletStyle);
-            let sceneDescription = getWalletModelDescription(walletModel);
-            if (walletModel === 'flat_lay_desk') {
-                sceneDescription = `${sceneDescription} on ${proBackgroundDescription}.`;
-            }
-             const productDescription = `a plain, unbranded ${walletStyleDescription} in a ${getColorName(productColor)} color`;
-            prompt = `Close-up commercial product photo of ${productDescription}, taking up a large area of the image and highlighting the detailed leather texture. Scene: ${sceneDescription}. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        case 'frame': {
-            const frameStyleDescription = getFrameStyleDescription(frameStyle);
-            const frameModelDescription = getFrameModelDescription(frameModel);
-            const frameDimensionDescription = getFrameDimensionDescription(frameDimension);
-            
-            // Check for scene-based descriptions (office, vanity) vs model-based descriptions
-            if (frameModel.includes('office') || frameModelDescription.includes('vanity table') || frameModelDescription.includes('on a wall') || frameModelDescription.includes('as a central mural')) {
-                 prompt = `Commercial product photo of a plain, empty ${frameDimensionDescription}. The frame is a ${frameStyleDescription} in a ${getColorName(productColor)} finish. The scene is: ${frameModelDescription}. The focus is on the empty frame, which takes up a large portion of the image. The lighting is professional and enhances the frame's texture. The background has a beautiful, soft bokeh effect. ${qualityPrompt}`;
-            } else {
-                 prompt = `Close-up commercial product photo. A photorealistic model, ${frameModelDescription}, is holding up a plain, empty ${frameDimensionDescription}. The frame is a ${frameStyleDescription} in a ${getColorName(productColor)} finish. The focus is on the empty frame, which takes up most of the image area, showing its detailed wood grain. ${backgroundDescription} ${qualityPrompt}`;
-            }
-            break;
-        }
-        case 'mug': {
-            const mugStyleDescription = getMugStyleDescription(mugStyle);
-            const mugModelDescription = getMugModelDescription(mugModel);
-            prompt = `Close-up commercial product photo. A photorealistic model, ${mugModelDescription}, is holding a plain, unbranded ${mugStyleDescription} in a ${getColorName(productColor)} color. The focus is on the mug, which takes up a large portion of the image, showing its texture. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'sipper_glass': {
-            const sipperStyleDescription = getSipperGlassStyleDescription(sipperGlassStyle);
-            const sipperModelDescription = getSipperGlassModelDescription(sipperGlassModel);
-            const beverageColor = productColor === '#FFFFFF' ? 'clear' : getColorName(productColor);
-            prompt = `Close-up commercial product photo. A photorealistic model, ${sipperModelDescription}, holding a plain, unbranded ${sipperStyleDescription} containing a ${beverageColor} beverage. The focus is on the sipper glass, which takes up a large portion of the image, showing realistic condensation and reflections. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'tumbler_wrap': {
-            const tumblerStyleDescription = getTumblerStyleDescription(tumblerStyle);
-            const tumblerModelDescription = getTumblerModelDescription(tumblerModel);
-            prompt = `Close-up commercial product photo. A photorealistic model, ${tumblerModelDescription}, holding a plain, unbranded ${tumblerStyleDescription} in a ${getColorName(productColor)} color. The focus is on the tumbler, which takes up a large portion of the image, highlighting its material finish (matte, steel). ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'halloween_tumbler': {
-            const halloweenTumblerStyleDescription = getHalloweenTumblerStyleDescription(halloweenTumblerStyle);
-            const halloweenTumblerSettingDescription = getHalloweenTumblerSettingDescription(halloweenTumblerSetting);
-            prompt = `Close-up commercial product photo. A plain, unbranded ${halloweenTumblerStyleDescription} in a ${getColorName(productColor)} color is placed in the center of ${halloweenTumblerSettingDescription}. The focus is on the tumbler, which fills a large portion of the frame, highlighting its material and the atmospheric lighting. The background has a beautiful, strong bokeh effect. ${qualityPrompt}`;
-            break;
-        }
-        case 'tumbler_trio': {
-            const tumblerTrioStyleDescription = getTumblerTrioStyleDescription(tumblerTrioStyle);
-            const tumblerTrioSettingDescription = getTumblerTrioSettingDescription(tumblerTrioSetting);
-            prompt = `Close-up commercial product photo. ${tumblerTrioStyleDescription} are standing in a neat row, side-by-side, on ${tumblerTrioSettingDescription}. They are all plain, unbranded, and have a ${getColorName(productColor)} base color. The focus is on the three tumblers, which fill a large portion of the frame, highlighting their material and reflections. The background has a beautiful bokeh effect. ${qualityPrompt}`;
-            break;
-        }
-        case 'laser_engraving': {
-            prompt = `Top-down commercial product photo of ${proBackgroundDescription}. The surface is a clean, flat, high-quality slab, perfectly lit to showcase its texture and grain for a laser engraving mockup. The lighting is soft and even. ${qualityPrompt}`;
-            break;
-        }
-        case 'phone_case': {
-            const phoneCaseStyleDescription = getPhoneCaseStyleDescription(phoneCaseStyle);
-            let sceneDescription = getPhoneCaseModelDescription(phoneCaseModel);
-             if (phoneCaseModel === 'flat_lay' || phoneCaseModel === 'on_desk') {
-                sceneDescription = `${sceneDescription} on ${proBackgroundDescription}.`;
-            }
-             const productDescription = `a plain, unbranded phone case with a ${phoneCaseStyleDescription} in a ${getColorName(productColor)} color`;
-            prompt = `Close-up commercial product photo. ${productDescription} is shown, taking up a large area of the image. Scene: ${sceneDescription}. The focus is on the phone case, highlighting its material and realistic reflections. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        case 'sticker': {
-            const stickerStyleDescription = getStickerStyleDescription(stickerStyle);
-            const stickerSettingDescription = getStickerSettingDescription(stickerSetting);
-            prompt = `Extreme close-up commercial product photo. A plain, unbranded ${stickerStyleDescription} is placed on ${stickerSettingDescription}. The focus is on the blank sticker, which takes up most of the image area, highlighting its texture and finish against the surface. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        case 'poster': {
-            const posterStyleDescription = getPosterStyleDescription(posterStyle);
-            const posterSettingDescription = getPosterSettingDescription(posterSetting);
-            prompt = `Close-up commercial product photo. A plain, unbranded ${posterStyleDescription} is shown, filling most of the frame. Scene: ${posterSettingDescription}. The focus is on the blank poster, highlighting its paper texture. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        case 'cap': {
-            const capStyleDescription = getCapStyleDescription(capStyle);
-            let sceneDescription = getCapModelDescription(capModel);
-             if (capModel === 'flat_lay') {
-                sceneDescription = `${sceneDescription} on ${proBackgroundDescription}.`;
-            }
-             const productDescription = `a plain, unbranded ${capStyleDescription} in a ${getColorName(productColor)} color`;
-            prompt = `Close-up commercial product photo. ${productDescription} is shown, taking up a large portion of the frame. Scene: ${sceneDescription}. The focus is on the cap, highlighting its fabric texture. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'beanie': {
-            const beanieStyleDescription = getBeanieStyleDescription(beanieStyle);
-            let sceneDescription = getBeanieModelDescription(beanieModel);
-            if (beanieModel === 'flat_lay') {
-                sceneDescription = `${sceneDescription} on ${proBackgroundDescription}.`;
-            }
-            const productDescription = `a plain, unbranded ${beanieStyleDescription} in a ${getColorName(productColor)} color`;
-            prompt = `Close-up commercial product photo. ${productDescription} is shown, taking up a large portion of the frame. Scene: ${sceneDescription}. The focus is on the beanie, highlighting its knit texture. ${backgroundDescription} ${qualityPrompt}`;
-            break;
-        }
-        case 'pillow': {
-            const pillowStyleDescription = getPillowStyleDescription(pillowStyle);
-            const pillowSettingDescription = getPillowSettingDescription(pillowSetting);
-             const productDescription = `a plain, unbranded ${pillowStyleDescription} in a ${getColorName(productColor)} color`;
-            prompt = `Close-up commercial product photo. ${productDescription} is placed on ${pillowSettingDescription}. The focus is on the pillow, which fills most of the frame, highlighting its fabric texture and softness. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        case 'flat_lay': {
-            const flatLayStyleDescription = getFlatLayStyleDescription(flatLayStyle);
-            const garmentDescription = `a plain, unbranded, high-quality ${getColorName(productColor)} t-shirt`;
-            if (flatLayStyle.includes('close_up')) {
-                prompt = `Top-down commercial product photo of ${garmentDescription}. The shot is ${flatLayStyleDescription}. The scene is arranged on ${proBackgroundDescription}. The lighting is soft and even, creating gentle, realistic shadows. The background is simple and out of focus. ${qualityPrompt}`;
-            } else {
-                prompt = `Top-down commercial product photo. ${garmentDescription} is laid perfectly flat, as the prominent centerpiece of ${flatLayStyleDescription}. The entire flat lay is arranged on ${proBackgroundDescription}. The lighting is soft and even, creating gentle, realistic shadows. The background is simple and out of focus. ${qualityPrompt}`;
-            }
-            break;
-        }
-        case 'jigsaw_puzzle': {
-            const puzzleStyleDescription = getPuzzleStyleDescription(puzzleStyle);
-            let puzzleSettingDescription = getPuzzleSettingDescription(puzzleSetting);
-            if (puzzleSetting === 'flat_lay_minimalist') {
-                puzzleSettingDescription = `${puzzleSettingDescription} on ${proBackgroundDescription}.`;
-            }
-            prompt = `Close-up commercial product photo. Scene: ${puzzleSettingDescription}. The puzzle is ${puzzleStyleDescription} and takes up a large portion of the image. The focus is on the blank puzzle, highlighting its material and piece shapes. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        case 'laptop_sleeve': {
-            const laptopSleeveStyleDescription = getLaptopSleeveStyleDescription(laptopSleeveStyle);
-            let laptopSleeveSettingDescription = getLaptopSleeveSettingDescription(laptopSleeveSetting);
-            if (laptopSleeveSetting === 'flat_lay_minimalist') {
-                laptopSleeveSettingDescription = `${laptopSleeveSettingDescription} on ${proBackgroundDescription}.`;
-            }
-            const productDescription = `a plain, unbranded ${laptopSleeveStyleDescription} in a ${getColorName(productColor)} color`;
-            prompt = `Close-up commercial product photo. ${productDescription} is shown, taking up a large portion of the frame. Scene: ${laptopSleeveSettingDescription}. The focus is on the sleeve, highlighting its material texture. The background is beautifully blurred with strong bokeh. ${qualityPrompt}`;
-            break;
-        }
-        default:
-            // Fallback for any product types not explicitly handled
-            prompt = `Commercial product photo of a plain, unbranded ${productType} in ${getColorName(productColor)}. ${backgroundDescription} ${qualityPrompt}`;
-    }
+export interface MockupResult {
+    images: string[];
+    // The prompts that were actually sent, including any manual overrides.
+    prompts: MockupPrompts;
+}
 
-// FIX: The `safetySettings` parameter is not supported by the `generateImages` API call and has been removed.
-    const apiCall = () => ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt,
-        config: {
-            numberOfImages: 1,
-            outputMimeType: 'image/jpeg',
-            aspectRatio: aspectRatio,
-        },
+/**
+ * Builds the step 1 prompt: a model with a blank product.
+ * The text-to-image model uses it to create a safe "canvas" for editing.
+ */
+export const buildBaseImagePrompt = (options: DesignOptions): string => {
+    const { productType, productColor, audience, backgroundStyle, professionalBackground } = options;
+
+    return PRODUCTS[productType].basePrompt({
+        options,
+        colorName: getColorName(productColor),
+        describe: field => describeOption(options, field),
+        backgroundDescription: getBackgroundDescription(backgroundStyle),
+        proBackgroundDescription: getProfessionalBackgroundDescription(professionalBackground),
+        audienceDescription: getAudienceDescription(audience),
+        poseDescription: getPoseDescription(getEffectivePose(options)),
+        quality: qualityPrompt,
     });
-    
-    // The API call is wrapped in a retry mechanism
-    const response: GenerateImagesResponse = await withRetry(apiCall);
-
-    const base64ImageBytes = response.generatedImages[0]?.image?.imageBytes;
-    if (!base64ImageBytes) {
-        throw new Error('Image generation failed, received no image data.');
-    }
-    return base64ImageBytes;
 };
 
 /**
- * Generates a full product mockup by first creating a base image and then applying
- * the logo and text design using an image editing model.
+ * Builds the step 2 prompt that tells the editing model how to apply the logo and text.
  */
-export const generateMockup = async (logoFile: File, options: DesignOptions): Promise<string> => {
-    const { text, textColor, font, style, textStyle, gradientStartColor, gradientEndColor, productType, frameTexture, artisticFilter, designPlacement, productTexture } = options;
-
-    // Step 1: Generate the base image of the product with a model/setting.
-    const baseImageB64 = await generateBaseImage(options);
-    const baseImagePart: Part = {
-        inlineData: {
-            mimeType: 'image/jpeg', // The base image is always a JPEG
-            data: baseImageB64,
-        },
-    };
-
-    // Step 2: Convert the uploaded logo file into a Part for the API.
-    const logoPart = await fileToGenerativePart(logoFile);
+export const buildEditPrompt = (options: DesignOptions): string => {
+    const { text, textColor, font, style, gradientStartColor, gradientEndColor, productType, artisticFilter, designPlacement, productTexture } = options;
 
-    // Step 3: Build the detailed text prompt for the editing model.
     const hasText = text && text.trim().length > 0;
     const contrastColor = getContrastColor(options.productColor);
-    const textStyleDesc = getTextStyleDescription(textStyle, contrastColor, getColorName(gradientStartColor), getColorName(gradientEndColor));
-    const fontName = TSHIRT_FONTS.find(f => f.id === font)?.name || 'Impact';
+    const textStyleDesc = getTextStyleDescription(getEffectiveTextStyle(options), contrastColor, getColorName(gradientStartColor), getColorName(gradientEndColor));
+    const fontName = getFontFamily(font);
+    // Uploaded fonts are unknown to the model by name, so it is pointed at the rendered specimen instead.
+    const fontInstruction = isCustomFont(font)
+        ? `Use the custom brand font "${fontName}" shown in the attached font reference image (the third image). Copy its letterforms exactly; do not substitute a similar-looking font.`
+        : `Use a font that looks like "${fontName}".`;
     const artisticFilterDesc = getArtisticFilterDescription(artisticFilter);
     const watercolorInstruction = getWatercolorBackgroundInstruction(productTexture);
+    const printMethod = getEffectivePrintMethod(options);
+    const finish = printMethod ? getPrintMethod(printMethod).appearance : 'a high-end, realistic print or embroidery';
+    const printMethodConstraints = printMethod ? getPrintMethodConstraints(printMethod) : '';
 
     let designPlacementInstruction;
     let overallStyle = `a ${style.replace(/_/g, ' ')} style.`; // Default style description
 
     // Some products don't have a "style" dropdown, so we default to 'classic' for text placement.
-    const nonStyledProducts: ProductType[] = ['bag', 'phone_case', 'sticker', 'poster', 'wallet', 'cap', 'beanie', 'pillow', 'laptop_sleeve', 'tshirt_teacup_scene', 'sweatshirt_mug_scene', 'hoodie_teacup_scene', 'sweatshirt_teacup_scene', 'laser_engraving'];
-    const effectiveStyle = nonStyledProducts.includes(productType) ? 'classic' : style;
+    const effectiveStyle = getEffectiveDesignStyle(options);
 
     switch (effectiveStyle) {
         case 'classic':
@@ -1098,75 +911,11 @@ export const generateMockup = async (logoFile: File, options: DesignOptions): Pr
              designPlacementInstruction = `Apply the logo to the center of the product. If there is text, place the text "${text}" below the logo.`;
     }
 
-    const placementDescription = getDesignPlacementDescription(designPlacement);
-
-    let productInstruction = `Apply the design realistically onto the product in the image.`; // Default
-    switch (productType) {
-        case 'tshirt':
-        case 'sweatshirt':
-        case 'hoodie':
-        case 'flat_lay':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} of the apparel.`;
-            break;
-        case 'tshirt_teacup_scene':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} of the t-shirt AND onto the front of the teacup.`;
-            break;
-        case 'sweatshirt_mug_scene':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} of the sweatshirt AND onto the front of the mug.`;
-            break;
-        case 'sweatshirt_teacup_scene':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} of the sweatshirt AND onto the front of the teacup.`;
-            break;
-        case 'hoodie_teacup_scene':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} of the hoodie AND onto the front of the teacup.`;
-            break;
-        case 'bag':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} on the front face of the bag.`;
-            break;
-        case 'wallet':
-            productInstruction = `Apply the design realistically, placing it ${placementDescription} on the front of the wallet.`;
-            break;
-        case 'cap':
-             productInstruction = `Apply the design realistically, placing it ${placementDescription} on the front of the cap.`;
-             break;
-        case 'beanie':
-             productInstruction = `Apply the design realistically, placing it ${placementDescription} on the front (cuffed area if visible) of the beanie.`;
-             break;
-        case 'pillow':
-             productInstruction = `Apply the design realistically, placing it ${placementDescription} on the pillow.`;
-             break;
-        case 'frame':
-             const textureDescription = getFrameTextureDescription(frameTexture);
-             productInstruction = `Apply the provided logo as the picture inside the empty wooden frame. Ignore any text prompts. ${textureDescription}`;
-             break;
-        case 'mug':
-        case 'sipper_glass':
-        case 'tumbler_wrap':
-        case 'halloween_tumbler':
-             productInstruction = `Apply the design realistically onto the drinkware, centering the design ${placementDescription} of the product.`;
-             break;
-        case 'tumbler_trio':
-             productInstruction = `Apply the same design realistically to the front of all three tumblers, placing it ${placementDescription} on each tumbler.`;
-             break;
-        case 'laser_engraving':
-             productInstruction = `Apply the provided design onto the surface ${placementDescription}. The design must look like a high-quality, precise, and clean laser engraving. The engraving should have realistic depth and a slightly darkened, burnt-in appearance that follows the material's grain and texture. The logo image and text must be converted into a monochrome format suitable for engraving.`;
-             break;
-        case 'phone_case':
-             productInstruction = `Apply the design realistically, placing it ${placementDescription} on the back of the phone case.`;
-             break;
-        case 'sticker':
-             productInstruction = 'Apply the design to the blank sticker, making it look like a single, cohesive sticker design.';
-             break;
-        case 'poster':
-             productInstruction = 'Apply the design as the artwork for the poster.';
-             break;
-        case 'jigsaw_puzzle':
-             productInstruction = 'Apply the design as the image for the entire jigsaw puzzle.';
-             break;
-        case 'laptop_sleeve':
-             productInstruction = `Apply the design realistically, placing it ${placementDescription} on the front of the laptop sleeve.`;
-             break;
-    }
+    const productInstruction = PRODUCTS[productType].designInstruction({
+        options,
+        placement: getDesignPlacementDescription(designPlacement),
+        describe: field => describeOption(options, field),
+    });
 
     // Construct the final text prompt for the editing model
     const textPrompt = `
@@ -1175,7 +924,7 @@ export const generateMockup = async (logoFile: File, options: DesignOptions): Pr
         **Design Details:**
         - **Logo:** Use the provided logo image.
         - **Text:** ${hasText ? `"${text}"` : 'No text provided.'}
-        - **Font:** ${hasText ? `Use a font that looks like "${fontName}".` : 'N/A'}
+        - **Font:** ${hasText ? fontInstruction : 'N/A'}
         - **Text Color:** ${hasText ? `Use the color ${getColorName(textColor)}.` : 'N/A'}
         - **Text Style:** ${hasText ? textStyleDesc : 'N/A'}
 
@@ -1184,38 +933,113 @@ export const generateMockup = async (logoFile: File, options: DesignOptions): Pr
         - **Background Effect:** ${watercolorInstruction || 'None.'}
         - **Placement:** ${designPlacementInstruction}
         - **Instructions:** ${productInstruction}
+        - **Print Method:** ${printMethod ? `The design is produced as ${finish}. ${printMethodConstraints}` : 'N/A'}
 
         **Final Filter Effect:**
         - ${artisticFilterDesc}
 
-        ${criticalRealismInstructions}
+        ${getCriticalRealismInstructions(finish)}
     `;
 
-    const contents: Part[] = [baseImagePart, logoPart, { text: textPrompt }];
-
-    // Step 4: Call the editing model.
-// FIX: The `safetySettings` parameter is not supported by the `generateContent` API call and has been removed.
-// FIX: Update model name to conform to guidelines.
-    const apiCall = () => ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: contents },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+    return textPrompt;
+};
 
-    const response: GenerateContentResponse = await withRetry(apiCall);
+/**
+ * Builds both prompts for the given design, exactly as generateMockup would send them.
+ */
+export const buildMockupPrompts = (options: DesignOptions): MockupPrompts => ({
+    basePrompt: buildBaseImagePrompt(options),
+    editPrompt: buildEditPrompt(options),
+});
 
-    // Step 5: Extract the generated image from the response.
-    const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-    const resultBase64 = imagePart?.inlineData?.data;
+/**
+ * Applies hand-edited prompts over the generated ones. Blank overrides are ignored.
+ */
+const resolvePrompts = (options: DesignOptions, promptOverrides: Partial<MockupPrompts>): MockupPrompts => {
+    const generated = buildMockupPrompts(options);
+    return {
+        basePrompt: promptOverrides.basePrompt?.trim() ? promptOverrides.basePrompt : generated.basePrompt,
+        editPrompt: promptOverrides.editPrompt?.trim() ? promptOverrides.editPrompt : generated.editPrompt,
+    };
+};
+
+/**
+ * Whether a base image for the design's scene is already cached, i.e. whether the next
+ * generation can keep the same model and setting and only re-apply the design.
+ */
+export const hasSceneForDesign = (options: DesignOptions, promptOverrides: Partial<MockupPrompts> = {}): boolean => {
+    const { basePrompt } = resolvePrompts(options, promptOverrides);
+    return hasCachedScene(getSceneKey(getActiveImageProviderId(), basePrompt, options));
+};
+
+export interface GenerateMockupSettings {
+    // How many alternative mockups to produce (clamped to 1..MAX_VARIANTS). Defaults to 1.
+    variantCount?: number;
+    // Hand-edited prompts that replace the generated ones. Blank values are ignored.
+    promptOverrides?: Partial<MockupPrompts>;
+    // 'reuse' (the default) keeps a cached scene for the same scene options and only re-runs
+    // the editing step; 'new' always generates fresh base images and replaces the cached ones.
+    sceneMode?: SceneMode;
+    // A photo of the blank product to apply the design to instead of generating a scene.
+    baseImage?: File | null;
+}
+
+/**
+ * Generates product mockups by first creating base images and then applying
+ * the logo and text design to each one using an image editing model.
+ * When a base image is supplied, step 1 is skipped and every variant is an
+ * edit of that photo.
+ * @returns The base64 data of every variant that was generated successfully, with the prompts used.
+ */
+export const generateMockup = async (logoFile: File, options: DesignOptions, settings: GenerateMockupSettings = {}): Promise<MockupResult> => {
+    const { variantCount = 1, promptOverrides = {}, sceneMode = 'reuse', baseImage = null } = settings;
+    const generatedPrompts = resolvePrompts(options, promptOverrides);
+    // No scene is generated for an uploaded photo, so no base prompt is sent.
+    const prompts: MockupPrompts = baseImage ? { ...generatedPrompts, basePrompt: '' } : generatedPrompts;
+    const provider = getImageProvider();
+
+    // Step 1: Get the base images: either the uploaded photo, or scenes of the product
+    // with a model/setting, generating only the ones that aren't cached yet.
+    const numberOfImages = Math.min(Math.max(Math.round(variantCount), 1), MAX_VARIANTS);
+    let baseImages: ImagePayload[];
+    if (baseImage) {
+        const photo = await fileToImagePayload(baseImage);
+        baseImages = Array.from({ length: numberOfImages }, () => photo);
+    } else {
+        const sceneKey = getSceneKey(provider.id, prompts.basePrompt, options);
+        const cached = sceneMode === 'reuse' ? getCachedScene(sceneKey) : [];
+        baseImages = cached.slice(0, numberOfImages);
+        if (baseImages.length < numberOfImages) {
+            const fresh = await provider.generateBaseImages({ prompt: prompts.basePrompt, options, numberOfImages: numberOfImages - baseImages.length });
+            baseImages = [...baseImages, ...fresh];
+            cacheScene(sceneKey, [...baseImages, ...cached.slice(numberOfImages)]);
+        }
+    }
 
-    if (!resultBase64) {
-        const blockReason = response.candidates?.[0]?.finishReason;
-        const safetyRatings = response.candidates?.[0]?.safetyRatings;
-        console.error("Image generation failed. Block Reason:", blockReason, "Safety Ratings:", safetyRatings);
-        throw new Error('Failed to generate the final mockup. The model did not return an image. This could be due to a safety filter or an internal error.');
+    // Step 2: Convert the uploaded logo file into a payload for the provider, and render
+    // an uploaded font so the model can see it.
+    const logo = await fileToImagePayload(logoFile);
+    const fontReference = isCustomFont(options.font) && options.text.trim()
+        ? await renderFontReference(options.font, options.text)
+        : undefined;
+
+    // Step 3: Run the editing step on every base image. A variant that fails doesn't
+    // discard the others; only when all of them fail is the first error surfaced.
+    const results = await Promise.allSettled(
+        baseImages.map(baseImage => provider.editImage({ prompt: prompts.editPrompt, baseImage, logo, fontReference, options }))
+    );
+
+    const variants = results
+        .filter((r): r is PromiseFulfilledResult<ImagePayload> => r.status === 'fulfilled')
+        .map(r => r.value.data);
+
+    if (variants.length === 0) {
+        const firstFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        throw firstFailure?.reason ?? new Error('Failed to generate the final mockup.');
+    }
+    if (variants.length < results.length) {
+        console.warn(`${results.length - variants.length} of ${results.length} variants failed to generate.`);
     }
 
-    return resultBase64;
-};
\ No newline at end of file
+    return { images: variants, prompts };
+};
@@ -0,0 +1,80 @@
+import type { DesignOptions } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+
+export type ImageProviderId = 'gemini' | 'local';
+
+/**
+ * Raw image bytes (base64, without a data URL prefix) together with their MIME type.
+ */
+export interface ImagePayload {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Step 1 of the pipeline: create one or more blank products in a scene.
+ * The full design options are passed along so providers that don't understand
+ * natural-language prompts (like the local one) can still render something sensible.
+ */
+export interface BaseImageRequest {
+  prompt: string;
+  options: DesignOptions;
+  // How many alternative scenes to return (1 to MAX_VARIANTS).
+  numberOfImages: number;
+}
+
+/**
+ * Step 2 of the pipeline: apply the logo and text onto the base image.
+ */
+export interface EditImageRequest {
+  prompt: string;
+  baseImage: ImagePayload;
+  logo: ImagePayload;
+  // The design text set in an uploaded font, so the model can copy letterforms it can't know by name.
+  fontReference?: ImagePayload;
+  options: DesignOptions;
+}
+
+/**
+ * A backend capable of running the two-step mockup pipeline.
+ * New vendors are added by implementing this interface and registering a factory below.
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  generateBaseImages: (request: BaseImageRequest) => Promise<ImagePayload[]>;
+  editImage: (request: EditImageRequest) => Promise<ImagePayload>;
+}
+
+const providerFactories: Record<ImageProviderId, () => ImageProvider> = {
+  gemini: () => createGeminiProvider(process.env.API_KEY),
+  local: () => createLocalProvider(),
+};
+
+/**
+ * Decides which provider to use. An explicit IMAGE_PROVIDER wins; otherwise Gemini is used
+ * when an API key is configured and the local provider is used when it isn't.
+ */
+export const getActiveImageProviderId = (): ImageProviderId => {
+  const requested = process.env.IMAGE_PROVIDER;
+  if (requested === 'gemini' || requested === 'local') {
+    return requested;
+  }
+  if (requested) {
+    console.warn(`Unknown IMAGE_PROVIDER "${requested}", falling back to automatic selection.`);
+  }
+  return process.env.API_KEY ? 'gemini' : 'local';
+};
+
+let activeProvider: ImageProvider | null = null;
+
+/**
+ * Returns the active provider, creating it on first use so that a missing API key
+ * only fails the generation request instead of the whole app.
+ */
+export const getImageProvider = (): ImageProvider => {
+  if (!activeProvider) {
+    activeProvider = providerFactories[getActiveImageProviderId()]();
+  }
+  return activeProvider;
+};
@@ -0,0 +1,267 @@
+import type { AspectRatio, ArtisticFilter, DesignOptions, DesignPlacement, ProductType } from '../types';
+import type { ImageProvider, ImagePayload } from './imageProvider';
+import { getEffectivePrintMethod, PRODUCTS, ProductSilhouette } from './productRegistry';
+import { ensureFontLoaded, getFontFamily } from './fontManager';
+
+/**
+ * A deterministic, offline stand-in for the AI backend. It draws a flat product silhouette
+ * in the selected color and composites the logo and text onto its print area, so the full
+ * pipeline can be developed, demoed and tested without network access or an API key.
+ */
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Silhouette {
+  // SVG path data in a 100x100 unit box.
+  paths: string[];
+  // The printable region, in the same unit box.
+  printArea: Rect;
+}
+
+const SILHOUETTES: Record<ProductSilhouette, Silhouette> = {
+  apparel: {
+    paths: ['M30 10 L40 6 Q50 12 60 6 L70 10 L90 26 L81 37 L72 31 L72 94 L28 94 L28 31 L19 37 L10 26 Z'],
+    printArea: { x: 34, y: 22, width: 32, height: 42 },
+  },
+  drinkware: {
+    paths: [
+      'M24 14 L64 14 L62 90 Q44 94 26 90 Z',
+      'M63 32 Q86 32 86 52 Q86 72 62 70 L62 62 Q78 62 78 52 Q78 40 63 40 Z',
+    ],
+    printArea: { x: 30, y: 28, width: 28, height: 48 },
+  },
+  headwear: {
+    paths: [
+      'M18 64 Q18 24 50 22 Q82 24 82 64 Z',
+      'M12 64 L88 64 Q88 74 50 74 Q12 74 12 64 Z',
+    ],
+    printArea: { x: 34, y: 34, width: 32, height: 24 },
+  },
+  panel: {
+    paths: ['M14 14 L86 14 L86 86 L14 86 Z'],
+    printArea: { x: 22, y: 22, width: 56, height: 56 },
+  },
+};
+
+
+const CANVAS_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 1024, height: 1024 },
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+};
+
+// Backdrop gradients cycled through per variant so each variant is distinguishable but reproducible.
+const BACKDROPS: [string, string][] = [
+  ['#F3F4F6', '#D1D5DB'],
+  ['#FEF3C7', '#E7D7B1'],
+  ['#E0E7FF', '#C7D2FE'],
+  ['#FCE7F3', '#E9C7D8'],
+];
+
+const CANVAS_FILTERS: Record<ArtisticFilter, string> = {
+  none: 'none',
+  sepia: 'sepia(1)',
+  grayscale: 'grayscale(1)',
+  vintage: 'sepia(0.35) saturate(0.8) contrast(0.9)',
+  noir: 'grayscale(1) contrast(1.6)',
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for local rendering.'));
+    img.src = src;
+  });
+};
+
+const createCanvas = (aspectRatio: AspectRatio): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const { width, height } = CANVAS_SIZES[aspectRatio] || CANVAS_SIZES['1:1'];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context for local rendering.');
+  }
+  return { canvas, ctx };
+};
+
+const canvasToPayload = (canvas: HTMLCanvasElement): ImagePayload => ({
+  data: canvas.toDataURL('image/png').split(',')[1],
+  mimeType: 'image/png',
+});
+
+/**
+ * Maps the 100x100 silhouette box onto the canvas, centered and scaled to fit.
+ */
+const getSilhouetteTransform = (canvas: HTMLCanvasElement): { scale: number; offsetX: number; offsetY: number } => {
+  const scale = Math.min(canvas.width, canvas.height) * 0.9 / 100;
+  return {
+    scale,
+    offsetX: (canvas.width - 100 * scale) / 2,
+    offsetY: (canvas.height - 100 * scale) / 2,
+  };
+};
+
+/**
+ * Computes where the design goes inside the print area for a given placement.
+ * The design box takes 70% of the print area and is pushed towards the requested edge.
+ */
+const getPlacementRect = (printArea: Rect, placement: DesignPlacement): Rect => {
+  const [row, col = 'center'] = placement.split('_');
+  const width = printArea.width * 0.7;
+  const height = printArea.height * 0.7;
+  const horizontal: Record<string, number> = { left: 0, center: 0.5, right: 1 };
+  const vertical: Record<string, number> = { top: 0, center: 0.5, bottom: 1 };
+  return {
+    x: printArea.x + (printArea.width - width) * (horizontal[col] ?? 0.5),
+    y: printArea.y + (printArea.height - height) * (vertical[row] ?? 0.5),
+    width,
+    height,
+  };
+};
+
+const getCanvasPrintArea = (canvas: HTMLCanvasElement, productType: ProductType): Rect => {
+  const { printArea } = SILHOUETTES[PRODUCTS[productType]?.silhouette || 'panel'];
+  const { scale, offsetX, offsetY } = getSilhouetteTransform(canvas);
+  return {
+    x: offsetX + printArea.x * scale,
+    y: offsetY + printArea.y * scale,
+    width: printArea.width * scale,
+    height: printArea.height * scale,
+  };
+};
+
+const drawBaseScene = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, options: DesignOptions, variantIndex: number) => {
+  const [top, bottom] = BACKDROPS[variantIndex % BACKDROPS.length];
+  const background = ctx.createLinearGradient(0, 0, 0, canvas.height);
+  background.addColorStop(0, top);
+  background.addColorStop(1, bottom);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const { paths } = SILHOUETTES[PRODUCTS[options.productType]?.silhouette || 'panel'];
+  const { scale, offsetX, offsetY } = getSilhouetteTransform(canvas);
+
+  ctx.save();
+  ctx.translate(offsetX, offsetY);
+  ctx.scale(scale, scale);
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+  ctx.shadowBlur = 24;
+  ctx.shadowOffsetY = 8;
+  ctx.fillStyle = options.productColor;
+  paths.forEach(d => ctx.fill(new Path2D(d)));
+  ctx.shadowColor = 'transparent';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+  ctx.lineWidth = 0.4;
+  paths.forEach(d => ctx.stroke(new Path2D(d)));
+  ctx.restore();
+};
+
+const drawDesign = async (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, logo: ImagePayload, options: DesignOptions) => {
+  const { productType, designPlacement, text, textColor, font } = options;
+  const printArea = getCanvasPrintArea(canvas, productType);
+  // Frames show the logo as the picture and ignore text, matching the AI prompt.
+  const isFrame = productType === 'frame';
+  const box = isFrame ? printArea : getPlacementRect(printArea, designPlacement);
+  const hasText = !isFrame && text.trim().length > 0;
+
+  const logoImage = await loadImage(`data:${logo.mimeType};base64,${logo.data}`);
+  const logoBoxHeight = hasText ? box.height * 0.7 : box.height;
+  const ratio = Math.min(box.width / logoImage.width, logoBoxHeight / logoImage.height);
+  const logoWidth = logoImage.width * ratio;
+  const logoHeight = logoImage.height * ratio;
+  ctx.drawImage(logoImage, box.x + (box.width - logoWidth) / 2, box.y + (logoBoxHeight - logoHeight) / 2, logoWidth, logoHeight);
+
+  if (hasText) {
+    await ensureFontLoaded(font);
+    const fontName = getFontFamily(font);
+    const textBoxHeight = box.height - logoBoxHeight;
+    let fontSize = textBoxHeight * 0.8;
+    const fontSpec = () => `${fontSize}px '${fontName}', sans-serif`;
+    ctx.font = fontSpec();
+    const measured = ctx.measureText(text).width;
+    if (measured > box.width) {
+      fontSize *= box.width / measured;
+      ctx.font = fontSpec();
+    }
+    ctx.fillStyle = textColor;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, box.x + box.width / 2, box.y + logoBoxHeight + textBoxHeight / 2);
+  }
+};
+
+// The spacing of the thread lines in the stitched look, in canvas pixels.
+const STITCH_SPACING = 3;
+
+/**
+ * Draws the design as embroidery: the artwork is covered in diagonal thread lines,
+ * each with a sheen and a groove, and raised off the fabric by a soft shadow.
+ */
+const drawStitchedDesign = async (ctx: CanvasRenderingContext2D, logo: ImagePayload, options: DesignOptions) => {
+  const { canvas: layer, ctx: layerCtx } = createCanvas(options.aspectRatio);
+  await drawDesign(layerCtx, layer, logo, options);
+
+  // The lines only land on the artwork.
+  layerCtx.globalCompositeOperation = 'source-atop';
+  layerCtx.lineWidth = 1;
+  for (let offset = -layer.height; offset < layer.width; offset += STITCH_SPACING) {
+    layerCtx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    layerCtx.beginPath();
+    layerCtx.moveTo(offset, layer.height);
+    layerCtx.lineTo(offset + layer.height, 0);
+    layerCtx.stroke();
+    layerCtx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+    layerCtx.beginPath();
+    layerCtx.moveTo(offset + 1, layer.height);
+    layerCtx.lineTo(offset + 1 + layer.height, 0);
+    layerCtx.stroke();
+  }
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+  ctx.shadowBlur = 3;
+  ctx.shadowOffsetX = 1;
+  ctx.shadowOffsetY = 2;
+  ctx.drawImage(layer, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Creates the local provider. It ignores the natural-language prompts and renders
+ * directly from the design options.
+ */
+export const createLocalProvider = (): ImageProvider => ({
+  id: 'local',
+
+  generateBaseImages: async ({ options, numberOfImages }) => {
+    return Array.from({ length: numberOfImages }, (_, variantIndex) => {
+      const { canvas, ctx } = createCanvas(options.aspectRatio);
+      drawBaseScene(ctx, canvas, options, variantIndex);
+      return canvasToPayload(canvas);
+    });
+  },
+
+  editImage: async ({ baseImage, logo, options }) => {
+    const { canvas, ctx } = createCanvas(options.aspectRatio);
+    const base = await loadImage(`data:${baseImage.mimeType};base64,${baseImage.data}`);
+    ctx.drawImage(base, 0, 0, canvas.width, canvas.height);
+    if (getEffectivePrintMethod(options) === 'embroidery') await drawStitchedDesign(ctx, logo, options);
+    else await drawDesign(ctx, canvas, logo, options);
+
+    if (options.artisticFilter !== 'none') {
+      const { canvas: filtered, ctx: filteredCtx } = createCanvas(options.aspectRatio);
+      filteredCtx.filter = CANVAS_FILTERS[options.artisticFilter] || 'none';
+      filteredCtx.drawImage(canvas, 0, 0);
+      return canvasToPayload(filtered);
+    }
+    return canvasToPayload(canvas);
+  },
+});
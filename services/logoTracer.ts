@@ -0,0 +1,186 @@
+import { despeckle, traceBitmap } from './bitmapTrace';
+
+/**
+ * Vectorizes raster logos in the browser. The logo is reduced to a few flat colors
+ * (k-means in RGB), each color becomes a bitmap layer that is cleaned of specks
+ * and traced with potrace-style curve fitting.
+ *
+ * Layers are stacked rather than cut out of each other: the largest color is at
+ * the bottom and covers the areas of every color drawn above it, so the smoothed
+ * edges of neighbouring colors can never leave a gap between them.
+ */
+
+export interface TraceOptions {
+  // 1–8 flat colors.
+  colors: number;
+  // Potrace's `alphamax`, 0 (pixel-exact corners) to 1.3 (round everything).
+  smoothing: number;
+  // Areas smaller than this many pixels, at the tracing resolution, are dropped.
+  speckle: number;
+}
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = { colors: 4, smoothing: 1, speckle: 8 };
+
+export const TRACE_COLOR_RANGE = { min: 1, max: 8 };
+export const TRACE_SMOOTHING_RANGE = { min: 0, max: 1.3 };
+export const TRACE_SPECKLE_RANGE = { min: 0, max: 100 };
+
+export interface TracedLogo {
+  // The tracing resolution; paths are in these pixel units.
+  width: number;
+  height: number;
+  // Bottom to top.
+  layers: { color: string; d: string }[];
+}
+
+// The longer side of the logo is traced at this many pixels.
+const TRACE_SIZE = 600;
+// Pixels less opaque than this are treated as transparent.
+const ALPHA_CUTOFF = 128;
+const KMEANS_ITERATIONS = 12;
+// A color must cover this share of the logo to be picked as a starting center.
+const MIN_COLOR_SHARE = 0.005;
+// Squared RGB distance below which two colors count as the same.
+const MIN_COLOR_DISTANCE = 24 ** 2;
+
+export const toHex = (rgb: number[]): string =>
+  `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+/**
+ * Groups the opaque pixels into `k` colors. The starting centers are spread out
+ * (each the common color farthest from those picked so far), so a small but
+ * distinct color such as a red accent gets its own center instead of being
+ * averaged away, while stray noise pixels are too rare to claim one.
+ * @returns The color index of each pixel (-1 for transparent) and the colors.
+ */
+export const quantize = (rgba: Uint8ClampedArray, k: number): { labels: Int8Array; centers: number[][] } => {
+  const pixelCount = rgba.length / 4;
+  const labels = new Int8Array(pixelCount).fill(-1);
+  const opaque: number[] = [];
+  for (let i = 0; i < pixelCount; i++) {
+    if (rgba[i * 4 + 3] >= ALPHA_CUTOFF) opaque.push(i);
+  }
+  if (opaque.length === 0) return { labels, centers: [] };
+
+  const colorOf = (i: number) => [rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]];
+  const distance = (a: number[], b: number[]) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+  // Candidate centers: the average color of each well-populated 16×16×16 histogram bin.
+  const bins = new Map<number, number[]>();
+  for (const i of opaque) {
+    const key = ((rgba[i * 4] >> 4) << 8) | ((rgba[i * 4 + 1] >> 4) << 4) | (rgba[i * 4 + 2] >> 4);
+    const bin = bins.get(key) || [0, 0, 0, 0];
+    bin[0] += rgba[i * 4];
+    bin[1] += rgba[i * 4 + 1];
+    bin[2] += rgba[i * 4 + 2];
+    bin[3]++;
+    bins.set(key, bin);
+  }
+  const minCount = opaque.length * MIN_COLOR_SHARE;
+  const candidates = [...bins.values()]
+    .filter(bin => bin[3] >= minCount)
+    .sort((a, b) => b[3] - a[3])
+    .map(bin => [bin[0] / bin[3], bin[1] / bin[3], bin[2] / bin[3]]);
+  if (candidates.length === 0) candidates.push(colorOf(opaque[0]));
+
+  const centers = [candidates[0]];
+  const nearest = candidates.map(color => distance(color, candidates[0]));
+  while (centers.length < k) {
+    let farthest = 0;
+    nearest.forEach((d, i) => { if (d > nearest[farthest]) farthest = i; });
+    if (nearest[farthest] < MIN_COLOR_DISTANCE) break; // fewer distinct colors than asked for
+    centers.push(candidates[farthest]);
+    candidates.forEach((color, i) => { nearest[i] = Math.min(nearest[i], distance(color, candidates[farthest])); });
+  }
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const i of opaque) {
+      const color = colorOf(i);
+      let best = 0;
+      for (let c = 1; c < centers.length; c++) {
+        if (distance(color, centers[c]) < distance(color, centers[best])) best = c;
+      }
+      labels[i] = best;
+      const sum = sums[best];
+      sum[0] += color[0];
+      sum[1] += color[1];
+      sum[2] += color[2];
+      sum[3]++;
+    }
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centers[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+  return { labels, centers };
+};
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load the logo image for tracing.'));
+    img.src = dataUrl;
+  });
+
+/**
+ * Traces the colors of already decoded pixels. Separate from `traceLogo` so it runs
+ * without a DOM.
+ */
+export const traceImageData = (rgba: Uint8ClampedArray, width: number, height: number, options: TraceOptions): TracedLogo => {
+  const { labels, centers } = quantize(rgba, Math.round(options.colors));
+  const areas = centers.map((_, c) => labels.reduce((sum, label) => sum + (label === c ? 1 : 0), 0));
+  // Largest first: the bottom layer.
+  const order = centers.map((_, c) => c).filter(c => areas[c] > 0).sort((a, b) => areas[b] - areas[a]);
+  const rank = new Int8Array(centers.length);
+  order.forEach((c, position) => { rank[c] = position; });
+
+  const layers = order.map((c, position) => {
+    // Stacked: this layer also covers every color above it.
+    const data = new Uint8Array(width * height);
+    labels.forEach((label, i) => { data[i] = label >= 0 && rank[label] >= position ? 1 : 0; });
+    const cleaned = despeckle({ width, height, data }, options.speckle);
+    return { color: toHex(centers[c]), d: traceBitmap(cleaned, options.smoothing) };
+  }).filter(layer => layer.d);
+
+  return { width, height, layers };
+};
+
+let lastTrace: { key: string; result: Promise<TracedLogo> } | null = null;
+
+/**
+ * Traces a raster logo into flat-colored vector layers. The last result is kept,
+ * as the preview and the export trace the same logo with the same options.
+ * @param logoDataUrl The logo as a data URL.
+ */
+export const traceLogo = (logoDataUrl: string, options: TraceOptions): Promise<TracedLogo> => {
+  const key = `${options.colors}|${options.smoothing}|${options.speckle}|${logoDataUrl}`;
+  if (lastTrace?.key === key) return lastTrace.result;
+
+  const result = (async () => {
+    const img = await loadImage(logoDataUrl);
+    const scale = Math.min(1, TRACE_SIZE / Math.max(img.width, img.height));
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for logo tracing.');
+    ctx.drawImage(img, 0, 0, width, height);
+    return traceImageData(ctx.getImageData(0, 0, width, height).data, width, height, options);
+  })();
+  lastTrace = { key, result };
+  result.catch(() => { if (lastTrace?.result === result) lastTrace = null; });
+  return result;
+};
+
+/**
+ * The traced layers as SVG markup, scaled into the given box.
+ */
+export const getTracedLogoMarkup = (traced: TracedLogo, box: { x: number; y: number; width: number; height: number }): string => {
+  const paths = traced.layers.map(layer => `<path d="${layer.d}" fill="${layer.color}" />`).join('\n    ');
+  return `<g transform="translate(${box.x} ${box.y}) scale(${box.width / traced.width} ${box.height / traced.height})">
+    ${paths}
+  </g>`;
+};
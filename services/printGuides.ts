@@ -0,0 +1,79 @@
+import type { PrintArea } from './printSpecs';
+
+/**
+ * Bleed, safe zone and trim marks for print files that are cut to size after
+ * printing, like posters, puzzles, stickers and pillow panels.
+ *
+ * The print area is the trim size. The bleed is extra document around it, so
+ * a blade that cuts a hair outside the line doesn't leave an unprinted edge. The
+ * safe zone is the part inside the trim that a blade cutting a hair inside won't
+ * reach, where text and logos belong. All lengths are in inches.
+ */
+
+export interface PrintGuideOptions {
+  // How far the document extends past the trim edge.
+  bleed: number;
+  // How far inside the trim edge text and logos should stay.
+  safeMargin: number;
+  // Corner lines outside the bleed that show the cutter where to trim.
+  cropMarks: boolean;
+  // Targets centered on each side, outside the bleed, for lining up print and cut.
+  registrationMarks: boolean;
+}
+
+export const DEFAULT_PRINT_GUIDES: PrintGuideOptions = {
+  bleed: 0,
+  safeMargin: 0,
+  cropMarks: false,
+  registrationMarks: false,
+};
+
+export const BLEED_RANGE = { min: 0, max: 0.5 };
+export const SAFE_MARGIN_RANGE = { min: 0, max: 1 };
+
+// Marks start this far outside the bleed, so they are never printed on the product.
+const MARK_OFFSET = 0.0625;
+// The length of a crop mark, and room for a registration target.
+const MARK_LENGTH = 0.3;
+
+/**
+ * The space the guides add around the print area: the bleed, plus room for the
+ * marks when there are any.
+ */
+export const getGuideMargin = (options: PrintGuideOptions): number =>
+  options.bleed + (options.cropMarks || options.registrationMarks ? MARK_OFFSET + MARK_LENGTH : 0);
+
+/**
+ * How far outside the print area the registration targets are centered.
+ */
+export const getRegistrationOffset = (options: PrintGuideOptions): number =>
+  options.bleed + MARK_OFFSET + MARK_LENGTH / 2;
+
+/**
+ * The part of the print area text and logos should stay in.
+ */
+export const getSafeZone = (printArea: PrintArea, options: PrintGuideOptions): { x: number; y: number; width: number; height: number } => {
+  // Never so deep that nothing is left.
+  const margin = Math.min(options.safeMargin, printArea.width / 4, printArea.height / 4);
+  return { x: margin, y: margin, width: printArea.width - margin * 2, height: printArea.height - margin * 2 };
+};
+
+/**
+ * The crop marks as lines [x1, y1, x2, y2]: two at each corner, in line with the
+ * trim edges and starting just outside the bleed.
+ */
+export const getCropMarkLines = (printArea: PrintArea, options: PrintGuideOptions): number[][] => {
+  const start = options.bleed + MARK_OFFSET;
+  const end = start + MARK_LENGTH;
+  const { width, height } = printArea;
+  return [0, width].flatMap(x => {
+    const outward = x === 0 ? -1 : 1;
+    return [0, height].flatMap(y => {
+      const downward = y === 0 ? -1 : 1;
+      return [
+        [x + outward * start, y, x + outward * end, y],
+        [x, y + downward * start, x, y + downward * end],
+      ];
+    });
+  });
+};
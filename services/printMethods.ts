@@ -0,0 +1,103 @@
+import type { en } from '../i18n/en';
+import type { PrintMethod, TextStyle } from '../types';
+import { DEFAULT_PRINT_SETTINGS, PrintSettings } from './printSpecs';
+
+/**
+ * How a design is produced on the product. The method shapes the mockup (ink,
+ * thread or dye), limits what the design may use, and decides which file the
+ * print partner should get.
+ */
+
+type TranslationKey = keyof typeof en;
+
+// A transparent 300 DPI raster, or traced vectors in flat spot colors.
+export type PrintMethodExport = 'png' | 'vector';
+
+export interface PrintMethodSpec {
+  id: PrintMethod;
+  nameKey: TranslationKey;
+  // What the method suits and what it limits, shown under the picker.
+  hintKey: TranslationKey;
+  // How the applied design looks, in prompt wording.
+  appearance: string;
+  // The most ink or thread colors the method takes; the logo is reduced to these in vector exports.
+  maxColors?: number;
+  // The text styles the method can reproduce; without a list, all of them.
+  textStyles?: readonly TextStyle[];
+  exportFormat: PrintMethodExport;
+}
+
+export const PRINT_METHODS: PrintMethodSpec[] = [
+  {
+    id: 'dtg',
+    nameKey: 'printMethod_dtg',
+    hintKey: 'printMethodHint_dtg',
+    appearance: 'a high-end direct-to-garment print, with the ink soaked into the fabric so the weave shows through and a soft, matte hand',
+    exportFormat: 'png',
+  },
+  {
+    id: 'screen_print',
+    nameKey: 'printMethod_screen_print',
+    hintKey: 'printMethodHint_screen_print',
+    appearance: 'a high-end screen print, in thick, opaque ink of flat solid spot colors sitting slightly on top of the surface, with crisp edges and a subtle sheen',
+    maxColors: 6,
+    exportFormat: 'vector',
+  },
+  {
+    id: 'embroidery',
+    nameKey: 'printMethod_embroidery',
+    hintKey: 'printMethodHint_embroidery',
+    appearance: 'high-end embroidery, with raised satin and fill stitches of glossy thread in solid colors, visible stitch direction and slight puckering of the fabric around it',
+    maxColors: 12,
+    // Thread can't blend, glow or shade.
+    textStyles: ['none', 'outline', 'script', 'varsity'],
+    exportFormat: 'vector',
+  },
+  {
+    id: 'sublimation',
+    nameKey: 'printMethod_sublimation',
+    hintKey: 'printMethodHint_sublimation',
+    appearance: 'a high-end dye-sublimation print, with the dye fused into the surface so it has no ink texture at all, vivid full color that can run edge to edge, and a perfectly smooth finish',
+    exportFormat: 'png',
+  },
+  {
+    id: 'dtf',
+    nameKey: 'printMethod_dtf',
+    hintKey: 'printMethodHint_dtf',
+    appearance: 'a high-end direct-to-film transfer, a thin, flexible printed film bonded to the surface, with vivid full color, crisp edges and a slight satin sheen',
+    exportFormat: 'png',
+  },
+];
+
+export const getPrintMethod = (id: PrintMethod): PrintMethodSpec =>
+  PRINT_METHODS.find(method => method.id === id) || PRINT_METHODS[0];
+
+export const isTextStyleAllowed = (method: PrintMethod, style: TextStyle): boolean => {
+  const { textStyles } = getPrintMethod(method);
+  return !textStyles || textStyles.includes(style);
+};
+
+/**
+ * The prompt's wording of the method's limits, or '' when it has none.
+ */
+export const getPrintMethodConstraints = (method: PrintMethod): string => {
+  const spec = getPrintMethod(method);
+  switch (method) {
+    case 'screen_print': return `Reproduce the design in at most ${spec.maxColors} flat, solid spot colors; fine gradients become halftone dots.`;
+    case 'embroidery': return `Reproduce the design in at most ${spec.maxColors} solid thread colors, with no gradients, glows or photographic detail; tiny details and thin lines are simplified to what thread can stitch.`;
+    case 'sublimation': return 'The design may cover the whole printable surface edge to edge.';
+    default: return '';
+  }
+};
+
+/**
+ * The print export settings that suit the method: vector methods get the logo
+ * traced to at most their color count and the text outlined.
+ */
+export const getPrintSettingsForMethod = (method: PrintMethod | null, settings: PrintSettings = DEFAULT_PRINT_SETTINGS): PrintSettings => {
+  if (!method) return settings;
+  const spec = getPrintMethod(method);
+  if (spec.exportFormat !== 'vector') return settings;
+  const colors = Math.min(settings.trace.colors, spec.maxColors ?? settings.trace.colors);
+  return { ...settings, traceLogo: true, outlineText: true, trace: { ...settings.trace, colors } };
+};
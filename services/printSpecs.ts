@@ -0,0 +1,253 @@
+import type { en } from '../i18n/en';
+import type { EngravingMaterial } from '../types';
+import type { DitherAlgorithm } from './dithering';
+import { DEFAULT_TRACE_OPTIONS, TraceOptions } from './logoTracer';
+import { ContourOptions, DEFAULT_CONTOUR_OPTIONS } from './cutContour';
+import { DEFAULT_PRINT_GUIDES, PrintGuideOptions } from './printGuides';
+
+/**
+ * Physical print areas and export settings for print-ready artwork.
+ *
+ * All sizes are stored in inches, the unit print shops and blank suppliers
+ * quote them in; they are converted to centimetres only for display and for
+ * the SVG `width`/`height` attributes.
+ */
+
+type TranslationKey = keyof typeof en;
+
+export type PrintUnit = 'in' | 'cm';
+
+export const PRINT_DPI_OPTIONS = [150, 300] as const;
+export type PrintDpi = typeof PRINT_DPI_OPTIONS[number];
+
+export const PRINT_UNITS: { id: PrintUnit; nameKey: TranslationKey }[] = [
+  { id: 'in', nameKey: 'printUnit_in' },
+  { id: 'cm', nameKey: 'printUnit_cm' },
+];
+
+export interface PrintSettings {
+  dpi: PrintDpi;
+  unit: PrintUnit;
+  // Converts the text to paths so the SVG doesn't depend on the font being installed.
+  outlineText: boolean;
+  // Replaces the raster logo with a traced, flat-colored vector version.
+  traceLogo: boolean;
+  trace: TraceOptions;
+  // Adds a die-cut line around the artwork, for products that offer one.
+  cutContour: boolean;
+  contour: ContourOptions;
+  // Bleed, safe zone and trim marks, for products that are cut to size after printing.
+  guides: PrintGuideOptions;
+}
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  dpi: 300,
+  unit: 'in',
+  outlineText: false,
+  traceLogo: false,
+  trace: DEFAULT_TRACE_OPTIONS,
+  cutContour: false,
+  contour: DEFAULT_CONTOUR_OPTIONS,
+  guides: DEFAULT_PRINT_GUIDES,
+};
+
+// Common laser line densities: 254 DPI is 10 lines/mm, 318 DPI is 0.08 mm line spacing.
+export const ENGRAVING_DPI_OPTIONS = [254, 318, 508] as const;
+export type EngravingDpi = typeof ENGRAVING_DPI_OPTIONS[number];
+
+export type EngravingOutput = 'bitmap' | 'vector';
+
+export const ENGRAVING_OUTPUTS: { id: EngravingOutput; nameKey: TranslationKey }[] = [
+  { id: 'bitmap', nameKey: 'engravingOutput_bitmap' },
+  { id: 'vector', nameKey: 'engravingOutput_vector' },
+];
+
+export interface EngravingSettings {
+  algorithm: DitherAlgorithm;
+  // 0–255: the grey level below which the threshold algorithm engraves, or the brightness shift for dithering.
+  threshold: number;
+  // Engraves the light parts of the logo instead, for materials that mark lighter than their surface.
+  invert: boolean;
+  dpi: EngravingDpi;
+  // An embedded 1-bit PNG, or the bitmap traced to vector paths.
+  output: EngravingOutput;
+  outlineText: boolean;
+  // Adds a cut line around the engraving area, for materials the laser can cut.
+  cutOutline: boolean;
+  // Adds a scored frame just inside the edge.
+  scoreBorder: boolean;
+}
+
+export const DEFAULT_ENGRAVING_SETTINGS: EngravingSettings = {
+  algorithm: 'floyd_steinberg',
+  threshold: 128,
+  invert: false,
+  dpi: 254,
+  output: 'bitmap',
+  outlineText: false,
+  cutOutline: false,
+  scoreBorder: false,
+};
+
+export type LaserLayer = 'engrave' | 'score' | 'cut';
+
+// LightBurn's first three layer colors (00, 01, 02); it sorts imported shapes into layers by color.
+export const LASER_LAYER_COLORS: Record<LaserLayer, string> = {
+  engrave: '#000000',
+  score: '#0000FF',
+  cut: '#FF0000',
+};
+
+export const LASER_LAYERS: { id: LaserLayer; nameKey: TranslationKey }[] = [
+  { id: 'engrave', nameKey: 'laserLayer_engrave' },
+  { id: 'score', nameKey: 'laserLayer_score' },
+  { id: 'cut', nameKey: 'laserLayer_cut' },
+];
+
+export interface LaserLayerSettings {
+  // Percent of the tube's rated power.
+  power: number;
+  // mm/s.
+  speed: number;
+  passes: number;
+}
+
+export interface EngravingMaterialPreset {
+  // The export settings a material starts with.
+  defaults: Pick<EngravingSettings, 'algorithm' | 'invert' | 'dpi'>;
+  // Cut is null for materials a CO2 laser can only mark.
+  layers: { engrave: LaserLayerSettings; score: LaserLayerSettings; cut: LaserLayerSettings | null };
+}
+
+const layer = (power: number, speed: number, passes: number = 1): LaserLayerSettings => ({ power, speed, passes });
+
+/**
+ * Starting points for a 40–60 W CO2 laser on 3 mm stock (2 mm for leather). Slate,
+ * anodized aluminum and glass mark lighter than their surface, so they start inverted;
+ * glass starts at a low line density, as closely packed dots make it chip.
+ */
+export const ENGRAVING_MATERIAL_PRESETS: Record<EngravingMaterial, EngravingMaterialPreset> = {
+  wood: {
+    defaults: { algorithm: 'jarvis', invert: false, dpi: 318 },
+    layers: { engrave: layer(30, 300), score: layer(15, 150), cut: layer(65, 10) },
+  },
+  slate: {
+    defaults: { algorithm: 'jarvis', invert: true, dpi: 254 },
+    layers: { engrave: layer(40, 300), score: layer(30, 120), cut: null },
+  },
+  anodized_aluminum: {
+    defaults: { algorithm: 'floyd_steinberg', invert: true, dpi: 508 },
+    layers: { engrave: layer(20, 400), score: layer(15, 250), cut: null },
+  },
+  acrylic: {
+    defaults: { algorithm: 'floyd_steinberg', invert: false, dpi: 318 },
+    layers: { engrave: layer(20, 350), score: layer(10, 200), cut: layer(60, 8) },
+  },
+  leather: {
+    defaults: { algorithm: 'jarvis', invert: false, dpi: 254 },
+    layers: { engrave: layer(15, 300), score: layer(10, 150), cut: layer(45, 15, 2) },
+  },
+  glass: {
+    defaults: { algorithm: 'stucki', invert: true, dpi: 254 },
+    layers: { engrave: layer(20, 300), score: layer(15, 150), cut: null },
+  },
+};
+
+/**
+ * The preset for a material, or wood's for designs saved before materials existed.
+ */
+export const getEngravingPreset = (material: EngravingMaterial): EngravingMaterialPreset =>
+  ENGRAVING_MATERIAL_PRESETS[material] ?? ENGRAVING_MATERIAL_PRESETS.wood;
+
+/**
+ * The export settings a material starts with.
+ */
+export const getEngravingDefaults = (material: EngravingMaterial): EngravingSettings => ({
+  ...DEFAULT_ENGRAVING_SETTINGS,
+  ...getEngravingPreset(material).defaults,
+});
+
+/**
+ * The layers an engraving export contains: always the engraving, plus the score
+ * and cut lines when they are enabled and the material allows them.
+ */
+export const getEngravingLayers = (material: EngravingMaterial, settings: EngravingSettings): LaserLayer[] => {
+  const { layers } = getEngravingPreset(material);
+  return LASER_LAYERS.map(l => l.id).filter(id =>
+    id === 'engrave' || (id === 'score' && settings.scoreBorder) || (id === 'cut' && settings.cutOutline && layers.cut !== null));
+};
+
+/**
+ * The sidecar file saved next to an engraving SVG: the suggested power, speed and
+ * passes for each of its layers, keyed by the layer colors in the SVG.
+ */
+export const getLaserSettingsJson = (material: EngravingMaterial, settings: EngravingSettings): string => {
+  const preset = getEngravingPreset(material);
+  const layers = getEngravingLayers(material, settings).map(id => {
+    const { power, speed, passes } = preset.layers[id] as LaserLayerSettings;
+    return {
+      layer: id,
+      color: LASER_LAYER_COLORS[id],
+      mode: id === 'engrave' ? (settings.output === 'bitmap' ? 'image' : 'fill') : 'line',
+      powerPercent: power,
+      speedMmPerSec: speed,
+      passes,
+      ...(id === 'engrave' && { lineIntervalMm: Math.round((25.4 / settings.dpi) * 1000) / 1000 }),
+    };
+  });
+  return JSON.stringify({
+    material,
+    note: 'Starting points for a 40-60 W CO2 laser. Run a test grid on a scrap of the same material first.',
+    layers,
+  }, null, 2);
+};
+
+export interface PrintArea {
+  nameKey: TranslationKey;
+  // Inches.
+  width: number;
+  height: number;
+}
+
+const area = (nameKey: TranslationKey, width: number, height: number): PrintArea => ({ nameKey, width, height });
+
+export const PRINT_AREAS = {
+  dtgChest: area('printArea_dtgChest', 12, 16),
+  hoodieChest: area('printArea_hoodieChest', 12, 12), // above the pouch pocket
+  toteBag: area('printArea_toteBag', 12, 12),
+  wallet: area('printArea_wallet', 4.5, 3.5),
+  capFront: area('printArea_capFront', 4.5, 2.25),
+  beanieCuff: area('printArea_beanieCuff', 5, 2),
+  pillow: area('printArea_pillow', 18, 18),
+  mug15ozWrap: area('printArea_mug15ozWrap', 8.5, 4),
+  glassCan16ozWrap: area('printArea_glassCan16ozWrap', 9.5, 4.5),
+  tumbler20ozWrap: area('printArea_tumbler20ozWrap', 9.3, 8.2),
+  engravingPlate: area('printArea_engravingPlate', 8, 8),
+  phoneCase: area('printArea_phoneCase', 3, 6),
+  sticker: area('printArea_sticker', 3, 3),
+  poster: area('printArea_poster', 18, 24),
+  puzzle: area('printArea_puzzle', 10, 8),
+  laptopSleeve: area('printArea_laptopSleeve', 14.5, 10.5),
+} satisfies Record<string, PrintArea>;
+
+const CM_PER_INCH = 2.54;
+
+/**
+ * Converts a length in inches to the given unit.
+ */
+export const fromInches = (inches: number, unit: PrintUnit): number =>
+  unit === 'cm' ? inches * CM_PER_INCH : inches;
+
+/**
+ * Formats a length for display and SVG attributes, with at most two decimals.
+ */
+export const formatLength = (inches: number, unit: PrintUnit): string =>
+  String(Math.round(fromInches(inches, unit) * 100) / 100);
+
+/**
+ * The pixel size of a print area at the given resolution.
+ */
+export const getPixelSize = (printArea: PrintArea, dpi: PrintDpi): { width: number; height: number } => ({
+  width: Math.round(printArea.width * dpi),
+  height: Math.round(printArea.height * dpi),
+});
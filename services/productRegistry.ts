@@ -0,0 +1,483 @@
+import type { DesignOptions, DesignStyle, ProductType, ModelPose, PrintMethod, TextStyle } from '../types';
+import type { en } from '../i18n/en';
+import {
+  BAG_MATERIALS, FRAME_STYLES, FRAME_TEXTURES, FRAME_MODELS, FRAME_DIMENSIONS, MUG_STYLES, SIPPER_GLASS_STYLES,
+  SIPPER_GLASS_MODELS, TUMBLER_STYLES, TUMBLER_MODELS, HALLOWEEN_TUMBLER_STYLES, HALLOWEEN_TUMBLER_SETTINGS,
+  TUMBLER_TRIO_STYLES, TUMBLER_TRIO_SETTINGS, PHONE_CASE_STYLES, PHONE_CASE_MODELS, STICKER_STYLES, STICKER_SETTINGS,
+  POSTER_STYLES, POSTER_SETTINGS, WALLET_STYLES, WALLET_MODELS, CAP_STYLES, CAP_MODELS, BEANIE_STYLES, BEANIE_MODELS,
+  PILLOW_STYLES, PILLOW_SETTINGS, FLAT_LAY_STYLES, PUZZLE_STYLES, PUZZLE_SETTINGS, LAPTOP_SLEEVE_STYLES,
+  LAPTOP_SLEEVE_SETTINGS, ENGRAVING_MATERIALS,
+} from '../constants';
+import { PRINT_AREAS, PrintArea } from './printSpecs';
+import { DEFAULT_PRINT_GUIDES, PrintGuideOptions } from './printGuides';
+import type { WrapTemplateId } from './wrapTemplates';
+import { isTextStyleAllowed } from './printMethods';
+
+/**
+ * The product registry: one declarative entry per product describing which controls
+ * it shows, which product-specific options it has, and how its prompts are worded.
+ * The controls panel, the prompt builders and the local provider all read from here.
+ *
+ * Adding a product means adding its id to `ProductType`, an entry to `PRODUCT_TYPES`
+ * (for its icon), an entry below, and the `productType_<id>` / `productColorLabel_<id>`
+ * translations. Any new option fields also need a DesignOptions field, a default and
+ * a rule in designSchema.
+ */
+
+type TranslationKey = keyof typeof en;
+
+/**
+ * The shared control groups a product can show. Product-specific selects are
+ * listed separately in `optionFields`.
+ */
+export type ProductSection =
+  | 'backgroundStyle'        // blurred lifestyle background
+  | 'professionalBackground' // studio surface for flat-lay shots
+  | 'artisticFilter'
+  | 'text'
+  | 'productColor'
+  | 'productTexture'
+  | 'model'                  // design style, pose and audience
+  | 'designPlacement';
+
+// The rough outline the offline provider draws for the product.
+export type ProductSilhouette = 'apparel' | 'drinkware' | 'headwear' | 'panel';
+
+export interface ProductOptionField {
+  field: keyof DesignOptions;
+  labelKey: TranslationKey;
+  choices: readonly { id: string; nameKey: string }[];
+}
+
+export interface BasePromptContext {
+  options: DesignOptions;
+  // The name of the product color, e.g. "Heather Gray".
+  colorName: string;
+  // Describes the current value of a product option in prompt wording.
+  describe: (field: keyof DesignOptions) => string;
+  backgroundDescription: string;
+  proBackgroundDescription: string;
+  audienceDescription: string;
+  // The description of the pose after `poseFallback` is applied.
+  poseDescription: string;
+  quality: string;
+}
+
+export interface EditPromptContext {
+  options: DesignOptions;
+  // Where the design sits, e.g. "in the top-left area".
+  placement: string;
+  describe: (field: keyof DesignOptions) => string;
+}
+
+export interface ProductDefinition {
+  sections: readonly ProductSection[];
+  optionFields: readonly ProductOptionField[];
+  // Whether the edit prompt follows the chosen design style; otherwise 'classic' is used.
+  appliesDesignStyle: boolean;
+  // Used instead of the flat-lay pose, for scenes that always need a model.
+  poseFallback?: ModelPose;
+  // What the "download design" menu offers for this product.
+  designExport: 'print' | 'engraving';
+  // The ways the product can be decorated, the first being the default; empty when there is no choice.
+  printMethods: readonly PrintMethod[];
+  // Whether the print export offers a die-cut contour around the artwork.
+  dieCut?: boolean;
+  // The bleed and safe margin print files start with, in inches, for products cut to size after printing.
+  printGuides?: Pick<PrintGuideOptions, 'bleed' | 'safeMargin'>;
+  // The sublimation wrap templates offered for the product, the first being the default.
+  wrapTemplates?: readonly WrapTemplateId[];
+  silhouette: ProductSilhouette;
+  // The physical area print-ready artwork is sized to, fixed or depending on the options.
+  printArea: PrintArea | ((options: DesignOptions) => PrintArea);
+  // Step 1: the blank product scene.
+  basePrompt: (ctx: BasePromptContext) => string;
+  // Step 2: how the design is applied to the product.
+  designInstruction: (ctx: EditPromptContext) => string;
+}
+
+const option = (field: keyof DesignOptions, labelKey: TranslationKey, choices: readonly { id: string; nameKey: string }[]): ProductOptionField =>
+  ({ field, labelKey, choices });
+
+// Appends the studio surface to scenes that are shot as a flat lay.
+const onSurface = (scene: string, isFlatLay: boolean, proBackgroundDescription: string): string =>
+  isFlatLay ? `${scene} on ${proBackgroundDescription}.` : scene;
+
+// Frames print at the chosen frame size.
+const frameArea = (options: DesignOptions): PrintArea => {
+  const dimension = FRAME_DIMENSIONS.find(d => d.id === options.frameDimension) || FRAME_DIMENSIONS[0];
+  return { nameKey: 'printArea_frame', width: dimension.width, height: dimension.height };
+};
+
+// Straight and tapered skinny tumblers share the same mockup.
+const TUMBLER_WRAP_TEMPLATES: WrapTemplateId[] = ['skinny_20oz', 'skinny_30oz', 'tapered_20oz', 'tapered_30oz'];
+
+const APPAREL_PRINT_METHODS: PrintMethod[] = ['dtg', 'screen_print', 'embroidery', 'dtf'];
+const DRINKWARE_PRINT_METHODS: PrintMethod[] = ['sublimation', 'dtf', 'screen_print'];
+
+const APPAREL_SECTIONS: ProductSection[] = ['backgroundStyle', 'artisticFilter', 'text', 'productColor', 'productTexture', 'model', 'designPlacement'];
+
+const garment = (noun: string, printArea: PrintArea = PRINT_AREAS.dtgChest): ProductDefinition => ({
+  sections: APPAREL_SECTIONS,
+  optionFields: [],
+  appliesDesignStyle: true,
+  designExport: 'print',
+  printMethods: APPAREL_PRINT_METHODS,
+  silhouette: 'apparel',
+  printArea,
+  basePrompt: ({ options, colorName, proBackgroundDescription, backgroundDescription, audienceDescription, poseDescription, quality }) => {
+    const garmentDescription = `a plain, unbranded, high-quality ${colorName} ${noun}`;
+    if (options.pose === 'flat_lay_simple') {
+      return `Top-down commercial product photo. ${garmentDescription} is laid perfectly flat on ${proBackgroundDescription}. The ${noun} has a few subtle, natural-looking wrinkles to show fabric texture. The lighting is soft and even, creating gentle, realistic shadows. The background is simple and out of focus. ${quality}`;
+    }
+    return `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The garment is shown clearly for a mockup and takes up a large portion of the frame. ${backgroundDescription} ${quality}`;
+  },
+  designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} of the apparel.`,
+});
+
+// A model wearing a garment while holding a matching mug or teacup.
+const garmentWithDrink = (noun: string, vessel: 'mug' | 'teacup', poseFallback: ModelPose, printArea: PrintArea = PRINT_AREAS.dtgChest): ProductDefinition => ({
+  sections: APPAREL_SECTIONS,
+  optionFields: [option('mugStyle', 'mugStyleLabel', MUG_STYLES)],
+  appliesDesignStyle: false,
+  poseFallback,
+  designExport: 'print',
+  printMethods: APPAREL_PRINT_METHODS,
+  silhouette: 'apparel',
+  printArea,
+  basePrompt: ({ colorName, backgroundDescription, audienceDescription, poseDescription, describe, quality }) => {
+    const garmentDescription = `a plain, unbranded, high-quality ${colorName} ${noun}`;
+    return `Commercial product mockup photo, close-up portrait from the torso up. A photorealistic model, ${audienceDescription}, in a ${poseDescription} with a natural expression, holding a ${vessel}. The model is wearing ${garmentDescription} with detailed fabric weave and texture visible. The model is holding a plain, unbranded ${describe('mugStyle')} in the same ${colorName} color. Both the garment and the ${vessel} are shown clearly for a mockup and take up a large portion of the frame. ${backgroundDescription} ${quality}`;
+  },
+  designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} of the ${noun} AND onto the front of the ${vessel}.`,
+});
+
+export const PRODUCTS: Record<ProductType, ProductDefinition> = {
+  tshirt: garment('t-shirt'),
+  sweatshirt: garment('sweatshirt'),
+  hoodie: garment('hoodie', PRINT_AREAS.hoodieChest),
+  tshirt_teacup_scene: garmentWithDrink('t-shirt', 'teacup', 'standing'),
+  sweatshirt_mug_scene: garmentWithDrink('sweatshirt', 'mug', 'sitting'),
+  sweatshirt_teacup_scene: garmentWithDrink('sweatshirt', 'teacup', 'sitting'),
+  hoodie_teacup_scene: garmentWithDrink('hoodie', 'teacup', 'sitting', PRINT_AREAS.hoodieChest),
+  flat_lay: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('flatLayStyle', 'flatLayStyleLabel', FLAT_LAY_STYLES)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: APPAREL_PRINT_METHODS,
+    silhouette: 'apparel',
+    printArea: PRINT_AREAS.dtgChest,
+    basePrompt: ({ options, colorName, proBackgroundDescription, describe, quality }) => {
+      const garmentDescription = `a plain, unbranded, high-quality ${colorName} t-shirt`;
+      if (options.flatLayStyle.includes('close_up')) {
+        return `Top-down commercial product photo of ${garmentDescription}. The shot is ${describe('flatLayStyle')}. The scene is arranged on ${proBackgroundDescription}. The lighting is soft and even, creating gentle, realistic shadows. The background is simple and out of focus. ${quality}`;
+      }
+      return `Top-down commercial product photo. ${garmentDescription} is laid perfectly flat, as the prominent centerpiece of ${describe('flatLayStyle')}. The entire flat lay is arranged on ${proBackgroundDescription}. The lighting is soft and even, creating gentle, realistic shadows. The background is simple and out of focus. ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} of the apparel.`,
+  },
+  bag: {
+    sections: ['backgroundStyle', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('bagMaterial', 'bagMaterialLabel', BAG_MATERIALS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['screen_print', 'dtg', 'dtf', 'embroidery', 'sublimation'],
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.toteBag,
+    basePrompt: ({ colorName, backgroundDescription, describe, quality }) =>
+      `Close-up commercial product lifestyle photo. A person's hand and arm with natural skin texture, holding a plain, unbranded bag made of ${describe('bagMaterial')} in ${colorName}. The focus is on the bag, which takes up a large area of the image, highlighting its detailed material texture. ${backgroundDescription} ${quality}`,
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the front face of the bag.`,
+  },
+  wallet: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('walletStyle', 'walletStyleLabel', WALLET_STYLES), option('walletModel', 'walletModelLabel', WALLET_MODELS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['dtf', 'embroidery'],
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.wallet,
+    basePrompt: ({ options, colorName, proBackgroundDescription, describe, quality }) => {
+      const sceneDescription = onSurface(describe('walletModel'), options.walletModel === 'flat_lay_desk', proBackgroundDescription);
+      return `Close-up commercial product photo of a plain, unbranded ${describe('walletStyle')} in a ${colorName} color, taking up a large area of the image and highlighting the detailed leather texture. Scene: ${sceneDescription}. The background is beautifully blurred with strong bokeh. ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the front of the wallet.`,
+  },
+  cap: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('capStyle', 'capStyleLabel', CAP_STYLES), option('capModel', 'capModelLabel', CAP_MODELS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['embroidery', 'screen_print', 'dtf'],
+    silhouette: 'headwear',
+    printArea: PRINT_AREAS.capFront,
+    basePrompt: ({ options, colorName, proBackgroundDescription, backgroundDescription, describe, quality }) => {
+      const sceneDescription = onSurface(describe('capModel'), options.capModel === 'flat_lay', proBackgroundDescription);
+      return `Close-up commercial product photo. a plain, unbranded ${describe('capStyle')} in a ${colorName} color is shown, taking up a large portion of the frame. Scene: ${sceneDescription}. The focus is on the cap, highlighting its fabric texture. ${backgroundDescription} ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the front of the cap.`,
+  },
+  beanie: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('beanieStyle', 'beanieStyleLabel', BEANIE_STYLES), option('beanieModel', 'beanieModelLabel', BEANIE_MODELS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['embroidery', 'dtf'],
+    silhouette: 'headwear',
+    printArea: PRINT_AREAS.beanieCuff,
+    basePrompt: ({ options, colorName, proBackgroundDescription, backgroundDescription, describe, quality }) => {
+      const sceneDescription = onSurface(describe('beanieModel'), options.beanieModel === 'flat_lay', proBackgroundDescription);
+      return `Close-up commercial product photo. a plain, unbranded ${describe('beanieStyle')} in a ${colorName} color is shown, taking up a large portion of the frame. Scene: ${sceneDescription}. The focus is on the beanie, highlighting its knit texture. ${backgroundDescription} ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the front (cuffed area if visible) of the beanie.`,
+  },
+  pillow: {
+    sections: ['backgroundStyle', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('pillowStyle', 'pillowStyleLabel', PILLOW_STYLES), option('pillowSetting', 'pillowSettingLabel', PILLOW_SETTINGS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['sublimation', 'screen_print', 'dtg'],
+    // The panel is sewn, so the seam allowance is the bleed and the safe zone keeps clear of it.
+    printGuides: { bleed: 0.5, safeMargin: 0.75 },
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.pillow,
+    basePrompt: ({ colorName, describe, quality }) =>
+      `Close-up commercial product photo. a plain, unbranded ${describe('pillowStyle')} in a ${colorName} color is placed on ${describe('pillowSetting')}. The focus is on the pillow, which fills most of the frame, highlighting its fabric texture and softness. The background is beautifully blurred with strong bokeh. ${quality}`,
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the pillow.`,
+  },
+  frame: {
+    sections: ['backgroundStyle', 'artisticFilter', 'productColor'],
+    optionFields: [
+      option('frameStyle', 'frameStyleLabel', FRAME_STYLES),
+      option('frameTexture', 'frameTextureLabel', FRAME_TEXTURES),
+      option('frameModel', 'frameModelLabel', FRAME_MODELS),
+      option('frameDimension', 'photoFormatLabel', FRAME_DIMENSIONS),
+    ],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: [],
+    // The mat and rabbet cover the edge of the print.
+    printGuides: { bleed: 0.125, safeMargin: 0.25 },
+    silhouette: 'panel',
+    printArea: frameArea,
+    basePrompt: ({ options, colorName, backgroundDescription, describe, quality }) => {
+      const frameModelDescription = describe('frameModel');
+      // Scene-based models (office, vanity, wall) show the frame on its own rather than held by a person.
+      const isScene = options.frameModel.includes('office') || frameModelDescription.includes('vanity table') || frameModelDescription.includes('on a wall') || frameModelDescription.includes('as a central mural');
+      if (isScene) {
+        return `Commercial product photo of a plain, empty ${describe('frameDimension')}. The frame is a ${describe('frameStyle')} in a ${colorName} finish. The scene is: ${frameModelDescription}. The focus is on the empty frame, which takes up a large portion of the image. The lighting is professional and enhances the frame's texture. The background has a beautiful, soft bokeh effect. ${quality}`;
+      }
+      return `Close-up commercial product photo. A photorealistic model, ${frameModelDescription}, is holding up a plain, empty ${describe('frameDimension')}. The frame is a ${describe('frameStyle')} in a ${colorName} finish. The focus is on the empty frame, which takes up most of the image area, showing its detailed wood grain. ${backgroundDescription} ${quality}`;
+    },
+    designInstruction: ({ describe }) => `Apply the provided logo as the picture inside the empty wooden frame. Ignore any text prompts. ${describe('frameTexture')}`,
+  },
+  mug: {
+    sections: ['backgroundStyle', 'artisticFilter', 'productColor', 'designPlacement'],
+    optionFields: [option('mugStyle', 'mugStyleLabel', MUG_STYLES)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: DRINKWARE_PRINT_METHODS,
+    wrapTemplates: ['mug_11oz', 'mug_15oz'],
+    silhouette: 'drinkware',
+    printArea: PRINT_AREAS.mug15ozWrap,
+    basePrompt: ({ colorName, backgroundDescription, describe, quality }) =>
+      `Close-up commercial product photo. A photorealistic model, ${describe('mugModel')}, is holding a plain, unbranded ${describe('mugStyle')} in a ${colorName} color. The focus is on the mug, which takes up a large portion of the image, showing its texture. ${backgroundDescription} ${quality}`,
+    designInstruction: ({ placement }) => `Apply the design realistically onto the drinkware, centering the design ${placement} of the product.`,
+  },
+  sipper_glass: {
+    sections: ['backgroundStyle', 'artisticFilter', 'productColor', 'designPlacement'],
+    optionFields: [option('sipperGlassStyle', 'sipperStyleLabel', SIPPER_GLASS_STYLES), option('sipperGlassModel', 'sipperModelLabel', SIPPER_GLASS_MODELS)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: DRINKWARE_PRINT_METHODS,
+    wrapTemplates: ['glass_can_16oz'],
+    silhouette: 'drinkware',
+    printArea: PRINT_AREAS.glassCan16ozWrap,
+    basePrompt: ({ options, colorName, backgroundDescription, describe, quality }) => {
+      // The product color is the color of the drink; white means a clear one.
+      const beverageColor = options.productColor === '#FFFFFF' ? 'clear' : colorName;
+      return `Close-up commercial product photo. A photorealistic model, ${describe('sipperGlassModel')}, holding a plain, unbranded ${describe('sipperGlassStyle')} containing a ${beverageColor} beverage. The focus is on the sipper glass, which takes up a large portion of the image, showing realistic condensation and reflections. ${backgroundDescription} ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically onto the drinkware, centering the design ${placement} of the product.`,
+  },
+  tumbler_wrap: {
+    sections: ['backgroundStyle', 'artisticFilter', 'text', 'productColor', 'designPlacement'],
+    optionFields: [option('tumblerStyle', 'tumblerStyleLabel', TUMBLER_STYLES), option('tumblerModel', 'tumblerModelLabel', TUMBLER_MODELS)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: DRINKWARE_PRINT_METHODS,
+    wrapTemplates: TUMBLER_WRAP_TEMPLATES,
+    silhouette: 'drinkware',
+    printArea: PRINT_AREAS.tumbler20ozWrap,
+    basePrompt: ({ colorName, backgroundDescription, describe, quality }) =>
+      `Close-up commercial product photo. A photorealistic model, ${describe('tumblerModel')}, holding a plain, unbranded ${describe('tumblerStyle')} in a ${colorName} color. The focus is on the tumbler, which takes up a large portion of the image, highlighting its material finish (matte, steel). ${backgroundDescription} ${quality}`,
+    designInstruction: ({ placement }) => `Apply the design realistically onto the drinkware, centering the design ${placement} of the product.`,
+  },
+  halloween_tumbler: {
+    sections: ['artisticFilter', 'text', 'productColor', 'designPlacement'],
+    optionFields: [option('halloweenTumblerStyle', 'halloweenTumblerStyleLabel', HALLOWEEN_TUMBLER_STYLES), option('halloweenTumblerSetting', 'halloweenTumblerSettingLabel', HALLOWEEN_TUMBLER_SETTINGS)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: DRINKWARE_PRINT_METHODS,
+    wrapTemplates: TUMBLER_WRAP_TEMPLATES,
+    silhouette: 'drinkware',
+    printArea: PRINT_AREAS.tumbler20ozWrap,
+    basePrompt: ({ colorName, describe, quality }) =>
+      `Close-up commercial product photo. A plain, unbranded ${describe('halloweenTumblerStyle')} in a ${colorName} color is placed in the center of ${describe('halloweenTumblerSetting')}. The focus is on the tumbler, which fills a large portion of the frame, highlighting its material and the atmospheric lighting. The background has a beautiful, strong bokeh effect. ${quality}`,
+    designInstruction: ({ placement }) => `Apply the design realistically onto the drinkware, centering the design ${placement} of the product.`,
+  },
+  tumbler_trio: {
+    sections: ['artisticFilter', 'text', 'productColor', 'designPlacement'],
+    optionFields: [option('tumblerTrioStyle', 'tumblerTrioStyleLabel', TUMBLER_TRIO_STYLES), option('tumblerTrioSetting', 'tumblerTrioSettingLabel', TUMBLER_TRIO_SETTINGS)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: DRINKWARE_PRINT_METHODS,
+    silhouette: 'drinkware',
+    printArea: PRINT_AREAS.tumbler20ozWrap,
+    basePrompt: ({ colorName, describe, quality }) =>
+      `Close-up commercial product photo. ${describe('tumblerTrioStyle')} are standing in a neat row, side-by-side, on ${describe('tumblerTrioSetting')}. They are all plain, unbranded, and have a ${colorName} base color. The focus is on the three tumblers, which fill a large portion of the frame, highlighting their material and reflections. The background has a beautiful bokeh effect. ${quality}`,
+    designInstruction: ({ placement }) => `Apply the same design realistically to the front of all three tumblers, placing it ${placement} on each tumbler.`,
+  },
+  laser_engraving: {
+    sections: ['professionalBackground', 'text'],
+    optionFields: [option('engravingMaterial', 'engravingMaterialLabel', ENGRAVING_MATERIALS)],
+    appliesDesignStyle: false,
+    designExport: 'engraving',
+    printMethods: [],
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.engravingPlate,
+    basePrompt: ({ proBackgroundDescription, describe, quality }) =>
+      `Top-down commercial product photo of a blank, ${describe('engravingMaterial')}, resting on ${proBackgroundDescription}. The blank is clean, flat and high-quality, perfectly lit to showcase its texture for a laser engraving mockup. The lighting is soft and even. ${quality}`,
+    designInstruction: ({ options, placement }) => {
+      const material = ENGRAVING_MATERIALS.find(m => m.id === options.engravingMaterial) || ENGRAVING_MATERIALS[0];
+      return `Apply the provided design onto the blank ${placement}. The design must look like a high-quality, precise, and clean laser engraving: ${material.markDescription}. The logo image and text must be converted into a monochrome format suitable for engraving.`;
+    },
+  },
+  phone_case: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('phoneCaseStyle', 'phoneCaseStyleLabel', PHONE_CASE_STYLES), option('phoneCaseModel', 'phoneCaseModelLabel', PHONE_CASE_MODELS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['sublimation', 'dtf'],
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.phoneCase,
+    basePrompt: ({ options, colorName, proBackgroundDescription, describe, quality }) => {
+      const isFlatLay = options.phoneCaseModel === 'flat_lay' || options.phoneCaseModel === 'on_desk';
+      const sceneDescription = onSurface(describe('phoneCaseModel'), isFlatLay, proBackgroundDescription);
+      return `Close-up commercial product photo. a plain, unbranded phone case with a ${describe('phoneCaseStyle')} in a ${colorName} color is shown, taking up a large area of the image. Scene: ${sceneDescription}. The focus is on the phone case, highlighting its material and realistic reflections. The background is beautifully blurred with strong bokeh. ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the back of the phone case.`,
+  },
+  sticker: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'designPlacement'],
+    optionFields: [option('stickerStyle', 'stickerStyleLabel', STICKER_STYLES), option('stickerSetting', 'stickerSettingLabel', STICKER_SETTINGS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: [],
+    dieCut: true,
+    printGuides: { bleed: 0.0625, safeMargin: 0.125 },
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.sticker,
+    basePrompt: ({ describe, quality }) =>
+      `Extreme close-up commercial product photo. A plain, unbranded ${describe('stickerStyle')} is placed on ${describe('stickerSetting')}. The focus is on the blank sticker, which takes up most of the image area, highlighting its texture and finish against the surface. The background is beautifully blurred with strong bokeh. ${quality}`,
+    designInstruction: () => 'Apply the design to the blank sticker, making it look like a single, cohesive sticker design.',
+  },
+  poster: {
+    sections: ['artisticFilter', 'text', 'designPlacement'],
+    optionFields: [option('posterStyle', 'posterStyleLabel', POSTER_STYLES), option('posterSetting', 'posterSettingLabel', POSTER_SETTINGS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: [],
+    printGuides: { bleed: 0.125, safeMargin: 0.25 },
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.poster,
+    basePrompt: ({ describe, quality }) =>
+      `Close-up commercial product photo. A plain, unbranded ${describe('posterStyle')} is shown, filling most of the frame. Scene: ${describe('posterSetting')}. The focus is on the blank poster, highlighting its paper texture. The background is beautifully blurred with strong bokeh. ${quality}`,
+    designInstruction: () => 'Apply the design as the artwork for the poster.',
+  },
+  jigsaw_puzzle: {
+    sections: ['professionalBackground', 'artisticFilter', 'designPlacement'],
+    optionFields: [option('puzzleStyle', 'puzzleStyleLabel', PUZZLE_STYLES), option('puzzleSetting', 'puzzleSettingLabel', PUZZLE_SETTINGS)],
+    appliesDesignStyle: true,
+    designExport: 'print',
+    printMethods: ['sublimation'],
+    // The print wraps the board's edge.
+    printGuides: { bleed: 0.125, safeMargin: 0.25 },
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.puzzle,
+    basePrompt: ({ options, proBackgroundDescription, describe, quality }) => {
+      const sceneDescription = onSurface(describe('puzzleSetting'), options.puzzleSetting === 'flat_lay_minimalist', proBackgroundDescription);
+      return `Close-up commercial product photo. Scene: ${sceneDescription}. The puzzle is ${describe('puzzleStyle')} and takes up a large portion of the image. The focus is on the blank puzzle, highlighting its material and piece shapes. The background is beautifully blurred with strong bokeh. ${quality}`;
+    },
+    designInstruction: () => 'Apply the design as the image for the entire jigsaw puzzle.',
+  },
+  laptop_sleeve: {
+    sections: ['professionalBackground', 'artisticFilter', 'text', 'productColor', 'productTexture', 'designPlacement'],
+    optionFields: [option('laptopSleeveStyle', 'laptopSleeveStyleLabel', LAPTOP_SLEEVE_STYLES), option('laptopSleeveSetting', 'laptopSleeveSettingLabel', LAPTOP_SLEEVE_SETTINGS)],
+    appliesDesignStyle: false,
+    designExport: 'print',
+    printMethods: ['sublimation', 'screen_print', 'dtf'],
+    silhouette: 'panel',
+    printArea: PRINT_AREAS.laptopSleeve,
+    basePrompt: ({ options, colorName, proBackgroundDescription, describe, quality }) => {
+      const sceneDescription = onSurface(describe('laptopSleeveSetting'), options.laptopSleeveSetting === 'flat_lay_minimalist', proBackgroundDescription);
+      return `Close-up commercial product photo. a plain, unbranded ${describe('laptopSleeveStyle')} in a ${colorName} color is shown, taking up a large portion of the frame. Scene: ${sceneDescription}. The focus is on the sleeve, highlighting its material texture. The background is beautifully blurred with strong bokeh. ${quality}`;
+    },
+    designInstruction: ({ placement }) => `Apply the design realistically, placing it ${placement} on the front of the laptop sleeve.`,
+  },
+};
+
+/**
+ * Whether the product shows the given group of shared controls.
+ */
+export const hasSection = (productType: ProductType, section: ProductSection): boolean =>
+  PRODUCTS[productType].sections.includes(section);
+
+/**
+ * The pose the base image is actually shot in. Scenes that need a model swap the
+ * flat-lay pose for their fallback.
+ */
+export const getEffectivePose = (options: DesignOptions): ModelPose => {
+  const { poseFallback } = PRODUCTS[options.productType];
+  return poseFallback && options.pose === 'flat_lay_simple' ? poseFallback : options.pose;
+};
+
+/**
+ * The design style the layout follows. Products without a style picker always use 'classic'.
+ */
+export const getEffectiveDesignStyle = (options: DesignOptions): DesignStyle =>
+  PRODUCTS[options.productType].appliesDesignStyle ? options.style : 'classic';
+
+/**
+ * The physical print area of the design's product.
+ */
+export const getPrintArea = (options: DesignOptions): PrintArea => {
+  const { printArea } = PRODUCTS[options.productType];
+  return typeof printArea === 'function' ? printArea(options) : printArea;
+};
+
+/**
+ * The print method the design is made with: the chosen one if the product offers
+ * it, else the product's default. Null for products without a choice of method.
+ */
+export const getEffectivePrintMethod = (options: DesignOptions): PrintMethod | null => {
+  const { printMethods } = PRODUCTS[options.productType];
+  if (printMethods.length === 0) return null;
+  return printMethods.includes(options.printMethod) ? options.printMethod : printMethods[0];
+};
+
+/**
+ * The text style the design is made with. Styles the print method can't reproduce
+ * (glows and gradients in thread) fall back to plain text.
+ */
+export const getEffectiveTextStyle = (options: DesignOptions): TextStyle => {
+  const method = getEffectivePrintMethod(options);
+  return method && !isTextStyleAllowed(method, options.textStyle) ? 'none' : options.textStyle;
+};
+
+/**
+ * The bleed and safe zone the design's print files start with, without marks.
+ * Products that aren't cut to size after printing get none.
+ */
+export const getPrintGuides = (options: DesignOptions): PrintGuideOptions =>
+  ({ ...DEFAULT_PRINT_GUIDES, ...PRODUCTS[options.productType].printGuides });
@@ -0,0 +1,178 @@
+import type { DesignOptions } from '../types';
+import type { MockupPrompts } from './geminiService';
+
+/**
+ * Local project library backed by IndexedDB. Everything stays in the browser;
+ * nothing is uploaded anywhere.
+ */
+
+const DB_NAME = 'mockup-studio';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+
+export interface ProjectMockup {
+  id: string;
+  image: string; // base64 PNG, without data URL prefix
+  createdAt: string;
+  // The design the mockup was produced from (without the logo, which lives on the project).
+  design: DesignOptions;
+  // The prompts the mockup was generated with. Missing on mockups saved before prompts were recorded.
+  prompts?: MockupPrompts;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  tags: string[];
+  // The logo is stored separately as a Blob, so `design.logo` is always null here.
+  design: DesignOptions;
+  logo: Blob | null;
+  logoName: string | null;
+  mockups: ProjectMockup[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const stripLogo = (design: DesignOptions): DesignOptions => ({ ...design, logo: null });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          const store = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against the project store and resolves with its result.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(PROJECT_STORE, mode);
+    const request = action(transaction.objectStore(PROJECT_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('The project library transaction was aborted.'));
+  });
+};
+
+/**
+ * Returns all saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+  return project ?? null;
+};
+
+const putProject = async (project: Project): Promise<Project> => {
+  await withStore('readwrite', store => store.put(project));
+  return project;
+};
+
+/**
+ * Saves the current design as a brand new project.
+ * @param name The display name of the project.
+ * @param design The design to save. Its `logo` data URL is dropped in favour of `logo`.
+ * @param logo The original logo file, if any.
+ */
+export const createProject = (name: string, design: DesignOptions, logo: File | null): Promise<Project> => {
+  const now = new Date().toISOString();
+  return putProject({
+    id: createId(),
+    name,
+    tags: [],
+    design: stripLogo(design),
+    logo,
+    logoName: logo?.name ?? null,
+    mockups: [],
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Applies a partial update to a stored project and bumps its `updatedAt`.
+ * @throws If the project no longer exists.
+ */
+export const updateProject = async (id: string, patch: Partial<Omit<Project, 'id' | 'createdAt'>>): Promise<Project> => {
+  const existing = await getProject(id);
+  if (!existing) {
+    throw new Error('This project no longer exists in the library.');
+  }
+  const next: Project = { ...existing, ...patch, updatedAt: new Date().toISOString() };
+  if (patch.design) {
+    next.design = stripLogo(patch.design);
+  }
+  return putProject(next);
+};
+
+/**
+ * Overwrites the design and logo of an existing project, keeping its mockups.
+ */
+export const saveProjectDesign = (id: string, design: DesignOptions, logo: File | null): Promise<Project> =>
+  updateProject(id, { design, logo, logoName: logo?.name ?? null });
+
+/**
+ * Appends freshly generated mockups to a project.
+ * @param id The project to add to.
+ * @param images Base64 PNG images, as returned by generateMockup.
+ * @param design The design the images were generated from.
+ * @param prompts The prompts the images were generated with.
+ */
+export const addMockupsToProject = async (id: string, images: string[], design: DesignOptions, prompts?: MockupPrompts): Promise<Project> => {
+  const existing = await getProject(id);
+  if (!existing) {
+    throw new Error('This project no longer exists in the library.');
+  }
+  const createdAt = new Date().toISOString();
+  const mockups = images.map(image => ({ id: createId(), image, createdAt, design: stripLogo(design), prompts }));
+  return updateProject(id, { mockups: [...existing.mockups, ...mockups] });
+};
+
+export const duplicateProject = async (id: string, name: string): Promise<Project> => {
+  const existing = await getProject(id);
+  if (!existing) {
+    throw new Error('This project no longer exists in the library.');
+  }
+  const now = new Date().toISOString();
+  return putProject({ ...existing, id: createId(), name, createdAt: now, updatedAt: now });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+/**
+ * Turns a comma separated string into a clean, de-duplicated tag list.
+ */
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
@@ -0,0 +1,45 @@
+import type { DesignOptions } from '../types';
+import type { ImagePayload } from './imageProvider';
+
+/**
+ * In-memory cache of generated base images ("scenes"), so changing only the design
+ * (text, font, colors, placement...) re-runs the editing step on the same model and
+ * setting instead of producing a new one every time.
+ *
+ * Scenes are keyed by everything that goes into step 1: the provider, the final base
+ * prompt (which already covers the product, its color and all scene options) and the
+ * aspect ratio. Only the most recently used scenes are kept.
+ */
+
+const MAX_CACHED_SCENES = 8;
+
+// Map iteration follows insertion order, so the first key is always the least recently used.
+const scenes = new Map<string, ImagePayload[]>();
+
+export const getSceneKey = (providerId: string, basePrompt: string, options: DesignOptions): string =>
+  JSON.stringify([providerId, options.aspectRatio, basePrompt]);
+
+/**
+ * Returns the cached base images for a scene, marking it as recently used.
+ */
+export const getCachedScene = (key: string): ImagePayload[] => {
+  const images = scenes.get(key);
+  if (!images) return [];
+  scenes.delete(key);
+  scenes.set(key, images);
+  return images;
+};
+
+export const hasCachedScene = (key: string): boolean => scenes.has(key);
+
+/**
+ * Stores the base images for a scene, replacing any previous ones and evicting the
+ * least recently used scene when the cache is full.
+ */
+export const cacheScene = (key: string, images: ImagePayload[]): void => {
+  scenes.delete(key);
+  scenes.set(key, images);
+  while (scenes.size > MAX_CACHED_SCENES) {
+    scenes.delete(scenes.keys().next().value as string);
+  }
+};
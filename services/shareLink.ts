@@ -0,0 +1,59 @@
+import type { DesignFont, DesignOptions } from '../types';
+import { DESIGN_FIELD_RULES, sanitizeDesignOptions } from './designSchema';
+import { isCustomFont } from './fontManager';
+
+/**
+ * Shareable links: the non-image parts of a design are stored in the URL hash as
+ * query-string pairs, e.g. `#productType=mug&text=BOO&productColor=000000`.
+ * Only fields that differ from the defaults are written, which keeps links short,
+ * and the `#` of colors is dropped so it doesn't need escaping.
+ *
+ * Uploaded fonts live in the sender's browser only, so a design that uses one
+ * opens with the default font.
+ */
+
+// The logo is an image and never goes into a link.
+const SHAREABLE_FIELDS = (Object.keys(DESIGN_FIELD_RULES) as (keyof DesignOptions)[]).filter(field => field !== 'logo');
+
+/**
+ * Encodes the design as a URL hash (without the leading `#`).
+ * @param design The design to share.
+ * @param defaults Fields equal to these are left out.
+ */
+export const encodeDesignToHash = (design: DesignOptions, defaults: DesignOptions): string => {
+  const params = new URLSearchParams();
+  SHAREABLE_FIELDS.forEach(field => {
+    const value = design[field];
+    if (typeof value !== 'string' || value === defaults[field]) return;
+    if (field === 'font' && isCustomFont(value as DesignFont)) return;
+    params.set(field, DESIGN_FIELD_RULES[field].kind === 'color' ? value.replace(/^#/, '') : value);
+  });
+  return params.toString();
+};
+
+/**
+ * Restores a design from a URL hash. Unknown keys are ignored and invalid values
+ * fall back to the defaults, so a stale or hand-edited link still opens.
+ * @param hash The hash, with or without the leading `#`.
+ * @param defaults The design to start from.
+ * @returns The restored design, or null if the hash holds no design fields.
+ */
+export const decodeDesignFromHash = (hash: string, defaults: DesignOptions): DesignOptions | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const raw: Record<string, string> = {};
+  SHAREABLE_FIELDS.forEach(field => {
+    const value = params.get(field);
+    if (value === null || (field === 'font' && isCustomFont(value as DesignFont))) return;
+    raw[field] = DESIGN_FIELD_RULES[field].kind === 'color' && !value.startsWith('#') ? `#${value}` : value;
+  });
+  if (Object.keys(raw).length === 0) {
+    return null;
+  }
+
+  const { design, rejectedFields } = sanitizeDesignOptions(raw, defaults);
+  if (rejectedFields.length > 0) {
+    console.warn(`Ignored invalid values in the shared link: ${rejectedFields.join(', ')}`);
+  }
+  // Keep whatever logo the app started with.
+  return { ...design, logo: defaults.logo };
+};
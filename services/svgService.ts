@@ -1,20 +1,47 @@
-import type { DesignOptions, TextStyle } from '../types';
-import { TSHIRT_FONTS } from '../constants';
+import type { DesignFont, DesignOptions, TextStyle } from '../types';
+import { getEffectiveDesignStyle, getEffectiveTextStyle, getPrintArea } from './productRegistry';
+import { DEFAULT_ENGRAVING_SETTINGS, DEFAULT_PRINT_SETTINGS, EngravingSettings, formatLength, fromInches, getEngravingLayers, getPixelSize, LASER_LAYER_COLORS, PrintSettings, PrintUnit } from './printSpecs';
+import { bytesToBase64, crc32, createZip, ZipEntry } from './zipService';
+import { Bitmap, ditherBitmap, encodeBitmapPng, toGrayscale } from './dithering';
+import { traceBitmap } from './bitmapTrace';
+import { DEFAULT_TRACE_OPTIONS, getTracedLogoMarkup, traceLogo, TraceOptions } from './logoTracer';
+import { ContourOptions, CUT_CONTOUR_COLOR, CUT_CONTOUR_SPOT_COLOR, getContourMargin, traceCutContour } from './cutContour';
+import { getArcGeometry, getArcSectorPath, getArtworkBoxes, getSafeArea, getWrapTemplate, warpStripToArc, WrapSettings, WrapTemplate } from './wrapTemplates';
+import { ColorSeparation, getSeparationReportJson, separateColors, SeparationScreen, SeparationSettings } from './colorSeparation';
+import { digitize, EMBROIDERY_PIXEL_MM, EmbroideryPattern, EmbroiderySettings } from './embroidery';
+import { getCropMarkLines, getGuideMargin, getRegistrationOffset, getSafeZone, PrintGuideOptions } from './printGuides';
+import type { ParsedFont } from './fontParser';
+import { getEmbeddedFontCss, getFontFamily, getFontOutlines } from './fontManager';
+import { arcRun, outlineTextRuns, TextRun } from './textLayout';
+
+// The square layout space the logo and text are positioned in, before scaling to a print area.
+const DESIGN_ARTBOARD_SIZE = 1000;
+// Line width for cut and score lines. Cutter and laser drivers only treat hairlines as vectors to cut.
+const HAIRLINE_INCHES = 0.001;
+const TEXT_FONT_SIZE = 50;
 
 /**
- * Loads an image from a data URL and returns its dimensions.
- * @param logoDataUrl The data URL of the logo image.
- * @returns A promise that resolves with the image's width and height.
+ * Loads the logo image from its data URL.
  */
-const getLogoDimensions = (logoDataUrl: string): Promise<{ width: number; height: number }> => {
+const loadLogoImage = (logoDataUrl: string): Promise<HTMLImageElement> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
-        img.onload = () => resolve({ width: img.width, height: img.height });
+        img.onload = () => resolve(img);
         img.onerror = (err) => reject(new Error('Failed to load logo image to determine dimensions.'));
         img.src = logoDataUrl;
     });
 };
 
+/**
+ * Loads an image from a data URL and returns its dimensions.
+ * @param logoDataUrl The data URL of the logo image.
+ * @returns A promise that resolves with the image's width and height.
+ */
+const getLogoDimensions = async (logoDataUrl: string): Promise<{ width: number; height: number }> => {
+    const img = await loadLogoImage(logoDataUrl);
+    return { width: img.width, height: img.height };
+};
+
 /**
  * Generates SVG filter and attribute strings based on the selected text style.
  */
@@ -29,6 +56,15 @@ const getTextStyleSvg = (style: TextStyle, textColor: string, id: string): strin
         case 'chrome': return `fill="url(#chrome-${id})" stroke="#4B5563" stroke-width="0.5"`;
         case 'gradient': return `fill="url(#gradient-${id})"`;
         case 'varsity': return `stroke="black" stroke-width="4" stroke-linejoin="round" fill="${textColor}"`;
+        case 'pastel_rainbow': return `fill="url(#pastel-rainbow-${id})"`;
+        case 'distressed': return `fill="${textColor}" filter="url(#distressed-${id})"`;
+        case 'fire': return `fill="url(#fire-gradient-${id})" filter="url(#fire-${id})"`;
+        case 'ice': return `fill="url(#ice-${id})" stroke="#38BDF8" stroke-width="1" filter="url(#frost-${id})"`;
+        case 'wooden': return `fill="#A37B4C" filter="url(#wooden-${id})"`;
+        // The stroke is painted under the fill so the halftone keeps its full letter width.
+        case 'comic': return `fill="url(#halftone-${id})" stroke="black" stroke-width="4" stroke-linejoin="round" paint-order="stroke" filter="url(#comic-${id})"`;
+        case 'glitch': return `fill="${textColor}" filter="url(#glitch-${id})"`;
+        // Script lettering comes from the font (see getTextFont); the fill stays plain.
         default: return `fill="${textColor}"`;
     }
 };
@@ -81,6 +117,114 @@ const getTextStyleDefs = (style: TextStyle, textColor: string, gradientStart: st
             <stop offset="0%" stop-color="${gradientStart}" />
             <stop offset="100%" stop-color="${gradientEnd}" />
         </linearGradient>`;
+        case 'pastel_rainbow': return `
+        <linearGradient id="pastel-rainbow-${id}" x1="0%" y1="0%" x2="100%" y2="0%">
+            ${['#FFADAD', '#FFD6A5', '#FDFFB6', '#CAFFBF', '#9BF6FF', '#A0C4FF', '#BDB2FF']
+                .map((color, i, colors) => `<stop offset="${Math.round((i / (colors.length - 1)) * 100)}%" stop-color="${color}" />`).join('')}
+        </linearGradient>`;
+        case 'distressed': return `
+        <filter id="distressed-${id}" x="-5%" y="-5%" width="110%" height="110%">
+            <!-- Fine noise thresholded into specks, then cut out of the letters for a worn print. -->
+            <feTurbulence type="fractalNoise" baseFrequency="0.9" numOctaves="3" seed="7" result="noise" />
+            <feColorMatrix in="noise" type="matrix" values="0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  9 0 0 0 -5.4" result="specks" />
+            <feTurbulence type="turbulence" baseFrequency="0.05 0.6" numOctaves="2" seed="11" result="scratchNoise" />
+            <feColorMatrix in="scratchNoise" type="matrix" values="0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  12 0 0 0 -6.6" result="scratches" />
+            <feMerge result="wear">
+                <feMergeNode in="specks" />
+                <feMergeNode in="scratches" />
+            </feMerge>
+            <feComposite in="SourceGraphic" in2="wear" operator="out" />
+        </filter>`;
+        case 'fire': return `
+        <linearGradient id="fire-gradient-${id}" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stop-color="#FBBF24" />
+            <stop offset="35%" stop-color="#F97316" />
+            <stop offset="70%" stop-color="#EF4444" />
+            <stop offset="100%" stop-color="#B91C1C" />
+        </linearGradient>
+        <filter id="fire-${id}" x="-20%" y="-70%" width="140%" height="190%">
+            <!-- A thickened copy of the letters, torn by stretched noise and lifted, makes the flames. -->
+            <feTurbulence type="fractalNoise" baseFrequency="0.04 0.15" numOctaves="2" seed="3" result="noise" />
+            <feMorphology in="SourceAlpha" operator="dilate" radius="2" result="thick" />
+            <feDisplacementMap in="thick" in2="noise" scale="18" xChannelSelector="R" yChannelSelector="G" result="flicker" />
+            <feOffset in="flicker" dy="-8" result="risen" />
+            <feGaussianBlur in="risen" stdDeviation="2.5" result="soft" />
+            <feFlood flood-color="#F59E0B" />
+            <feComposite in2="soft" operator="in" result="flames" />
+            <feGaussianBlur in="SourceAlpha" stdDeviation="5" result="haloBlur" />
+            <feFlood flood-color="#D97706" flood-opacity="0.8" />
+            <feComposite in2="haloBlur" operator="in" result="halo" />
+            <feMerge>
+                <feMergeNode in="halo" />
+                <feMergeNode in="flames" />
+                <feMergeNode in="SourceGraphic" />
+            </feMerge>
+        </filter>`;
+        case 'ice': return `
+        <linearGradient id="ice-${id}" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stop-color="#F0F9FF" />
+            <stop offset="45%" stop-color="#BAE6FD" />
+            <stop offset="55%" stop-color="#E0F2FE" />
+            <stop offset="100%" stop-color="#7DD3FC" />
+        </linearGradient>
+        <filter id="frost-${id}" x="-20%" y="-20%" width="140%" height="140%">
+            <!-- White frost speckles over the letters, a cold glow and a soft shadow. -->
+            <feTurbulence type="fractalNoise" baseFrequency="1.2" numOctaves="2" seed="5" result="noise" />
+            <feColorMatrix in="noise" type="matrix" values="0 0 0 0 1  0 0 0 0 1  0 0 0 0 1  6 0 0 0 -3.6" result="speckles" />
+            <feComposite in="speckles" in2="SourceAlpha" operator="in" result="frost" />
+            <feGaussianBlur in="SourceAlpha" stdDeviation="3" result="glowBlur" />
+            <feFlood flood-color="#7DD3FC" flood-opacity="0.9" />
+            <feComposite in2="glowBlur" operator="in" result="glow" />
+            <feDropShadow in="SourceAlpha" dx="1" dy="1" stdDeviation="1" flood-color="rgba(0,0,0,0.3)" result="shadow" />
+            <feMerge>
+                <feMergeNode in="shadow" />
+                <feMergeNode in="glow" />
+                <feMergeNode in="SourceGraphic" />
+                <feMergeNode in="frost" />
+            </feMerge>
+        </filter>`;
+        case 'wooden': return `
+        <filter id="wooden-${id}" x="-10%" y="-10%" width="130%" height="130%">
+            <!-- Noise stretched along x reads as grain; it is tinted brown and clipped to the letters. -->
+            <feTurbulence type="fractalNoise" baseFrequency="0.015 0.35" numOctaves="3" seed="4" result="grain" />
+            <feColorMatrix in="grain" type="matrix" values="0.7 0 0 0 0.25  0.45 0 0 0 0.14  0.2 0 0 0 0.02  0 0 0 0 1" result="wood" />
+            <feComposite in="wood" in2="SourceAlpha" operator="in" result="carved" />
+            <feGaussianBlur in="SourceAlpha" stdDeviation="1.5" result="shadowBlur" />
+            <feOffset in="shadowBlur" dx="2" dy="2" result="shadowOffset" />
+            <feFlood flood-color="black" flood-opacity="0.5" />
+            <feComposite in2="shadowOffset" operator="in" result="shadow" />
+            <feMerge>
+                <feMergeNode in="shadow" />
+                <feMergeNode in="carved" />
+            </feMerge>
+        </filter>`;
+        case 'comic': return `
+        <pattern id="halftone-${id}" width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+            <rect width="6" height="6" fill="${textColor}" />
+            <circle cx="3" cy="3" r="1.3" fill="black" fill-opacity="0.25" />
+        </pattern>
+        <filter id="comic-${id}" x="-10%" y="-10%" width="130%" height="130%">
+            <feDropShadow dx="4" dy="4" stdDeviation="0" flood-color="black" />
+        </filter>`;
+        case 'glitch': return `
+        <filter id="glitch-${id}" x="-10%" y="-10%" width="120%" height="120%">
+            <!-- Cyan and magenta copies shifted apart, and the letters sliced by horizontal bands. -->
+            <feOffset in="SourceAlpha" dx="-3" result="left" />
+            <feFlood flood-color="#38BDF8" />
+            <feComposite in2="left" operator="in" result="cyan" />
+            <feOffset in="SourceAlpha" dx="3" result="right" />
+            <feFlood flood-color="#F472B6" />
+            <feComposite in2="right" operator="in" result="magenta" />
+            <!-- A zero x frequency makes the noise constant along each row; green is pinned to 0.5 so rows only shift sideways. -->
+            <feTurbulence type="fractalNoise" baseFrequency="0 0.12" numOctaves="1" seed="2" result="bands" />
+            <feColorMatrix in="bands" type="matrix" values="1 0 0 0 0  0 0 0 0 0.5  0 0 0 0 0  0 0 0 0 1" result="rowShift" />
+            <feDisplacementMap in="SourceGraphic" in2="rowShift" scale="12" xChannelSelector="R" yChannelSelector="G" result="sliced" />
+            <feMerge>
+                <feMergeNode in="cyan" />
+                <feMergeNode in="magenta" />
+                <feMergeNode in="sliced" />
+            </feMerge>
+        </filter>`;
         default: return '';
     }
 }
@@ -98,166 +242,234 @@ const escapeXml = (unsafe: string): string => {
     });
 };
 
+// Fonts that already have connected, calligraphic lettering.
+const SCRIPT_FONTS: DesignFont[] = ['dancing_script', 'pacifico', 'lobster', 'caveat'];
+
 /**
- * Fetches a font from Google Fonts, and encodes it as a base64 data URI.
- * @param fontUrl The URL to the Google Fonts CSS.
- * @returns A promise that resolves with the data URI and format of the font.
+ * The font the text is set in. The script style is calligraphic lettering, so a
+ * font that isn't a script font is swapped for Dancing Script, as in the style
+ * picker and the mockup prompt.
  */
-const fetchAndEncodeFont = async (fontUrl: string): Promise<{ dataUri: string; format: string }> => {
-    try {
-        const cssResponse = await fetch(fontUrl, {
-            headers: {
-                // A modern browser user agent helps get the woff2 format.
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-            }
-        });
-        if (!cssResponse.ok) throw new Error(`Failed to fetch font CSS: ${cssResponse.statusText}`);
-        const cssText = await cssResponse.text();
-        
-        // Extract the font file URL (woff2) from the CSS
-        const fontFileUrlMatch = cssText.match(/url\((https:\/\/[^)]+\.woff2)\)/);
-        if (!fontFileUrlMatch?.[1]) {
-            console.warn("Could not find woff2 URL in Google Fonts CSS. PNG export might have font issues.");
-            return { dataUri: '', format: '' };
-        }
-        const fontFileUrl = fontFileUrlMatch[1];
-        
-        // Fetch the font file itself
-        const fontFileResponse = await fetch(fontFileUrl);
-        if (!fontFileResponse.ok) throw new Error(`Failed to fetch font file: ${fontFileResponse.statusText}`);
-        const fontBlob = await fontFileResponse.blob();
-        
-        // Convert the font Blob to a base64 data URI
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve({ dataUri: reader.result as string, format: 'woff2' });
-            reader.onerror = reject;
-            reader.readAsDataURL(fontBlob);
-        });
-    } catch (error) {
-        console.error("Error fetching and encoding font:", error);
-        return { dataUri: '', format: '' }; // Return empty to avoid breaking the SVG generation
-    }
+const getTextFont = (design: DesignOptions): DesignFont =>
+    getEffectiveTextStyle(design) === 'script' && !SCRIPT_FONTS.includes(design.font) ? 'dancing_script' : design.font;
+
+/**
+ * Builds the style block that embeds the design font, so the SVG renders the same
+ * offline, on a canvas and on another computer.
+ * @throws If the font is not available.
+ */
+const getFontStyleDef = async (font: DesignFont): Promise<string> => {
+    const fontFaceCss = await getEmbeddedFontCss(font);
+    return fontFaceCss ? `<style>${fontFaceCss}\n    </style>` : '';
 };
 
+const LOGO_MAX_SIZE = 400;
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
 /**
- * A helper to generate text path elements for different design styles.
+ * Where the logo and text go on the artboard for a design style.
  */
-const getTextElements = (design: DesignOptions, scaledLogo: { width: number, height: number }, center: { x: number, y: number }): string => {
-    const { text, font, style, textStyle, textColor } = design;
-    const fontName = TSHIRT_FONTS.find(f => f.id === font)?.name || 'Impact';
-    const textId = "text-element";
-    const textStyleAttributes = getTextStyleSvg(textStyle, textColor, textId);
-    const commonTextProps = `${textStyleAttributes} font-family="'${fontName}', sans-serif" font-size="50px"`;
+interface DesignLayout {
+    logo: Box;
+    runs: TextRun[];
+    // Shapes that belong to the lettering, like the rings of a badge, drawn in the text color.
+    decorations: string;
+}
+
+/**
+ * Scales the logo down to fit a square of `maxSize` and centers it on `center`.
+ */
+const fitLogo = (logoDims: { width: number, height: number }, maxSize: number, center: { x: number, y: number }): Box => {
+    const ratio = Math.min(maxSize / logoDims.width, maxSize / logoDims.height, 1);
+    const width = logoDims.width * ratio;
+    const height = logoDims.height * ratio;
+    return { x: center.x - width / 2, y: center.y - height / 2, width, height };
+};
+
+const splitInHalf = (text: string): [string, string] => {
+    const words = text.split(/\s+/);
+    const midPoint = Math.ceil(words.length / 2);
+    return [words.slice(0, midPoint).join(' '), words.slice(midPoint).join(' ')];
+};
+
+// Arcs run left to right: over the top from π to 2π, and under the bottom from π back to 0,
+// so the letters stand upright on both.
+const upperArc = (text: string, cx: number, cy: number, rx: number, ry: number): TextRun =>
+    arcRun(text, cx, cy, rx, ry, Math.PI, 2 * Math.PI);
+const lowerArc = (text: string, cx: number, cy: number, rx: number, ry: number): TextRun =>
+    arcRun(text, cx, cy, rx, ry, Math.PI, 0);
+
+// Letters on a lower arc hang inside it, so its baseline sits about a cap height further out.
+const CAP_HEIGHT = TEXT_FONT_SIZE * 0.72;
+
+/**
+ * A circular badge: the logo inside two rings, with the text arched between them.
+ * The stamp look has a heavier outer ring and a dashed inner one.
+ */
+const getBadgeLayout = (text: string, logoDims: { width: number, height: number }, center: { x: number, y: number }, isStamp: boolean): DesignLayout => {
+    const outerRadius = 440;
+    const innerRadius = 340;
+    const textRadius = (outerRadius + innerRadius) / 2;
+    // The logo's corners stay inside the inner ring.
+    const logo = fitLogo(logoDims, Math.min(LOGO_MAX_SIZE, (innerRadius - 20) * Math.SQRT2), center);
+    const [topText, bottomText] = splitInHalf(text);
+    const ring = (radius: number, width: number, extra = '') =>
+        `<circle cx="${center.x}" cy="${center.y}" r="${radius}" fill="none" stroke="currentColor" stroke-width="${width}"${extra} />`;
+    const dot = (x: number) => `<circle cx="${x}" cy="${center.y}" r="8" fill="currentColor" />`;
+    const decorations = [
+        ring(outerRadius, isStamp ? 12 : 6),
+        isStamp ? ring(outerRadius - 18, 3) : '',
+        ring(innerRadius, isStamp ? 4 : 3, isStamp ? ' stroke-dasharray="14 10"' : ''),
+        // Separators between the top and bottom text.
+        bottomText ? dot(center.x - textRadius) + dot(center.x + textRadius) : '',
+    ].join('');
+    const topRadius = textRadius - CAP_HEIGHT / 2;
+    const bottomRadius = textRadius + CAP_HEIGHT / 2;
+    const runs = [upperArc(topText, center.x, center.y, topRadius, topRadius)];
+    if (bottomText) runs.push(lowerArc(bottomText, center.x, center.y, bottomRadius, bottomRadius));
+    return { logo, runs, decorations };
+};
+
+/**
+ * Lays out the logo and text for the design style, following the same composition
+ * the mockup prompt describes for it.
+ */
+const getDesignLayout = (design: DesignOptions, logoDims: { width: number, height: number }): DesignLayout => {
+    const { text } = design;
+    const center = { x: DESIGN_ARTBOARD_SIZE / 2, y: DESIGN_ARTBOARD_SIZE / 2 };
+    const logo = fitLogo(logoDims, LOGO_MAX_SIZE, center);
+    // Arcs clear the logo's corners, not just its sides.
+    const logoRadius = Math.hypot(logo.width, logo.height) / 2;
+    const layout = (runs: TextRun[], logoBox: Box = logo): DesignLayout => ({ logo: logoBox, runs, decorations: '' });
+    const style = getEffectiveDesignStyle(design);
 
     switch (style) {
         case 'classic':
-        case 'lower_half_circle': {
-            const radius = scaledLogo.width / 2 + 30;
-            const pathId = 'text-path-lower';
-            const pathD = `M ${center.x - radius},${center.y + scaledLogo.height / 2 + 20} A ${radius},${radius} 0 0 1 ${center.x + radius},${center.y + scaledLogo.height / 2 + 20}`;
-            return `<defs><path id="${pathId}" d="${pathD}" fill="none"/></defs><text><textPath href="#${pathId}" startOffset="50%" text-anchor="middle" ${commonTextProps}>${escapeXml(text)}</textPath></text>`;
+        case 'lower_half_circle':
+        case 'boho_floral_wreath': {
+            const radius = logoRadius + 20 + CAP_HEIGHT;
+            return layout([lowerArc(text, center.x, center.y, radius, radius)]);
         }
         case 'upper_half_circle': {
-            const radius = scaledLogo.width / 2 + 30;
-            const pathId = 'text-path-upper';
-            const pathD = `M ${center.x + radius},${center.y - scaledLogo.height / 2 - 20} A ${radius},${radius} 0 0 0 ${center.x - radius},${center.y - scaledLogo.height / 2 - 20}`;
-            return `<defs><path id="${pathId}" d="${pathD}" fill="none"/></defs><text><textPath href="#${pathId}" startOffset="50%" text-anchor="middle" ${commonTextProps}>${escapeXml(text)}</textPath></text>`;
-        }
-        case 'upper_oval': {
-            const rx = scaledLogo.width / 2 + 80;
-            const ry = 60;
-            const pathId = 'text-path-upper-oval';
-            const pathD = `M ${center.x + rx},${center.y - scaledLogo.height / 2 - 20} A ${rx},${ry} 0 0 0 ${center.x - rx},${center.y - scaledLogo.height / 2 - 20}`;
-            return `<defs><path id="${pathId}" d="${pathD}" fill="none"/></defs><text><textPath href="#${pathId}" startOffset="50%" text-anchor="middle" ${commonTextProps}>${escapeXml(text)}</textPath></text>`;
-        }
-        case 'lower_oval': {
-            const rx = scaledLogo.width / 2 + 80;
-            const ry = 60;
-            const pathId = 'text-path-lower-oval';
-            const pathD = `M ${center.x - rx},${center.y + scaledLogo.height / 2 + 20} A ${rx},${ry} 0 0 1 ${center.x + rx},${center.y + scaledLogo.height / 2 + 20}`;
-            return `<defs><path id="${pathId}" d="${pathD}" fill="none"/></defs><text><textPath href="#${pathId}" startOffset="50%" text-anchor="middle" ${commonTextProps}>${escapeXml(text)}</textPath></text>`;
+            const radius = logoRadius + 20;
+            return layout([upperArc(text, center.x, center.y, radius, radius)]);
         }
+        case 'upper_oval':
+            // An ellipse √2 times the logo's half size passes through its corners.
+            return layout([upperArc(text, center.x, center.y, logo.width * Math.SQRT1_2 + 20, logo.height * Math.SQRT1_2 + 20)]);
+        case 'lower_oval':
+            return layout([lowerArc(text, center.x, center.y, logo.width * Math.SQRT1_2 + 20 + CAP_HEIGHT, logo.height * Math.SQRT1_2 + 20 + CAP_HEIGHT)]);
         case 'full_circle': {
-            const words = text.split(/\s+/);
-            const midPoint = Math.ceil(words.length / 2);
-            const topText = words.slice(0, midPoint).join(' ');
-            const bottomText = words.slice(midPoint).join(' ');
-            const radius = Math.max(scaledLogo.width, scaledLogo.height) / 2 + 50;
-            const pathTopId = 'text-path-top';
-            const pathTopD = `M ${center.x + radius},${center.y} A ${radius},${radius} 0 0 0 ${center.x - radius},${center.y}`;
-            const pathBottomId = 'text-path-bottom';
-            const pathBottomD = `M ${center.x - radius},${center.y} A ${radius},${radius} 0 0 1 ${center.x + radius},${center.y}`;
-            return `<defs><path id="${pathTopId}" d="${pathTopD}"/><path id="${pathBottomId}" d="${pathBottomD}"/></defs>
-                <text><textPath href="#${pathTopId}" startOffset="50%" text-anchor="middle" ${commonTextProps}>${escapeXml(topText)}</textPath></text>
-                <text><textPath href="#${pathBottomId}" startOffset="50%" text-anchor="middle" ${commonTextProps}>${escapeXml(bottomText)}</textPath></text>`;
+            const [topText, bottomText] = splitInHalf(text);
+            const radius = logoRadius + 20;
+            return layout([
+                upperArc(topText, center.x, center.y, radius, radius),
+                lowerArc(bottomText, center.x, center.y, radius + CAP_HEIGHT, radius + CAP_HEIGHT),
+            ]);
         }
+        case 'vintage_stamp':
+        case 'emblem':
+            return getBadgeLayout(text, logoDims, center, style === 'vintage_stamp');
         case 'split': {
-            const words = text.split(/\s+/);
-            const midPoint = Math.ceil(words.length / 2);
-            const leftText = words.slice(0, midPoint).join(' ');
-            const rightText = words.slice(midPoint).join(' ');
-            return `<text x="${center.x - scaledLogo.width/2 - 20}" y="${center.y}" text-anchor="end" dominant-baseline="middle" ${commonTextProps}>${escapeXml(leftText)}</text>
-                <text x="${center.x + scaledLogo.width/2 + 20}" y="${center.y}" text-anchor="start" dominant-baseline="middle" ${commonTextProps}>${escapeXml(rightText)}</text>`;
+            const [leftText, rightText] = splitInHalf(text);
+            return layout([
+                { kind: 'line', text: leftText, x: logo.x - 20, y: center.y, anchor: 'end', middleBaseline: true },
+                { kind: 'line', text: rightText, x: logo.x + logo.width + 20, y: center.y, anchor: 'start', middleBaseline: true },
+            ]);
+        }
+        case 'minimalist_line': {
+            // The logo moves left; the text reads bottom to top along its right side.
+            const shifted = fitLogo(logoDims, LOGO_MAX_SIZE, { x: center.x - 60, y: center.y });
+            const x = shifted.x + shifted.width + 40 + CAP_HEIGHT;
+            return layout([{ kind: 'line', text, x, y: center.y, anchor: 'middle', rotate: -90 }], shifted);
         }
         case 'stacked_text': {
+            // The logo and the word stack are centered together, the logo on top.
             const words = text.split(/\s+/);
-            return words.map((word, i) =>
-                `<text x="${center.x}" y="${center.y + scaledLogo.height/2 + 30 + (i * 60)}" text-anchor="middle" ${commonTextProps}>${escapeXml(word)}</text>`
-            ).join('');
+            const lineHeight = TEXT_FONT_SIZE * 1.2;
+            const top = center.y - (logo.height + 30 + words.length * lineHeight) / 2;
+            const stacked = { ...logo, y: top };
+            const firstBaseline = top + logo.height + 30 + CAP_HEIGHT;
+            return layout(words.map((word, i) => (
+                { kind: 'line', text: word, x: center.x, y: firstBaseline + i * lineHeight, anchor: 'middle' }
+            )), stacked);
+        }
+        case 'grunge_overlay':
+        case 'photo_text':
+            return layout([{ kind: 'line', text, x: center.x, y: center.y, anchor: 'middle', middleBaseline: true, fontSize: TEXT_FONT_SIZE * 1.6 }]);
+        case 'typography_focus': {
+            // The lettering leads: a smaller logo with large text under it.
+            const small = fitLogo(logoDims, LOGO_MAX_SIZE * 0.6, { x: center.x, y: center.y - 60 });
+            const fontSize = TEXT_FONT_SIZE * 1.6;
+            return layout([{ kind: 'line', text, x: center.x, y: small.y + small.height + 40 + CAP_HEIGHT * 1.6, anchor: 'middle', fontSize }], small);
         }
         default:
-            return `<text x="${center.x}" y="${center.y + scaledLogo.height/2 + 60}" text-anchor="middle" ${commonTextProps}>${escapeXml(text)}</text>`;
+            return layout([{ kind: 'line', text, x: center.x, y: logo.y + logo.height + 60, anchor: 'middle' }]);
     }
 };
 
+/**
+ * Renders the text of the design, either as live `<text>` elements in the design
+ * font or, when outline fonts are given, as a single path of the glyph outlines.
+ */
+const getTextMarkup = (design: DesignOptions, runs: TextRun[], textId: string, outlineFonts: ParsedFont[] | null): string => {
+    const textStyleAttributes = getTextStyleSvg(getEffectiveTextStyle(design), design.textColor, textId);
+    if (outlineFonts) {
+        return `<path d="${outlineTextRuns(runs, outlineFonts, TEXT_FONT_SIZE)}" ${textStyleAttributes} />`;
+    }
+
+    const commonTextProps = `${textStyleAttributes} font-family="'${getFontFamily(getTextFont(design))}', sans-serif"`;
+    return runs.map((run, i) => {
+        const fontSize = `font-size="${run.fontSize ?? TEXT_FONT_SIZE}px"`;
+        if (run.kind === 'path') {
+            const pathId = `text-path-${textId}-${i}`;
+            return `<defs><path id="${pathId}" d="${run.d}" fill="none"/></defs><text><textPath href="#${pathId}" startOffset="50%" text-anchor="middle" ${commonTextProps} ${fontSize}>${escapeXml(run.text)}</textPath></text>`;
+        }
+        const baseline = run.middleBaseline ? ' dominant-baseline="middle"' : '';
+        const rotate = run.rotate ? ` transform="rotate(${run.rotate} ${run.x} ${run.y})"` : '';
+        return `<text x="${run.x}" y="${run.y}" text-anchor="${run.anchor}"${baseline}${rotate} ${commonTextProps} ${fontSize}>${escapeXml(run.text)}</text>`;
+    }).join('\n');
+};
+
+/**
+ * Renders the layout's text and decorations.
+ */
+const getLayoutMarkup = (design: DesignOptions, layout: DesignLayout, textId: string, outlineFonts: ParsedFont[] | null): string => {
+    const decorations = layout.decorations ? `<g color="${design.textColor}">${layout.decorations}</g>\n  ` : '';
+    return decorations + getTextMarkup(design, layout.runs, textId, outlineFonts);
+};
+
 /**
  * Generates an SVG string containing only the text part of the design,
  * laid out as it would be with the logo.
  * @param design The current design options.
- * @param embedFont Whether to embed the font as a data URI for PNG conversion.
+ * @param outlineText Whether to convert the text to paths, so the file doesn't depend on the font.
  * @returns A promise that resolves with the SVG string.
  */
-export const generateTextOnlySvg = async (design: DesignOptions, embedFont: boolean = false): Promise<string> => {
-    const { logo, text, textColor, font, textStyle, gradientStartColor, gradientEndColor } = design;
+export const generateTextOnlySvg = async (design: DesignOptions, outlineText: boolean = false): Promise<string> => {
+    const { logo, text, textColor, gradientStartColor, gradientEndColor } = design;
+    const textStyle = getEffectiveTextStyle(design);
+    const font = getTextFont(design);
 
     if (!logo) throw new Error("Logo is required for layout.");
     if (!text.trim()) return '<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="1000"></svg>';
 
-    const logoDims = await getLogoDimensions(logo);
-    const VIEWBOX_SIZE = 1000;
-    const center = { x: VIEWBOX_SIZE / 2, y: VIEWBOX_SIZE / 2 };
-    
-    const maxLogoDim = 400;
-    const ratio = Math.min(maxLogoDim / logoDims.width, maxLogoDim / logoDims.height, 1);
-    const scaledLogo = { width: logoDims.width * ratio, height: logoDims.height * ratio };
-
-    const fontName = TSHIRT_FONTS.find(f => f.id === font)?.name || 'Impact';
-    const fontUrl = `https://fonts.googleapis.com/css2?family=${fontName.replace(/ /g, '+')}:wght@400;700&display=swap`;
-
-    let fontStyleDef: string;
-    if (embedFont) { // For PNG generation
-        const fontData = await fetchAndEncodeFont(fontUrl); // Use original URL for fetch
-        if (fontData.dataUri) {
-            fontStyleDef = `
-            <style>
-                @font-face {
-                    font-family: '${fontName}';
-                    src: url(${fontData.dataUri}) format('${fontData.format}');
-                }
-            </style>`;
-        } else {
-            // Fallback in case font fetch fails for PNG, still escape for safety
-            fontStyleDef = `<style>@import url('${fontUrl.replace(/&/g, '&amp;')}');</style>`;
-        }
-    } else { // For direct SVG file download
-        // The ampersand in the URL must be escaped for the SVG to be valid XML.
-        fontStyleDef = `<style>@import url('${fontUrl.replace(/&/g, '&amp;')}');</style>`;
-    }
-    
+    const layout = getDesignLayout(design, await getLogoDimensions(logo));
+    const VIEWBOX_SIZE = DESIGN_ARTBOARD_SIZE;
+
+    const outlineFonts = outlineText ? await getFontOutlines(font) : null;
+    // Outlined text no longer refers to the font.
+    const fontStyleDef = outlineFonts ? '' : await getFontStyleDef(font);
+
     const textId = "text-element";
     const textStyleDefs = getTextStyleDefs(textStyle, textColor, gradientStartColor, gradientEndColor, textId);
-    const textElements = getTextElements(design, scaledLogo, center);
+    const textElements = getLayoutMarkup(design, layout, textId, outlineFonts);
 
     return `
 <svg width="${VIEWBOX_SIZE}" height="${VIEWBOX_SIZE}" viewBox="0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}" xmlns="http://www.w3.org/2000/svg">
@@ -275,8 +487,7 @@ export const generateTextOnlySvg = async (design: DesignOptions, embedFont: bool
  * @returns A promise that resolves with the PNG data URL.
  */
 export const generateTextOnlyPng = async (design: DesignOptions): Promise<string> => {
-    // Pass `true` to embed the font as a data URI, which is necessary for canvas rendering.
-    const svgString = await generateTextOnlySvg(design, true);
+    const svgString = await generateTextOnlySvg(design);
     const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
     const url = URL.createObjectURL(svgBlob);
 
@@ -306,95 +517,269 @@ export const generateTextOnlyPng = async (design: DesignOptions): Promise<string
 };
 
 /**
- * Generates a complete SVG string containing both the logo and the text part of the design.
- * @param design The current design options.
- * @param embedFont Whether to embed the font as a data URI for PNG conversion.
- * @returns A promise that resolves with the complete design SVG string.
+ * Builds the logo and text of the design, laid out on a square 1000×1000 artboard.
+ * @param trace Trace options to draw the logo as vector paths, or null to embed it as an image.
+ * @returns The inner SVG markup, without the root element.
  */
-export const generateCombinedSvg = async (design: DesignOptions, embedFont: boolean = false): Promise<string> => {
-    const { logo, text, textColor, font, textStyle, gradientStartColor, gradientEndColor } = design;
-
+const getCombinedContent = async (design: DesignOptions, outlineText: boolean, trace: TraceOptions | null): Promise<string> => {
+    const { logo } = design;
     if (!logo) throw new Error("Logo is required to generate the design SVG.");
 
-    const logoDims = await getLogoDimensions(logo);
-    const VIEWBOX_SIZE = 1000;
-    const center = { x: VIEWBOX_SIZE / 2, y: VIEWBOX_SIZE / 2 };
-
-    const maxLogoDim = 400;
-    const ratio = Math.min(maxLogoDim / logoDims.width, maxLogoDim / logoDims.height, 1);
-    const scaledLogo = { width: logoDims.width * ratio, height: logoDims.height * ratio };
-
-    const logoX = center.x - scaledLogo.width / 2;
-    const logoY = center.y - scaledLogo.height / 2;
-
-    const fontName = TSHIRT_FONTS.find(f => f.id === font)?.name || 'Impact';
-    const fontUrl = `https://fonts.googleapis.com/css2?family=${fontName.replace(/ /g, '+')}:wght@400;700&display=swap`;
-
-    let fontStyleDef: string;
-    if (embedFont) {
-        const fontData = await fetchAndEncodeFont(fontUrl);
-        if (fontData.dataUri) {
-            fontStyleDef = `
-            <style>
-                @font-face {
-                    font-family: '${fontName}';
-                    src: url(${fontData.dataUri}) format('${fontData.format}');
-                }
-            </style>`;
-        } else {
-            fontStyleDef = `<style>@import url('${fontUrl.replace(/&/g, '&amp;')}');</style>`;
-        }
-    } else {
-        fontStyleDef = `<style>@import url('${fontUrl.replace(/&/g, '&amp;')}');</style>`;
-    }
-    
+    const layout = getDesignLayout(design, await getLogoDimensions(logo));
+    const logoMarkup = trace
+        ? getTracedLogoMarkup(await traceLogo(logo, trace), layout.logo)
+        : `<image 
+    href="${logo}" 
+    x="${layout.logo.x}" y="${layout.logo.y}" 
+    width="${layout.logo.width}" height="${layout.logo.height}" 
+    preserveAspectRatio="xMidYMid meet"
+  />`;
+
+    return `${logoMarkup}
+  ${await getTextContent(design, layout, outlineText)}`;
+};
+
+/**
+ * The artboard content of the text and its decorations alone, with the defs it needs.
+ */
+const getTextContent = async (design: DesignOptions, layout: DesignLayout, outlineText: boolean): Promise<string> => {
+    const { text, textColor, gradientStartColor, gradientEndColor } = design;
+    const hasText = text.trim() !== '';
+    const font = getTextFont(design);
+    const outlineFonts = outlineText && hasText ? await getFontOutlines(font) : null;
+    const fontStyleDef = outlineFonts || !hasText ? '' : await getFontStyleDef(font);
     const textId = "design-element";
-    const textStyleDefs = getTextStyleDefs(textStyle, textColor, gradientStartColor, gradientEndColor, textId);
-    const textElements = text.trim() ? getTextElements(design, scaledLogo, center) : '';
+    const textStyleDefs = getTextStyleDefs(getEffectiveTextStyle(design), textColor, gradientStartColor, gradientEndColor, textId);
+    // Without text, the badge rings and other decorations are left out too.
+    const textElements = hasText ? getLayoutMarkup(design, layout, textId, outlineFonts) : '';
 
     return `
-<svg width="${VIEWBOX_SIZE}" height="${VIEWBOX_SIZE}" viewBox="0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
   <defs>
     ${fontStyleDef}
     ${textStyleDefs}
   </defs>
-  <image 
-    href="${logo}" 
-    x="${logoX}" y="${logoY}" 
-    width="${scaledLogo.width}" height="${scaledLogo.height}" 
-    preserveAspectRatio="xMidYMid meet"
-  />
-  ${textElements}
-</svg>`;
+  ${textElements}`;
 };
 
 /**
- * Generates a PNG data URL of the combined design by rendering its SVG to a canvas.
+ * Generates a print-ready SVG of the logo and text, sized to the physical print area
+ * of the product. The root carries real `width`/`height` units (e.g. `12in`) and its
+ * viewBox uses the same unit; the square design artboard is scaled to fit the area
+ * and centered on it. Nothing is drawn behind the design, so the background stays
+ * transparent.
+ * With a cut contour, the bleed or trim marks, the document grows on every side so
+ * they fit, and the print area keeps its coordinates.
  * @param design The current design options.
- * @returns A promise that resolves with the PNG data URL.
+ * @param settings The unit to size the document in, whether to outline the text and trace the logo, the cut contour and the print guides.
+ * @param withGuides Shows the trim edge, bleed and safe zone, for previews; otherwise they are a hidden layer.
+ * @returns A promise that resolves with the complete design SVG string.
+ */
+export const generateCombinedSvg = async (design: DesignOptions, settings: PrintSettings = DEFAULT_PRINT_SETTINGS, withGuides: boolean = false): Promise<string> => {
+    const content = await getCombinedContent(design, settings.outlineText, settings.traceLogo ? settings.trace : null);
+    const contour = settings.cutContour ? await getCutContourMarkup(design, settings.unit, content, settings.contour) : '';
+    const margin = Math.max(settings.cutContour ? getContourMargin(settings.contour) : 0, getGuideMargin(settings.guides));
+    const overlay = contour + getPrintMarks(design, settings.unit, settings.guides) + getTrimGuides(design, settings.unit, settings.guides, withGuides);
+    return toPrintDocument(design, settings.unit, content, overlay, margin);
+};
+
+// Crop and registration marks are in registration black, which prints on every plate.
+const MARK_COLOR = '#000000';
+
+/**
+ * The crop marks at the corners and the registration targets on the sides, outside
+ * the bleed, in the document's units.
+ */
+const getPrintMarks = (design: DesignOptions, unit: PrintUnit, guides: PrintGuideOptions): string => {
+    const lines = guides.cropMarks
+        ? getCropMarkLines(getPrintArea(design), guides).map(([x1, y1, x2, y2]) =>
+            `M${fromInches(x1, unit)} ${fromInches(y1, unit)}L${fromInches(x2, unit)} ${fromInches(y2, unit)}`).join('')
+        : '';
+    const cropMarks = lines ? `
+  <g id="crop-marks" fill="none" stroke="${MARK_COLOR}" stroke-width="${fromInches(REGISTRATION_LINE_WIDTH, unit)}">
+    <path d="${lines}" />
+  </g>` : '';
+    const registrationMarks = guides.registrationMarks ? getRegistrationMarks(design, unit, MARK_COLOR, getRegistrationOffset(guides)) : '';
+    return cropMarks + registrationMarks;
+};
+
+/**
+ * The trim edge (blue dashes), the bleed (red) and the safe zone (pink dots), in the
+ * document's units. Hidden unless shown for a preview, so they travel with the file
+ * as a layer without printing.
  */
-export const generateCombinedPng = async (design: DesignOptions): Promise<string> => {
-    // Pass `true` to embed the font as a data URI for canvas rendering.
-    const svgString = await generateCombinedSvg(design, true);
+const getTrimGuides = (design: DesignOptions, unit: PrintUnit, guides: PrintGuideOptions, isVisible: boolean): string => {
+    if (guides.bleed <= 0 && guides.safeMargin <= 0) return '';
+    const printArea = getPrintArea(design);
+    const safe = getSafeZone(printArea, guides);
+    const length = (inches: number) => fromInches(inches, unit);
+    const trimPath = rectPath(0, 0, length(printArea.width), length(printArea.height));
+    const bleed = guides.bleed > 0
+        ? `<path d="${rectPath(-length(guides.bleed), -length(guides.bleed), length(printArea.width + guides.bleed * 2), length(printArea.height + guides.bleed * 2))}${trimPath}" fill="#ED1C24" fill-opacity="0.15" fill-rule="evenodd" stroke="#ED1C24" />`
+        : '';
+    return `
+  <g id="guides" fill="none" stroke-width="${length(0.015)}"${isVisible ? '' : ' display="none"'}>
+    ${bleed}
+    <path d="${trimPath}" stroke="#00AEEF" stroke-dasharray="${length(0.1)} ${length(0.05)}" />
+    <path d="${rectPath(length(safe.x), length(safe.y), length(safe.width), length(safe.height))}" stroke="#EC008C" stroke-dasharray="${length(0.03)} ${length(0.05)}" />
+  </g>`;
+};
+
+// Text is checked against the safe zone on a render at this resolution, capped for large print areas.
+const SAFE_ZONE_DPI = 100;
+const MAX_SAFE_ZONE_MASK_SIZE = 1200;
+
+export type SafeZoneElement = 'logo' | 'text';
+
+/**
+ * Finds the parts of the design that reach outside the safe zone: the logo by its
+ * box, the text and its decorations by their rendered pixels.
+ * @param design The current design options.
+ * @param guides The safe margin to check against.
+ * @returns A promise that resolves with the elements outside; empty when the design is clear of the edges.
+ */
+export const findSafeZoneViolations = async (design: DesignOptions, guides: PrintGuideOptions): Promise<SafeZoneElement[]> => {
+    const { logo } = design;
+    if (!logo || guides.safeMargin <= 0) return [];
+    const printArea = getPrintArea(design);
+    const safe = getSafeZone(printArea, guides);
+    const isInside = (x0: number, y0: number, x1: number, y1: number) =>
+        x0 >= safe.x && y0 >= safe.y && x1 <= safe.x + safe.width && y1 <= safe.y + safe.height;
+    const violations: SafeZoneElement[] = [];
+
+    // Artboard units to inches, as the artboard is placed by `toPrintDocument`.
+    const layout = getDesignLayout(design, await getLogoDimensions(logo));
+    const artboardSize = Math.min(printArea.width, printArea.height);
+    const toX = (x: number) => (printArea.width - artboardSize) / 2 + (x / DESIGN_ARTBOARD_SIZE) * artboardSize;
+    const toY = (y: number) => (printArea.height - artboardSize) / 2 + (y / DESIGN_ARTBOARD_SIZE) * artboardSize;
+    const { logo: box } = layout;
+    if (!isInside(toX(box.x), toY(box.y), toX(box.x + box.width), toY(box.y + box.height))) violations.push('logo');
+
+    if (design.text.trim() !== '') {
+        const pixelsPerInch = Math.min(SAFE_ZONE_DPI, MAX_SAFE_ZONE_MASK_SIZE / Math.max(printArea.width, printArea.height));
+        const width = Math.round(printArea.width * pixelsPerInch);
+        const height = Math.round(printArea.height * pixelsPerInch);
+        const canvas = await rasterizeSvg(toPrintDocument(design, 'in', await getTextContent(design, layout, false)), width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context for the safe zone check.');
+        const data = ctx.getImageData(0, 0, width, height).data;
+        let [x0, y0, x1, y1] = [width, height, -1, -1];
+        for (let i = 0; i < width * height; i++) {
+            if (data[i * 4 + 3] < 128) continue;
+            const x = i % width;
+            const y = (i - x) / width;
+            [x0, y0, x1, y1] = [Math.min(x0, x), Math.min(y0, y), Math.max(x1, x), Math.max(y1, y)];
+        }
+        if (x1 >= 0 && !isInside(x0 / pixelsPerInch, y0 / pixelsPerInch, x1 / pixelsPerInch, y1 / pixelsPerInch)) violations.push('text');
+    }
+    return violations;
+};
+
+// The silhouette the cut contour is traced from is rendered at this resolution, capped for large print areas.
+const CONTOUR_DPI = 150;
+const MAX_CONTOUR_MASK_SIZE = 1500;
+
+/**
+ * Traces the die-cut line around the rendered artwork, as a "CutContour" spot-color
+ * path in the document's units.
+ */
+const getCutContourMarkup = async (design: DesignOptions, unit: PrintUnit, content: string, options: ContourOptions): Promise<string> => {
+    const printArea = getPrintArea(design);
+    const margin = getContourMargin(options);
+    const pixelsPerInch = Math.min(CONTOUR_DPI, MAX_CONTOUR_MASK_SIZE / (Math.max(printArea.width, printArea.height) + margin * 2));
+    const width = Math.round((printArea.width + margin * 2) * pixelsPerInch);
+    const height = Math.round((printArea.height + margin * 2) * pixelsPerInch);
+
+    const canvas = await rasterizeSvg(toPrintDocument(design, 'in', content, '', margin), width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for the cut contour.');
+    const d = traceCutContour(ctx.getImageData(0, 0, width, height).data, width, height, pixelsPerInch, options);
+    if (!d) return '';
+
+    // Pixels to document units; the mask starts at the top-left corner of the margin.
+    const scale = fromInches(1 / pixelsPerInch, unit);
+    const origin = -fromInches(margin, unit);
+    return `
+  <g id="${CUT_CONTOUR_SPOT_COLOR}">
+    <path d="${d}" transform="translate(${origin} ${origin}) scale(${scale})" fill="none" stroke="${CUT_CONTOUR_COLOR}" stroke-width="${HAIRLINE_INCHES * pixelsPerInch}" />
+  </g>`;
+};
+
+/**
+ * Wraps artboard content in a root sized to the product's print area, with the
+ * artboard scaled to fit and centered on it.
+ * @param overlay Markup drawn over the artboard in the document's own units.
+ * @param margin Extra space around the print area, in inches; the print area keeps its coordinates.
+ */
+const toPrintDocument = (design: DesignOptions, unit: PrintUnit, content: string, overlay: string = '', margin: number = 0): string => {
+    const printArea = getPrintArea(design);
+    const width = formatLength(printArea.width, unit);
+    const height = formatLength(printArea.height, unit);
+    const documentWidth = formatLength(printArea.width + margin * 2, unit);
+    const documentHeight = formatLength(printArea.height + margin * 2, unit);
+    const viewBox = margin > 0
+        ? `-${formatLength(margin, unit)} -${formatLength(margin, unit)} ${documentWidth} ${documentHeight}`
+        : `0 0 ${width} ${height}`;
+    const artboardSize = formatLength(Math.min(printArea.width, printArea.height), unit);
+    const artboardX = formatLength((printArea.width - Math.min(printArea.width, printArea.height)) / 2, unit);
+    const artboardY = formatLength((printArea.height - Math.min(printArea.width, printArea.height)) / 2, unit);
+
+    return `
+<svg width="${documentWidth}${unit}" height="${documentHeight}${unit}" viewBox="${viewBox}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+  <svg x="${artboardX}" y="${artboardY}" width="${artboardSize}" height="${artboardSize}" viewBox="0 0 ${DESIGN_ARTBOARD_SIZE} ${DESIGN_ARTBOARD_SIZE}">
+    ${content}
+  </svg>${overlay}
+</svg>`;
+};
+
+/**
+ * Inserts a pHYs chunk so the PNG opens at the intended physical size in print and
+ * design software instead of the 72/96 DPI they assume otherwise.
+ */
+const withPngResolution = async (png: Blob, dpi: number): Promise<Blob> => {
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    // The 8-byte signature is followed by the 25-byte IHDR chunk; pHYs must come before the image data.
+    const insertAt = 8 + 25;
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+
+    const chunk = new Uint8Array(4 + 4 + 9 + 4);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMetre);
+    view.setUint32(12, pixelsPerMetre);
+    chunk[16] = 1; // unit: metre
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    return new Blob([bytes.subarray(0, insertAt), chunk, bytes.subarray(insertAt)], { type: 'image/png' });
+};
+
+/**
+ * Draws an SVG document onto a new canvas of the given pixel size.
+ * @param drawArea Where the document goes on the canvas, in pixels; the whole canvas by default.
+ */
+const rasterizeSvg = (
+    svgString: string,
+    width: number,
+    height: number,
+    drawArea: { x: number; y: number; width: number; height: number } = { x: 0, y: 0, width, height },
+): Promise<HTMLCanvasElement> => {
     const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
     const url = URL.createObjectURL(svgBlob);
 
-    return new Promise((resolve, reject) => {
+    return new Promise<HTMLCanvasElement>((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
+            URL.revokeObjectURL(url);
             const canvas = document.createElement('canvas');
-            const scale = 2; // Render at 2x resolution for better quality
-            canvas.width = 1000 * scale;
-            canvas.height = 1000 * scale;
+            canvas.width = width;
+            canvas.height = height;
             const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-                URL.revokeObjectURL(url);
-                resolve(canvas.toDataURL('image/png'));
-            } else {
-                URL.revokeObjectURL(url);
+            if (!ctx) {
                 reject(new Error('Could not get canvas context for PNG generation.'));
+                return;
             }
+            ctx.drawImage(img, drawArea.x, drawArea.y, drawArea.width, drawArea.height);
+            resolve(canvas);
         };
         img.onerror = (e) => {
             URL.revokeObjectURL(url);
@@ -405,52 +790,409 @@ export const generateCombinedPng = async (design: DesignOptions): Promise<string
     });
 };
 
+/**
+ * Renders the print-ready design to a transparent PNG at the physical size of the
+ * product's print area and the chosen resolution, e.g. 3600×4800 px for a 12×16 in
+ * chest print at 300 DPI, plus the bleed and trim marks.
+ * @param design The current design options.
+ * @param settings The resolution to render at, and the print guides.
+ * @returns A promise that resolves with the PNG file.
+ */
+export const generateDesignPng = async (design: DesignOptions, settings: PrintSettings = DEFAULT_PRINT_SETTINGS): Promise<Blob> => {
+    // The cut line belongs to the cutter, not the printed image.
+    const svgString = await generateCombinedSvg(design, { ...settings, cutContour: false });
+    const printArea = getPrintArea(design);
+    const margin = getGuideMargin(settings.guides);
+    const { width, height } = getPixelSize({ ...printArea, width: printArea.width + margin * 2, height: printArea.height + margin * 2 }, settings.dpi);
+    const canvas = await rasterizeSvg(svgString, width, height);
+    const png = await new Promise<Blob>((resolve, reject) => {
+        // Browsers return null instead of throwing when the canvas is larger than they support.
+        canvas.toBlob(blob => blob
+            ? resolve(blob)
+            : reject(new Error(`The browser could not render a ${width}×${height} px image. Try a lower DPI.`)), 'image/png');
+    });
+    return withPngResolution(png, settings.dpi);
+};
+
+
+/**
+ * Renders the logo at the laser's line density and reduces it to the 1-bit
+ * bitmap the laser engraves.
+ */
+const getLogoBitmap = async (design: DesignOptions, logo: string, box: Box, settings: EngravingSettings): Promise<Bitmap> => {
+    const img = await loadLogoImage(logo);
+    const printArea = getPrintArea(design);
+    const pixelsPerUnit = (Math.min(printArea.width, printArea.height) / DESIGN_ARTBOARD_SIZE) * settings.dpi;
+    const width = Math.max(1, Math.round(box.width * pixelsPerUnit));
+    const height = Math.max(1, Math.round(box.height * pixelsPerUnit));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for the engraving bitmap.');
+    ctx.drawImage(img, 0, 0, width, height);
+    const gray = toGrayscale(ctx.getImageData(0, 0, width, height).data, width, height, settings.invert);
+    return ditherBitmap(gray, width, height, settings.algorithm, settings.threshold);
+};
+
+// The scored border's distance from the edge.
+const SCORE_INSET_INCHES = 0.25;
+const CUT_CORNER_RADIUS_INCHES = 0.125;
 
 /**
- * Generates an SVG string for laser engraving, combining a monochrome version
- * of the logo and text.
+ * The score and cut lines of an engraving, as layer groups in inches.
+ */
+const getLaserLineLayers = (design: DesignOptions, settings: EngravingSettings): string => {
+    const { width, height } = getPrintArea(design);
+    const layers = getEngravingLayers(design.engravingMaterial, settings);
+    const line = (id: 'score' | 'cut', inset: number) => `
+  <g id="${id}" fill="none" stroke="${LASER_LAYER_COLORS[id]}" stroke-width="${HAIRLINE_INCHES}">
+    <rect x="${inset}" y="${inset}" width="${width - inset * 2}" height="${height - inset * 2}" rx="${CUT_CORNER_RADIUS_INCHES}" />
+  </g>`;
+    return (layers.includes('score') ? line('score', SCORE_INSET_INCHES) : '') + (layers.includes('cut') ? line('cut', 0) : '');
+};
+
+/**
+ * Generates an SVG for laser engraving at the physical size of the engraving area.
+ * The logo is converted to a true 1-bit image (thresholded or dithered) and embedded
+ * as a black-and-transparent PNG, or traced to vector paths; the text is solid black.
+ * The engraving, score and cut parts are separate groups in LightBurn's layer colors.
  * @param design The current design options.
+ * @param settings The dithering, resolution, output and cut/score options.
  * @returns A promise that resolves with the SVG string for engraving.
  */
-export const generateEngravingSvg = async (design: DesignOptions): Promise<string> => {
+export const generateEngravingSvg = async (design: DesignOptions, settings: EngravingSettings = DEFAULT_ENGRAVING_SETTINGS): Promise<string> => {
     const { logo } = design;
     if (!logo) throw new Error("Logo is required for layout.");
-    
-    const logoDims = await getLogoDimensions(logo);
-    const VIEWBOX_SIZE = 1000;
-    const center = { x: VIEWBOX_SIZE / 2, y: VIEWBOX_SIZE / 2 };
-    
-    const maxLogoDim = 400;
-    const ratio = Math.min(maxLogoDim / logoDims.width, maxLogoDim / logoDims.height, 1);
-    const scaledLogo = { width: logoDims.width * ratio, height: logoDims.height * ratio };
-    
-    // Generate SVG for text without embedding the font, as it's for an SVG file.
-    const textSvg = await generateTextOnlySvg({ ...design, textColor: '#000000', textStyle: 'none' }, false);
-    const textSvgContent = textSvg.substring(textSvg.indexOf('<defs>')).replace('</svg>', '');
-
-    const logoX = center.x - scaledLogo.width / 2;
-    const logoY = center.y - scaledLogo.height / 2;
-    
+
+    const layout = getDesignLayout(design, await getLogoDimensions(logo));
+    const { logo: logoBox } = layout;
+    const bitmap = await getLogoBitmap(design, logo, logoBox, settings);
+    const logoMarkup = settings.output === 'vector'
+        // Dithered dots are traced exactly; a thresholded logo gets the same smoothing as traced logos.
+        ? `<path d="${traceBitmap(bitmap, settings.algorithm === 'threshold' ? DEFAULT_TRACE_OPTIONS.smoothing : 0)}" transform="translate(${logoBox.x} ${logoBox.y}) scale(${logoBox.width / bitmap.width} ${logoBox.height / bitmap.height})" fill="#000000" />`
+        : `<image 
+    href="data:image/png;base64,${bytesToBase64(await encodeBitmapPng(bitmap))}" 
+    x="${logoBox.x}" y="${logoBox.y}" 
+    width="${logoBox.width}" height="${logoBox.height}" 
+    preserveAspectRatio="none" style="image-rendering: pixelated"
+  />`;
+
+    // The laser burns the text solid, whatever its color and style.
+    const textContent = await getTextContent({ ...design, textColor: '#000000', textStyle: 'none' }, layout, settings.outlineText);
+
+    return toPrintDocument(design, 'in', `<g id="engrave">
+  ${logoMarkup}
+  ${textContent}
+  </g>`, getLaserLineLayers(design, settings));
+};
+
+
+// Tapered wraps are bent into their arc as an image at this resolution.
+const WRAP_DPI = 300;
+
+/**
+ * The design placed on a wrap strip, in inches from the top-left trim corner. The
+ * design is drawn once as a symbol and used for every copy.
+ */
+const getWrapStripMarkup = (template: WrapTemplate, content: string, repeat: boolean): string => {
+    const copies = getArtworkBoxes(template, repeat).map(box =>
+        `<use href="#wrap-design" x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" />`);
     return `
-<svg width="${VIEWBOX_SIZE}" height="${VIEWBOX_SIZE}" viewBox="0 0 ${VIEWBOX_SIZE} ${VIEWBOX_SIZE}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
   <defs>
-    <filter id="monochrome">
-      <feColorMatrix type="saturate" values="0" />
-    </filter>
+    <symbol id="wrap-design" viewBox="0 0 ${DESIGN_ARTBOARD_SIZE} ${DESIGN_ARTBOARD_SIZE}">
+      ${content}
+    </symbol>
   </defs>
-  ${textSvgContent}
-  <image 
-    href="${logo}" 
-    x="${logoX}" y="${logoY}" 
-    width="${scaledLogo.width}" height="${scaledLogo.height}" 
-    preserveAspectRatio="xMidYMid meet"
-    filter="url(#monochrome)" 
-  />
+  ${copies.join('\n  ')}`;
+};
+
+/**
+ * The trim edge (blue dashes), the safe zone (pink dots) and the handle zones of a
+ * wrap, for previews.
+ */
+const getWrapGuides = (template: WrapTemplate, trimPath: string, safePath: string): string => {
+    const handleZones = template.handleGap
+        ? [0, template.width - template.handleGap].map(x =>
+            `<rect x="${x}" y="0" width="${template.handleGap}" height="${template.height}" fill="#EC008C" fill-opacity="0.15" stroke="none" />`).join('')
+        : '';
+    return `
+  <g id="guides" fill="none" stroke-width="0.015">
+    ${handleZones}
+    <path d="${trimPath}" stroke="#00AEEF" stroke-dasharray="0.1 0.05" />
+    <path d="${safePath}" stroke="#EC008C" stroke-dasharray="0.03 0.05" />
+  </g>`;
+};
+
+const rectPath = (x: number, y: number, width: number, height: number): string =>
+    `M${x} ${y}H${x + width}V${y + height}H${x}Z`;
+
+/**
+ * Generates a sublimation wrap template for a drinkware blank: the design on a
+ * strip as long as the blank's circumference, once or on both halves, with bleed
+ * around the trim edge and mirrored for transfer paper. Straight blanks keep the
+ * strip as vectors; tapered blanks bend it into their arc-shaped template.
+ * @param design The current design options.
+ * @param settings The blank, bleed, repeat, mirror, outline and trace options.
+ * @param withGuides Draws the trim edge and safe zone over the template, for previews.
+ * @returns A promise that resolves with the template SVG string, in inches.
+ */
+export const generateWrapTemplateSvg = async (design: DesignOptions, settings: WrapSettings, withGuides: boolean = false): Promise<string> => {
+    const template = getWrapTemplate(settings.templateId);
+    const { bleed } = settings;
+    const content = await getCombinedContent(design, settings.outlineText, settings.traceLogo ? settings.trace : null);
+    const strip = getWrapStripMarkup(template, content, settings.repeat);
+    const safe = getSafeArea(template);
+
+    let viewBox: { x: number; y: number; width: number; height: number };
+    let artwork: string;
+    let guides = '';
+
+    if (template.bottomWidth === undefined) {
+        viewBox = { x: -bleed, y: -bleed, width: template.width + bleed * 2, height: template.height + bleed * 2 };
+        artwork = strip;
+        if (withGuides) {
+            guides = getWrapGuides(template, rectPath(0, 0, template.width, template.height), rectPath(safe.x, safe.y, safe.width, safe.height));
+        }
+    } else {
+        const stripWidth = Math.round((template.width + bleed * 2) * WRAP_DPI);
+        const stripHeight = Math.round((template.height + bleed * 2) * WRAP_DPI);
+        const stripSvg = `<svg width="${template.width + bleed * 2}in" height="${template.height + bleed * 2}in" viewBox="${-bleed} ${-bleed} ${template.width + bleed * 2} ${template.height + bleed * 2}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${strip}</svg>`;
+        const stripCanvas = await rasterizeSvg(stripSvg, stripWidth, stripHeight);
+        const stripCtx = stripCanvas.getContext('2d');
+        if (!stripCtx) throw new Error('Could not get canvas context for the wrap template.');
+        const warped = warpStripToArc(stripCtx.getImageData(0, 0, stripWidth, stripHeight).data, stripWidth, stripHeight, template, bleed, WRAP_DPI);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = warped.width;
+        canvas.height = warped.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context for the wrap template.');
+        ctx.putImageData(new ImageData(warped.data, warped.width, warped.height), 0, 0);
+        const png = await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob
+                ? resolve(blob)
+                : reject(new Error(`The browser could not render a ${warped.width}×${warped.height} px image.`)), 'image/png');
+        });
+
+        const arc = getArcGeometry(template, bleed);
+        viewBox = { x: 0, y: 0, width: Math.round(arc.width * 1000) / 1000, height: Math.round(arc.height * 1000) / 1000 };
+        artwork = `<image href="data:image/png;base64,${bytesToBase64(new Uint8Array(await png.arrayBuffer()))}" x="0" y="0" width="${viewBox.width}" height="${viewBox.height}" preserveAspectRatio="none" />`;
+        if (withGuides) {
+            const trimPath = getArcSectorPath(arc, arc.innerRadius, arc.outerRadius, arc.halfAngle);
+            const safePath = getArcSectorPath(arc, arc.outerRadius - (safe.y + safe.height), arc.outerRadius - safe.y, (template.width / 2 - safe.x) / arc.outerRadius);
+            guides = getWrapGuides(template, trimPath, safePath);
+        }
+    }
+
+    // Mirrored around the middle of the document.
+    const body = settings.mirror
+        ? `<g transform="translate(${viewBox.x * 2 + viewBox.width} 0) scale(-1 1)">${artwork}</g>`
+        : artwork;
+
+    return `
+<svg width="${viewBox.width}in" height="${viewBox.height}in" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+  ${body}${guides}
 </svg>`;
 };
 
-// This function is imported but not used in App.tsx. Adding a stub implementation to prevent potential future issues.
-export const generateDesignPng = async (design: DesignOptions): Promise<string> => {
-    console.warn("generateDesignPng is not fully implemented.");
-    return "";
+
+// Separations are computed at this resolution, capped for large print areas; the traced screens print sharp at any size.
+const SEPARATION_DPI = 150;
+const MAX_SEPARATION_MASK_SIZE = 2400;
+// Registration targets sit centered in a margin this wide around the print area, all in inches.
+const REGISTRATION_MARGIN = 0.5;
+const REGISTRATION_MARK_SIZE = 0.3;
+const REGISTRATION_LINE_WIDTH = 0.01;
+// Films are output as black positives, whatever the ink.
+const FILM_COLOR = '#000000';
+
+/**
+ * Renders the design over its print area and separates it into screens.
+ * @param design The current design options.
+ * @param settings How the inks are picked and whether to add an underbase.
+ * @returns A promise that resolves with the screens, in press order.
+ */
+export const separateDesign = async (design: DesignOptions, settings: SeparationSettings): Promise<ColorSeparation> => {
+    const printArea = getPrintArea(design);
+    const pixelsPerInch = Math.min(SEPARATION_DPI, MAX_SEPARATION_MASK_SIZE / Math.max(printArea.width, printArea.height));
+    const width = Math.round(printArea.width * pixelsPerInch);
+    const height = Math.round(printArea.height * pixelsPerInch);
+
+    const content = await getCombinedContent(design, false, null);
+    const canvas = await rasterizeSvg(toPrintDocument(design, 'in', content), width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for the color separation.');
+    return separateColors(ctx.getImageData(0, 0, width, height).data, width, height, pixelsPerInch, settings);
+};
+
+/**
+ * A registration target (a circle and crosshair) centered on each side of the
+ * print area, in the document's units.
+ * @param offset How far outside the print area the targets are centered, in inches.
+ */
+const getRegistrationMarks = (design: DesignOptions, unit: PrintUnit, color: string, offset: number = REGISTRATION_MARGIN / 2): string => {
+    const { width, height } = getPrintArea(design);
+    const radius = fromInches(REGISTRATION_MARK_SIZE / 2, unit);
+    const centers = [[width / 2, -offset], [width / 2, height + offset], [-offset, height / 2], [width + offset, height / 2]]
+        .map(([x, y]) => [fromInches(x, unit), fromInches(y, unit)]);
+    const marks = centers.map(([x, y]) =>
+        `<circle cx="${x}" cy="${y}" r="${radius * 0.6}" /><path d="M${x - radius} ${y}H${x + radius}M${x} ${y - radius}V${y + radius}" />`);
+    return `
+  <g id="registration" fill="none" stroke="${color}" stroke-width="${fromInches(REGISTRATION_LINE_WIDTH, unit)}">
+    ${marks.join('\n    ')}
+  </g>`;
+};
+
+/**
+ * One screen as a group, in the document's units.
+ * @param color The fill, the ink's own color unless drawn as a film.
+ */
+const getScreenMarkup = (design: DesignOptions, separation: ColorSeparation, screen: SeparationScreen, index: number, unit: PrintUnit, color: string): string => {
+    const printArea = getPrintArea(design);
+    const scaleX = fromInches(printArea.width / separation.width, unit);
+    const scaleY = fromInches(printArea.height / separation.height, unit);
+    const id = `screen-${index + 1}-${screen.isUnderbase ? 'underbase' : screen.color.slice(1)}`;
+    return `
+  <g id="${id}">
+    <path d="${screen.d}" transform="scale(${scaleX} ${scaleY})" fill="${color}" />
+  </g>`;
+};
+
+const getSeparationMargin = (settings: SeparationSettings): number => (settings.registrationMarks ? REGISTRATION_MARGIN : 0);
+
+/**
+ * Generates the separations as one layered SVG at the physical size of the print
+ * area: a group per screen in press order, each in its ink, plus the registration
+ * marks in their own group.
+ * @param design The current design options.
+ * @param separation The screens from `separateDesign`.
+ * @param settings The unit and whether to add registration marks.
+ * @returns The SVG string.
+ */
+export const generateSeparationSvg = (design: DesignOptions, separation: ColorSeparation, settings: SeparationSettings): string => {
+    const screens = separation.screens.map((screen, i) => getScreenMarkup(design, separation, screen, i, settings.unit, screen.color)).join('');
+    const marks = settings.registrationMarks ? getRegistrationMarks(design, settings.unit, FILM_COLOR) : '';
+    return toPrintDocument(design, settings.unit, '', screens + marks, getSeparationMargin(settings));
+};
+
+/**
+ * Generates the films for the screens: a ZIP with a black-positive PNG per screen
+ * at the chosen resolution, numbered in press order and each with the registration
+ * marks, the layered SVG and a JSON report of the screens.
+ * @param design The current design options.
+ * @param separation The screens from `separateDesign`.
+ * @param settings The resolution and whether to add registration marks.
+ * @returns A promise that resolves with the ZIP file.
+ */
+export const generateSeparationFilms = async (design: DesignOptions, separation: ColorSeparation, settings: SeparationSettings): Promise<Blob> => {
+    const printArea = getPrintArea(design);
+    const margin = getSeparationMargin(settings);
+    const width = Math.round((printArea.width + margin * 2) * settings.dpi);
+    const height = Math.round((printArea.height + margin * 2) * settings.dpi);
+    const marks = settings.registrationMarks ? getRegistrationMarks(design, 'in', FILM_COLOR) : '';
+
+    const entries: ZipEntry[] = [
+        { name: 'separations.svg', data: generateSeparationSvg(design, separation, settings) },
+        { name: 'separations.json', data: getSeparationReportJson(separation) },
+    ];
+    // One at a time: every film is a full-size canvas.
+    for (const [i, screen] of separation.screens.entries()) {
+        const film = toPrintDocument(design, 'in', '', getScreenMarkup(design, separation, screen, i, 'in', FILM_COLOR) + marks, margin);
+        const canvas = await rasterizeSvg(film, width, height);
+        const png = await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob
+                ? resolve(blob)
+                : reject(new Error(`The browser could not render a ${width}×${height} px image. Try a lower DPI.`)), 'image/png');
+        });
+        const name = `${String(i + 1).padStart(2, '0')}_${screen.isUnderbase ? 'underbase' : screen.color.slice(1)}.png`;
+        entries.push({ name, data: new Uint8Array(await (await withPngResolution(png, settings.dpi)).arrayBuffer()) });
+    }
+    return createZip(entries);
+};
+
+// The coarse render that finds the stitched part of the print area, in pixels along its longer side.
+const EMBROIDERY_MEASURE_SIZE = 800;
+// Empty pixels around the artwork, so areas touching its edge still measure their true width.
+const EMBROIDERY_PADDING = 2;
+// Thread is about 0.4 mm thick; the preview's units are 0.1 mm.
+const THREAD_WIDTH = 4;
+
+/**
+ * Digitizes the design for embroidery. Only the part of the print area the logo
+ * and text cover is stitched, scaled to the chosen width.
+ * @param design The current design options.
+ * @param settings The thread colors, stitched width and density.
+ * @returns A promise that resolves with the stitch pattern.
+ */
+export const digitizeDesign = async (design: DesignOptions, settings: EmbroiderySettings): Promise<EmbroideryPattern> => {
+    const printArea = getPrintArea(design);
+    const content = await getCombinedContent(design, false, null);
+    const svgString = toPrintDocument(design, 'in', content);
+
+    const measureScale = EMBROIDERY_MEASURE_SIZE / Math.max(printArea.width, printArea.height);
+    const measureWidth = Math.round(printArea.width * measureScale);
+    const measureHeight = Math.round(printArea.height * measureScale);
+    const measureCtx = (await rasterizeSvg(svgString, measureWidth, measureHeight)).getContext('2d');
+    if (!measureCtx) throw new Error('Could not get canvas context for embroidery digitizing.');
+    const alpha = measureCtx.getImageData(0, 0, measureWidth, measureHeight).data;
+    let [x0, y0, x1, y1] = [measureWidth, measureHeight, -1, -1];
+    for (let i = 0; i < measureWidth * measureHeight; i++) {
+        if (alpha[i * 4 + 3] < 128) continue;
+        const x = i % measureWidth;
+        const y = (i - x) / measureWidth;
+        [x0, y0, x1, y1] = [Math.min(x0, x), Math.min(y0, y), Math.max(x1, x), Math.max(y1, y)];
+    }
+    if (x1 < 0) throw new Error('The design has nothing to stitch.');
+
+    // From the coarse render's pixels to the digitizing grid's.
+    const scale = (settings.width * 25.4) / EMBROIDERY_PIXEL_MM / (x1 - x0 + 1);
+    const width = Math.round((x1 - x0 + 1) * scale) + EMBROIDERY_PADDING * 2;
+    const height = Math.round((y1 - y0 + 1) * scale) + EMBROIDERY_PADDING * 2;
+    const canvas = await rasterizeSvg(svgString, width, height, {
+        x: EMBROIDERY_PADDING - x0 * scale,
+        y: EMBROIDERY_PADDING - y0 * scale,
+        width: measureWidth * scale,
+        height: measureHeight * scale,
+    });
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for embroidery digitizing.');
+    return digitize(ctx.getImageData(0, 0, width, height).data, width, height, settings);
+};
+
+/**
+ * Draws the stitches of a pattern as they'd sew out: every stitch a strand of
+ * thread with a shadow beneath and a sheen on top, jumps left out.
+ * @param pattern The stitch pattern from `digitizeDesign`.
+ * @returns The SVG string, at the stitched size.
+ */
+export const generateEmbroideryPreviewSvg = (pattern: EmbroideryPattern): string => {
+    const xs = pattern.records.map(record => record.x);
+    const ys = pattern.records.map(record => record.y);
+    const minX = Math.min(...xs) - THREAD_WIDTH;
+    const minY = Math.min(...ys) - THREAD_WIDTH;
+    const width = Math.max(...xs) - minX + THREAD_WIDTH;
+    const height = Math.max(...ys) - minY + THREAD_WIDTH;
+
+    // A path per thread, broken at every jump.
+    const paths: string[] = [''];
+    pattern.records.forEach(record => {
+        if (record.type === 'color') paths.push('');
+        else paths[paths.length - 1] += `${record.type === 'jump' ? 'M' : 'L'}${record.x} ${record.y}`;
+    });
+    const threads = pattern.threads.map((block, i) => {
+        const d = (paths[i] || '').replace(/^L/, 'M');
+        return `
+    <g id="thread-${i + 1}">
+      <path d="${d}" stroke="#000000" stroke-opacity="0.35" transform="translate(0.8 1.2)" />
+      <path d="${d}" stroke="${block.thread.color}" />
+      <path d="${d}" stroke="#FFFFFF" stroke-opacity="0.25" stroke-width="${THREAD_WIDTH / 3}" transform="translate(-0.6 -0.6)" />
+    </g>`;
+    }).join('');
+    return `
+<svg width="${width / 10}mm" height="${height / 10}mm" viewBox="${minX} ${minY} ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+  <g fill="none" stroke-width="${THREAD_WIDTH}" stroke-linecap="round" stroke-linejoin="round">${threads}
+  </g>
+</svg>`;
 };
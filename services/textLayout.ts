@@ -0,0 +1,180 @@
+import { RTL_TEXT, ParsedFont, PathCommand, ShapedGlyph } from './fontParser';
+
+/**
+ * Text runs are the exporter's description of where the design text goes: either
+ * a straight line or along a curve. They are rendered as SVG `<text>` elements, or
+ * converted to outlines with the same placement rules the browser applies, so the
+ * outlined file looks like the text version.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type TextRun =
+  | {
+      kind: 'line';
+      text: string;
+      x: number;
+      y: number;
+      anchor: 'start' | 'middle' | 'end';
+      // Centers the text vertically on `y` (dominant-baseline="middle") instead of sitting on it.
+      middleBaseline?: boolean;
+      // Degrees around (x, y), like transform="rotate(...)"; negative turns counter-clockwise.
+      rotate?: number;
+      // Overrides the default font size.
+      fontSize?: number;
+    }
+  | {
+      // Text centered along a curve, like <textPath startOffset="50%" text-anchor="middle">.
+      kind: 'path';
+      text: string;
+      d: string;
+      // The curve flattened to a polyline, used to place outlined glyphs.
+      points: Point[];
+      fontSize?: number;
+    };
+
+const ARC_SEGMENTS = 96;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * A run along part of an ellipse, from `startAngle` to `endAngle` (radians, in SVG's
+ * y-down orientation, so increasing angles go clockwise on screen).
+ */
+export const arcRun = (text: string, cx: number, cy: number, rx: number, ry: number, startAngle: number, endAngle: number): TextRun => {
+  const pointAt = (angle: number): Point => ({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+  const points = Array.from({ length: ARC_SEGMENTS + 1 }, (_, i) => pointAt(startAngle + ((endAngle - startAngle) * i) / ARC_SEGMENTS));
+  const start = points[0];
+  const end = points[ARC_SEGMENTS];
+  const largeArc = Math.abs(endAngle - startAngle) > Math.PI ? 1 : 0;
+  const sweep = endAngle > startAngle ? 1 : 0;
+  const d = `M ${round(start.x)},${round(start.y)} A ${round(rx)},${round(ry)} 0 ${largeArc} ${sweep} ${round(end.x)},${round(end.y)}`;
+  return { kind: 'path', text, d, points };
+};
+
+// --- Outlining ---------------------------------------------------------------
+
+interface PlacedGlyph extends ShapedGlyph {
+  font: ParsedFont;
+}
+
+// [a, b, c, d, e, f]: font units to SVG user units, like an SVG matrix().
+type Transform = [number, number, number, number, number, number];
+
+/**
+ * Shapes the text, taking each character from the first font that has it so a
+ * family split into several files (e.g. Latin and Arabic) works as one.
+ */
+const shapeWithFallback = (text: string, fonts: ParsedFont[]): PlacedGlyph[] => {
+  const segments: { font: ParsedFont; text: string }[] = [];
+  Array.from(text).forEach(char => {
+    const font = fonts.find(f => f.glyphIndex(char.codePointAt(0) as number) !== 0) || fonts[0];
+    const last = segments[segments.length - 1];
+    if (last && (last.font === font || /\s/.test(char))) {
+      last.text += char;
+    } else {
+      segments.push({ font, text: char });
+    }
+  });
+  const shaped = segments.map(segment => segment.font.shape(segment.text).map(glyph => ({ ...glyph, font: segment.font })));
+  // Right-to-left text runs its segments from right to left as well.
+  const isRtl = shaped.length > 1 && RTL_TEXT.test(text);
+  return (isRtl ? shaped.reverse() : shaped).flat();
+};
+
+const glyphToPath = (commands: PathCommand[], [a, b, c, d, e, f]: Transform): string => {
+  const x = (px: number, py: number) => round(a * px + c * py + e);
+  const y = (px: number, py: number) => round(b * px + d * py + f);
+  return commands.map(command => {
+    switch (command.type) {
+      case 'M':
+      case 'L': return `${command.type}${x(command.x, command.y)} ${y(command.x, command.y)}`;
+      case 'Q': return `Q${x(command.x1, command.y1)} ${y(command.x1, command.y1)} ${x(command.x, command.y)} ${y(command.x, command.y)}`;
+      case 'C': return `C${x(command.x1, command.y1)} ${y(command.x1, command.y1)} ${x(command.x2, command.y2)} ${y(command.x2, command.y2)} ${x(command.x, command.y)} ${y(command.x, command.y)}`;
+      default: return 'Z';
+    }
+  }).join('');
+};
+
+const outlineLine = (run: Extract<TextRun, { kind: 'line' }>, glyphs: PlacedGlyph[], fontSize: number): string => {
+  const scaleOf = (font: ParsedFont) => fontSize / font.unitsPerEm;
+  const width = glyphs.reduce((sum, glyph) => sum + glyph.advance * scaleOf(glyph.font), 0);
+  let x = run.anchor === 'middle' ? run.x - width / 2 : run.anchor === 'end' ? run.x - width : run.x;
+  const primary = glyphs[0]?.font;
+  const baseline = run.middleBaseline && primary ? run.y + (primary.xHeight * scaleOf(primary)) / 2 : run.y;
+  const angle = ((run.rotate || 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  return glyphs.map(glyph => {
+    const scale = scaleOf(glyph.font);
+    // The glyph origin, rotated around the run's anchor point.
+    const originX = run.x + cos * (x - run.x) - sin * (baseline - run.y);
+    const originY = run.y + sin * (x - run.x) + cos * (baseline - run.y);
+    const path = glyphToPath(glyph.font.glyphPath(glyph.glyph), [scale * cos, scale * sin, scale * sin, -scale * cos, originX, originY]);
+    x += glyph.advance * scale;
+    return path;
+  }).join('');
+};
+
+/**
+ * Places each glyph so the middle of its advance sits on the curve, rotated to the
+ * curve's direction there. Glyphs that fall off either end are dropped, as the
+ * browser does.
+ */
+const outlineAlongPath = (run: Extract<TextRun, { kind: 'path' }>, glyphs: PlacedGlyph[], fontSize: number): string => {
+  const { points } = run;
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const length = distances[distances.length - 1];
+
+  const locate = (distance: number): { point: Point; angle: number } => {
+    let i = 1;
+    while (i < points.length - 1 && distances[i] < distance) i++;
+    const from = points[i - 1];
+    const to = points[i];
+    const t = (distance - distances[i - 1]) / (distances[i] - distances[i - 1] || 1);
+    return {
+      point: { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t },
+      angle: Math.atan2(to.y - from.y, to.x - from.x),
+    };
+  };
+
+  const scaleOf = (font: ParsedFont) => fontSize / font.unitsPerEm;
+  const width = glyphs.reduce((sum, glyph) => sum + glyph.advance * scaleOf(glyph.font), 0);
+  let offset = length / 2 - width / 2;
+
+  return glyphs.map(glyph => {
+    const scale = scaleOf(glyph.font);
+    const advance = glyph.advance * scale;
+    const middle = offset + advance / 2;
+    offset += advance;
+    if (middle < 0 || middle > length) return '';
+
+    const { point, angle } = locate(middle);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const originX = point.x - (advance / 2) * cos;
+    const originY = point.y - (advance / 2) * sin;
+    // Font x runs along the curve; font y ("up") points to the left of the direction of travel.
+    return glyphToPath(glyph.font.glyphPath(glyph.glyph), [scale * cos, scale * sin, scale * sin, -scale * cos, originX, originY]);
+  }).join('');
+};
+
+/**
+ * Converts text runs to a single SVG path `d` attribute using the font outlines.
+ * @param runs The runs to convert.
+ * @param fonts The font files of the family, in fallback order.
+ * @param fontSize The font size in SVG user units, for runs that don't set their own.
+ */
+export const outlineTextRuns = (runs: TextRun[], fonts: ParsedFont[], fontSize: number): string =>
+  runs.map(run => {
+    const glyphs = shapeWithFallback(run.text, fonts);
+    const size = run.fontSize ?? fontSize;
+    return run.kind === 'line' ? outlineLine(run, glyphs, size) : outlineAlongPath(run, glyphs, size);
+  }).join('');
@@ -0,0 +1,189 @@
+import type { en } from '../i18n/en';
+import { DEFAULT_TRACE_OPTIONS, TraceOptions } from './logoTracer';
+
+/**
+ * Flat sublimation wrap templates for drinkware blanks. The design is laid out on
+ * a straight strip as long as the blank's circumference; straight blanks print the
+ * strip as it is. Tapered blanks are cones, and a cone unrolls into part of a ring,
+ * so their strip is bent into that arc: the top edge becomes the outer arc and the
+ * bottom edge the shorter inner one.
+ *
+ * All lengths are in inches, like the print areas.
+ */
+
+type TranslationKey = keyof typeof en;
+
+export type WrapTemplateId = 'skinny_20oz' | 'skinny_30oz' | 'tapered_20oz' | 'tapered_30oz' | 'mug_11oz' | 'mug_15oz' | 'glass_can_16oz';
+
+export interface WrapTemplate {
+  id: WrapTemplateId;
+  nameKey: TranslationKey;
+  // Around the blank (along the top edge, for tapered blanks) and top to bottom.
+  width: number;
+  height: number;
+  // Tapered blanks: the length of the bottom edge, shorter than the top.
+  bottomWidth?: number;
+  // Mugs: the zone kept clear at each end of the wrap, where it meets the handle.
+  handleGap?: number;
+}
+
+export const WRAP_TEMPLATES: WrapTemplate[] = [
+  { id: 'skinny_20oz', nameKey: 'wrapTemplate_skinny_20oz', width: 9.3, height: 8.2 },
+  { id: 'skinny_30oz', nameKey: 'wrapTemplate_skinny_30oz', width: 9.9, height: 9.2 },
+  { id: 'tapered_20oz', nameKey: 'wrapTemplate_tapered_20oz', width: 9.6, height: 7.9, bottomWidth: 8.3 },
+  { id: 'tapered_30oz', nameKey: 'wrapTemplate_tapered_30oz', width: 10.6, height: 8.5, bottomWidth: 8.8 },
+  { id: 'mug_11oz', nameKey: 'wrapTemplate_mug_11oz', width: 8.5, height: 3.5, handleGap: 0.5 },
+  { id: 'mug_15oz', nameKey: 'wrapTemplate_mug_15oz', width: 8.5, height: 4, handleGap: 0.5 },
+  { id: 'glass_can_16oz', nameKey: 'wrapTemplate_glass_can_16oz', width: 9.5, height: 4.5 },
+];
+
+export const WRAP_BLEED_OPTIONS = [0, 0.0625, 0.125, 0.25] as const;
+export type WrapBleed = typeof WRAP_BLEED_OPTIONS[number];
+
+export interface WrapSettings {
+  templateId: WrapTemplateId;
+  // Places the design twice, centered on each half of the wrap, so it shows from both sides.
+  repeat: boolean;
+  // Extra print beyond the trim edge on every side.
+  bleed: WrapBleed;
+  // Sublimation prints face down onto the blank, so the print has to be mirrored.
+  mirror: boolean;
+  outlineText: boolean;
+  // Draws the logo as vector paths instead of embedding the image.
+  traceLogo: boolean;
+  trace: TraceOptions;
+}
+
+export const getDefaultWrapSettings = (templateId: WrapTemplateId): WrapSettings => ({
+  templateId,
+  repeat: false,
+  bleed: 0.125,
+  mirror: true,
+  outlineText: false,
+  traceLogo: false,
+  trace: DEFAULT_TRACE_OPTIONS,
+});
+
+// Kept clear along every trim edge, as the press doesn't reach the very edge evenly.
+const SAFE_MARGIN = 0.125;
+
+export const getWrapTemplate = (id: WrapTemplateId): WrapTemplate =>
+  WRAP_TEMPLATES.find(template => template.id === id) || WRAP_TEMPLATES[0];
+
+export interface WrapBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The part of the strip the design may use: inside the safe margin, and clear of
+ * the handle on mugs.
+ */
+export const getSafeArea = (template: WrapTemplate): WrapBox => {
+  const side = SAFE_MARGIN + (template.handleGap || 0);
+  return { x: side, y: SAFE_MARGIN, width: template.width - side * 2, height: template.height - SAFE_MARGIN * 2 };
+};
+
+/**
+ * Where the square design artboard goes on the strip: once in the middle, or once
+ * in the middle of each half.
+ */
+export const getArtworkBoxes = (template: WrapTemplate, repeat: boolean): WrapBox[] => {
+  const safe = getSafeArea(template);
+  const copies = repeat ? 2 : 1;
+  const slotWidth = safe.width / copies;
+  const size = Math.min(slotWidth, safe.height);
+  return Array.from({ length: copies }, (_, i) => ({
+    x: safe.x + slotWidth * i + (slotWidth - size) / 2,
+    y: safe.y + (safe.height - size) / 2,
+    width: size,
+    height: size,
+  }));
+};
+
+// --- Tapered blanks ----------------------------------------------------------
+
+export interface ArcGeometry {
+  innerRadius: number;
+  outerRadius: number;
+  // Half the angle the trim edge spans, in radians.
+  halfAngle: number;
+  // The bounding box of the bled arc, with the ring's center at (centerX, centerY).
+  width: number;
+  height: number;
+  centerX: number;
+  centerY: number;
+}
+
+/**
+ * The ring a tapered blank unrolls into. Both edges span the same angle, so their
+ * radii are in the ratio of their lengths, and differ by the height.
+ * @param bleed Added to both radii and, measured along the top edge, to both ends.
+ */
+export const getArcGeometry = (template: WrapTemplate, bleed: number): ArcGeometry => {
+  const bottomWidth = template.bottomWidth ?? template.width;
+  const innerRadius = (template.height * bottomWidth) / (template.width - bottomWidth);
+  const outerRadius = innerRadius + template.height;
+  const halfAngle = template.width / 2 / outerRadius;
+  const bledAngle = halfAngle + bleed / outerRadius;
+  const width = 2 * (outerRadius + bleed) * Math.sin(bledAngle);
+  const height = outerRadius + bleed - (innerRadius - bleed) * Math.cos(bledAngle);
+  return { innerRadius, outerRadius, halfAngle, width, height, centerX: width / 2, centerY: outerRadius + bleed };
+};
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * An outline of part of the ring, as an SVG path in the arc's bounding box units.
+ */
+export const getArcSectorPath = (arc: ArcGeometry, innerRadius: number, outerRadius: number, halfAngle: number): string => {
+  const point = (radius: number, angle: number) =>
+    `${round(arc.centerX + radius * Math.sin(angle))} ${round(arc.centerY - radius * Math.cos(angle))}`;
+  return `M${point(outerRadius, -halfAngle)}A${round(outerRadius)} ${round(outerRadius)} 0 0 1 ${point(outerRadius, halfAngle)}`
+    + `L${point(innerRadius, halfAngle)}A${round(innerRadius)} ${round(innerRadius)} 0 0 0 ${point(innerRadius, -halfAngle)}Z`;
+};
+
+/**
+ * Bends the rendered strip (trim plus bleed on every side) into the arc. Every
+ * pixel of the arc picks the strip pixel at its distance along the top edge and
+ * its depth below it.
+ * @param pixelsPerInch The resolution of the strip, and of the result.
+ */
+export const warpStripToArc = (
+  strip: Uint8ClampedArray,
+  stripWidth: number,
+  stripHeight: number,
+  template: WrapTemplate,
+  bleed: number,
+  pixelsPerInch: number,
+): { data: Uint8ClampedArray; width: number; height: number } => {
+  const arc = getArcGeometry(template, bleed);
+  const width = Math.round(arc.width * pixelsPerInch);
+  const height = Math.round(arc.height * pixelsPerInch);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const bledAngle = arc.halfAngle + bleed / arc.outerRadius;
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const dx = (px + 0.5) / pixelsPerInch - arc.centerX;
+      const dy = arc.centerY - (py + 0.5) / pixelsPerInch;
+      const radius = Math.hypot(dx, dy);
+      const angle = Math.atan2(dx, dy);
+      if (radius < arc.innerRadius - bleed || radius > arc.outerRadius + bleed || Math.abs(angle) > bledAngle) continue;
+      // Strip inches, from the top-left corner of the bleed.
+      const u = (angle + bledAngle) * arc.outerRadius;
+      const v = arc.outerRadius + bleed - radius;
+      const sx = Math.min(stripWidth - 1, Math.floor(u * pixelsPerInch));
+      const sy = Math.min(stripHeight - 1, Math.floor(v * pixelsPerInch));
+      const from = (sy * stripWidth + sx) * 4;
+      const to = (py * width + px) * 4;
+      data[to] = strip[from];
+      data[to + 1] = strip[from + 1];
+      data[to + 2] = strip[from + 2];
+      data[to + 3] = strip[from + 3];
+    }
+  }
+  return { data, width, height };
+};
@@ -19,6 +19,9 @@ export type ModelAudience =
   'man_50s_distinguished';
 
 export type TshirtFont = 'cairo' | 'impact' | 'bebas_neue' | 'lobster' | 'montserrat' | 'oswald' | 'anton' | 'archivo_black' | 'pacifico' | 'bangers' | 'permanent_marker' | 'roboto' | 'playfair_display' | 'creepster' | 'nosifier' | 'merriweather' | 'lato' | 'poppins' | 'zilla_slab' | 'caveat' | 'dancing_script' | 'rock_salt' | 'special_elite' | 'press_start_2p' | 'monoton';
+// A font file uploaded by the user and stored in the browser (see services/fontManager.ts).
+export type CustomFontId = `custom:${string}`;
+export type DesignFont = TshirtFont | CustomFontId;
 
 // New types
 export type ProductType = 'tshirt' | 'sweatshirt' | 'hoodie' | 'bag' | 'frame' | 'mug' | 'sipper_glass' | 'tumbler_wrap' | 'halloween_tumbler' | 'tumbler_trio' | 'laser_engraving' | 'phone_case' | 'sticker' | 'poster' | 'wallet' | 'cap' | 'beanie' | 'pillow' | 'flat_lay' | 'jigsaw_puzzle' | 'laptop_sleeve' | 'tshirt_teacup_scene' | 'sweatshirt_mug_scene' | 'hoodie_teacup_scene' | 'sweatshirt_teacup_scene';
@@ -67,6 +70,8 @@ export type PuzzleSetting = 'on_wooden_table' | 'family_playing' | 'flat_lay_min
 // Laptop Sleeve Types
 export type LaptopSleeveStyle = 'neoprene' | 'leather_folio' | 'canvas_pouch';
 export type LaptopSleeveSetting = 'on_desk_modern' | 'person_carrying_street' | 'flat_lay_minimalist';
+// Laser Engraving Types
+export type EngravingMaterial = 'wood' | 'slate' | 'anodized_aluminum' | 'acrylic' | 'leather' | 'glass';
 
 
 export type ImageMode = 'fit' | 'fit_blur' | 'fit_transparent' | 'crop' | 'stretch';
@@ -101,6 +106,8 @@ export type WritingTemplateCategory = {
 export type ArtisticFilter = 'none' | 'sepia' | 'grayscale' | 'vintage' | 'noir';
 export type DesignPlacement = 'center' | 'center_right' | 'center_left' | 'top_center' | 'top_right' | 'top_left' | 'bottom_center' | 'bottom_right' | 'bottom_left';
 export type ProductTexture = 'none' | 'watercolor_splash_pale' | 'watercolor_splash_vibrant' | 'watercolor_splash_artistic';
+// How the design is produced on the product (see services/printMethods.ts).
+export type PrintMethod = 'dtg' | 'screen_print' | 'embroidery' | 'sublimation' | 'dtf';
 
 export interface DesignOptions {
   productType: ProductType;
@@ -108,7 +115,7 @@ export interface DesignOptions {
   text: string;
   productColor: string; // Renamed from tshirtColor
   textColor: string;
-  font: TshirtFont;
+  font: DesignFont;
   textStyle: TextStyle;
   gradientStartColor: string;
   gradientEndColor: string;
@@ -118,6 +125,7 @@ export interface DesignOptions {
   artisticFilter: ArtisticFilter;
   designPlacement: DesignPlacement;
   productTexture: ProductTexture;
+  printMethod: PrintMethod;
   
   // T-shirt specific
   style: DesignStyle;
@@ -191,6 +199,9 @@ export interface DesignOptions {
   // Laptop Sleeve specific
   laptopSleeveStyle: LaptopSleeveStyle;
   laptopSleeveSetting: LaptopSleeveSetting;
+
+  // Laser Engraving specific
+  engravingMaterial: EngravingMaterial;
 }
 
 export type SetDesignOptions = React.Dispatch<React.SetStateAction<DesignOptions>>;
\ No newline at end of file